@@ -0,0 +1,128 @@
+/**
+ * Completion Registry
+ *
+ * Answers MCP completion/complete requests for prompt arguments and resource
+ * template variables that name a repertory, materia medica or remedy.
+ */
+
+import type { IOOREPClient } from '../interfaces/IOOREPClient.js';
+import type { PromptRegistry } from '../prompts/index.js';
+import type { ResourceRegistry } from '../resources/index.js';
+import {
+  matchCompletions,
+  matchListCompletions,
+  type CompletionCandidate,
+  type CompletionMatches,
+} from '../lib/completion.js';
+import { logger } from '../utils/logger.js';
+
+export type CompletionReference =
+  { type: 'ref/prompt'; name: string } | { type: 'ref/resource'; uri: string };
+
+export interface CompletionRequest {
+  ref: CompletionReference;
+  argument: { name: string; value: string };
+  /** Values of arguments the client has already filled in */
+  context?: { arguments?: Record<string, string> };
+}
+
+type CompletionSource = 'repertory' | 'materiamedica' | 'remedy' | 'remedies';
+
+/** Argument names completed from OOREP's catalogues, wherever they appear */
+const ARGUMENT_SOURCES: Record<string, CompletionSource> = {
+  repertory: 'repertory',
+  materiamedica: 'materiamedica',
+  remedy: 'remedy',
+  remedies: 'remedies',
+};
+
+/** Sources of the `{abbrev}` template variable, by the template's URI prefix */
+const ABBREV_SOURCES: Array<[prefix: string, source: CompletionSource]> = [
+  ['oorep://repertories/', 'repertory'],
+  ['oorep://materia-medicas/', 'materiamedica'],
+  ['oorep://remedies/', 'remedy'],
+];
+
+const EMPTY_COMPLETION: CompletionMatches = { values: [], total: 0, hasMore: false };
+
+export class CompletionRegistry {
+  constructor(
+    private readonly client: IOOREPClient,
+    private readonly promptRegistry: PromptRegistry,
+    private readonly resourceRegistry: ResourceRegistry
+  ) {}
+
+  /**
+   * Complete an argument value
+   *
+   * A `language` argument in the request context limits repertories and
+   * materia medicas to that language. Unknown references, arguments without a
+   * catalogue and lookup failures all complete to nothing.
+   */
+  async complete(request: CompletionRequest): Promise<CompletionMatches> {
+    const source = this.getSource(request.ref, request.argument.name);
+    if (!source) {
+      return EMPTY_COMPLETION;
+    }
+
+    try {
+      const language = request.context?.arguments?.language?.trim() || undefined;
+      const candidates = await this.getCandidates(source, language);
+      return source === 'remedies'
+        ? matchListCompletions(request.argument.value, candidates)
+        : matchCompletions(request.argument.value, candidates);
+    } catch (error) {
+      logger.warn('Completion lookup failed', { source, error });
+      return EMPTY_COMPLETION;
+    }
+  }
+
+  /**
+   * Catalogue an argument is completed from, if the reference exposes it
+   */
+  private getSource(ref: CompletionReference, argument: string): CompletionSource | undefined {
+    if (ref.type === 'ref/prompt') {
+      const prompt = this.promptRegistry.getDefinitions().find((p) => p.name === ref.name);
+      return prompt?.arguments?.some((arg) => arg.name === argument)
+        ? ARGUMENT_SOURCES[argument]
+        : undefined;
+    }
+
+    const template = this.resourceRegistry
+      .getTemplateDefinitions()
+      .find((t) => t.uriTemplate === ref.uri);
+    if (!template?.uriTemplate.includes(`{${argument}}`)) {
+      return undefined;
+    }
+    if (argument === 'abbrev') {
+      return ABBREV_SOURCES.find(([prefix]) => template.uriTemplate.startsWith(prefix))?.[1];
+    }
+    return ARGUMENT_SOURCES[argument];
+  }
+
+  private async getCandidates(
+    source: CompletionSource,
+    language: string | undefined
+  ): Promise<CompletionCandidate[]> {
+    switch (source) {
+      case 'repertory':
+        return (await this.client.listRepertories({ language })).map((r) => ({
+          value: r.abbreviation,
+          aliases: [r.title, ...(r.author ? [r.author] : [])],
+        }));
+
+      case 'materiamedica':
+        return (await this.client.listMateriaMedicas({ language })).map((mm) => ({
+          value: mm.abbreviation,
+          aliases: [mm.title, ...(mm.author ? [mm.author] : [])],
+        }));
+
+      case 'remedy':
+      case 'remedies':
+        return (await this.client.listRemedies()).map((remedy) => ({
+          value: remedy.nameAbbrev,
+          aliases: [remedy.nameLong, ...(remedy.nameAlt ?? [])],
+        }));
+    }
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Unit tests for completion registry
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CompletionRegistry } from './index.js';
+import { PromptRegistry } from '../prompts/index.js';
+import { ResourceRegistry } from '../resources/index.js';
+import type { OOREPConfig } from '../config.js';
+import { createMockSDKClient } from '../tools/test-helpers.js';
+
+const RUBRIC_TEMPLATE = 'oorep://repertories/{abbrev}/rubrics/{id}';
+
+describe('CompletionRegistry', () => {
+  let client: ReturnType<typeof createMockSDKClient>;
+  let registry: CompletionRegistry;
+
+  beforeEach(() => {
+    client = createMockSDKClient();
+    client.listRepertories.mockResolvedValue([
+      { abbreviation: 'kent', title: 'Kent Repertory', author: 'J.T. Kent', language: 'en' },
+      { abbreviation: 'kent-de', title: 'Kents Repertorium', language: 'de' },
+      { abbreviation: 'boger', title: 'Boger Boenninghausen', language: 'en' },
+    ]);
+    client.listRemedies.mockResolvedValue([
+      { id: 1, nameAbbrev: 'Acon.', nameLong: 'Aconitum napellus', nameAlt: ['Aconite'] },
+      { id: 2, nameAbbrev: 'Bell.', nameLong: 'Belladonna' },
+      { id: 3, nameAbbrev: 'Bry.', nameLong: 'Bryonia alba' },
+    ]);
+
+    const config = { baseUrl: 'https://test.oorep.com' } as OOREPConfig;
+    registry = new CompletionRegistry(
+      client,
+      new PromptRegistry(),
+      new ResourceRegistry(config, client)
+    );
+  });
+
+  it('complete when remedies prompt argument then completes the last list entry', async () => {
+    const result = await registry.complete({
+      ref: { type: 'ref/prompt', name: 'remedy-comparison' },
+      argument: { name: 'remedies', value: 'Acon., b' },
+    });
+
+    expect(result).toEqual({ values: ['Acon., Bell.', 'Acon., Bry.'], total: 2, hasMore: false });
+  });
+
+  it('complete when remedy typed by alternate name then suggests its abbreviation', async () => {
+    const result = await registry.complete({
+      ref: { type: 'ref/prompt', name: 'remedy-comparison' },
+      argument: { name: 'remedies', value: 'aconite' },
+    });
+
+    expect(result.values).toEqual(['Acon.']);
+  });
+
+  it('complete when rubric template abbrev then completes repertory abbreviations', async () => {
+    const result = await registry.complete({
+      ref: { type: 'ref/resource', uri: RUBRIC_TEMPLATE },
+      argument: { name: 'abbrev', value: 'ke' },
+    });
+
+    expect(result.values).toEqual(['kent', 'kent-de']);
+    expect(client.listRepertories).toHaveBeenCalledWith({ language: undefined });
+  });
+
+  it('complete when remedy template abbrev then completes remedy abbreviations', async () => {
+    const result = await registry.complete({
+      ref: { type: 'ref/resource', uri: 'oorep://remedies/{abbrev}' },
+      argument: { name: 'abbrev', value: 'bel' },
+    });
+
+    expect(result.values).toEqual(['Bell.']);
+  });
+
+  it('complete when language in context then filters repertories by it', async () => {
+    await registry.complete({
+      ref: { type: 'ref/resource', uri: RUBRIC_TEMPLATE },
+      argument: { name: 'abbrev', value: '' },
+      context: { arguments: { language: ' de ' } },
+    });
+
+    expect(client.listRepertories).toHaveBeenCalledWith({ language: 'de' });
+  });
+
+  it('complete when argument has no catalogue then returns no values', async () => {
+    const result = await registry.complete({
+      ref: { type: 'ref/resource', uri: RUBRIC_TEMPLATE },
+      argument: { name: 'id', value: '1' },
+    });
+
+    expect(result).toEqual({ values: [], total: 0, hasMore: false });
+    expect(client.listRepertories).not.toHaveBeenCalled();
+  });
+
+  it('complete when prompt does not declare the argument then returns no values', async () => {
+    const result = await registry.complete({
+      ref: { type: 'ref/prompt', name: 'analyze-symptoms' },
+      argument: { name: 'remedies', value: 'a' },
+    });
+
+    expect(result.values).toEqual([]);
+    expect(client.listRemedies).not.toHaveBeenCalled();
+  });
+
+  it('complete when reference is unknown then returns no values', async () => {
+    const prompt = await registry.complete({
+      ref: { type: 'ref/prompt', name: 'missing' },
+      argument: { name: 'remedies', value: 'a' },
+    });
+    const resource = await registry.complete({
+      ref: { type: 'ref/resource', uri: 'oorep://missing/{abbrev}' },
+      argument: { name: 'abbrev', value: 'a' },
+    });
+
+    expect(prompt.values).toEqual([]);
+    expect(resource.values).toEqual([]);
+  });
+
+  it('complete when lookup fails then returns no values', async () => {
+    client.listRemedies.mockRejectedValue(new Error('Network error'));
+
+    const result = await registry.complete({
+      ref: { type: 'ref/prompt', name: 'remedy-comparison' },
+      argument: { name: 'remedies', value: 'a' },
+    });
+
+    expect(result).toEqual({ values: [], total: 0, hasMore: false });
+  });
+
+  it('complete when prompt disabled by config then returns no values', async () => {
+    registry = new CompletionRegistry(
+      client,
+      new PromptRegistry({ prompts: { disabled: ['remedy-comparison'] } }),
+      new ResourceRegistry({ baseUrl: 'https://test.oorep.com' } as OOREPConfig, client)
+    );
+
+    const result = await registry.complete({
+      ref: { type: 'ref/prompt', name: 'remedy-comparison' },
+      argument: { name: 'remedies', value: 'a' },
+    });
+
+    expect(result.values).toEqual([]);
+    expect(client.listRemedies).not.toHaveBeenCalled();
+  });
+});
@@ -2,18 +2,74 @@
  * Configuration management for OOREP MCP server
  */
 
+import { readFileSync } from 'node:fs';
 import { logger } from './utils/logger.js';
 import { DEFAULTS } from './sdk/constants.js';
+import { ServerConfigFileSchema, z, type ServerConfigFile } from './utils/schemas.js';
+
+export const TRANSPORTS = ['stdio', 'http'] as const;
+export type Transport = (typeof TRANSPORTS)[number];
 
 export interface OOREPConfig {
   baseUrl: string;
   timeoutMs: number;
   cacheTtlMs: number;
+  /** Most entries each cache keeps before evicting the least recently used, 0 for no limit */
+  cacheMaxEntries?: number;
+  /** Approximate memory limit of each cache in bytes, 0 for no limit */
+  cacheMaxBytes?: number;
+  /** Directory for a cache that persists across restarts; in memory when unset */
+  cacheDir?: string;
+  /** Cache TTL for remedy, repertory and materia medica lists; follows cacheTtlMs when unset */
+  catalogCacheTtlMs?: number;
+  /** How long expired results are still served while they are refreshed, 0 to disable */
+  staleWhileRevalidateMs?: number;
+  /** Cache TTL for searches that found nothing, 0 to not cache them */
+  negativeCacheTtlMs?: number;
   maxResults: number;
   logLevel: string;
   defaultRepertory: string;
   defaultMateriaMedica: string;
   remoteUser?: string;
+  /** JSON file for saved cases; cases are kept in memory when unset */
+  casesFile?: string;
+  /** How MCP clients connect (default: stdio) */
+  transport?: Transport;
+  /** Interface the HTTP transport listens on (default: 127.0.0.1) */
+  httpHost?: string;
+  /** Port the HTTP transport listens on (default: 3000) */
+  httpPort?: number;
+  /** URL path of the MCP endpoint (default: /mcp) */
+  httpPath?: string;
+  /** JSON file that the tools, resources and prompts settings were loaded from */
+  configFile?: string;
+  /** Disabled tools and per-tool defaults and maxResults limits */
+  tools?: ServerConfigFile['tools'];
+  /** Disabled resources and resource templates */
+  resources?: ServerConfigFile['resources'];
+  /** Disabled prompts */
+  prompts?: ServerConfigFile['prompts'];
+}
+
+/**
+ * Read and validate a server config file
+ *
+ * @throws {Error} If the file cannot be read, is not JSON, or does not match the schema
+ */
+export function loadConfigFile(path: string): ServerConfigFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to read config file ${path}: ${reason}`, { cause: error });
+  }
+
+  const parsed = ServerConfigFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid config file ${path}:\n${z.prettifyError(parsed.error)}`);
+  }
+  return parsed.data;
 }
 
 /**
@@ -24,11 +80,37 @@ export function getConfig(): OOREPConfig {
     baseUrl: process.env.OOREP_MCP_BASE_URL ?? DEFAULTS.BASE_URL,
     timeoutMs: parseInt(process.env.OOREP_MCP_TIMEOUT_MS ?? String(DEFAULTS.TIMEOUT_MS), 10),
     cacheTtlMs: parseInt(process.env.OOREP_MCP_CACHE_TTL_MS ?? String(DEFAULTS.CACHE_TTL_MS), 10),
+    cacheMaxEntries: parseInt(
+      process.env.OOREP_MCP_CACHE_MAX_ENTRIES ?? String(DEFAULTS.CACHE_MAX_ENTRIES),
+      10
+    ),
+    cacheMaxBytes: parseInt(
+      process.env.OOREP_MCP_CACHE_MAX_BYTES ?? String(DEFAULTS.CACHE_MAX_BYTES),
+      10
+    ),
+    cacheDir: process.env.OOREP_MCP_CACHE_DIR,
+    catalogCacheTtlMs: process.env.OOREP_MCP_CATALOG_CACHE_TTL_MS
+      ? parseInt(process.env.OOREP_MCP_CATALOG_CACHE_TTL_MS, 10)
+      : undefined,
+    staleWhileRevalidateMs: parseInt(
+      process.env.OOREP_MCP_STALE_WHILE_REVALIDATE_MS ?? String(DEFAULTS.STALE_WHILE_REVALIDATE_MS),
+      10
+    ),
+    negativeCacheTtlMs: parseInt(
+      process.env.OOREP_MCP_NEGATIVE_CACHE_TTL_MS ?? String(DEFAULTS.NEGATIVE_CACHE_TTL_MS),
+      10
+    ),
     maxResults: parseInt(process.env.OOREP_MCP_MAX_RESULTS ?? String(DEFAULTS.MAX_RESULTS), 10),
     logLevel: process.env.OOREP_MCP_LOG_LEVEL ?? DEFAULTS.LOG_LEVEL,
     defaultRepertory: process.env.OOREP_MCP_DEFAULT_REPERTORY ?? DEFAULTS.REPERTORY,
     defaultMateriaMedica: process.env.OOREP_MCP_DEFAULT_MATERIA_MEDICA ?? DEFAULTS.MATERIA_MEDICA,
     remoteUser: process.env.OOREP_MCP_REMOTE_USER,
+    casesFile: process.env.OOREP_MCP_CASES_FILE,
+    transport: (process.env.OOREP_MCP_TRANSPORT ?? DEFAULTS.TRANSPORT) as Transport,
+    httpHost: process.env.OOREP_MCP_HTTP_HOST ?? DEFAULTS.HTTP_HOST,
+    httpPort: parseInt(process.env.OOREP_MCP_HTTP_PORT ?? String(DEFAULTS.HTTP_PORT), 10),
+    httpPath: process.env.OOREP_MCP_HTTP_PATH ?? DEFAULTS.HTTP_PATH,
+    configFile: process.env.OOREP_MCP_CONFIG,
   };
 
   // Parse CLI arguments (override env vars)
@@ -54,6 +136,45 @@ export function getConfig(): OOREPConfig {
         config.cacheTtlMs = parsed;
         break;
       }
+      case '--cache-max-entries': {
+        if (i + 1 >= args.length) throw new Error(`Missing value for ${arg}`);
+        const parsed = parseInt(args[++i], 10);
+        if (isNaN(parsed)) throw new Error(`Invalid numeric value for ${arg}`);
+        config.cacheMaxEntries = parsed;
+        break;
+      }
+      case '--cache-max-bytes': {
+        if (i + 1 >= args.length) throw new Error(`Missing value for ${arg}`);
+        const parsed = parseInt(args[++i], 10);
+        if (isNaN(parsed)) throw new Error(`Invalid numeric value for ${arg}`);
+        config.cacheMaxBytes = parsed;
+        break;
+      }
+      case '--cache-dir':
+        if (i + 1 >= args.length) throw new Error(`Missing value for ${arg}`);
+        config.cacheDir = args[++i];
+        break;
+      case '--catalog-cache-ttl': {
+        if (i + 1 >= args.length) throw new Error(`Missing value for ${arg}`);
+        const parsed = parseInt(args[++i], 10);
+        if (isNaN(parsed)) throw new Error(`Invalid numeric value for ${arg}`);
+        config.catalogCacheTtlMs = parsed;
+        break;
+      }
+      case '--stale-while-revalidate': {
+        if (i + 1 >= args.length) throw new Error(`Missing value for ${arg}`);
+        const parsed = parseInt(args[++i], 10);
+        if (isNaN(parsed)) throw new Error(`Invalid numeric value for ${arg}`);
+        config.staleWhileRevalidateMs = parsed;
+        break;
+      }
+      case '--negative-cache-ttl': {
+        if (i + 1 >= args.length) throw new Error(`Missing value for ${arg}`);
+        const parsed = parseInt(args[++i], 10);
+        if (isNaN(parsed)) throw new Error(`Invalid numeric value for ${arg}`);
+        config.negativeCacheTtlMs = parsed;
+        break;
+      }
       case '--max-results': {
         if (i + 1 >= args.length) throw new Error(`Missing value for ${arg}`);
         const parsed = parseInt(args[++i], 10);
@@ -69,6 +190,33 @@ export function getConfig(): OOREPConfig {
         if (i + 1 >= args.length) throw new Error(`Missing value for ${arg}`);
         config.remoteUser = args[++i];
         break;
+      case '--cases-file':
+        if (i + 1 >= args.length) throw new Error(`Missing value for ${arg}`);
+        config.casesFile = args[++i];
+        break;
+      case '--transport':
+        if (i + 1 >= args.length) throw new Error(`Missing value for ${arg}`);
+        config.transport = args[++i] as Transport;
+        break;
+      case '--host':
+        if (i + 1 >= args.length) throw new Error(`Missing value for ${arg}`);
+        config.httpHost = args[++i];
+        break;
+      case '--port': {
+        if (i + 1 >= args.length) throw new Error(`Missing value for ${arg}`);
+        const parsed = parseInt(args[++i], 10);
+        if (isNaN(parsed)) throw new Error(`Invalid numeric value for ${arg}`);
+        config.httpPort = parsed;
+        break;
+      }
+      case '--http-path':
+        if (i + 1 >= args.length) throw new Error(`Missing value for ${arg}`);
+        config.httpPath = args[++i];
+        break;
+      case '--config':
+        if (i + 1 >= args.length) throw new Error(`Missing value for ${arg}`);
+        config.configFile = args[++i];
+        break;
     }
   }
 
@@ -88,6 +236,27 @@ export function getConfig(): OOREPConfig {
   if (config.cacheTtlMs < 0 || config.cacheTtlMs > 3600000) {
     throw new Error('OOREP_MCP_CACHE_TTL_MS must be between 0 and 3600000');
   }
+  if (!Number.isInteger(config.cacheMaxEntries) || config.cacheMaxEntries! < 0) {
+    throw new Error('OOREP_MCP_CACHE_MAX_ENTRIES must be 0 or a positive integer');
+  }
+  if (!Number.isInteger(config.cacheMaxBytes) || config.cacheMaxBytes! < 0) {
+    throw new Error('OOREP_MCP_CACHE_MAX_BYTES must be 0 or a positive integer');
+  }
+  if (
+    config.catalogCacheTtlMs !== undefined &&
+    !(config.catalogCacheTtlMs >= 0 && config.catalogCacheTtlMs <= 604800000)
+  ) {
+    throw new Error('OOREP_MCP_CATALOG_CACHE_TTL_MS must be between 0 and 604800000');
+  }
+  if (!(config.staleWhileRevalidateMs! >= 0 && config.staleWhileRevalidateMs! <= 604800000)) {
+    throw new Error('OOREP_MCP_STALE_WHILE_REVALIDATE_MS must be between 0 and 604800000');
+  }
+  if (!(config.negativeCacheTtlMs! >= 0 && config.negativeCacheTtlMs! <= 3600000)) {
+    throw new Error('OOREP_MCP_NEGATIVE_CACHE_TTL_MS must be between 0 and 3600000');
+  }
+  if (config.cacheDir !== undefined && !config.cacheDir.trim()) {
+    config.cacheDir = undefined;
+  }
   if (!['debug', 'info', 'warn', 'error'].includes(config.logLevel)) {
     throw new Error('OOREP_MCP_LOG_LEVEL must be one of: debug, info, warn, error');
   }
@@ -103,15 +272,54 @@ export function getConfig(): OOREPConfig {
   if (config.remoteUser !== undefined && !/^\d+$/.test(config.remoteUser.trim())) {
     throw new Error('OOREP_MCP_REMOTE_USER must be a numeric member ID');
   }
+  if (config.casesFile !== undefined && !config.casesFile.trim()) {
+    config.casesFile = undefined;
+  }
+  if (!TRANSPORTS.includes(config.transport!)) {
+    throw new Error(`OOREP_MCP_TRANSPORT must be one of: ${TRANSPORTS.join(', ')}`);
+  }
+  if (!config.httpHost?.trim()) {
+    throw new Error('OOREP_MCP_HTTP_HOST cannot be empty');
+  }
+  if (!Number.isInteger(config.httpPort) || config.httpPort! < 0 || config.httpPort! > 65535) {
+    throw new Error('OOREP_MCP_HTTP_PORT must be between 0 and 65535');
+  }
+  if (!config.httpPath?.startsWith('/')) {
+    throw new Error('OOREP_MCP_HTTP_PATH must start with /');
+  }
+  if (config.configFile !== undefined && !config.configFile.trim()) {
+    config.configFile = undefined;
+  }
+  if (config.configFile) {
+    const { tools, resources, prompts } = loadConfigFile(config.configFile);
+    Object.assign(config, { tools, resources, prompts });
+  }
   logger.info('Configuration loaded', {
     baseUrl: config.baseUrl,
     timeoutMs: config.timeoutMs,
     cacheTtlMs: config.cacheTtlMs,
+    cacheMaxEntries: config.cacheMaxEntries,
+    cacheMaxBytes: config.cacheMaxBytes,
+    cacheDir: config.cacheDir,
+    catalogCacheTtlMs: config.catalogCacheTtlMs,
+    staleWhileRevalidateMs: config.staleWhileRevalidateMs,
+    negativeCacheTtlMs: config.negativeCacheTtlMs,
     maxResults: config.maxResults,
     logLevel: config.logLevel,
     defaultRepertory: config.defaultRepertory,
     defaultMateriaMedica: config.defaultMateriaMedica,
     remoteUserSet: Boolean(config.remoteUser),
+    casesFile: config.casesFile,
+    transport: config.transport,
+    ...(config.transport === 'http' && {
+      httpHost: config.httpHost,
+      httpPort: config.httpPort,
+      httpPath: config.httpPath,
+    }),
+    configFile: config.configFile,
+    disabledTools: config.tools?.disabled,
+    disabledResources: config.resources?.disabled,
+    disabledPrompts: config.prompts?.disabled,
   });
 
   return config;
@@ -3,6 +3,9 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { getConfig } from './config.js';
 
 describe('getConfig', () => {
@@ -16,11 +19,23 @@ describe('getConfig', () => {
     delete process.env.OOREP_MCP_BASE_URL;
     delete process.env.OOREP_MCP_TIMEOUT_MS;
     delete process.env.OOREP_MCP_CACHE_TTL_MS;
+    delete process.env.OOREP_MCP_CACHE_MAX_ENTRIES;
+    delete process.env.OOREP_MCP_CACHE_MAX_BYTES;
+    delete process.env.OOREP_MCP_CACHE_DIR;
+    delete process.env.OOREP_MCP_CATALOG_CACHE_TTL_MS;
+    delete process.env.OOREP_MCP_STALE_WHILE_REVALIDATE_MS;
+    delete process.env.OOREP_MCP_NEGATIVE_CACHE_TTL_MS;
     delete process.env.OOREP_MCP_MAX_RESULTS;
     delete process.env.OOREP_MCP_LOG_LEVEL;
     delete process.env.OOREP_MCP_DEFAULT_REPERTORY;
     delete process.env.OOREP_MCP_DEFAULT_MATERIA_MEDICA;
     delete process.env.OOREP_MCP_REMOTE_USER;
+    delete process.env.OOREP_MCP_CASES_FILE;
+    delete process.env.OOREP_MCP_TRANSPORT;
+    delete process.env.OOREP_MCP_HTTP_HOST;
+    delete process.env.OOREP_MCP_HTTP_PORT;
+    delete process.env.OOREP_MCP_HTTP_PATH;
+    delete process.env.OOREP_MCP_CONFIG;
     process.argv = ['node', 'script.js'];
   });
 
@@ -37,6 +52,8 @@ describe('getConfig', () => {
       expect(config.baseUrl).toBe('https://www.oorep.com');
       expect(config.timeoutMs).toBe(30000);
       expect(config.cacheTtlMs).toBe(300000);
+      expect(config.cacheMaxEntries).toBe(1000);
+      expect(config.cacheMaxBytes).toBe(52428800);
       expect(config.maxResults).toBe(100);
       expect(config.logLevel).toBe('info');
       expect(config.defaultRepertory).toBe('publicum');
@@ -118,6 +135,15 @@ describe('getConfig', () => {
       expect(config.remoteUser).toBe('456');
     });
 
+    it('getConfig when --cases-file provided then sets casesFile', () => {
+      process.env.OOREP_MCP_CASES_FILE = '/tmp/env-cases.json';
+      process.argv = ['node', 'script.js', '--cases-file', '/tmp/cases.json'];
+
+      const config = getConfig();
+
+      expect(config.casesFile).toBe('/tmp/cases.json');
+    });
+
     it('getConfig when CLI args and env vars both set then CLI args take precedence', () => {
       process.env.OOREP_MCP_TIMEOUT_MS = '30000';
       process.argv = ['node', 'script.js', '--timeout', '60000'];
@@ -158,9 +184,16 @@ describe('getConfig', () => {
       ['--base-url'],
       ['--timeout'],
       ['--cache-ttl'],
+      ['--cache-max-entries'],
+      ['--cache-max-bytes'],
+      ['--cache-dir'],
+      ['--catalog-cache-ttl'],
+      ['--stale-while-revalidate'],
+      ['--negative-cache-ttl'],
       ['--max-results'],
       ['--log-level'],
       ['--remote-user'],
+      ['--cases-file'],
     ])('getConfig when %s has no value then throws error', (arg: string) => {
       process.argv = ['node', 'script.js', arg];
 
@@ -311,6 +344,131 @@ describe('getConfig', () => {
     });
   });
 
+  describe('when validating cache limits', () => {
+    it('getConfig when cache limit env vars set then uses env values', () => {
+      process.env.OOREP_MCP_CACHE_MAX_ENTRIES = '50';
+      process.env.OOREP_MCP_CACHE_MAX_BYTES = '0';
+
+      const config = getConfig();
+
+      expect(config.cacheMaxEntries).toBe(50);
+      expect(config.cacheMaxBytes).toBe(0);
+    });
+
+    it('getConfig when cache limit flags provided then override env values', () => {
+      process.env.OOREP_MCP_CACHE_MAX_ENTRIES = '50';
+      process.argv = [
+        'node',
+        'script.js',
+        '--cache-max-entries',
+        '200',
+        '--cache-max-bytes',
+        '1048576',
+      ];
+
+      const config = getConfig();
+
+      expect(config.cacheMaxEntries).toBe(200);
+      expect(config.cacheMaxBytes).toBe(1048576);
+    });
+
+    it('getConfig when cacheMaxEntries is negative then throws error', () => {
+      process.env.OOREP_MCP_CACHE_MAX_ENTRIES = '-1';
+
+      expect(() => getConfig()).toThrow('OOREP_MCP_CACHE_MAX_ENTRIES must be 0 or a positive');
+    });
+
+    it('getConfig when cacheMaxBytes is not a number then throws error', () => {
+      process.env.OOREP_MCP_CACHE_MAX_BYTES = 'lots';
+
+      expect(() => getConfig()).toThrow('OOREP_MCP_CACHE_MAX_BYTES must be 0 or a positive');
+    });
+  });
+
+  describe('when setting cacheDir', () => {
+    it('getConfig when cache dir not set then keeps the cache in memory', () => {
+      expect(getConfig().cacheDir).toBeUndefined();
+    });
+
+    it('getConfig when --cache-dir provided then overrides env value', () => {
+      process.env.OOREP_MCP_CACHE_DIR = '/var/cache/oorep';
+      process.argv = ['node', 'script.js', '--cache-dir', '/tmp/oorep'];
+
+      expect(getConfig().cacheDir).toBe('/tmp/oorep');
+    });
+
+    it('getConfig when cache dir is blank then treats it as unset', () => {
+      process.env.OOREP_MCP_CACHE_DIR = '  ';
+
+      expect(getConfig().cacheDir).toBeUndefined();
+    });
+  });
+
+  describe('when setting cache TTL policies', () => {
+    it('getConfig when not set then follows cacheTtlMs without a stale window', () => {
+      const config = getConfig();
+
+      expect(config.catalogCacheTtlMs).toBeUndefined();
+      expect(config.staleWhileRevalidateMs).toBe(0);
+    });
+
+    it('getConfig when catalog TTL is longer than an hour then accepts it', () => {
+      process.env.OOREP_MCP_CATALOG_CACHE_TTL_MS = '86400000';
+      process.env.OOREP_MCP_STALE_WHILE_REVALIDATE_MS = '600000';
+
+      const config = getConfig();
+
+      expect(config.catalogCacheTtlMs).toBe(86400000);
+      expect(config.staleWhileRevalidateMs).toBe(600000);
+    });
+
+    it('getConfig when flags provided then override env values', () => {
+      process.env.OOREP_MCP_CATALOG_CACHE_TTL_MS = '86400000';
+      process.argv = [
+        'node',
+        'script.js',
+        '--catalog-cache-ttl',
+        '3600000',
+        '--stale-while-revalidate',
+        '30000',
+      ];
+
+      const config = getConfig();
+
+      expect(config.catalogCacheTtlMs).toBe(3600000);
+      expect(config.staleWhileRevalidateMs).toBe(30000);
+    });
+
+    it('getConfig when catalog TTL exceeds 7 days then throws error', () => {
+      process.env.OOREP_MCP_CATALOG_CACHE_TTL_MS = '604800001';
+
+      expect(() => getConfig()).toThrow('OOREP_MCP_CATALOG_CACHE_TTL_MS must be between');
+    });
+
+    it('getConfig when stale window is not a number then throws error', () => {
+      process.env.OOREP_MCP_STALE_WHILE_REVALIDATE_MS = 'soon';
+
+      expect(() => getConfig()).toThrow('OOREP_MCP_STALE_WHILE_REVALIDATE_MS must be between');
+    });
+
+    it('getConfig when negative TTL not set then defaults to one minute', () => {
+      expect(getConfig().negativeCacheTtlMs).toBe(60000);
+    });
+
+    it('getConfig when negative TTL flag provided then overrides env value', () => {
+      process.env.OOREP_MCP_NEGATIVE_CACHE_TTL_MS = '0';
+      process.argv = ['node', 'script.js', '--negative-cache-ttl', '15000'];
+
+      expect(getConfig().negativeCacheTtlMs).toBe(15000);
+    });
+
+    it('getConfig when negative TTL exceeds an hour then throws error', () => {
+      process.env.OOREP_MCP_NEGATIVE_CACHE_TTL_MS = '3600001';
+
+      expect(() => getConfig()).toThrow('OOREP_MCP_NEGATIVE_CACHE_TTL_MS must be between');
+    });
+  });
+
   describe('when validating defaultRepertory', () => {
     it('getConfig when defaultRepertory is empty then throws error', () => {
       process.env.OOREP_MCP_DEFAULT_REPERTORY = '';
@@ -354,4 +512,201 @@ describe('getConfig', () => {
       expect(() => getConfig()).toThrow();
     });
   });
+
+  describe('when validating casesFile', () => {
+    it('getConfig when casesFile is not set then keeps cases in memory', () => {
+      const config = getConfig();
+
+      expect(config.casesFile).toBeUndefined();
+    });
+
+    it('getConfig when casesFile is empty/whitespace then treats as unset', () => {
+      process.env.OOREP_MCP_CASES_FILE = '  ';
+
+      const config = getConfig();
+
+      expect(config.casesFile).toBeUndefined();
+    });
+  });
+
+  describe('when configuring the transport', () => {
+    it('getConfig when transport not set then uses stdio with HTTP defaults', () => {
+      const config = getConfig();
+
+      expect(config.transport).toBe('stdio');
+      expect(config.httpHost).toBe('127.0.0.1');
+      expect(config.httpPort).toBe(3000);
+      expect(config.httpPath).toBe('/mcp');
+    });
+
+    it('getConfig when HTTP env vars set then uses env values', () => {
+      process.env.OOREP_MCP_TRANSPORT = 'http';
+      process.env.OOREP_MCP_HTTP_HOST = '0.0.0.0';
+      process.env.OOREP_MCP_HTTP_PORT = '8080';
+      process.env.OOREP_MCP_HTTP_PATH = '/oorep';
+
+      const config = getConfig();
+
+      expect(config.transport).toBe('http');
+      expect(config.httpHost).toBe('0.0.0.0');
+      expect(config.httpPort).toBe(8080);
+      expect(config.httpPath).toBe('/oorep');
+    });
+
+    it('getConfig when HTTP CLI args provided then override env vars', () => {
+      process.env.OOREP_MCP_HTTP_PORT = '8080';
+      process.argv = [
+        'node',
+        'script.js',
+        '--transport',
+        'http',
+        '--host',
+        'localhost',
+        '--port',
+        '9000',
+        '--http-path',
+        '/api/mcp',
+      ];
+
+      const config = getConfig();
+
+      expect(config.transport).toBe('http');
+      expect(config.httpHost).toBe('localhost');
+      expect(config.httpPort).toBe(9000);
+      expect(config.httpPath).toBe('/api/mcp');
+    });
+
+    it('getConfig when transport is unknown then throws error', () => {
+      process.argv = ['node', 'script.js', '--transport', 'sse'];
+
+      expect(() => getConfig()).toThrow('OOREP_MCP_TRANSPORT must be one of: stdio, http');
+    });
+
+    it('getConfig when --port is not a number then throws error', () => {
+      process.argv = ['node', 'script.js', '--port', 'abc'];
+
+      expect(() => getConfig()).toThrow('Invalid numeric value for --port');
+    });
+
+    it('getConfig when port is out of range then throws error', () => {
+      process.env.OOREP_MCP_HTTP_PORT = '70000';
+
+      expect(() => getConfig()).toThrow('OOREP_MCP_HTTP_PORT must be between 0 and 65535');
+    });
+
+    it('getConfig when host is empty then throws error', () => {
+      process.env.OOREP_MCP_HTTP_HOST = ' ';
+
+      expect(() => getConfig()).toThrow('OOREP_MCP_HTTP_HOST cannot be empty');
+    });
+
+    it('getConfig when path does not start with slash then throws error', () => {
+      process.env.OOREP_MCP_HTTP_PATH = 'mcp';
+
+      expect(() => getConfig()).toThrow('OOREP_MCP_HTTP_PATH must start with /');
+    });
+  });
+
+  describe('when loading a config file', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'oorep-config-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('getConfig when --config provided then loads tool, resource and prompt settings', async () => {
+      const file = join(dir, 'oorep.json');
+      await writeFile(
+        file,
+        JSON.stringify({
+          tools: {
+            disabled: ['delete_case'],
+            settings: { search_repertory: { defaults: { minWeight: 2 }, maxResults: 50 } },
+          },
+          resources: { disabled: ['oorep://remedies/list'] },
+          prompts: { disabled: ['remedy-comparison'] },
+        })
+      );
+      process.argv = ['node', 'script.js', '--config', file];
+
+      const config = getConfig();
+
+      expect(config.configFile).toBe(file);
+      expect(config.tools).toEqual({
+        disabled: ['delete_case'],
+        settings: { search_repertory: { defaults: { minWeight: 2 }, maxResults: 50 } },
+      });
+      expect(config.resources).toEqual({ disabled: ['oorep://remedies/list'] });
+      expect(config.prompts).toEqual({ disabled: ['remedy-comparison'] });
+    });
+
+    it('getConfig when OOREP_MCP_CONFIG set then loads the file', async () => {
+      const file = join(dir, 'oorep.json');
+      await writeFile(file, JSON.stringify({ prompts: { disabled: ['analyze-symptoms'] } }));
+      process.env.OOREP_MCP_CONFIG = file;
+
+      const config = getConfig();
+
+      expect(config.prompts?.disabled).toEqual(['analyze-symptoms']);
+      expect(config.tools).toBeUndefined();
+    });
+
+    it('getConfig when config file names an unknown tool then throws', async () => {
+      const file = join(dir, 'oorep.json');
+      await writeFile(file, JSON.stringify({ tools: { disabled: ['no_such_tool'] } }));
+      process.env.OOREP_MCP_CONFIG = file;
+
+      expect(() => getConfig()).toThrow(`Invalid config file ${file}`);
+    });
+
+    it('getConfig when a tool default has an invalid value then throws naming it', async () => {
+      const file = join(dir, 'oorep.json');
+      await writeFile(
+        file,
+        JSON.stringify({
+          tools: { settings: { search_repertory: { defaults: { minWeight: 'two' } } } },
+        })
+      );
+      process.env.OOREP_MCP_CONFIG = file;
+
+      expect(() => getConfig()).toThrow('tools.settings.search_repertory.defaults.minWeight');
+    });
+
+    it('getConfig when a tool default names an unknown parameter then throws', async () => {
+      const file = join(dir, 'oorep.json');
+      await writeFile(
+        file,
+        JSON.stringify({ tools: { settings: { get_rubric: { defaults: { symptom: 'head' } } } } })
+      );
+      process.env.OOREP_MCP_CONFIG = file;
+
+      expect(() => getConfig()).toThrow('get_rubric has no parameter "symptom"');
+    });
+
+    it('getConfig when config file has unknown keys then throws', async () => {
+      const file = join(dir, 'oorep.json');
+      await writeFile(file, JSON.stringify({ tool: {} }));
+      process.env.OOREP_MCP_CONFIG = file;
+
+      expect(() => getConfig()).toThrow(`Invalid config file ${file}`);
+    });
+
+    it('getConfig when config file is not JSON then throws', async () => {
+      const file = join(dir, 'oorep.json');
+      await writeFile(file, '{ nope');
+      process.env.OOREP_MCP_CONFIG = file;
+
+      expect(() => getConfig()).toThrow(`Failed to read config file ${file}`);
+    });
+
+    it('getConfig when config file does not exist then throws', () => {
+      process.env.OOREP_MCP_CONFIG = join(dir, 'missing.json');
+
+      expect(() => getConfig()).toThrow('Failed to read config file');
+    });
+  });
 });
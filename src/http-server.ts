@@ -0,0 +1,243 @@
+/**
+ * Streamable HTTP transport for the MCP server
+ *
+ * Serves MCP over HTTP so one instance can be shared by a team or reached from
+ * web agents. Every client session gets its own MCP server and transport; the
+ * session ID travels in the `Mcp-Session-Id` header.
+ *
+ * Sessions are not authenticated and share the tool registry, so every client
+ * sees the same saved cases. Serve one team that trusts each other per instance.
+ */
+
+import { randomUUID } from 'node:crypto';
+import {
+  createServer,
+  type IncomingMessage,
+  type Server as NodeHttpServer,
+  type ServerResponse,
+} from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from './utils/logger.js';
+
+/** Largest JSON-RPC request body accepted */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/** Hosts that only accept local connections, where DNS rebinding protection applies */
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '::1'];
+
+/** JSON-RPC error codes used in HTTP error responses */
+const JSON_RPC_ERRORS = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  SERVER_ERROR: -32000,
+  INTERNAL_ERROR: -32603,
+} as const;
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  /** URL path of the MCP endpoint, e.g. /mcp */
+  path: string;
+  /** Create the MCP server for a new session */
+  createSessionServer: () => Server;
+}
+
+export interface RunningHttpServer {
+  /** URL of the MCP endpoint, with the port actually bound */
+  url: string;
+  /** Number of open sessions */
+  sessionCount(): number;
+  /** Close every session and stop listening */
+  close(): Promise<void>;
+}
+
+type Session = {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+};
+
+/**
+ * Error answered with an HTTP status and a JSON-RPC error body
+ */
+class HttpRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly code: number = JSON_RPC_ERRORS.SERVER_ERROR
+  ) {
+    super(message);
+    this.name = 'HttpRequestError';
+  }
+}
+
+/**
+ * Start serving MCP over Streamable HTTP
+ *
+ * New sessions start with an `initialize` POST. Later requests carry the
+ * session ID and are routed to that session's transport; a DELETE ends the
+ * session. When listening on a loopback host, requests must also name a
+ * loopback Host header to guard against DNS rebinding.
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<RunningHttpServer> {
+  const sessions = new Map<string, Session>();
+  let allowedHosts: string[] | undefined;
+
+  const createSession = async (): Promise<Session> => {
+    const server = options.createSessionServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        sessions.set(sessionId, { server, transport });
+        logger.info('HTTP session started', { sessionId, sessions: sessions.size });
+      },
+      enableDnsRebindingProtection: allowedHosts !== undefined,
+      allowedHosts,
+    });
+
+    // Set before connecting, so the server chains its own close handling onto it
+    transport.onclose = () => {
+      const sessionId = transport.sessionId;
+      if (sessionId && sessions.delete(sessionId)) {
+        logger.info('HTTP session closed', { sessionId, sessions: sessions.size });
+      }
+    };
+
+    try {
+      await server.connect(transport);
+    } catch (error) {
+      await server.close();
+      throw error;
+    }
+    return { server, transport };
+  };
+
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    if (pathname !== options.path) {
+      throw new HttpRequestError(`Not found: ${pathname}`, 404);
+    }
+    if (req.method !== 'POST' && req.method !== 'GET' && req.method !== 'DELETE') {
+      res.setHeader('Allow', 'GET, POST, DELETE');
+      throw new HttpRequestError(`Method not allowed: ${req.method}`, 405);
+    }
+
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+    const sessionId = req.headers['mcp-session-id'];
+
+    if (typeof sessionId === 'string') {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        throw new HttpRequestError('Session not found', 404);
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      throw new HttpRequestError(
+        'Bad Request: No valid session ID provided',
+        400,
+        JSON_RPC_ERRORS.INVALID_REQUEST
+      );
+    }
+
+    const session = await createSession();
+    try {
+      await session.transport.handleRequest(req, res, body);
+    } finally {
+      // A rejected initialize leaves no session ID to route later requests by
+      if (!session.transport.sessionId) {
+        await session.server.close();
+      }
+    }
+  };
+
+  const httpServer = createServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      if (error instanceof HttpRequestError) {
+        logger.debug('Rejected HTTP request', { status: error.status, message: error.message });
+        sendJsonRpcError(res, error.status, error.code, error.message);
+        return;
+      }
+      logger.error('Error handling HTTP request', error);
+      sendJsonRpcError(res, 500, JSON_RPC_ERRORS.INTERNAL_ERROR, 'Internal server error');
+    });
+  });
+
+  await listen(httpServer, options.port, options.host);
+
+  const { port } = httpServer.address() as AddressInfo;
+  if (LOOPBACK_HOSTS.includes(options.host)) {
+    allowedHosts = LOOPBACK_HOSTS.map((host) => `${formatHost(host)}:${port}`);
+  }
+
+  return {
+    url: `http://${formatHost(options.host)}:${port}${options.path}`,
+    sessionCount: () => sessions.size,
+    close: async () => {
+      const open = Array.from(sessions.values());
+      sessions.clear();
+      await Promise.all(open.map(({ server }) => server.close()));
+      await closeHttpServer(httpServer);
+      logger.info('HTTP server closed', { sessions: open.length });
+    },
+  };
+}
+
+function listen(httpServer: NodeHttpServer, port: number, host: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(port, host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+}
+
+function closeHttpServer(httpServer: NodeHttpServer): Promise<void> {
+  return new Promise((resolve, reject) => {
+    httpServer.close((error) => (error ? reject(error) : resolve()));
+    // Idle keep-alive connections would otherwise hold the server open
+    httpServer.closeAllConnections();
+  });
+}
+
+/**
+ * Read and parse a JSON request body, up to MAX_BODY_BYTES
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpRequestError('Request body too large', 413);
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpRequestError('Parse error: Invalid JSON', 400, JSON_RPC_ERRORS.PARSE_ERROR);
+  }
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string) {
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+/**
+ * Bracket IPv6 addresses for use in URLs and Host headers
+ */
+function formatHost(host: string): string {
+  return host.includes(':') ? `[${host}]` : host;
+}
@@ -0,0 +1,166 @@
+/**
+ * Unit tests for the Streamable HTTP transport
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { startHttpServer, type RunningHttpServer } from './http-server.js';
+
+const ACCEPT = 'application/json, text/event-stream';
+
+const initializeRequest = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' },
+  },
+};
+
+function createTestServer(): Server {
+  const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [{ name: 'echo', inputSchema: { type: 'object' } }],
+  }));
+  return server;
+}
+
+describe('startHttpServer', () => {
+  let running: RunningHttpServer;
+
+  beforeEach(async () => {
+    running = await startHttpServer({
+      host: '127.0.0.1',
+      port: 0,
+      path: '/mcp',
+      createSessionServer: createTestServer,
+    });
+  });
+
+  afterEach(async () => {
+    await running.close();
+  });
+
+  function post(body: unknown, headers: Record<string, string> = {}) {
+    return fetch(running.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: ACCEPT, ...headers },
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    });
+  }
+
+  it('startHttpServer when port is 0 then reports the bound port in its url', () => {
+    expect(running.url).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/mcp$/);
+    expect(running.url).not.toContain(':0/');
+  });
+
+  it('startHttpServer when initialize posted then starts a session', async () => {
+    const response = await post(initializeRequest);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('mcp-session-id')).toMatch(/^[0-9a-f-]{36}$/);
+    await response.text();
+    expect(running.sessionCount()).toBe(1);
+  });
+
+  it('startHttpServer when request has no session ID then returns 400', async () => {
+    const response = await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({
+      jsonrpc: '2.0',
+      error: { code: -32600, message: 'Bad Request: No valid session ID provided' },
+      id: null,
+    });
+  });
+
+  it('startHttpServer when session ID is unknown then returns 404', async () => {
+    const response = await post(
+      { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+      { 'mcp-session-id': 'missing' }
+    );
+
+    expect(response.status).toBe(404);
+    expect((await response.json()).error.message).toBe('Session not found');
+  });
+
+  it('startHttpServer when path is wrong then returns 404', async () => {
+    const response = await fetch(running.url.replace('/mcp', '/other'), { method: 'POST' });
+
+    expect(response.status).toBe(404);
+    await response.text();
+  });
+
+  it('startHttpServer when method is unsupported then returns 405', async () => {
+    const response = await fetch(running.url, { method: 'PUT' });
+
+    expect(response.status).toBe(405);
+    expect(response.headers.get('allow')).toBe('GET, POST, DELETE');
+    await response.text();
+  });
+
+  it('startHttpServer when body is not JSON then returns parse error', async () => {
+    const response = await post('{not json');
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.code).toBe(-32700);
+  });
+
+  it('startHttpServer when initialize is rejected then closes the new server', async () => {
+    await running.close();
+    const servers: Server[] = [];
+    running = await startHttpServer({
+      host: '127.0.0.1',
+      port: 0,
+      path: '/mcp',
+      createSessionServer: () => {
+        const server = createTestServer();
+        servers.push(server);
+        return server;
+      },
+    });
+
+    const response = await post(initializeRequest, { Accept: 'application/json' });
+
+    expect(response.status).toBe(406);
+    await response.text();
+    expect(running.sessionCount()).toBe(0);
+    expect(servers).toHaveLength(1);
+    expect(servers[0].transport).toBeUndefined();
+  });
+
+  it('startHttpServer when client connects then serves requests and ends the session', async () => {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const transport = new StreamableHTTPClientTransport(new URL(running.url));
+    await client.connect(transport);
+
+    const { tools } = await client.listTools();
+    expect(tools.map((tool) => tool.name)).toEqual(['echo']);
+    expect(running.sessionCount()).toBe(1);
+
+    await transport.terminateSession();
+    await client.close();
+    expect(running.sessionCount()).toBe(0);
+  });
+
+  it('startHttpServer when closed then stops accepting connections', async () => {
+    const url = running.url;
+    await (await post(initializeRequest)).text();
+
+    await running.close();
+
+    expect(running.sessionCount()).toBe(0);
+    await expect(fetch(url, { method: 'POST' })).rejects.toThrow();
+    running = await startHttpServer({
+      host: '127.0.0.1',
+      port: 0,
+      path: '/mcp',
+      createSessionServer: createTestServer,
+    });
+  });
+});
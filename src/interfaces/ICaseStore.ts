@@ -0,0 +1,42 @@
+/**
+ * Case store interface for dependency injection
+ * ALL METHODS ARE ASYNC so cases can live in files, databases or remote services.
+ *
+ * Stores persist whole cases. The client reads a case, changes it and saves it
+ * back, so implementations only need plain key/value semantics.
+ */
+
+import type { SavedCase } from '../utils/schemas.js';
+
+export interface ICaseStore {
+  /**
+   * Get a case by ID
+   * @param id - Case ID
+   * @returns Promise resolving to the case, or null if it does not exist
+   */
+  get(id: string): Promise<SavedCase | null>;
+
+  /**
+   * Create or replace a case
+   * @param savedCase - Case to store under its `id`
+   */
+  save(savedCase: SavedCase): Promise<void>;
+
+  /**
+   * Delete a case
+   * @param id - Case ID
+   * @returns Promise resolving to true if a case was deleted
+   */
+  delete(id: string): Promise<boolean>;
+
+  /**
+   * List all stored cases
+   */
+  list(): Promise<SavedCase[]>;
+
+  /**
+   * Destroy the store and cleanup resources (optional)
+   * Use this to flush pending writes or close connections
+   */
+  destroy?(): Promise<void>;
+}
@@ -12,16 +12,38 @@
 
 import type {
   RepertorySearchResult,
+  Rubric,
   MateriaMedicaSearchResult,
+  MateriaMedicaResult,
   RemedyInfo,
   RepertoryMetadata,
   MateriaMedicaMetadata,
+  RepertorizationResult,
+  CrossReferenceResult,
   SearchRepertoryArgs,
   SearchMateriaMedicaArgs,
   GetRemedyInfoArgs,
   ListRepertoriesArgs,
   ListMateriaMedicasArgs,
+  RepertorizeCaseArgs,
+  CrossReferenceSymptomsArgs,
+  CreateCaseArgs,
+  AddRubricToCaseArgs,
+  RemoveRubricFromCaseArgs,
+  GetCaseArgs,
+  DeleteCaseArgs,
+  SavedCase,
+  CaseDetails,
+  CaseSummary,
+  DeleteCaseResult,
+  GetRubricArgs,
+  BrowseRubricChildrenArgs,
+  RubricDetails,
+  RubricChildrenResult,
+  SuggestRepertoryQueryArgs,
+  RepertoryQueryTranslation,
 } from '../utils/schemas.js';
+import type { OOREPCallOptions } from '../lib/oorep-client.js';
 
 /**
  * Interface for OOREP Client
@@ -32,11 +54,68 @@ import type {
  */
 export interface IOOREPClient {
   // Tool methods
-  searchRepertory(args: SearchRepertoryArgs): Promise<RepertorySearchResult>;
-  searchMateriaMedica(args: SearchMateriaMedicaArgs): Promise<MateriaMedicaSearchResult>;
-  getRemedyInfo(args: GetRemedyInfoArgs): Promise<RemedyInfo | null>;
-  listRepertories(args?: ListRepertoriesArgs): Promise<RepertoryMetadata[]>;
-  listMateriaMedicas(args?: ListMateriaMedicasArgs): Promise<MateriaMedicaMetadata[]>;
+  searchRepertory(
+    args: SearchRepertoryArgs,
+    options?: OOREPCallOptions
+  ): Promise<RepertorySearchResult>;
+  iterateRepertory(
+    args: Pick<
+      SearchRepertoryArgs,
+      'symptom' | 'repertory' | 'minWeight' | 'remedy' | 'maxResults' | 'remoteUser'
+    >,
+    options?: OOREPCallOptions
+  ): AsyncIterable<Rubric>;
+  searchMateriaMedica(
+    args: SearchMateriaMedicaArgs,
+    options?: OOREPCallOptions
+  ): Promise<MateriaMedicaSearchResult>;
+  iterateMateriaMedica(
+    args: Pick<SearchMateriaMedicaArgs, 'symptom' | 'materiamedica' | 'remedy' | 'remoteUser'>,
+    options?: OOREPCallOptions
+  ): AsyncIterable<MateriaMedicaResult>;
+  getRemedyInfo(args: GetRemedyInfoArgs, options?: OOREPCallOptions): Promise<RemedyInfo | null>;
+  listRemedies(
+    args?: Pick<GetRemedyInfoArgs, 'remoteUser'>,
+    options?: OOREPCallOptions
+  ): Promise<RemedyInfo[]>;
+  listRepertories(
+    args?: ListRepertoriesArgs,
+    options?: OOREPCallOptions
+  ): Promise<RepertoryMetadata[]>;
+  listMateriaMedicas(
+    args?: ListMateriaMedicasArgs,
+    options?: OOREPCallOptions
+  ): Promise<MateriaMedicaMetadata[]>;
+  repertorizeCase(
+    args: RepertorizeCaseArgs & Pick<SearchRepertoryArgs, 'remoteUser'>,
+    options?: OOREPCallOptions
+  ): Promise<RepertorizationResult>;
+  crossReferenceSymptoms(
+    args: CrossReferenceSymptomsArgs & Pick<SearchRepertoryArgs, 'remoteUser'>,
+    options?: OOREPCallOptions
+  ): Promise<CrossReferenceResult>;
+
+  // Saved case methods
+  createCase(args: CreateCaseArgs): Promise<SavedCase>;
+  addRubricToCase(
+    args: AddRubricToCaseArgs & Pick<SearchRepertoryArgs, 'remoteUser'>,
+    options?: OOREPCallOptions
+  ): Promise<SavedCase>;
+  removeRubricFromCase(args: RemoveRubricFromCaseArgs): Promise<SavedCase>;
+  getCase(args: GetCaseArgs): Promise<CaseDetails>;
+  listCases(): Promise<CaseSummary[]>;
+  deleteCase(args: DeleteCaseArgs): Promise<DeleteCaseResult>;
+
+  // Rubric navigation methods
+  getRubric(
+    args: GetRubricArgs & Pick<SearchRepertoryArgs, 'remoteUser'>,
+    options?: OOREPCallOptions
+  ): Promise<RubricDetails>;
+  browseRubricChildren(
+    args: BrowseRubricChildrenArgs & Pick<SearchRepertoryArgs, 'remoteUser'>,
+    options?: OOREPCallOptions
+  ): Promise<RubricChildrenResult>;
+  suggestRepertoryQuery(args: SuggestRepertoryQueryArgs): Promise<RepertoryQueryTranslation>;
 
   // Lifecycle methods
   clearCache(): Promise<void>;
@@ -0,0 +1,113 @@
+/**
+ * Per-operation cache TTLs and stale-while-revalidate reads
+ *
+ * The SDK client stores every cached result with the time it was cached, so
+ * freshness is decided per operation when the entry is read rather than by the
+ * cache backend. Any ICache implementation works unchanged, as long as it keeps
+ * entries at least as long as the longest TTL plus the stale window.
+ *
+ * Empty results are marked negative and kept for a shorter TTL, so a search
+ * that found nothing is retried soon rather than served for the full TTL.
+ */
+
+/**
+ * Client operations whose results are cached
+ */
+export const CACHED_OPERATIONS = [
+  'searchRepertory',
+  'searchMateriaMedica',
+  'browseRubricChildren',
+  'getRemedyInfo',
+  'listRemedies',
+  'listRepertories',
+  'listMateriaMedicas',
+] as const;
+
+export type CachedOperation = (typeof CACHED_OPERATIONS)[number];
+
+/**
+ * Operations that read the OOREP catalogue of remedies, repertories and
+ * materia medicas, which changes far less often than search results
+ */
+export const CATALOG_OPERATIONS: readonly CachedOperation[] = [
+  'getRemedyInfo',
+  'listRemedies',
+  'listRepertories',
+  'listMateriaMedicas',
+];
+
+/**
+ * Cache TTL in milliseconds per operation; 0 disables caching for it
+ */
+export type CacheTtlPolicy = Partial<Record<CachedOperation, number>>;
+
+/**
+ * A result as stored in the cache
+ */
+export interface CachedValue<T> {
+  data: T;
+  /** Epoch milliseconds when the result was cached */
+  cachedAt: number;
+  /** Set for empty results, which expire after the negative TTL and are never served stale */
+  negative?: true;
+}
+
+/**
+ * How long a cached value is fresh, and how long after that it may be served stale
+ */
+export interface CacheReadPolicy {
+  ttlMs: number;
+  staleMs: number;
+  negativeTtlMs: number;
+}
+
+/**
+ * Fill in the TTL of every operation, falling back to the general cache TTL
+ */
+export function resolveCacheTtls(
+  cacheTtlMs: number,
+  policy: CacheTtlPolicy = {}
+): Record<CachedOperation, number> {
+  return Object.fromEntries(
+    CACHED_OPERATIONS.map((operation) => [operation, policy[operation] ?? cacheTtlMs])
+  ) as Record<CachedOperation, number>;
+}
+
+export function toCachedValue<T>(data: T, now = Date.now(), negative = false): CachedValue<T> {
+  return negative ? { data, cachedAt: now, negative: true } : { data, cachedAt: now };
+}
+
+/**
+ * Check a cached value against a read policy
+ *
+ * @returns The data and whether it is past its TTL, or null if there is no
+ *   usable entry (missing, not written by the client, or past the stale window)
+ */
+export function readCachedValue<T>(
+  value: unknown,
+  policy: CacheReadPolicy,
+  now = Date.now()
+): { data: T; stale: boolean } | null {
+  if (!isCachedValue(value)) {
+    return null;
+  }
+  const age = now - value.cachedAt;
+  if (value.negative) {
+    return age < Math.min(policy.ttlMs, policy.negativeTtlMs)
+      ? { data: value.data as T, stale: false }
+      : null;
+  }
+  if (age < policy.ttlMs) {
+    return { data: value.data as T, stale: false };
+  }
+  return age < policy.ttlMs + policy.staleMs ? { data: value.data as T, stale: true } : null;
+}
+
+function isCachedValue(value: unknown): value is CachedValue<unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'data' in value &&
+    typeof (value as { cachedAt?: unknown }).cachedAt === 'number'
+  );
+}
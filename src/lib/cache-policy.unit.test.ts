@@ -0,0 +1,74 @@
+/**
+ * Unit tests for per-operation cache TTLs
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readCachedValue, resolveCacheTtls, toCachedValue } from './cache-policy.js';
+
+describe('resolveCacheTtls', () => {
+  it('resolveCacheTtls when no policy given then uses the cache TTL for every operation', () => {
+    const ttls = resolveCacheTtls(300000);
+
+    expect(new Set(Object.values(ttls))).toEqual(new Set([300000]));
+    expect(Object.keys(ttls)).toContain('listRemedies');
+  });
+
+  it('resolveCacheTtls when policy given then overrides listed operations only', () => {
+    const ttls = resolveCacheTtls(300000, { listRemedies: 86400000, searchRepertory: 0 });
+
+    expect(ttls.listRemedies).toBe(86400000);
+    expect(ttls.searchRepertory).toBe(0);
+    expect(ttls.searchMateriaMedica).toBe(300000);
+  });
+});
+
+describe('readCachedValue', () => {
+  const now = 1_000_000;
+  const policy = (ttlMs: number, staleMs = 0, negativeTtlMs = 100) => ({
+    ttlMs,
+    staleMs,
+    negativeTtlMs,
+  });
+
+  it('readCachedValue when younger than TTL then returns fresh data', () => {
+    expect(readCachedValue(toCachedValue('a', now - 999), policy(1000, 0), now)).toEqual({
+      data: 'a',
+      stale: false,
+    });
+  });
+
+  it('readCachedValue when past TTL but within stale window then returns stale data', () => {
+    expect(readCachedValue(toCachedValue('a', now - 1500), policy(1000, 1000), now)).toEqual({
+      data: 'a',
+      stale: true,
+    });
+  });
+
+  it('readCachedValue when past TTL and stale window then returns null', () => {
+    expect(readCachedValue(toCachedValue('a', now - 2000), policy(1000, 1000), now)).toBeNull();
+    expect(readCachedValue(toCachedValue('a', now - 1000), policy(1000, 0), now)).toBeNull();
+  });
+
+  it('readCachedValue when value is missing or not a cached value then returns null', () => {
+    expect(readCachedValue(null, policy(1000, 0), now)).toBeNull();
+    expect(readCachedValue({ totalResults: 5 }, policy(1000, 0), now)).toBeNull();
+  });
+
+  it('readCachedValue when entry is negative then uses the shorter negative TTL', () => {
+    const negative = toCachedValue({ totalResults: 0 }, now - 150, true);
+
+    expect(readCachedValue(negative, policy(1000, 0, 200), now)).toEqual({
+      data: { totalResults: 0 },
+      stale: false,
+    });
+    expect(readCachedValue(negative, policy(1000, 0, 100), now)).toBeNull();
+    expect(readCachedValue(negative, policy(100, 1000, 1000), now)).toBeNull();
+  });
+
+  it('readCachedValue when cached data is falsy then still returns it', () => {
+    expect(readCachedValue(toCachedValue(0, now), policy(1000, 0), now)).toEqual({
+      data: 0,
+      stale: false,
+    });
+  });
+});
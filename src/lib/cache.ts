@@ -1,29 +1,79 @@
 /**
- * In-memory cache implementation with TTL support
- * Implements ICache interface for dependency injection
+ * Cache implementations with TTL support and size limits
+ * Implement ICache interface for dependency injection
  */
 
+import { createHash, randomBytes } from 'node:crypto';
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  stat,
+  unlink,
+  utimes,
+  writeFile,
+} from 'node:fs/promises';
+import { join } from 'node:path';
 import type { ICache } from '../interfaces/ICache.js';
 import type { ILogger } from '../interfaces/ILogger.js';
+import { z } from '../utils/schemas.js';
 
 interface CacheEntry<T> {
   data: T;
   timestamp: number;
+  /** Approximate size in bytes, see estimateSize() */
+  size: number;
+}
+
+/**
+ * Size limits for InMemoryCache. 0 or unset means no limit.
+ */
+export interface InMemoryCacheOptions {
+  /** Maximum number of entries kept */
+  maxEntries?: number;
+  /** Approximate maximum memory held by entries, in bytes */
+  maxBytes?: number;
+}
+
+/**
+ * Approximate the memory held by an entry as the UTF-8 length of its key and
+ * JSON form. Values that cannot be serialized count as the key alone.
+ */
+function estimateSize(key: string, data: unknown): number {
+  let json = '';
+  try {
+    json = JSON.stringify(data) ?? '';
+  } catch {
+    // Circular or BigInt values; the entry is still cached
+  }
+  return Buffer.byteLength(key) + Buffer.byteLength(json);
 }
 
 /**
  * In-memory cache with TTL support
  * All methods are async to comply with ICache interface
+ *
+ * When `maxEntries` or `maxBytes` is set, the least recently used entries are
+ * evicted to stay within the limits. Reads count as use.
  */
 export class InMemoryCache<T = unknown> implements ICache<T> {
   private store = new Map<string, CacheEntry<T>>();
   private ttl: number;
   private cleanupTimer?: NodeJS.Timeout;
   private logger?: ILogger;
+  private readonly maxEntries: number;
+  private readonly maxBytes: number;
+  private bytes = 0;
+  private evictions = 0;
+  private evictedBytes = 0;
 
-  constructor(ttlMs: number, logger?: ILogger) {
+  constructor(ttlMs: number, logger?: ILogger, options: InMemoryCacheOptions = {}) {
     this.ttl = ttlMs;
     this.logger = logger;
+    this.maxEntries = options.maxEntries ?? 0;
+    this.maxBytes = options.maxBytes ?? 0;
 
     // Set up periodic cleanup every hour or when TTL expires (whichever is smaller)
     const cleanupInterval = Math.min(ttlMs, 3600000); // Max 1 hour
@@ -51,22 +101,37 @@ export class InMemoryCache<T = unknown> implements ICache<T> {
     const age = Date.now() - entry.timestamp;
     if (age >= this.ttl) {
       this.logger?.debug(`Cache expired: ${key} (age: ${age}ms, ttl: ${this.ttl}ms)`);
-      this.store.delete(key);
+      this.remove(key);
       return null;
     }
 
+    // Map iteration follows insertion order, so re-inserting marks the entry most recently used
+    this.store.delete(key);
+    this.store.set(key, entry);
     this.logger?.debug(`Cache hit: ${key}`);
     return entry.data;
   }
 
   /**
    * Set value in cache
+   * Values larger than `maxBytes` on their own are not cached.
    */
   async set(key: string, data: T): Promise<void> {
+    this.remove(key);
+
+    const size = estimateSize(key, data);
+    if (this.maxBytes > 0 && size > this.maxBytes) {
+      this.logger?.debug(`Cache skipped: ${key} (${size} bytes exceeds ${this.maxBytes})`);
+      return;
+    }
+
     this.store.set(key, {
       data,
       timestamp: Date.now(),
+      size,
     });
+    this.bytes += size;
+    this.evict();
     this.logger?.debug(`Cache set: ${key}`);
   }
 
@@ -82,7 +147,7 @@ export class InMemoryCache<T = unknown> implements ICache<T> {
    * Delete specific key
    */
   async delete(key: string): Promise<void> {
-    this.store.delete(key);
+    this.remove(key);
     this.logger?.debug(`Cache deleted: ${key}`);
   }
 
@@ -92,16 +157,34 @@ export class InMemoryCache<T = unknown> implements ICache<T> {
   async clear(): Promise<void> {
     const size = this.store.size;
     this.store.clear();
+    this.bytes = 0;
     this.logger?.debug(`Cache cleared: ${size} entries removed`);
   }
 
   /**
    * Get cache statistics
+   *
+   * `bytes` is the approximate memory held by entries. `evictions` and
+   * `evictedBytes` count entries dropped to stay within the size limits,
+   * not expired ones.
    */
-  async getStats(): Promise<{ size: number; ttl: number }> {
+  async getStats(): Promise<{
+    size: number;
+    ttl: number;
+    bytes: number;
+    maxEntries: number;
+    maxBytes: number;
+    evictions: number;
+    evictedBytes: number;
+  }> {
     return {
       size: this.store.size,
       ttl: this.ttl,
+      bytes: this.bytes,
+      maxEntries: this.maxEntries,
+      maxBytes: this.maxBytes,
+      evictions: this.evictions,
+      evictedBytes: this.evictedBytes,
     };
   }
 
@@ -114,7 +197,7 @@ export class InMemoryCache<T = unknown> implements ICache<T> {
 
     for (const [key, entry] of this.store.entries()) {
       if (now - entry.timestamp > this.ttl) {
-        this.store.delete(key);
+        this.remove(key);
         removed++;
       }
     }
@@ -126,6 +209,31 @@ export class InMemoryCache<T = unknown> implements ICache<T> {
     return removed;
   }
 
+  private remove(key: string): void {
+    const entry = this.store.get(key);
+    if (entry) {
+      this.store.delete(key);
+      this.bytes -= entry.size;
+    }
+  }
+
+  /**
+   * Drop least recently used entries until the cache is within its limits
+   */
+  private evict(): void {
+    for (const [key, entry] of this.store) {
+      const overEntries = this.maxEntries > 0 && this.store.size > this.maxEntries;
+      const overBytes = this.maxBytes > 0 && this.bytes > this.maxBytes;
+      if (!overEntries && !overBytes) {
+        break;
+      }
+      this.remove(key);
+      this.evictions++;
+      this.evictedBytes += entry.size;
+      this.logger?.debug(`Cache evicted: ${key} (${entry.size} bytes)`);
+    }
+  }
+
   /**
    * Destroy the cache and cleanup resources
    */
@@ -138,3 +246,331 @@ export class InMemoryCache<T = unknown> implements ICache<T> {
     this.logger?.debug('Cache destroyed');
   }
 }
+
+/**
+ * Bumped when the entry format changes. Entries live under `v<version>/` in the
+ * cache directory, so a new version never reads an old entry, and directories of
+ * other versions are removed on the first prune.
+ */
+const FILE_CACHE_VERSION = 1;
+
+const FileCacheEntrySchema = z.object({
+  key: z.string(),
+  storedAt: z.number(),
+  expiresAt: z.number(),
+  data: z.unknown(),
+});
+
+/**
+ * Size limits for FileSystemCache, measured on disk. 0 or unset means no limit.
+ */
+export interface FileSystemCacheOptions {
+  /** Maximum number of entry files kept */
+  maxEntries?: number;
+  /** Maximum total size of entry files, in bytes */
+  maxBytes?: number;
+}
+
+interface FileCacheScan {
+  entries: { path: string; size: number; usedAt: number }[];
+  bytes: number;
+}
+
+/**
+ * Cache persisted as one JSON file per entry, so cached lookups survive restarts
+ *
+ * Files are named after a hash of the key and hold the key, the time the entry
+ * expires and the value, which must be JSON-serializable. A file's modification
+ * time is set to its expiry, so a prune only removes expired entries even when
+ * caches with different TTLs share the directory. Writes go to a
+ * temporary file that is renamed over the entry, so readers never see a partial
+ * entry, even with several processes sharing the directory.
+ *
+ * When `maxEntries` or `maxBytes` is set, the least recently used files are
+ * removed after each write until the directory is within the limits. Read and
+ * write failures are logged and treated as cache misses.
+ */
+export class FileSystemCache<T = unknown> implements ICache<T> {
+  private readonly rootDir: string;
+  private readonly dir: string;
+  private ttl: number;
+  private cleanupTimer?: NodeJS.Timeout;
+  private logger?: ILogger;
+  private readonly maxEntries: number;
+  private readonly maxBytes: number;
+  private ready?: Promise<void>;
+  private pruning?: Promise<number>;
+  private prunedOldVersions = false;
+
+  constructor(dir: string, ttlMs: number, logger?: ILogger, options: FileSystemCacheOptions = {}) {
+    this.rootDir = dir;
+    this.dir = join(dir, `v${FILE_CACHE_VERSION}`);
+    this.ttl = ttlMs;
+    this.logger = logger;
+    this.maxEntries = options.maxEntries ?? 0;
+    this.maxBytes = options.maxBytes ?? 0;
+
+    // Expired files are only removed by a prune, so run one periodically
+    if (ttlMs > 0) {
+      this.cleanupTimer = setInterval(
+        () => {
+          void this.prune();
+        },
+        Math.min(ttlMs, 3600000)
+      );
+      this.cleanupTimer.unref?.();
+    }
+  }
+
+  /**
+   * Get value from cache
+   * Returns null if not found, expired or unreadable
+   */
+  async get(key: string): Promise<T | null> {
+    const path = this.pathFor(key);
+    let entry: z.infer<typeof FileCacheEntrySchema>;
+    try {
+      entry = FileCacheEntrySchema.parse(JSON.parse(await readFile(path, 'utf8')));
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code === 'ENOENT') {
+        this.logger?.debug(`Cache miss: ${key}`);
+      } else if (code) {
+        this.logger?.warn(`Cache read failed: ${key}`, error);
+      } else {
+        // Corrupt or written by an incompatible build
+        this.logger?.warn(`Cache entry invalid, removing: ${key}`, error);
+        await this.removeFile(path);
+      }
+      return null;
+    }
+
+    // A different key with the same hash is a miss, not a match
+    if (entry.key !== key) {
+      this.logger?.debug(`Cache miss: ${key}`);
+      return null;
+    }
+    if (Date.now() >= entry.expiresAt) {
+      this.logger?.debug(`Cache expired: ${key}`);
+      await this.removeFile(path);
+      return null;
+    }
+
+    // Access time records use for pruning; modification time keeps the expiry
+    await utimes(path, new Date(), new Date(entry.expiresAt)).catch(() => undefined);
+    this.logger?.debug(`Cache hit: ${key}`);
+    return entry.data as T;
+  }
+
+  /**
+   * Set value in cache
+   * Nothing is written when the TTL is 0 (caching disabled).
+   */
+  async set(key: string, data: T): Promise<void> {
+    if (this.ttl <= 0) {
+      return;
+    }
+
+    const path = this.pathFor(key);
+    const now = Date.now();
+    const tempPath = `${path}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+    try {
+      await this.ensureDir();
+      await writeFile(
+        tempPath,
+        JSON.stringify({ key, storedAt: now, expiresAt: now + this.ttl, data }),
+        'utf8'
+      );
+      await rename(tempPath, path);
+      // Access time is stamped from the clock get() uses, so a fresh entry never
+      // sorts as older than one read just before it
+      await utimes(path, new Date(now), new Date(now + this.ttl)).catch(() => undefined);
+      this.logger?.debug(`Cache set: ${key}`);
+    } catch (error) {
+      this.logger?.warn(`Cache write failed: ${key}`, error);
+      await this.removeFile(tempPath);
+      return;
+    }
+
+    if (this.maxEntries > 0 || this.maxBytes > 0) {
+      await this.prune();
+    }
+  }
+
+  /**
+   * Check if key exists and is not expired
+   */
+  async has(key: string): Promise<boolean> {
+    const value = await this.get(key);
+    return value !== null;
+  }
+
+  /**
+   * Delete specific key
+   */
+  async delete(key: string): Promise<void> {
+    await this.removeFile(this.pathFor(key));
+    this.logger?.debug(`Cache deleted: ${key}`);
+  }
+
+  /**
+   * Clear all cache entries of this version
+   */
+  async clear(): Promise<void> {
+    await rm(this.dir, { recursive: true, force: true });
+    this.ready = undefined;
+    this.logger?.debug(`Cache cleared: ${this.dir}`);
+  }
+
+  /**
+   * Get cache statistics
+   * `size` and `bytes` count the entry files currently on disk.
+   */
+  async getStats(): Promise<{
+    size: number;
+    ttl: number;
+    bytes: number;
+    maxEntries: number;
+    maxBytes: number;
+    dir: string;
+  }> {
+    const { entries, bytes } = await this.scan();
+    return {
+      size: entries.length,
+      ttl: this.ttl,
+      bytes,
+      maxEntries: this.maxEntries,
+      maxBytes: this.maxBytes,
+      dir: this.dir,
+    };
+  }
+
+  /**
+   * Remove expired entries, then the least recently used ones until the
+   * directory is within its limits. Concurrent calls share one pass.
+   *
+   * @returns Number of files removed
+   */
+  prune(): Promise<number> {
+    this.pruning ??= this.runPrune().finally(() => {
+      this.pruning = undefined;
+    });
+    return this.pruning;
+  }
+
+  /**
+   * Stop the cleanup timer and wait for a running prune
+   * Entries stay on disk for the next process; use clear() to remove them.
+   */
+  async destroy(): Promise<void> {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = undefined;
+    }
+    await this.pruning;
+    this.logger?.debug('Cache destroyed');
+  }
+
+  private pathFor(key: string): string {
+    return join(this.dir, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+
+  private ensureDir(): Promise<void> {
+    this.ready ??= mkdir(this.dir, { recursive: true }).then(
+      () => undefined,
+      (error: unknown) => {
+        this.ready = undefined;
+        throw error;
+      }
+    );
+    return this.ready;
+  }
+
+  private async removeFile(path: string): Promise<void> {
+    await unlink(path).catch(() => undefined);
+  }
+
+  private async runPrune(): Promise<number> {
+    let removed = 0;
+    try {
+      if (!this.prunedOldVersions) {
+        removed += await this.removeOldVersions();
+        this.prunedOldVersions = true;
+      }
+
+      const now = Date.now();
+      const { entries, bytes } = await this.scan(async (path, modifiedAt) => {
+        // Expired entries, whichever TTL they were written with, and temp files
+        // left by interrupted writes
+        const expired = path.endsWith('.tmp') ? now - modifiedAt >= this.ttl : modifiedAt <= now;
+        if (expired) {
+          await this.removeFile(path);
+          removed++;
+          return false;
+        }
+        return true;
+      });
+
+      let count = entries.length;
+      let total = bytes;
+      entries.sort((a, b) => a.usedAt - b.usedAt);
+      for (const entry of entries) {
+        const overEntries = this.maxEntries > 0 && count > this.maxEntries;
+        const overBytes = this.maxBytes > 0 && total > this.maxBytes;
+        if (!overEntries && !overBytes) {
+          break;
+        }
+        await this.removeFile(entry.path);
+        count--;
+        total -= entry.size;
+        removed++;
+      }
+    } catch (error) {
+      this.logger?.warn(`Cache prune failed: ${this.dir}`, error);
+    }
+
+    if (removed > 0) {
+      this.logger?.debug(`Cache prune: ${removed} files removed`);
+    }
+    return removed;
+  }
+
+  private async removeOldVersions(): Promise<number> {
+    const names = await readdir(this.rootDir).catch(() => [] as string[]);
+    const stale = names.filter((name) => /^v\d+$/.test(name) && name !== `v${FILE_CACHE_VERSION}`);
+    await Promise.all(
+      stale.map((name) => rm(join(this.rootDir, name), { recursive: true, force: true }))
+    );
+    return stale.length;
+  }
+
+  /**
+   * List entry files with their size and last use
+   *
+   * @param keep - Called for every file, temp files included; files it rejects are left out
+   */
+  private async scan(
+    keep?: (path: string, modifiedAt: number) => Promise<boolean>
+  ): Promise<FileCacheScan> {
+    const names = await readdir(this.dir).catch((error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT') {
+        return [] as string[];
+      }
+      throw error;
+    });
+
+    const result: FileCacheScan = { entries: [], bytes: 0 };
+    for (const name of names) {
+      const path = join(this.dir, name);
+      const stats = await stat(path).catch(() => undefined);
+      if (!stats?.isFile() || (keep && !(await keep(path, stats.mtimeMs)))) {
+        continue;
+      }
+      if (name.endsWith('.json')) {
+        result.entries.push({ path, size: stats.size, usedAt: stats.atimeMs });
+        result.bytes += stats.size;
+      }
+    }
+    return result;
+  }
+}
@@ -3,7 +3,10 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { InMemoryCache } from './cache.js';
+import { mkdir, mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileSystemCache, InMemoryCache } from './cache.js';
 import { MapRequestDeduplicator } from './deduplicator.js';
 
 describe('InMemoryCache', () => {
@@ -184,6 +187,79 @@ describe('InMemoryCache', () => {
     });
   });
 
+  describe('size limits', () => {
+    it('set when maxEntries exceeded then evicts least recently used entry', async () => {
+      const cache = new InMemoryCache<string>(mockTtl, undefined, { maxEntries: 2 });
+      await cache.set('a', '1');
+      await cache.set('b', '2');
+      await cache.get('a');
+
+      await cache.set('c', '3');
+
+      expect(await cache.get('a')).toBe('1');
+      expect(await cache.get('b')).toBeNull();
+      expect(await cache.get('c')).toBe('3');
+      await cache.destroy();
+    });
+
+    it('set when maxBytes exceeded then evicts until within limit', async () => {
+      // Each entry is 1 byte of key plus 12 bytes of JSON
+      const cache = new InMemoryCache<string>(mockTtl, undefined, { maxBytes: 30 });
+      await cache.set('a', 'x'.repeat(10));
+      await cache.set('b', 'x'.repeat(10));
+
+      await cache.set('c', 'x'.repeat(10));
+
+      const stats = await cache.getStats();
+      expect(await cache.get('a')).toBeNull();
+      expect(stats.size).toBe(2);
+      expect(stats.bytes).toBe(26);
+      expect(stats.evictions).toBe(1);
+      expect(stats.evictedBytes).toBe(13);
+      await cache.destroy();
+    });
+
+    it('set when value alone exceeds maxBytes then does not cache it', async () => {
+      const cache = new InMemoryCache<string>(mockTtl, undefined, { maxBytes: 10 });
+      await cache.set('a', '1');
+
+      await cache.set('big', 'x'.repeat(20));
+
+      expect(await cache.get('big')).toBeNull();
+      expect(await cache.get('a')).toBe('1');
+      expect((await cache.getStats()).evictions).toBe(0);
+      await cache.destroy();
+    });
+
+    it('set when key is overwritten then counts its size once', async () => {
+      const cache = new InMemoryCache<string>(mockTtl, undefined, { maxEntries: 1 });
+      await cache.set('a', '1');
+
+      await cache.set('a', '22');
+
+      const stats = await cache.getStats();
+      expect(stats).toMatchObject({ size: 1, bytes: 5, evictions: 0 });
+      await cache.destroy();
+    });
+
+    it('delete and clear when called then release tracked bytes', async () => {
+      await mockCache.set('a', '1');
+      await mockCache.set('b', '2');
+
+      await mockCache.delete('a');
+      expect((await mockCache.getStats()).bytes).toBe(4);
+
+      await mockCache.clear();
+      expect((await mockCache.getStats()).bytes).toBe(0);
+    });
+
+    it('getStats when no limits given then reports them as 0', async () => {
+      const stats = await mockCache.getStats();
+
+      expect(stats).toMatchObject({ maxEntries: 0, maxBytes: 0, evictions: 0, bytes: 0 });
+    });
+  });
+
   describe('cleanup', () => {
     it('cleanup when no expired entries then returns zero', async () => {
       await mockCache.set('key1', 'value1');
@@ -360,6 +436,205 @@ describe('InMemoryCache', () => {
   });
 });
 
+describe('FileSystemCache', () => {
+  let dir: string;
+  const ttl = 60000;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'oorep-cache-'));
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('set when value stored then a new instance reads it back', async () => {
+    const cache = new FileSystemCache<{ ids: number[] }>(dir, ttl);
+    await cache.set('repertory:q=head', { ids: [1, 2] });
+    await cache.destroy();
+
+    const reopened = new FileSystemCache<{ ids: number[] }>(dir, ttl);
+
+    expect(await reopened.get('repertory:q=head')).toEqual({ ids: [1, 2] });
+    expect(await reopened.has('repertory:q=head')).toBe(true);
+    await reopened.destroy();
+  });
+
+  it('set when called then writes under the versioned directory without temp files', async () => {
+    const cache = new FileSystemCache<string>(dir, ttl);
+
+    await cache.set('key', 'value');
+
+    const files = await readdir(join(dir, 'v1'));
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatch(/^[0-9a-f]{64}\.json$/);
+    await cache.destroy();
+  });
+
+  it('get when key does not exist then returns null', async () => {
+    const cache = new FileSystemCache<string>(dir, ttl);
+
+    expect(await cache.get('missing')).toBeNull();
+    await cache.destroy();
+  });
+
+  it('get when entry is expired then returns null and removes the file', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const cache = new FileSystemCache<string>(dir, ttl);
+    await cache.set('key', 'value');
+
+    vi.setSystemTime(Date.now() + ttl);
+
+    expect(await cache.get('key')).toBeNull();
+    expect(await readdir(join(dir, 'v1'))).toEqual([]);
+    await cache.destroy();
+  });
+
+  it('get when entry file is corrupt then returns null and removes it', async () => {
+    const cache = new FileSystemCache<string>(dir, ttl);
+    await cache.set('key', 'value');
+    const [file] = await readdir(join(dir, 'v1'));
+    await writeFile(join(dir, 'v1', file), '{"key":', 'utf8');
+
+    expect(await cache.get('key')).toBeNull();
+    expect(await readdir(join(dir, 'v1'))).toEqual([]);
+    await cache.destroy();
+  });
+
+  it('set when ttl is 0 then writes nothing', async () => {
+    const cache = new FileSystemCache<string>(dir, 0);
+
+    await cache.set('key', 'value');
+
+    expect(await cache.get('key')).toBeNull();
+    expect((await cache.getStats()).size).toBe(0);
+    await cache.destroy();
+  });
+
+  it('set when directory cannot be created then treats it as a miss', async () => {
+    const file = join(dir, 'not-a-dir');
+    await writeFile(file, '', 'utf8');
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const cache = new FileSystemCache<string>(file, ttl, logger);
+
+    await expect(cache.set('key', 'value')).resolves.toBeUndefined();
+    expect(logger.warn).toHaveBeenCalledWith('Cache write failed: key', expect.any(Error));
+    await cache.destroy();
+  });
+
+  it('set when maxEntries exceeded then removes least recently used files', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const cache = new FileSystemCache<string>(dir, ttl, undefined, { maxEntries: 2 });
+    await cache.set('a', '1');
+    vi.advanceTimersByTime(1000);
+    await cache.set('b', '2');
+    vi.advanceTimersByTime(1000);
+    await cache.get('a');
+    vi.advanceTimersByTime(1000);
+
+    await cache.set('c', '3');
+
+    expect(await cache.get('a')).toBe('1');
+    expect(await cache.get('b')).toBeNull();
+    expect(await cache.get('c')).toBe('3');
+    await cache.destroy();
+  });
+
+  it('set when maxBytes exceeded then prunes until within limit', async () => {
+    const cache = new FileSystemCache<string>(dir, ttl, undefined, { maxBytes: 250 });
+
+    for (const key of ['a', 'b', 'c', 'd']) {
+      await cache.set(key, 'x'.repeat(50));
+    }
+
+    const stats = await cache.getStats();
+    expect(stats.bytes).toBeLessThanOrEqual(250);
+    expect(stats.size).toBeLessThan(4);
+    await cache.destroy();
+  });
+
+  it('prune when entries expired then removes them', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const cache = new FileSystemCache<string>(dir, ttl);
+    await cache.set('key', 'value');
+
+    vi.setSystemTime(Date.now() + ttl + 1000);
+
+    expect(await cache.prune()).toBe(1);
+    expect((await cache.getStats()).size).toBe(0);
+    await cache.destroy();
+  });
+
+  it('prune when two caches share the directory then keeps entries the other has not expired', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const shortLived = new FileSystemCache<string>(dir, ttl);
+    const longLived = new FileSystemCache<string>(dir, ttl * 10);
+    await longLived.set('catalog', 'kept');
+
+    vi.setSystemTime(Date.now() + ttl + 1000);
+
+    expect(await shortLived.prune()).toBe(0);
+    expect(await readdir(join(dir, 'v1'))).toHaveLength(1);
+    expect(await longLived.get('catalog')).toBe('kept');
+
+    vi.setSystemTime(Date.now() + ttl * 10);
+
+    expect(await shortLived.prune()).toBe(1);
+    await shortLived.destroy();
+    await longLived.destroy();
+  });
+
+  it('prune when other schema versions exist then removes their directories', async () => {
+    await mkdir(join(dir, 'v0'), { recursive: true });
+    await writeFile(join(dir, 'v0', 'old.json'), '{}', 'utf8');
+    await writeFile(join(dir, 'notes.txt'), 'keep', 'utf8');
+    const cache = new FileSystemCache<string>(dir, ttl);
+
+    await cache.prune();
+
+    expect((await readdir(dir)).sort()).toEqual(['notes.txt']);
+    await cache.destroy();
+  });
+
+  it('delete and clear when called then remove entries', async () => {
+    const cache = new FileSystemCache<string>(dir, ttl);
+    await cache.set('a', '1');
+    await cache.set('b', '2');
+
+    await cache.delete('a');
+    expect(await cache.get('a')).toBeNull();
+    expect(await cache.get('b')).toBe('2');
+
+    await cache.clear();
+    expect((await cache.getStats()).size).toBe(0);
+    await cache.set('c', '3');
+    expect(await cache.get('c')).toBe('3');
+    await cache.destroy();
+  });
+
+  it('getStats when entries stored then reports files, bytes and limits', async () => {
+    const cache = new FileSystemCache<string>(dir, ttl, undefined, { maxEntries: 5 });
+    await cache.set('a', '1');
+
+    const stats = await cache.getStats();
+
+    expect(stats).toMatchObject({ size: 1, ttl, maxEntries: 5, maxBytes: 0 });
+    expect(stats.bytes).toBeGreaterThan(0);
+    expect(stats.dir).toBe(join(dir, 'v1'));
+    await cache.destroy();
+  });
+
+  it('destroy when called then keeps entries on disk', async () => {
+    const cache = new FileSystemCache<string>(dir, ttl);
+    await cache.set('key', 'value');
+
+    await cache.destroy();
+
+    expect(await readdir(join(dir, 'v1'))).toHaveLength(1);
+  });
+});
+
 describe('MapRequestDeduplicator', () => {
   let mockDeduplicator: MapRequestDeduplicator;
 
@@ -0,0 +1,142 @@
+/**
+ * Case store implementations
+ * Implement ICaseStore interface for dependency injection
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { ICaseStore } from '../interfaces/ICaseStore.js';
+import type { ILogger } from '../interfaces/ILogger.js';
+import { OOREPError } from '../utils/errors.js';
+import { z, SavedCaseSchema, type SavedCase } from '../utils/schemas.js';
+
+const CASE_FILE_VERSION = 1;
+
+const CaseFileSchema = z.object({
+  version: z.literal(CASE_FILE_VERSION),
+  cases: z.record(z.string(), SavedCaseSchema),
+});
+
+/**
+ * In-memory case store
+ * Cases live as long as the process; stored copies are isolated from callers
+ */
+export class InMemoryCaseStore implements ICaseStore {
+  private cases = new Map<string, SavedCase>();
+
+  async get(id: string): Promise<SavedCase | null> {
+    const savedCase = this.cases.get(id);
+    return savedCase ? structuredClone(savedCase) : null;
+  }
+
+  async save(savedCase: SavedCase): Promise<void> {
+    this.cases.set(savedCase.id, structuredClone(savedCase));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.cases.delete(id);
+  }
+
+  async list(): Promise<SavedCase[]> {
+    return Array.from(this.cases.values(), (savedCase) => structuredClone(savedCase));
+  }
+}
+
+/**
+ * Case store persisted to a single JSON file
+ *
+ * The file is read on first use and rewritten after every change. Writes go to
+ * a temporary file that is renamed over the original, so a crash never leaves
+ * a half-written file behind. Writes are serialized within the process.
+ */
+export class JsonFileCaseStore implements ICaseStore {
+  private cases?: Map<string, SavedCase>;
+  private loading?: Promise<Map<string, SavedCase>>;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly filePath: string,
+    private readonly logger?: ILogger
+  ) {}
+
+  async get(id: string): Promise<SavedCase | null> {
+    const savedCase = (await this.load()).get(id);
+    return savedCase ? structuredClone(savedCase) : null;
+  }
+
+  async save(savedCase: SavedCase): Promise<void> {
+    const cases = await this.load();
+    cases.set(savedCase.id, structuredClone(savedCase));
+    await this.persist();
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const cases = await this.load();
+    const deleted = cases.delete(id);
+    if (deleted) {
+      await this.persist();
+    }
+    return deleted;
+  }
+
+  async list(): Promise<SavedCase[]> {
+    return Array.from((await this.load()).values(), (savedCase) => structuredClone(savedCase));
+  }
+
+  /**
+   * Wait for pending writes to finish
+   */
+  async destroy(): Promise<void> {
+    await this.writing.catch(() => undefined);
+  }
+
+  private load(): Promise<Map<string, SavedCase>> {
+    if (this.cases) {
+      return Promise.resolve(this.cases);
+    }
+    this.loading ??= this.readFile().then((cases) => {
+      this.cases = cases;
+      return cases;
+    });
+    return this.loading;
+  }
+
+  private async readFile(): Promise<Map<string, SavedCase>> {
+    let contents: string;
+    try {
+      contents = await readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        this.logger?.debug(`Case file not found, starting empty: ${this.filePath}`);
+        return new Map();
+      }
+      throw new OOREPError(`Failed to read case file ${this.filePath}`, error as Error);
+    }
+
+    try {
+      const parsed = CaseFileSchema.parse(JSON.parse(contents));
+      return new Map(Object.entries(parsed.cases));
+    } catch (error) {
+      throw new OOREPError(`Case file ${this.filePath} is not valid`, error as Error);
+    }
+  }
+
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify(
+      { version: CASE_FILE_VERSION, cases: Object.fromEntries(this.cases ?? []) },
+      null,
+      2
+    );
+    const write = async () => {
+      const tempPath = `${this.filePath}.tmp`;
+      await mkdir(dirname(this.filePath), { recursive: true });
+      await writeFile(tempPath, snapshot, 'utf8');
+      await rename(tempPath, this.filePath);
+      this.logger?.debug(`Saved case file: ${this.filePath}`);
+    };
+
+    // Chain after the previous write even if it failed, so one error does not block later saves
+    this.writing = this.writing.then(write, write);
+    return this.writing;
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for case store implementations
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { InMemoryCaseStore, JsonFileCaseStore } from './case-store.js';
+import { OOREPError } from '../utils/errors.js';
+import type { SavedCase } from '../utils/schemas.js';
+
+function savedCase(id: string, name = 'Patient A'): SavedCase {
+  return {
+    id,
+    name,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    rubrics: [
+      {
+        id: 10,
+        rubric: 'Head, pain, throbbing',
+        repertory: 'kent',
+        remedies: [{ name: 'Belladonna', abbreviation: 'Bell.', weight: 3 }],
+        intensity: 2,
+        addedAt: '2026-01-01T00:00:00.000Z',
+      },
+    ],
+  };
+}
+
+describe('InMemoryCaseStore', () => {
+  it('save when case saved then get returns an isolated copy', async () => {
+    const store = new InMemoryCaseStore();
+    const original = savedCase('a');
+
+    await store.save(original);
+    original.rubrics = [];
+    const loaded = await store.get('a');
+    loaded!.name = 'Changed';
+
+    expect((await store.get('a'))!).toEqual(savedCase('a'));
+  });
+
+  it('get when case missing then returns null', async () => {
+    expect(await new InMemoryCaseStore().get('missing')).toBeNull();
+  });
+
+  it('delete when case exists then removes it and reports whether it existed', async () => {
+    const store = new InMemoryCaseStore();
+    await store.save(savedCase('a'));
+    await store.save(savedCase('b'));
+
+    expect(await store.delete('a')).toBe(true);
+    expect(await store.delete('a')).toBe(false);
+    expect((await store.list()).map((entry) => entry.id)).toEqual(['b']);
+  });
+});
+
+describe('JsonFileCaseStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'oorep-cases-'));
+    filePath = join(dir, 'nested', 'cases.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('get when file does not exist then starts empty', async () => {
+    const store = new JsonFileCaseStore(filePath);
+
+    expect(await store.get('a')).toBeNull();
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('save when case saved then persists it for a new store instance', async () => {
+    const store = new JsonFileCaseStore(filePath);
+    await store.save(savedCase('a'));
+    await store.save(savedCase('b', 'Patient B'));
+    await store.delete('a');
+    await store.destroy();
+
+    const reopened = new JsonFileCaseStore(filePath);
+
+    expect(await reopened.get('b')).toEqual(savedCase('b', 'Patient B'));
+    expect(await reopened.get('a')).toBeNull();
+    expect(JSON.parse(await readFile(filePath, 'utf8'))).toMatchObject({ version: 1 });
+  });
+
+  it('get when file is not valid then throws OOREPError', async () => {
+    const invalidPath = join(dir, 'cases.json');
+    await writeFile(invalidPath, JSON.stringify({ version: 2, cases: {} }), 'utf8');
+
+    await expect(new JsonFileCaseStore(invalidPath).get('a')).rejects.toThrow(OOREPError);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Matching for MCP argument completions
+ *
+ * Candidates are matched against what the user has typed so far, best matches
+ * first: the value itself, then its aliases (full names, alternate names) by
+ * prefix, word prefix, substring and finally fuzzy subsequence.
+ */
+
+/** Most values a completion response may carry */
+export const MAX_COMPLETION_VALUES = 100;
+
+export interface CompletionCandidate {
+  /** Value inserted when the completion is chosen, e.g. a repertory abbreviation */
+  value: string;
+  /** Other names the candidate can be found by */
+  aliases?: string[];
+}
+
+export interface CompletionMatches {
+  values: string[];
+  total: number;
+  hasMore: boolean;
+}
+
+const MATCH_SCORES = {
+  EXACT: 0,
+  PREFIX: 1,
+  WORD_PREFIX: 2,
+  SUBSTRING: 3,
+  FUZZY: 4,
+} as const;
+
+/** Aliases rank just below the same kind of match on the value itself */
+const ALIAS_PENALTY = 0.5;
+
+function normalize(text: string): string {
+  return text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase().trim();
+}
+
+function isSubsequence(query: string, text: string): boolean {
+  let position = 0;
+  for (const char of text) {
+    if (char === query[position]) {
+      position += 1;
+      if (position === query.length) return true;
+    }
+  }
+  return position === query.length;
+}
+
+function scoreText(query: string, text: string): number | undefined {
+  const normalized = normalize(text);
+  if (normalized === query) return MATCH_SCORES.EXACT;
+  if (normalized.startsWith(query)) return MATCH_SCORES.PREFIX;
+  if (normalized.split(/[^\p{L}\p{N}]+/u).some((word) => word.startsWith(query))) {
+    return MATCH_SCORES.WORD_PREFIX;
+  }
+  if (normalized.includes(query)) return MATCH_SCORES.SUBSTRING;
+  // Fuzzy matches on very short input would match almost everything
+  if (query.length >= 2 && isSubsequence(query, normalized)) return MATCH_SCORES.FUZZY;
+  return undefined;
+}
+
+function scoreCandidate(query: string, candidate: CompletionCandidate): number | undefined {
+  const scores = [
+    scoreText(query, candidate.value),
+    ...(candidate.aliases ?? []).map((alias) => {
+      const score = scoreText(query, alias);
+      return score === undefined ? undefined : score + ALIAS_PENALTY;
+    }),
+  ].filter((score): score is number => score !== undefined);
+  return scores.length > 0 ? Math.min(...scores) : undefined;
+}
+
+/**
+ * Match candidates against partial input, best matches first
+ *
+ * Empty input matches every candidate in its original order. Duplicate values
+ * are listed once.
+ */
+export function matchCompletions(
+  input: string,
+  candidates: CompletionCandidate[],
+  limit: number = MAX_COMPLETION_VALUES
+): CompletionMatches {
+  const query = normalize(input);
+  const seen = new Set<string>();
+  const scored: Array<{ value: string; score: number; index: number }> = [];
+
+  candidates.forEach((candidate, index) => {
+    if (seen.has(candidate.value)) return;
+    const score = query ? scoreCandidate(query, candidate) : MATCH_SCORES.EXACT;
+    if (score === undefined) return;
+    seen.add(candidate.value);
+    scored.push({ value: candidate.value, score, index });
+  });
+
+  scored.sort((a, b) => a.score - b.score || a.index - b.index);
+  return {
+    values: scored.slice(0, limit).map(({ value }) => value),
+    total: scored.length,
+    hasMore: scored.length > limit,
+  };
+}
+
+/**
+ * Complete the last entry of a comma-separated list, keeping the earlier entries
+ *
+ * Entries already in the list are not suggested again.
+ *
+ * @example
+ * matchListCompletions('Acon., bel', remedies) // values like 'Acon., Bell.'
+ */
+export function matchListCompletions(
+  input: string,
+  candidates: CompletionCandidate[],
+  limit: number = MAX_COMPLETION_VALUES
+): CompletionMatches {
+  const entries = input.split(',');
+  const last = entries.pop() ?? '';
+  const previous = entries.map((entry) => entry.trim()).filter((entry) => entry.length > 0);
+  const chosen = new Set(previous.map(normalize));
+
+  const matches = matchCompletions(
+    last,
+    candidates.filter((candidate) => !chosen.has(normalize(candidate.value))),
+    limit
+  );
+  const prefix = previous.length > 0 ? `${previous.join(', ')}, ` : '';
+  return { ...matches, values: matches.values.map((value) => `${prefix}${value}`) };
+}
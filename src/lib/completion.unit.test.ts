@@ -0,0 +1,81 @@
+/**
+ * Unit tests for completion matching
+ */
+
+import { describe, it, expect } from 'vitest';
+import { matchCompletions, matchListCompletions, type CompletionCandidate } from './completion.js';
+
+const REMEDIES: CompletionCandidate[] = [
+  { value: 'Bell.', aliases: ['Belladonna', 'Atropa belladonna'] },
+  { value: 'Acon.', aliases: ['Aconitum napellus'] },
+  { value: 'Bry.', aliases: ['Bryonia alba'] },
+  { value: 'Nux-v.', aliases: ['Nux vomica'] },
+  { value: 'Arn.', aliases: ['Arnica montana'] },
+];
+
+describe('matchCompletions', () => {
+  it('matchCompletions when input is empty then returns every candidate in order', () => {
+    expect(matchCompletions('', REMEDIES)).toEqual({
+      values: ['Bell.', 'Acon.', 'Bry.', 'Nux-v.', 'Arn.'],
+      total: 5,
+      hasMore: false,
+    });
+  });
+
+  it('matchCompletions when input is a prefix then ranks value matches first', () => {
+    expect(matchCompletions('b', REMEDIES).values).toEqual(['Bell.', 'Bry.']);
+  });
+
+  it('matchCompletions when input matches an alias word then includes the candidate', () => {
+    expect(matchCompletions('vomica', REMEDIES).values).toEqual(['Nux-v.']);
+    expect(matchCompletions('montana', REMEDIES).values).toEqual(['Arn.']);
+  });
+
+  it('matchCompletions when input is a subsequence then matches fuzzily', () => {
+    expect(matchCompletions('acnp', REMEDIES).values).toEqual(['Acon.']);
+  });
+
+  it('matchCompletions when input has different case and accents then still matches', () => {
+    const candidates = [{ value: 'kent-de', aliases: ['Kents Repertorium (Übersetzung)'] }];
+
+    expect(matchCompletions('UBERS', candidates).values).toEqual(['kent-de']);
+  });
+
+  it('matchCompletions when prefix and substring matches exist then orders prefix first', () => {
+    const candidates = [{ value: 'publicum' }, { value: 'kent' }, { value: 'bogboen' }];
+
+    expect(matchCompletions('b', candidates).values).toEqual(['bogboen', 'publicum']);
+  });
+
+  it('matchCompletions when more matches than limit then reports total and hasMore', () => {
+    expect(matchCompletions('', REMEDIES, 2)).toEqual({
+      values: ['Bell.', 'Acon.'],
+      total: 5,
+      hasMore: true,
+    });
+  });
+
+  it('matchCompletions when values repeat then lists them once', () => {
+    const candidates = [{ value: 'kent' }, { value: 'kent', aliases: ['Kent'] }];
+
+    expect(matchCompletions('k', candidates).values).toEqual(['kent']);
+  });
+
+  it('matchCompletions when nothing matches then returns no values', () => {
+    expect(matchCompletions('zzz', REMEDIES)).toEqual({ values: [], total: 0, hasMore: false });
+  });
+});
+
+describe('matchListCompletions', () => {
+  it('matchListCompletions when completing later entry then keeps earlier entries', () => {
+    expect(matchListCompletions('Acon., bel', REMEDIES).values).toEqual(['Acon., Bell.']);
+  });
+
+  it('matchListCompletions when entry already chosen then does not suggest it again', () => {
+    expect(matchListCompletions('Bell., b', REMEDIES).values).toEqual(['Bell., Bry.']);
+  });
+
+  it('matchListCompletions when input is a single entry then completes it alone', () => {
+    expect(matchListCompletions('arni', REMEDIES).values).toEqual(['Arn.']);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Cross-referencing symptom queries
+ *
+ * Intersects the remedies found by several repertory searches. Remedies are
+ * ranked by the number of queries they appear in, then by their summed grades
+ * and finally by abbreviation. Eliminative queries act as hard filters: a
+ * remedy missing from any of them is dropped and reported with the queries
+ * that eliminated it.
+ */
+
+import { DEFAULT_MAX_REMEDIES } from './repertorization.js';
+import type {
+  CrossReferenceQuerySummary,
+  CrossReferenceResult,
+  CrossReferencedRemedy,
+  EliminatedRemedy,
+  RemedyStat,
+} from '../utils/schemas.js';
+
+/**
+ * Outcome of one query taking part in the cross-reference
+ */
+export interface CrossReferenceQueryOutcome {
+  summary: CrossReferenceQuerySummary;
+  remedyStats: RemedyStat[];
+}
+
+/**
+ * Cross-reference the remedies of already executed queries
+ */
+export function crossReference(
+  outcomes: CrossReferenceQueryOutcome[],
+  options: { maxRemedies?: number } = {}
+): CrossReferenceResult {
+  const maxRemedies = options.maxRemedies ?? DEFAULT_MAX_REMEDIES;
+  const remedies = new Map<string, CrossReferencedRemedy>();
+
+  for (const { summary, remedyStats } of outcomes) {
+    for (const stat of remedyStats) {
+      const abbreviation = stat.abbreviation ?? stat.name;
+      const entry = remedies.get(abbreviation) ?? {
+        name: stat.name,
+        abbreviation,
+        matchedQueries: 0,
+        queries: [],
+        cumulativeWeight: 0,
+      };
+      // A remedy listed twice for one query still counts as one match
+      if (!entry.queries.includes(summary.index)) {
+        entry.matchedQueries += 1;
+        entry.queries.push(summary.index);
+      }
+      entry.cumulativeWeight += stat.cumulativeWeight;
+      remedies.set(abbreviation, entry);
+    }
+  }
+
+  const eliminative = outcomes.filter((outcome) => outcome.summary.eliminative);
+  const kept: CrossReferencedRemedy[] = [];
+  const eliminated: EliminatedRemedy[] = [];
+
+  for (const remedy of remedies.values()) {
+    const eliminatedBy = eliminative
+      .filter((outcome) => !remedy.queries.includes(outcome.summary.index))
+      .map((outcome) => outcome.summary);
+
+    if (eliminatedBy.length === 0) {
+      kept.push(remedy);
+    } else {
+      eliminated.push({
+        ...remedy,
+        eliminatedBy: eliminatedBy.map((summary) => summary.index),
+        reason: describeElimination(eliminatedBy),
+      });
+    }
+  }
+
+  kept.sort(compareRemedies);
+  eliminated.sort(compareRemedies);
+
+  return {
+    queries: outcomes.map((outcome) => outcome.summary),
+    totalRemedies: kept.length,
+    remedies: kept.slice(0, maxRemedies),
+    totalEliminated: eliminated.length,
+    eliminated: eliminated.slice(0, maxRemedies),
+  };
+}
+
+function compareRemedies(a: CrossReferencedRemedy, b: CrossReferencedRemedy): number {
+  return (
+    b.matchedQueries - a.matchedQueries ||
+    b.cumulativeWeight - a.cumulativeWeight ||
+    a.abbreviation.localeCompare(b.abbreviation)
+  );
+}
+
+function describeElimination(queries: CrossReferenceQuerySummary[]): string {
+  const names = queries.map((query) => `#${query.index} "${query.symptom}"`).join(', ');
+  return queries.length === 1
+    ? `Missing from eliminative query ${names}`
+    : `Missing from eliminative queries ${names}`;
+}
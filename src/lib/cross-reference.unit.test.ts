@@ -0,0 +1,125 @@
+/**
+ * Unit tests for cross-referencing symptom queries
+ */
+
+import { describe, it, expect } from 'vitest';
+import { crossReference, type CrossReferenceQueryOutcome } from './cross-reference.js';
+
+function outcome(
+  index: number,
+  symptom: string,
+  remedies: Array<[string, number]>,
+  eliminative = false
+): CrossReferenceQueryOutcome {
+  return {
+    summary: {
+      index,
+      symptom,
+      repertory: 'kent',
+      eliminative,
+      totalResults: 1,
+      remedyCount: remedies.length,
+    },
+    remedyStats: remedies.map(([abbreviation, cumulativeWeight]) => ({
+      name: abbreviation,
+      abbreviation,
+      count: 1,
+      cumulativeWeight,
+    })),
+  };
+}
+
+describe('crossReference', () => {
+  it('crossReference when no eliminative query then ranks by matched queries then weight', () => {
+    const result = crossReference([
+      outcome(0, 'thirstless', [
+        ['Puls.', 2],
+        ['Gels.', 3],
+      ]),
+      outcome(1, 'weeping', [
+        ['Puls.', 3],
+        ['Ign.', 9],
+      ]),
+    ]);
+
+    expect(result.remedies.map((remedy) => remedy.abbreviation)).toEqual([
+      'Puls.',
+      'Ign.',
+      'Gels.',
+    ]);
+    expect(result.remedies[0]).toEqual({
+      name: 'Puls.',
+      abbreviation: 'Puls.',
+      matchedQueries: 2,
+      queries: [0, 1],
+      cumulativeWeight: 5,
+    });
+    expect(result.totalRemedies).toBe(3);
+    expect(result.eliminated).toEqual([]);
+  });
+
+  it('crossReference when eliminative query then drops remedies missing from it', () => {
+    const result = crossReference([
+      outcome(0, 'thirstless', [['Puls.', 2]], true),
+      outcome(1, 'weeping', [
+        ['Puls.', 3],
+        ['Ign.', 9],
+      ]),
+    ]);
+
+    expect(result.remedies.map((remedy) => remedy.abbreviation)).toEqual(['Puls.']);
+    expect(result.totalEliminated).toBe(1);
+    expect(result.eliminated[0]).toMatchObject({
+      abbreviation: 'Ign.',
+      eliminatedBy: [0],
+      reason: 'Missing from eliminative query #0 "thirstless"',
+    });
+  });
+
+  it('crossReference when remedy missing from several eliminative queries then names them all', () => {
+    const result = crossReference([
+      outcome(0, 'thirstless', [['Puls.', 2]], true),
+      outcome(1, 'chilly', [['Puls.', 1]], true),
+      outcome(2, 'weeping', [['Ign.', 3]]),
+    ]);
+
+    expect(result.remedies.map((remedy) => remedy.abbreviation)).toEqual(['Puls.']);
+    expect(result.eliminated).toHaveLength(1);
+    expect(result.eliminated[0]).toMatchObject({
+      abbreviation: 'Ign.',
+      eliminatedBy: [0, 1],
+      reason: 'Missing from eliminative queries #0 "thirstless", #1 "chilly"',
+    });
+  });
+
+  it('crossReference when maxRemedies set then limits lists but reports totals', () => {
+    const result = crossReference(
+      [
+        outcome(0, 'thirstless', [['Puls.', 2]], true),
+        outcome(1, 'weeping', [
+          ['Ign.', 9],
+          ['Nat-m.', 4],
+          ['Puls.', 1],
+        ]),
+      ],
+      { maxRemedies: 1 }
+    );
+
+    expect(result.remedies).toHaveLength(1);
+    expect(result.eliminated.map((remedy) => remedy.abbreviation)).toEqual(['Ign.']);
+    expect(result.totalRemedies).toBe(1);
+    expect(result.totalEliminated).toBe(2);
+  });
+
+  it('crossReference when remedies tie then orders them by abbreviation', () => {
+    const result = crossReference([
+      outcome(0, 'thirstless', [
+        ['Puls.', 2],
+        ['Ars.', 2],
+      ]),
+      outcome(1, 'weeping', []),
+    ]);
+
+    expect(result.remedies.map((remedy) => remedy.abbreviation)).toEqual(['Ars.', 'Puls.']);
+  });
+});
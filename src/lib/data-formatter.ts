@@ -3,20 +3,30 @@
  * into the format expected by MCP tools
  */
 
+import { encodePageCursor, getNextPageCursor } from './pagination.js';
+import { REMEDY_RANKING_STRATEGIES, rankRemedyStats } from './remedy-ranking.js';
+import { buildRubricTree, getRubricChapter } from './rubric-tree.js';
 import type {
   RepertorySearchResult,
+  RemedyRankingName,
   Rubric,
+  RubricGroupBy,
   MateriaMedicaSearchResult,
   MateriaMedicaResult,
 } from '../utils/schemas.js';
 
 type RawRepertoryRubric = {
   rubric: {
+    id?: number;
     fullPath?: string | null;
+    path?: string | null;
     textt?: string | null;
   };
+  rubricLabel?: string | null;
+  rubricWeight?: number | null;
   weightedRemedies: Array<{
     remedy: {
+      id?: number;
       nameAbbrev: string;
       nameLong: string;
     };
@@ -36,6 +46,9 @@ type RawGroupedRepertoryRubric = RawRepertoryRubric & {
 
 type RawRepertoryResult = {
   totalNumberOfResults: number;
+  totalNumberOfPages?: number;
+  currPage?: number;
+  remedyStats?: Array<{ nameabbrev: string; count: number; cumulativeweight: number }>;
   results: Array<
     | RawFlatRepertoryRubric
     | {
@@ -66,85 +79,189 @@ type RawMateriaMedicaResult = {
  */
 export function formatRepertoryResults(
   apiResponse: RawRepertoryResult | null,
-  options: { includeRemedyStats?: boolean; maxResults?: number } = {}
+  options: {
+    includeRemedyStats?: boolean;
+    maxResults?: number;
+    offset?: number;
+    groupBy?: RubricGroupBy;
+    ranking?: RemedyRankingName;
+    symptom?: string;
+  } = {}
 ): RepertorySearchResult {
   if (!apiResponse) {
     return {
       totalResults: 0,
       rubrics: [],
       remedyStats: options.includeRemedyStats === false ? undefined : [],
+      tree: options.groupBy && options.groupBy !== 'flat' ? [] : undefined,
     };
   }
 
   const rawRubrics = apiResponse.results.flatMap<
     RawFlatRepertoryRubric | RawGroupedRepertoryRubric
   >((result) => ('subRubrics' in result ? result.subRubrics : [result]));
+  const offset = options.offset ?? 0;
   const limit =
     options.maxResults && options.maxResults > 0 ? options.maxResults : rawRubrics.length;
+  const end = offset + limit;
 
-  const rubrics: Rubric[] = rawRubrics.slice(0, limit).map((result) => ({
+  const rubrics: Rubric[] = rawRubrics.slice(offset, end).map((result) => ({
+    id: result.rubric.id,
     rubric: result.rubric.fullPath || result.rubric.textt || 'Untitled rubric',
+    path: result.rubric.path || undefined,
+    chapter: getRubricChapter(result.rubric.fullPath),
     repertory: 'repertoryAbbrev' in result ? result.repertoryAbbrev : result.rubric.abbrev,
+    weight: result.rubricWeight ?? undefined,
+    label: result.rubricLabel || undefined,
     remedies: result.weightedRemedies.map((remedy) => ({
+      id: remedy.remedy.id,
       name: remedy.remedy.nameLong || remedy.remedy.nameAbbrev,
       abbreviation: remedy.remedy.nameAbbrev,
       weight: remedy.weight,
     })),
   }));
 
-  let remedyStats = undefined;
+  let remedyStats: RepertorySearchResult['remedyStats'];
+  let remedyStatsPartial: boolean | undefined;
   if (options.includeRemedyStats !== false) {
-    const stats = new Map<
-      string,
-      { name: string; abbreviation: string; count: number; cumulativeWeight: number }
-    >();
-
-    rubrics.forEach((rubric) => {
-      rubric.remedies.forEach((remedy) => {
-        // Use null byte as delimiter - guaranteed not to appear in remedy names
-        const key = `${remedy.name}\x00${remedy.abbreviation}`;
-        const existing = stats.get(key);
-        if (existing) {
-          existing.count += 1;
-          existing.cumulativeWeight += remedy.weight;
-        } else {
-          stats.set(key, {
-            name: remedy.name,
-            abbreviation: remedy.abbreviation,
-            count: 1,
-            cumulativeWeight: remedy.weight,
-          });
-        }
+    if (apiResponse.remedyStats && apiResponse.remedyStats.length > 0) {
+      // Server totals cover every matching rubric, not just the returned page
+      remedyStats = formatServerRemedyStats(apiResponse.remedyStats, rawRubrics);
+      remedyStatsPartial = false;
+    } else {
+      remedyStats = computeRemedyStats(rubrics);
+      remedyStatsPartial = rubrics.length < apiResponse.totalNumberOfResults;
+    }
+
+    if (options.ranking) {
+      remedyStats = rankRemedyStats(remedyStats, REMEDY_RANKING_STRATEGIES[options.ranking], {
+        rubrics,
+        symptom: options.symptom,
       });
-    });
+    }
+  }
+
+  // Legacy payloads without paging metadata are treated as a single page
+  const totalPages = apiResponse.totalNumberOfPages;
+  const currentPage = apiResponse.currPage;
+  // maxResults cut this page short, so the cursor resumes inside it instead of skipping ahead
+  const pageTruncated = end < rawRubrics.length;
 
-    remedyStats = Array.from(stats.values())
-      .sort((a, b) => {
-        if (b.cumulativeWeight !== a.cumulativeWeight) {
-          return b.cumulativeWeight - a.cumulativeWeight;
-        }
-        return b.count - a.count;
-      })
-      .map(({ name, count, cumulativeWeight }) => ({
-        name,
-        count,
-        cumulativeWeight,
-      }));
+  let nextCursor: string | undefined;
+  if (pageTruncated) {
+    nextCursor = encodePageCursor(currentPage ?? 0, { offset: end });
+  } else if (totalPages !== undefined && currentPage !== undefined) {
+    nextCursor = getNextPageCursor(currentPage, totalPages);
   }
 
   return {
     totalResults: apiResponse.totalNumberOfResults,
+    totalPages,
+    currentPage,
+    nextCursor,
+    pageTruncated: pageTruncated || undefined,
     rubrics,
     remedyStats,
+    remedyStatsPartial,
+    ranking: remedyStats ? options.ranking : undefined,
+    tree:
+      options.groupBy && options.groupBy !== 'flat'
+        ? buildRubricTree(rubrics, options.groupBy)
+        : undefined,
   };
 }
 
+/**
+ * Order remedies by cumulative weight, then by rubric count
+ */
+function compareRemedyStats(
+  a: { count: number; cumulativeWeight: number },
+  b: { count: number; cumulativeWeight: number }
+): number {
+  if (b.cumulativeWeight !== a.cumulativeWeight) {
+    return b.cumulativeWeight - a.cumulativeWeight;
+  }
+  return b.count - a.count;
+}
+
+/**
+ * Map OOREP's server-side remedy totals, resolving long names from the returned rubrics
+ */
+function formatServerRemedyStats(
+  serverStats: NonNullable<RawRepertoryResult['remedyStats']>,
+  rawRubrics: RawRepertoryRubric[]
+): NonNullable<RepertorySearchResult['remedyStats']> {
+  const longNames = new Map<string, string>();
+  rawRubrics.forEach((rubric) => {
+    rubric.weightedRemedies.forEach(({ remedy }) => {
+      if (remedy.nameLong && !longNames.has(remedy.nameAbbrev)) {
+        longNames.set(remedy.nameAbbrev, remedy.nameLong);
+      }
+    });
+  });
+
+  return serverStats
+    .map((stat) => ({
+      name: longNames.get(stat.nameabbrev) || stat.nameabbrev,
+      abbreviation: stat.nameabbrev,
+      count: stat.count,
+      cumulativeWeight: stat.cumulativeweight,
+    }))
+    .sort(compareRemedyStats);
+}
+
+/**
+ * Aggregate remedy statistics from the returned rubrics only
+ * Used when OOREP did not send totals; results are partial if rubrics were truncated.
+ */
+function computeRemedyStats(rubrics: Rubric[]): NonNullable<RepertorySearchResult['remedyStats']> {
+  const stats = new Map<
+    string,
+    { name: string; abbreviation: string; count: number; cumulativeWeight: number }
+  >();
+
+  rubrics.forEach((rubric) => {
+    rubric.remedies.forEach((remedy) => {
+      // Use null byte as delimiter - guaranteed not to appear in remedy names
+      const key = `${remedy.name}\x00${remedy.abbreviation}`;
+      const existing = stats.get(key);
+      if (existing) {
+        existing.count += 1;
+        existing.cumulativeWeight += remedy.weight;
+      } else {
+        stats.set(key, {
+          name: remedy.name,
+          abbreviation: remedy.abbreviation,
+          count: 1,
+          cumulativeWeight: remedy.weight,
+        });
+      }
+    });
+  });
+
+  return Array.from(stats.values()).sort(compareRemedyStats);
+}
+
 /**
  * Format materia medica search results from OOREP API response
+ *
+ * lookup_mm does not report paging metadata, so pages are derived from the
+ * page size and the per-chapter hit list, which always covers the whole result set.
+ *
+ * @param apiResponse - Raw lookup_mm response for a single page
+ * @param maxResults - Maximum remedy chapters to keep from this page
+ * @param page - Zero-based page the response belongs to
+ * @param pageSize - Remedy chapters per OOREP page, i.e. the length of page 0.
+ *   Defaults to the length of this response, which is only right for page 0.
+ *   It is carried in nextCursor so later pages need not look it up again.
+ * @param offset - Remedy chapters of this page already returned by an earlier call
  */
 export function formatMateriaMedicaResults(
   apiResponse: RawMateriaMedicaResult | null,
-  maxResults?: number
+  maxResults?: number,
+  page = 0,
+  pageSize = apiResponse?.results.length ?? 0,
+  offset = 0
 ): MateriaMedicaSearchResult {
   if (!apiResponse) {
     return {
@@ -159,7 +276,8 @@ export function formatMateriaMedicaResults(
     hitsMap.set(entry.remedyId, entry.hits);
   });
 
-  const results: MateriaMedicaResult[] = apiResponse.results.slice(0, limit).map((result) => ({
+  const end = offset + limit;
+  const results: MateriaMedicaResult[] = apiResponse.results.slice(offset, end).map((result) => ({
     remedy: result.remedy_fullname,
     remedyId: result.remedy_id,
     materiamedica: result.abbrev,
@@ -171,12 +289,34 @@ export function formatMateriaMedicaResults(
     hitCount: hitsMap.get(result.remedy_id) ?? result.result_sections.length,
   }));
 
+  const totalRemedies = apiResponse.numberOfMatchingSectionsPerChapter.length;
+  const totalPages = pageSize > 0 ? Math.ceil(totalRemedies / pageSize) : 0;
+  const hasMore =
+    apiResponse.results.length > 0 && page * pageSize + apiResponse.results.length < totalRemedies;
+  // maxResults cut this page short, so the cursor resumes inside it instead of skipping ahead
+  const pageTruncated = end < apiResponse.results.length;
+
+  let nextCursor: string | undefined;
+  if (pageTruncated) {
+    nextCursor = encodePageCursor(page, { offset: end, pageSize });
+  } else if (hasMore) {
+    nextCursor = encodePageCursor(page + 1, { pageSize });
+  }
+
   return {
     totalResults: apiResponse.numberOfMatchingSectionsPerChapter.reduce(
       (sum, entry) => sum + (entry.hits ?? 0),
       0
     ),
+    totalRemedies,
+    totalPages,
+    currentPage: page,
+    nextCursor,
+    pageTruncated: pageTruncated || undefined,
     results,
+    remedyHits: apiResponse.numberOfMatchingSectionsPerChapter
+      .map((entry) => ({ remedyId: entry.remedyId, hits: entry.hits ?? 0 }))
+      .sort((a, b) => b.hits - a.hits),
   };
 }
 
@@ -10,6 +10,7 @@ import {
   truncate,
   formatList,
 } from './data-formatter.js';
+import { decodePageCursor, decodePagePosition } from './pagination.js';
 
 describe('formatRepertoryResults', () => {
   it('formatRepertoryResults when null response then returns empty result', () => {
@@ -83,7 +84,9 @@ describe('formatRepertoryResults', () => {
       totalResults: 202,
       rubrics: [
         {
+          id: 69877,
           rubric: 'Abdomen, headache with, agg.',
+          chapter: 'Abdomen',
           repertory: 'publicum',
           remedies: [
             {
@@ -98,6 +101,184 @@ describe('formatRepertoryResults', () => {
     });
   });
 
+  it('formatRepertoryResults when raw rubric has identity fields then preserves them', () => {
+    const mockApiResponse = {
+      totalNumberOfResults: 1,
+      results: [
+        {
+          rubric: {
+            id: 4321,
+            fullPath: 'Head, pain, throbbing',
+            path: 'pain, throbbing',
+            textt: null,
+          },
+          repertoryAbbrev: 'kent',
+          rubricLabel: 'A',
+          rubricWeight: 2,
+          weightedRemedies: [
+            {
+              remedy: { id: 57, nameAbbrev: 'Bell.', nameLong: 'Belladonna' },
+              weight: 3,
+            },
+          ],
+        },
+      ],
+    };
+
+    const result = formatRepertoryResults(mockApiResponse, { includeRemedyStats: false });
+
+    expect(result.rubrics[0]).toEqual({
+      id: 4321,
+      rubric: 'Head, pain, throbbing',
+      path: 'pain, throbbing',
+      chapter: 'Head',
+      repertory: 'kent',
+      weight: 2,
+      label: 'A',
+      remedies: [{ id: 57, name: 'Belladonna', abbreviation: 'Bell.', weight: 3 }],
+    });
+  });
+
+  it('formatRepertoryResults when label and weight are null then omits them', () => {
+    const mockApiResponse = {
+      totalNumberOfResults: 1,
+      results: [
+        {
+          rubric: { fullPath: 'Mind, anxiety', path: null },
+          repertoryAbbrev: 'kent',
+          rubricLabel: null,
+          rubricWeight: null,
+          weightedRemedies: [],
+        },
+      ],
+    };
+
+    const result = formatRepertoryResults(mockApiResponse);
+
+    expect(result.rubrics[0].label).toBeUndefined();
+    expect(result.rubrics[0].weight).toBeUndefined();
+    expect(result.rubrics[0].path).toBeUndefined();
+    expect(result.rubrics[0].chapter).toBe('Mind');
+  });
+
+  it('formatRepertoryResults when groupBy tree then adds rubric tree', () => {
+    const mockApiResponse = {
+      totalNumberOfResults: 2,
+      results: [
+        {
+          rubric: { fullPath: 'Head, pain, throbbing' },
+          repertoryAbbrev: 'kent',
+          weightedRemedies: [
+            { remedy: { nameAbbrev: 'Bell.', nameLong: 'Belladonna' }, weight: 3 },
+          ],
+        },
+        {
+          rubric: { fullPath: 'Head, pain, pressing' },
+          repertoryAbbrev: 'kent',
+          weightedRemedies: [{ remedy: { nameAbbrev: 'Bry.', nameLong: 'Bryonia' }, weight: 2 }],
+        },
+      ],
+    };
+
+    const flat = formatRepertoryResults(mockApiResponse);
+    const grouped = formatRepertoryResults(mockApiResponse, { groupBy: 'tree' });
+
+    expect(flat.tree).toBeUndefined();
+    expect(grouped.rubrics).toHaveLength(2);
+    expect(grouped.tree).toHaveLength(1);
+    expect(grouped.tree![0]).toMatchObject({ name: 'Head', rubricCount: 2, remedyCount: 2 });
+    expect(grouped.tree![0].children[0].name).toBe('pain');
+  });
+
+  it('formatRepertoryResults when ranking set then scores remedyStats with the strategy', () => {
+    const mockApiResponse = {
+      totalNumberOfResults: 2,
+      results: [
+        {
+          rubric: { fullPath: 'Mind, anxiety' },
+          repertoryAbbrev: 'kent',
+          weightedRemedies: [{ remedy: { nameAbbrev: 'Ars.', nameLong: 'Arsenicum' }, weight: 2 }],
+        },
+        {
+          rubric: { fullPath: 'Head, pain' },
+          repertoryAbbrev: 'kent',
+          weightedRemedies: [
+            { remedy: { nameAbbrev: 'Bell.', nameLong: 'Belladonna' }, weight: 3 },
+          ],
+        },
+      ],
+    };
+
+    const unranked = formatRepertoryResults(mockApiResponse);
+    const ranked = formatRepertoryResults(mockApiResponse, { ranking: 'boger' });
+
+    expect(unranked.ranking).toBeUndefined();
+    expect(unranked.remedyStats![0]).not.toHaveProperty('score');
+    expect(ranked.ranking).toBe('boger');
+    expect(ranked.remedyStats!.map((entry) => entry.abbreviation)).toEqual(['Ars.', 'Bell.']);
+    expect(ranked.remedyStats![0]).toMatchObject({
+      score: 4,
+      scoreBreakdown: { cumulativeWeight: 2, generalGrades: 2, particularGrades: 0 },
+    });
+  });
+
+  it('formatRepertoryResults when null response and groupBy tree then returns empty tree', () => {
+    expect(formatRepertoryResults(null, { groupBy: 'tree' }).tree).toEqual([]);
+  });
+
+  it('formatRepertoryResults when payload has paging metadata then populates pages and cursor', () => {
+    const mockApiResponse = {
+      totalNumberOfResults: 250,
+      totalNumberOfPages: 3,
+      currPage: 1,
+      results: [],
+    };
+
+    const result = formatRepertoryResults(mockApiResponse);
+
+    expect(result.totalPages).toBe(3);
+    expect(result.currentPage).toBe(1);
+    expect(result.nextCursor).toBeDefined();
+    expect(decodePageCursor(result.nextCursor!)).toBe(2);
+  });
+
+  it('formatRepertoryResults when on last page then omits nextCursor', () => {
+    const mockApiResponse = {
+      totalNumberOfResults: 250,
+      totalNumberOfPages: 3,
+      currPage: 2,
+      results: [],
+    };
+
+    const result = formatRepertoryResults(mockApiResponse);
+
+    expect(result.currentPage).toBe(2);
+    expect(result.nextCursor).toBeUndefined();
+  });
+
+  it('formatRepertoryResults when maxResults cuts the page short then resumes inside it', () => {
+    const mockApiResponse = {
+      totalNumberOfResults: 250,
+      totalNumberOfPages: 3,
+      currPage: 1,
+      results: ['Head, pain', 'Head, heat', 'Head, heaviness'].map((fullPath) => ({
+        rubric: { fullPath },
+        repertoryAbbrev: 'kent',
+        weightedRemedies: [],
+      })),
+    };
+
+    const first = formatRepertoryResults(mockApiResponse, { maxResults: 2 });
+    const rest = formatRepertoryResults(mockApiResponse, { maxResults: 2, offset: 2 });
+
+    expect(first.rubrics.map((rubric) => rubric.rubric)).toEqual(['Head, pain', 'Head, heat']);
+    expect(first.pageTruncated).toBe(true);
+    expect(decodePagePosition(first.nextCursor!)).toEqual({ page: 1, offset: 2 });
+    expect(rest.rubrics.map((rubric) => rubric.rubric)).toEqual(['Head, heaviness']);
+    expect(rest.pageTruncated).toBeUndefined();
+    expect(decodePagePosition(rest.nextCursor!)).toEqual({ page: 2, offset: 0 });
+  });
+
   it('formatRepertoryResults when rubric has textt but no fullPath then uses textt', () => {
     const mockApiResponse = {
       totalNumberOfResults: 1,
@@ -231,6 +412,63 @@ describe('formatRepertoryResults', () => {
     expect(result.remedyStats![0].cumulativeWeight).toBe(5);
   });
 
+  it('formatRepertoryResults when server remedy totals present then uses them over local counts', () => {
+    const mockApiResponse = {
+      totalNumberOfResults: 40,
+      results: [
+        {
+          rubric: { fullPath: 'Rubric 1' },
+          repertoryAbbrev: 'kent',
+          weightedRemedies: [
+            { remedy: { nameAbbrev: 'Acon.', nameLong: 'Aconitum' }, weight: 3 },
+            { remedy: { nameAbbrev: 'Bell.', nameLong: 'Belladonna' }, weight: 2 },
+          ],
+        },
+      ],
+      remedyStats: [
+        { nameabbrev: 'Acon.', count: 12, cumulativeweight: 20 },
+        { nameabbrev: 'Bell.', count: 15, cumulativeweight: 31 },
+        { nameabbrev: 'Sulph.', count: 9, cumulativeweight: 14 },
+      ],
+    };
+
+    const result = formatRepertoryResults(mockApiResponse, { maxResults: 1 });
+
+    expect(result.remedyStatsPartial).toBe(false);
+    expect(result.remedyStats).toEqual([
+      { name: 'Belladonna', abbreviation: 'Bell.', count: 15, cumulativeWeight: 31 },
+      { name: 'Aconitum', abbreviation: 'Acon.', count: 12, cumulativeWeight: 20 },
+      { name: 'Sulph.', abbreviation: 'Sulph.', count: 9, cumulativeWeight: 14 },
+    ]);
+  });
+
+  it('formatRepertoryResults when no server totals and rubrics truncated then flags stats as partial', () => {
+    const mockApiResponse = {
+      totalNumberOfResults: 2,
+      results: [
+        {
+          rubric: { fullPath: 'R1' },
+          repertoryAbbrev: 'kent',
+          weightedRemedies: [{ remedy: { nameAbbrev: 'A', nameLong: 'RemedyA' }, weight: 2 }],
+        },
+        {
+          rubric: { fullPath: 'R2' },
+          repertoryAbbrev: 'kent',
+          weightedRemedies: [{ remedy: { nameAbbrev: 'B', nameLong: 'RemedyB' }, weight: 3 }],
+        },
+      ],
+    };
+
+    const truncated = formatRepertoryResults(mockApiResponse, { maxResults: 1 });
+    const complete = formatRepertoryResults(mockApiResponse);
+
+    expect(truncated.remedyStatsPartial).toBe(true);
+    expect(truncated.remedyStats).toEqual([
+      { name: 'RemedyA', abbreviation: 'A', count: 1, cumulativeWeight: 2 },
+    ]);
+    expect(complete.remedyStatsPartial).toBe(false);
+  });
+
   it('formatRepertoryResults when remedies appear in multiple rubrics then aggregates correctly', () => {
     const mockApiResponse = {
       totalNumberOfResults: 3,
@@ -362,6 +600,86 @@ describe('formatMateriaMedicaResults', () => {
     expect(result.results[0].hitCount).toBe(5);
   });
 
+  it('formatMateriaMedicaResults when more chapters than one page then reports paging and all hits', () => {
+    const chapter = (id: number) => ({
+      abbrev: 'boericke',
+      remedy_id: id,
+      remedy_fullname: `Remedy ${id}`,
+      result_sections: [{ heading: 'Mind', content: 'Anxiety', depth: 1 }],
+    });
+    const mockApiResponse = {
+      results: Array.from({ length: 10 }, (_, i) => chapter(i + 1)),
+      numberOfMatchingSectionsPerChapter: Array.from({ length: 25 }, (_, i) => ({
+        hits: i + 1,
+        remedyId: i + 1,
+      })),
+    };
+
+    const result = formatMateriaMedicaResults(mockApiResponse, undefined, 1);
+
+    expect(result.totalRemedies).toBe(25);
+    expect(result.totalPages).toBe(3);
+    expect(result.currentPage).toBe(1);
+    expect(decodePageCursor(result.nextCursor!)).toBe(2);
+    expect(result.remedyHits).toHaveLength(25);
+    expect(result.remedyHits![0]).toEqual({ remedyId: 25, hits: 25 });
+  });
+
+  it('formatMateriaMedicaResults when last page then omits nextCursor', () => {
+    const mockApiResponse = {
+      results: [
+        {
+          abbrev: 'boericke',
+          remedy_id: 21,
+          remedy_fullname: 'Remedy 21',
+          result_sections: [],
+        },
+      ],
+      numberOfMatchingSectionsPerChapter: Array.from({ length: 21 }, (_, i) => ({
+        hits: 1,
+        remedyId: i + 1,
+      })),
+    };
+
+    const result = formatMateriaMedicaResults(mockApiResponse, undefined, 2, 10);
+
+    expect(result.currentPage).toBe(2);
+    expect(result.totalPages).toBe(3);
+    expect(result.nextCursor).toBeUndefined();
+  });
+
+  it('formatMateriaMedicaResults when maxResults truncates page then resumes inside it', () => {
+    const mockApiResponse = {
+      results: Array.from({ length: 10 }, (_, i) => ({
+        abbrev: 'boericke',
+        remedy_id: i + 1,
+        remedy_fullname: `Remedy ${i + 1}`,
+        result_sections: [],
+      })),
+      numberOfMatchingSectionsPerChapter: Array.from({ length: 25 }, (_, i) => ({
+        hits: 1,
+        remedyId: i + 1,
+      })),
+    };
+
+    const remedyIds: number[] = [];
+    const cursors = [];
+    let offset = 0;
+    for (;;) {
+      const result = formatMateriaMedicaResults(mockApiResponse, 3, 0, undefined, offset);
+      remedyIds.push(...result.results.map((chapter) => chapter.remedyId!));
+      const position = decodePagePosition(result.nextCursor!);
+      cursors.push(position);
+      if (position.page !== 0) break;
+      expect(result.pageTruncated).toBe(true);
+      offset = position.offset;
+    }
+
+    expect(remedyIds).toEqual(Array.from({ length: 10 }, (_, i) => i + 1));
+    expect(cursors.at(0)).toEqual({ page: 0, offset: 3, pageSize: 10 });
+    expect(cursors.at(-1)).toEqual({ page: 1, offset: 0, pageSize: 10 });
+  });
+
   it('formatMateriaMedicaResults when section has null fields then converts to defaults', () => {
     const mockApiResponse = {
       results: [
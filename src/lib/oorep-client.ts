@@ -11,10 +11,51 @@ export interface OOREPHttpClientConfig {
   defaultRepertory: string;
   defaultMateriaMedica: string;
   remoteUser?: string;
+  /** Drop a member's OOREP session after this long without requests (default: 30 minutes) */
+  sessionIdleMs?: number;
+}
+
+/**
+ * Receives a human-readable note each time a long-running call makes progress
+ */
+export type ProgressCallback = (message: string) => void;
+
+/**
+ * Per-call options for cancelling a call and following its progress
+ */
+export interface OOREPCallOptions {
+  /** Aborts in-flight fetches and retry waits; the call then fails with CancelledError */
+  signal?: AbortSignal;
+  /** Called on retries and, for multi-step calls, after each step */
+  onProgress?: ProgressCallback;
+}
+
+/**
+ * Per-call options for requests made on behalf of an OOREP member
+ */
+export interface OOREPRequestOptions extends OOREPCallOptions {
+  /** Numeric OOREP member ID; overrides the configured remoteUser for this call */
+  remoteUser?: string;
+}
+
+/**
+ * A repertory or materia medica with the IDs of the remedies it contains
+ */
+export interface BookWithRemedies<T> {
+  metadata: T;
+  /** IDs as returned by getAvailableRemedies; empty if OOREP did not send them */
+  remedyIds: number[];
 }
 import { logger as defaultLogger, type ILogger } from '../utils/logger.js';
-import { NetworkError, TimeoutError, RateLimitError } from '../utils/errors.js';
+import {
+  NetworkError,
+  TimeoutError,
+  RateLimitError,
+  CancelledError,
+  throwIfCancelled,
+} from '../utils/errors.js';
 import { RepertoryMetadata, MateriaMedicaMetadata } from '../utils/schemas.js';
+import { DEFAULTS } from '../sdk/constants.js';
 import pkg from '../../package.json' with { type: 'json' };
 const USER_AGENT = `oorep-mcp/${pkg.version}`;
 type RawWeightedRemedy = {
@@ -53,10 +94,9 @@ type RawRepertoryPayload = {
   results: Array<RawRepertoryCase | RawGroupedRepertoryCase>;
 };
 
-type RawRepertoryResponse = [
-  RawRepertoryPayload,
-  Array<{ nameabbrev: string; count: number; cumulativeweight: number }>,
-];
+type RawRepertoryRemedyStat = { nameabbrev: string; count: number; cumulativeweight: number };
+
+type RawRepertoryResponse = [RawRepertoryPayload, RawRepertoryRemedyStat[]];
 
 type RawMateriaMedicaResponse = {
   results: Array<{
@@ -111,6 +151,16 @@ class CookieJar {
   }
 }
 
+/**
+ * OOREP session of one member, or of anonymous requests
+ */
+type MemberSession = {
+  remoteUser?: string;
+  cookieJar: CookieJar;
+  initPromise: Promise<void> | null;
+  lastUsedAt: number;
+};
+
 function extractSetCookieHeaders(response: Response): string[] {
   const headers = response.headers as Headers & { getSetCookie?: () => string[] };
   if (typeof headers.getSetCookie === 'function') {
@@ -121,37 +171,58 @@ function extractSetCookieHeaders(response: Response): string[] {
 }
 
 /**
- * Fetch with timeout support
+ * Fetch with timeout support, also aborted by the caller's signal
  */
 async function fetchWithTimeout(
   url: string,
   options: RequestInit,
-  timeoutMs: number
+  timeoutMs: number,
+  signal?: AbortSignal
 ): Promise<Response> {
+  throwIfCancelled(signal);
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
 
   try {
-    const response = await fetch(url, {
+    return await fetch(url, {
       ...options,
       signal: controller.signal,
     });
-    clearTimeout(timeoutId);
-    return response;
   } catch (error) {
-    clearTimeout(timeoutId);
     if (error instanceof Error && error.name === 'AbortError') {
+      throwIfCancelled(signal);
       throw new TimeoutError(`Request timeout after ${timeoutMs}ms`);
     }
     throw error;
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', onAbort);
   }
 }
 
 /**
  * Sleep utility for retry backoff
+ *
+ * @throws {CancelledError} As soon as the signal is aborted
  */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new CancelledError());
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
 
 /**
@@ -161,8 +232,8 @@ export class OOREPHttpClient {
   private readonly baseUrl: string;
   private readonly timeoutMs: number;
   private readonly maxRetries = 3;
-  private readonly cookieJar = new CookieJar();
-  private sessionInitPromise: Promise<void> | null = null;
+  private readonly sessions = new Map<string, MemberSession>();
+  private readonly sessionIdleMs: number;
   private readonly defaultRepertory: string;
   private readonly defaultMateriaMedica: string;
   private readonly remoteUser?: string;
@@ -174,52 +245,92 @@ export class OOREPHttpClient {
     this.defaultRepertory = config.defaultRepertory;
     this.defaultMateriaMedica = config.defaultMateriaMedica;
     this.remoteUser = config.remoteUser;
+    this.sessionIdleMs = config.sessionIdleMs ?? DEFAULTS.SESSION_IDLE_MS;
     this.logger = logger;
   }
 
-  private getDefaultHeaders(): Record<string, string> {
+  /**
+   * Number of member sessions currently held, including the anonymous one
+   */
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  private getDefaultHeaders(session: MemberSession): Record<string, string> {
     const headers: Record<string, string> = {
       Accept: 'application/json',
       'User-Agent': USER_AGENT,
       'X-Requested-With': 'XMLHttpRequest',
     };
-    if (this.remoteUser) {
-      headers['X-Remote-User'] = this.remoteUser;
+    if (session.remoteUser) {
+      headers['X-Remote-User'] = session.remoteUser;
     }
     return headers;
   }
 
-  private async ensureSession(forceRefresh = false): Promise<void> {
+  /**
+   * Get the session for a member, creating it on first use
+   *
+   * Each member ID keeps its own cookie jar so OOREP never sees one member's
+   * session cookies on another member's requests. Sessions idle for longer
+   * than `sessionIdleMs` are dropped here rather than on a timer.
+   */
+  private getSession(options: OOREPRequestOptions = {}): MemberSession {
+    const remoteUser = options.remoteUser?.trim() || this.remoteUser;
+    const key = remoteUser ?? '';
+    const now = Date.now();
+
+    for (const [sessionKey, session] of this.sessions) {
+      if (
+        sessionKey !== key &&
+        !session.initPromise &&
+        now - session.lastUsedAt > this.sessionIdleMs
+      ) {
+        this.sessions.delete(sessionKey);
+        this.logger.debug('Evicted idle OOREP session', { remoteUserSet: Boolean(sessionKey) });
+      }
+    }
+
+    let session = this.sessions.get(key);
+    if (!session) {
+      session = { remoteUser, cookieJar: new CookieJar(), initPromise: null, lastUsedAt: now };
+      this.sessions.set(key, session);
+    }
+    session.lastUsedAt = now;
+    return session;
+  }
+
+  private async ensureSession(session: MemberSession, forceRefresh = false): Promise<void> {
     // If there's already a session init in progress, wait for it
-    if (this.sessionInitPromise) {
-      await this.sessionInitPromise;
+    if (session.initPromise) {
+      await session.initPromise;
       // After waiting, if forceRefresh is requested but we just got a fresh session, use it
-      if (forceRefresh && this.cookieJar.hasCookies()) {
+      if (forceRefresh && session.cookieJar.hasCookies()) {
         return;
       }
     }
 
     // If we have cookies and not forcing refresh, we're done
-    if (!forceRefresh && this.cookieJar.hasCookies()) {
+    if (!forceRefresh && session.cookieJar.hasCookies()) {
       return;
     }
 
     // Only clear cookies if we're actually going to refresh AND no init is in progress
-    if (forceRefresh && !this.sessionInitPromise) {
-      this.cookieJar.clear();
+    if (forceRefresh && !session.initPromise) {
+      session.cookieJar.clear();
     }
 
     // Start new session init if none in progress
-    if (!this.sessionInitPromise) {
-      this.sessionInitPromise = this.bootstrapSession().finally(() => {
-        this.sessionInitPromise = null;
+    if (!session.initPromise) {
+      session.initPromise = this.bootstrapSession(session).finally(() => {
+        session.initPromise = null;
       });
     }
 
-    await this.sessionInitPromise;
+    await session.initPromise;
   }
 
-  private async bootstrapSession(): Promise<void> {
+  private async bootstrapSession(session: MemberSession): Promise<void> {
     const url = new URL(`${this.baseUrl}/api/available_remedies`);
     url.searchParams.set('limit', '1');
 
@@ -229,7 +340,7 @@ export class OOREPHttpClient {
       url.toString(),
       {
         method: 'GET',
-        headers: this.getDefaultHeaders(),
+        headers: this.getDefaultHeaders(session),
       },
       this.timeoutMs
     );
@@ -244,14 +355,14 @@ export class OOREPHttpClient {
     }
 
     // Only store cookies from successful session initialization
-    this.storeCookies(response);
+    this.storeCookies(session, response);
     this.logger.debug('OOREP session initialized');
   }
 
-  private storeCookies(response: Response): void {
+  private storeCookies(session: MemberSession, response: Response): void {
     const cookies = extractSetCookieHeaders(response);
     if (cookies.length > 0) {
-      this.cookieJar.setFromSetCookieHeaders(cookies);
+      session.cookieJar.setFromSetCookieHeaders(cookies);
     }
   }
 
@@ -261,10 +372,14 @@ export class OOREPHttpClient {
   private async request<T>(
     endpoint: string,
     params: Record<string, string | number | boolean> = {},
+    options: OOREPRequestOptions = {},
     retryCount = 0,
     sessionRetried = false
   ): Promise<T | null> {
-    await this.ensureSession();
+    throwIfCancelled(options.signal);
+    const session = this.getSession(options);
+    // Sessions are shared between callers, so one caller's signal does not abort their set-up
+    await this.ensureSession(session);
     const url = new URL(`${this.baseUrl}${endpoint}`);
 
     Object.entries(params).forEach(([key, value]) => {
@@ -276,9 +391,9 @@ export class OOREPHttpClient {
     this.logger.debug(`Fetching ${url.toString()}`);
 
     const headers: Record<string, string> = {
-      ...this.getDefaultHeaders(),
+      ...this.getDefaultHeaders(session),
     };
-    const cookieHeader = this.cookieJar.getCookieHeader();
+    const cookieHeader = session.cookieJar.getCookieHeader();
     if (cookieHeader) {
       headers.Cookie = cookieHeader;
     }
@@ -290,13 +405,14 @@ export class OOREPHttpClient {
           method: 'GET',
           headers,
         },
-        this.timeoutMs
+        this.timeoutMs,
+        options.signal
       );
 
       if (response.status === 401 && !sessionRetried) {
         this.logger.warn('OOREP session unauthorized, attempting refresh');
-        await this.ensureSession(true);
-        return this.request<T>(endpoint, params, retryCount, true);
+        await this.ensureSession(session, true);
+        return this.request<T>(endpoint, params, options, retryCount, true);
       }
 
       if (response.status === 429) {
@@ -319,7 +435,7 @@ export class OOREPHttpClient {
       }
 
       // Only store cookies from successful responses
-      this.storeCookies(response);
+      this.storeCookies(session, response);
       const body = await response.text();
       if (!body) {
         return null;
@@ -340,14 +456,14 @@ export class OOREPHttpClient {
         (error instanceof NetworkError || error instanceof TimeoutError)
       ) {
         const backoffMs = Math.pow(2, retryCount) * 1000;
-        this.logger.warn(
-          `Request failed, retrying in ${backoffMs}ms (attempt ${retryCount + 1}/${this.maxRetries})`
-        );
-        await sleep(backoffMs);
-        return this.request<T>(endpoint, params, retryCount + 1, sessionRetried);
+        const retryMessage = `Request failed, retrying in ${backoffMs}ms (attempt ${retryCount + 1}/${this.maxRetries})`;
+        this.logger.warn(retryMessage);
+        options.onProgress?.(retryMessage);
+        await sleep(backoffMs, options.signal);
+        return this.request<T>(endpoint, params, options, retryCount + 1, sessionRetried);
       }
 
-      if (error instanceof RateLimitError) {
+      if (error instanceof RateLimitError || error instanceof CancelledError) {
         throw error;
       }
 
@@ -375,32 +491,48 @@ export class OOREPHttpClient {
     minWeight?: number;
     remedy?: string;
     includeRemedyStats?: boolean;
-  }): Promise<RawRepertoryPayload | null> {
+    page?: number;
+    remoteUser?: string;
+    signal?: AbortSignal;
+    onProgress?: ProgressCallback;
+  }): Promise<(RawRepertoryPayload & { remedyStats?: RawRepertoryRemedyStat[] }) | null> {
     const repertory = (params.repertory || this.defaultRepertory).trim();
     const minWeight = params.minWeight && params.minWeight > 0 ? params.minWeight : 1;
+    const page = params.page && params.page > 0 ? params.page : 0;
 
     this.logger.info('Looking up repertory', {
       symptom: params.symptom,
       repertory,
       minWeight,
+      page,
     });
 
     const apiParams: Record<string, string | number> = {
       repertory,
       symptom: params.symptom,
-      page: 0,
+      page,
       remedyString: params.remedy?.trim() || '',
       minWeight,
       getRemedies: params.includeRemedyStats ? 1 : 0,
     };
 
-    const response = await this.request<RawRepertoryResponse>('/api/lookup_rep', apiParams);
+    const response = await this.request<RawRepertoryResponse>('/api/lookup_rep', apiParams, {
+      remoteUser: params.remoteUser,
+      signal: params.signal,
+      onProgress: params.onProgress,
+    });
     if (!response) {
       return null;
     }
 
-    const [payload] = response;
-    return payload || null;
+    // The second element holds remedy totals for the whole result set (only with getRemedies=1)
+    const [payload, remedyStats] = response;
+    if (!payload) {
+      return null;
+    }
+    return Array.isArray(remedyStats) && remedyStats.length > 0
+      ? { ...payload, remedyStats }
+      : payload;
   }
 
   /**
@@ -411,29 +543,39 @@ export class OOREPHttpClient {
     symptom: string;
     materiamedica?: string;
     remedy?: string;
+    page?: number;
+    remoteUser?: string;
+    signal?: AbortSignal;
+    onProgress?: ProgressCallback;
   }): Promise<RawMateriaMedicaResponse | null> {
     const materiamedica = (params.materiamedica || this.defaultMateriaMedica).trim();
+    const page = params.page && params.page > 0 ? params.page : 0;
 
     this.logger.info('Looking up materia medica', {
       symptom: params.symptom,
       materiamedica,
+      page,
     });
 
     const apiParams: Record<string, string | number> = {
       mmAbbrev: materiamedica,
       symptom: params.symptom,
-      page: 0,
+      page,
       remedyString: params.remedy?.trim() || '',
     };
 
-    return this.request<RawMateriaMedicaResponse>('/api/lookup_mm', apiParams);
+    return this.request<RawMateriaMedicaResponse>('/api/lookup_mm', apiParams, {
+      remoteUser: params.remoteUser,
+      signal: params.signal,
+      onProgress: params.onProgress,
+    });
   }
 
   /**
    * Get available remedies
    * GET /api/available_remedies
    */
-  async getAvailableRemedies(): Promise<
+  async getAvailableRemedies(options: OOREPRequestOptions = {}): Promise<
     Array<{
       id: number;
       nameAbbrev: string;
@@ -449,7 +591,7 @@ export class OOREPHttpClient {
         nameLong: string;
         namealt?: string[];
       }>
-    >('/api/available_remedies');
+    >('/api/available_remedies', {}, options);
     return result || [];
   }
 
@@ -457,7 +599,19 @@ export class OOREPHttpClient {
    * Get available repertories
    * GET /api/available_rems_and_reps
    */
-  async getAvailableRepertories(): Promise<Array<RepertoryMetadata>> {
+  async getAvailableRepertories(
+    options: OOREPRequestOptions = {}
+  ): Promise<Array<RepertoryMetadata>> {
+    return (await this.getRepertoriesWithRemedies(options)).map(({ metadata }) => metadata);
+  }
+
+  /**
+   * Get available repertories with the IDs of the remedies each one contains
+   * GET /api/available_rems_and_reps
+   */
+  async getRepertoriesWithRemedies(
+    options: OOREPRequestOptions = {}
+  ): Promise<Array<BookWithRemedies<RepertoryMetadata>>> {
     this.logger.info('Fetching available repertories');
     const result = await this.request<
       Array<{
@@ -468,17 +622,21 @@ export class OOREPHttpClient {
           authorFirstName?: string | null;
           language?: string | null;
         };
+        remedyIds?: number[] | null;
       }>
-    >('/api/available_rems_and_reps');
+    >('/api/available_rems_and_reps', {}, options);
 
     return (result || []).map((item) => ({
-      abbreviation: item.info.abbrev,
-      title: item.info.title,
-      author:
-        item.info.authorLastName && item.info.authorFirstName
-          ? `${item.info.authorFirstName} ${item.info.authorLastName}`
-          : item.info.authorLastName || item.info.authorFirstName || undefined,
-      language: item.info.language ?? undefined,
+      metadata: {
+        abbreviation: item.info.abbrev,
+        title: item.info.title,
+        author:
+          item.info.authorLastName && item.info.authorFirstName
+            ? `${item.info.authorFirstName} ${item.info.authorLastName}`
+            : item.info.authorLastName || item.info.authorFirstName || undefined,
+        language: item.info.language ?? undefined,
+      },
+      remedyIds: item.remedyIds ?? [],
     }));
   }
 
@@ -486,7 +644,19 @@ export class OOREPHttpClient {
    * Get available materia medicas
    * GET /api/available_rems_and_mms
    */
-  async getAvailableMateriaMedicas(): Promise<Array<MateriaMedicaMetadata>> {
+  async getAvailableMateriaMedicas(
+    options: OOREPRequestOptions = {}
+  ): Promise<Array<MateriaMedicaMetadata>> {
+    return (await this.getMateriaMedicasWithRemedies(options)).map(({ metadata }) => metadata);
+  }
+
+  /**
+   * Get available materia medicas with the IDs of the remedies each one covers
+   * GET /api/available_rems_and_mms
+   */
+  async getMateriaMedicasWithRemedies(
+    options: OOREPRequestOptions = {}
+  ): Promise<Array<BookWithRemedies<MateriaMedicaMetadata>>> {
     this.logger.info('Fetching available materia medicas');
     const result = await this.request<
       Array<{
@@ -499,17 +669,21 @@ export class OOREPHttpClient {
           authorfirstname?: string | null;
           lang?: string | null;
         };
+        remedyIds?: number[] | null;
       }>
-    >('/api/available_rems_and_mms');
+    >('/api/available_rems_and_mms', {}, options);
 
     return (result || []).map((item) => ({
-      abbreviation: item.mminfo.abbrev,
-      title: item.mminfo.displaytitle || item.mminfo.fulltitle || item.mminfo.abbrev,
-      author:
-        item.mminfo.authorlastname && item.mminfo.authorfirstname
-          ? `${item.mminfo.authorfirstname} ${item.mminfo.authorlastname}`
-          : item.mminfo.authorlastname || item.mminfo.authorfirstname || undefined,
-      language: item.mminfo.lang ?? undefined,
+      metadata: {
+        abbreviation: item.mminfo.abbrev,
+        title: item.mminfo.displaytitle || item.mminfo.fulltitle || item.mminfo.abbrev,
+        author:
+          item.mminfo.authorlastname && item.mminfo.authorfirstname
+            ? `${item.mminfo.authorfirstname} ${item.mminfo.authorlastname}`
+            : item.mminfo.authorlastname || item.mminfo.authorfirstname || undefined,
+        language: item.mminfo.lang ?? undefined,
+      },
+      remedyIds: item.remedyIds ?? [],
     }));
   }
 }
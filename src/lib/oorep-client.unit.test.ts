@@ -4,7 +4,7 @@
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { OOREPHttpClient } from './oorep-client.js';
-import { NetworkError, TimeoutError, RateLimitError } from '../utils/errors.js';
+import { NetworkError, TimeoutError, RateLimitError, CancelledError } from '../utils/errors.js';
 import type { OOREPConfig } from '../config.js';
 
 describe('OOREPHttpClient', () => {
@@ -92,6 +92,79 @@ describe('OOREPHttpClient', () => {
       expect(headers['X-Remote-User']).toBe('123');
     });
 
+    it('lookupRepertory when remoteUser passed per call then overrides the configured member', async () => {
+      const client = new OOREPHttpClient({ ...mockConfig, remoteUser: '123' });
+      mockFetch.mockImplementation(() =>
+        Promise.resolve({
+          ok: true,
+          status: 200,
+          headers: new Headers({ 'set-cookie': 'session=abc; Path=/' }),
+          text: () => Promise.resolve('[]'),
+        })
+      );
+
+      await client.lookupRepertory({ symptom: 'test', remoteUser: '456' });
+
+      const headers = mockFetch.mock.calls.map(
+        (call) => (call[1] as RequestInit).headers as Record<string, string>
+      );
+      expect(headers.map((h) => h['X-Remote-User'])).toEqual(['456', '456']);
+    });
+
+    it('lookupRepertory when members differ then keeps a separate session per member', async () => {
+      let sessionCounter = 0;
+      mockFetch.mockImplementation((url: string) =>
+        Promise.resolve({
+          ok: true,
+          status: 200,
+          headers: url.includes('/api/available_remedies')
+            ? new Headers({ 'set-cookie': `session=s${++sessionCounter}; Path=/` })
+            : new Headers(),
+          text: () => Promise.resolve('[]'),
+        })
+      );
+
+      await mockClient.lookupRepertory({ symptom: 'test', remoteUser: '1' });
+      await mockClient.lookupRepertory({ symptom: 'test', remoteUser: '2' });
+      await mockClient.lookupRepertory({ symptom: 'test', remoteUser: '1' });
+
+      const lookups = mockFetch.mock.calls
+        .filter((call) => String(call[0]).includes('/api/lookup_rep'))
+        .map((call) => (call[1] as RequestInit).headers as Record<string, string>);
+      expect(lookups.map((h) => [h['X-Remote-User'], h.Cookie])).toEqual([
+        ['1', 'session=s1'],
+        ['2', 'session=s2'],
+        ['1', 'session=s1'],
+      ]);
+      expect(mockClient.sessionCount).toBe(2);
+    });
+
+    it('getAvailableRepertories when member session idle too long then evicts it', async () => {
+      vi.useFakeTimers();
+      try {
+        const client = new OOREPHttpClient({ ...mockConfig, sessionIdleMs: 60000 });
+        mockFetch.mockImplementation(() =>
+          Promise.resolve({
+            ok: true,
+            status: 200,
+            headers: new Headers({ 'set-cookie': 'session=abc; Path=/' }),
+            text: () => Promise.resolve('[]'),
+          })
+        );
+
+        await client.getAvailableRepertories({ remoteUser: '1' });
+        await client.getAvailableRepertories({ remoteUser: '2' });
+        expect(client.sessionCount).toBe(2);
+
+        vi.advanceTimersByTime(60001);
+        await client.getAvailableRepertories({ remoteUser: '2' });
+
+        expect(client.sessionCount).toBe(1);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
     it('lookupRepertory when session init fails then throws NetworkError', async () => {
       const mockSessionResponse = {
         ok: false,
@@ -178,6 +251,24 @@ describe('OOREPHttpClient', () => {
       expect(result).toEqual(mockPayload);
     });
 
+    it('lookupRepertory when server sends remedy totals then attaches them to payload', async () => {
+      const mockPayload = { totalNumberOfResults: 5, results: [] };
+      const serverStats = [{ nameabbrev: 'Bell.', count: 4, cumulativeweight: 11 }];
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        text: () => Promise.resolve(JSON.stringify([mockPayload, serverStats])),
+      });
+
+      const result = await mockClient.lookupRepertory({
+        symptom: 'headache',
+        includeRemedyStats: true,
+      });
+
+      expect(result).toEqual({ ...mockPayload, remedyStats: serverStats });
+    });
+
     it('lookupRepertory when uses default repertory', async () => {
       const mockResponse = {
         ok: true,
@@ -238,6 +329,44 @@ describe('OOREPHttpClient', () => {
       expect(callUrl).toContain('minWeight=1');
     });
 
+    it('lookupRepertory when page not provided then requests first page', async () => {
+      const mockResponse = {
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        text: () => Promise.resolve(JSON.stringify([{ totalNumberOfResults: 0, results: [] }, []])),
+      };
+      mockFetch.mockResolvedValue(mockResponse);
+
+      await mockClient.lookupRepertory({ symptom: 'test' });
+
+      const callUrl = mockFetch.mock.calls[0][0];
+      expect(callUrl).toContain('page=0');
+    });
+
+    it('lookupRepertory when page provided then includes in params', async () => {
+      const mockResponse = {
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        text: () =>
+          Promise.resolve(
+            JSON.stringify([
+              { totalNumberOfResults: 0, totalNumberOfPages: 3, currPage: 2, results: [] },
+              [],
+            ])
+          ),
+      };
+      mockFetch.mockResolvedValue(mockResponse);
+
+      const result = await mockClient.lookupRepertory({ symptom: 'test', page: 2 });
+
+      const callUrl = mockFetch.mock.calls[0][0];
+      expect(callUrl).toContain('page=2');
+      expect(result?.currPage).toBe(2);
+      expect(result?.totalNumberOfPages).toBe(3);
+    });
+
     it('lookupRepertory when 204 response then returns null', async () => {
       const mockResponse = { ok: true, status: 204, headers: new Headers() };
       mockFetch.mockResolvedValue(mockResponse);
@@ -425,6 +554,63 @@ describe('OOREPHttpClient', () => {
     });
   });
 
+  describe('cancellation', () => {
+    const sessionResponse = () => ({
+      ok: true,
+      status: 200,
+      headers: new Headers({ 'set-cookie': 'session=abc123' }),
+      text: () => Promise.resolve('[]'),
+    });
+
+    it('lookupRepertory when signal already aborted then throws CancelledError without fetching', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        mockClient.lookupRepertory({ symptom: 'test', signal: controller.signal })
+      ).rejects.toThrow(CancelledError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('lookupRepertory when signal aborted during fetch then throws CancelledError without retrying', async () => {
+      const controller = new AbortController();
+      mockFetch.mockResolvedValueOnce(sessionResponse()).mockImplementationOnce(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal!.addEventListener('abort', () => {
+              const error = new Error('Aborted');
+              error.name = 'AbortError';
+              reject(error);
+            });
+            controller.abort();
+          })
+      );
+
+      await expect(
+        mockClient.lookupRepertory({ symptom: 'test', signal: controller.signal })
+      ).rejects.toThrow(CancelledError);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('lookupRepertory when request fails then reports the retry and stops waiting once aborted', async () => {
+      const controller = new AbortController();
+      const onProgress = vi.fn(() => controller.abort());
+      mockFetch.mockResolvedValueOnce(sessionResponse()).mockResolvedValue({
+        ok: false,
+        status: 500,
+        headers: new Headers(),
+        statusText: 'Internal Server Error',
+        text: () => Promise.resolve('Server error'),
+      });
+
+      await expect(
+        mockClient.lookupRepertory({ symptom: 'test', signal: controller.signal, onProgress })
+      ).rejects.toThrow(CancelledError);
+      expect(onProgress).toHaveBeenCalledWith('Request failed, retrying in 1000ms (attempt 1/3)');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe('additional error paths', () => {
     it('lookupRepertory when connection refused then throws NetworkError', async () => {
       const connectionError = new Error('ECONNREFUSED');
@@ -736,6 +922,22 @@ describe('OOREPHttpClient', () => {
       expect(result).toEqual(mockResult);
     });
 
+    it('lookupMateriaMedica when page provided then includes in params', async () => {
+      const mockResponse = {
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        text: () =>
+          Promise.resolve(JSON.stringify({ results: [], numberOfMatchingSectionsPerChapter: [] })),
+      };
+      mockFetch.mockResolvedValue(mockResponse);
+
+      await mockClient.lookupMateriaMedica({ symptom: 'anxiety', page: 3 });
+
+      const callUrl = mockFetch.mock.calls[0][0];
+      expect(callUrl).toContain('page=3');
+    });
+
     it('lookupMateriaMedica when uses default materia medica', async () => {
       const mockResponse = {
         ok: true,
@@ -983,6 +1185,40 @@ describe('OOREPHttpClient', () => {
 
       expect(result).toEqual([]);
     });
+
+    it('getRepertoriesWithRemedies when remedyIds sent then keeps them with the metadata', async () => {
+      const mockResponse = {
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        text: () =>
+          Promise.resolve(
+            JSON.stringify([
+              { info: { abbrev: 'kent', title: 'Kent', language: 'en' }, remedyIds: [1, 5] },
+              { info: { abbrev: 'boger', title: 'Boger' } },
+            ])
+          ),
+      };
+      mockFetch.mockResolvedValue(mockResponse);
+
+      const result = await mockClient.getRepertoriesWithRemedies();
+
+      expect(result).toEqual([
+        {
+          metadata: { abbreviation: 'kent', title: 'Kent', author: undefined, language: 'en' },
+          remedyIds: [1, 5],
+        },
+        {
+          metadata: {
+            abbreviation: 'boger',
+            title: 'Boger',
+            author: undefined,
+            language: undefined,
+          },
+          remedyIds: [],
+        },
+      ]);
+    });
   });
 
   describe('getAvailableMateriaMedicas', () => {
@@ -1135,5 +1371,32 @@ describe('OOREPHttpClient', () => {
 
       expect(result).toEqual([]);
     });
+
+    it('getMateriaMedicasWithRemedies when remedyIds sent then keeps them with the metadata', async () => {
+      const mockResponse = {
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        text: () =>
+          Promise.resolve(
+            JSON.stringify([{ mminfo: { id: 1, abbrev: 'boericke' }, remedyIds: [3] }])
+          ),
+      };
+      mockFetch.mockResolvedValue(mockResponse);
+
+      const result = await mockClient.getMateriaMedicasWithRemedies();
+
+      expect(result).toEqual([
+        {
+          metadata: {
+            abbreviation: 'boericke',
+            title: 'boericke',
+            author: undefined,
+            language: undefined,
+          },
+          remedyIds: [3],
+        },
+      ]);
+    });
   });
 });
@@ -0,0 +1,97 @@
+/**
+ * Pagination helpers shared by paginated OOREP lookups
+ *
+ * OOREP pages are zero-based. Cursors are opaque strings handed back to
+ * callers as `nextCursor` so agents can continue a search without tracking
+ * page numbers themselves. A cursor may also carry an offset into its page
+ * when a result limit cut that page short, and the page size when the server
+ * does not report it.
+ */
+
+import { ValidationError } from '../utils/errors.js';
+
+/**
+ * Position a cursor points at: a zero-based page, an item offset within it and,
+ * when known, the number of items per page
+ */
+export type PagePosition = {
+  page: number;
+  offset: number;
+  pageSize?: number;
+};
+
+function isIndex(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * Encode a zero-based page number, and optionally its offset and page size, as an opaque cursor
+ */
+export function encodePageCursor(
+  page: number,
+  { offset = 0, pageSize }: { offset?: number; pageSize?: number } = {}
+): string {
+  const position = {
+    page,
+    ...(offset > 0 && { offset }),
+    ...(pageSize !== undefined && { pageSize }),
+  };
+  return Buffer.from(JSON.stringify(position), 'utf8').toString('base64url');
+}
+
+/**
+ * Decode an opaque cursor back into its page, offset within that page and page size
+ *
+ * @throws {ValidationError} If the cursor is malformed
+ */
+export function decodePagePosition(cursor: string): PagePosition {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as {
+      page?: unknown;
+      offset?: unknown;
+      pageSize?: unknown;
+    };
+    const offset = decoded.offset ?? 0;
+    const pageSize = decoded.pageSize;
+    if (
+      isIndex(decoded.page) &&
+      isIndex(offset) &&
+      (pageSize === undefined || (isIndex(pageSize) && pageSize > 0))
+    ) {
+      return pageSize === undefined
+        ? { page: decoded.page, offset }
+        : { page: decoded.page, offset, pageSize };
+    }
+  } catch {
+    // Fall through to the validation error below
+  }
+  throw new ValidationError('Invalid pagination cursor');
+}
+
+/**
+ * Decode an opaque cursor back into a zero-based page number
+ *
+ * @throws {ValidationError} If the cursor is malformed
+ */
+export function decodePageCursor(cursor: string): number {
+  return decodePagePosition(cursor).page;
+}
+
+/**
+ * Resolve the page position to fetch from an explicit page number or cursor
+ * A cursor takes precedence because it was issued by a previous response.
+ * Explicit page numbers always start at the top of the page.
+ */
+export function resolvePagePosition(args: { page?: number; cursor?: string }): PagePosition {
+  if (args.cursor !== undefined) {
+    return decodePagePosition(args.cursor);
+  }
+  return { page: args.page ?? 0, offset: 0 };
+}
+
+/**
+ * Build the cursor for the page following `currentPage`, if there is one
+ */
+export function getNextPageCursor(currentPage: number, totalPages: number): string | undefined {
+  return currentPage + 1 < totalPages ? encodePageCursor(currentPage + 1) : undefined;
+}
@@ -0,0 +1,106 @@
+/**
+ * Unit tests for pagination helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  encodePageCursor,
+  decodePageCursor,
+  decodePagePosition,
+  resolvePagePosition,
+  getNextPageCursor,
+} from './pagination.js';
+import { ValidationError } from '../utils/errors.js';
+
+describe('encodePageCursor / decodePageCursor', () => {
+  it('decodePageCursor when cursor was encoded then round-trips the page', () => {
+    expect(decodePageCursor(encodePageCursor(0))).toBe(0);
+    expect(decodePageCursor(encodePageCursor(7))).toBe(7);
+  });
+
+  it('encodePageCursor when called then returns an opaque url-safe string', () => {
+    const cursor = encodePageCursor(3);
+
+    expect(cursor).not.toContain('3');
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it('decodePageCursor when cursor is garbage then throws ValidationError', () => {
+    expect(() => decodePageCursor('not-a-cursor')).toThrow(ValidationError);
+  });
+
+  it('decodePageCursor when page is negative then throws ValidationError', () => {
+    const cursor = Buffer.from(JSON.stringify({ page: -1 })).toString('base64url');
+
+    expect(() => decodePageCursor(cursor)).toThrow(ValidationError);
+  });
+
+  it('decodePageCursor when page is not an integer then throws ValidationError', () => {
+    const cursor = Buffer.from(JSON.stringify({ page: '2' })).toString('base64url');
+
+    expect(() => decodePageCursor(cursor)).toThrow(ValidationError);
+  });
+
+  it('decodePagePosition when cursor carries an offset then round-trips page and offset', () => {
+    expect(decodePagePosition(encodePageCursor(2, { offset: 40 }))).toEqual({
+      page: 2,
+      offset: 40,
+    });
+    expect(decodePagePosition(encodePageCursor(2))).toEqual({ page: 2, offset: 0 });
+    expect(decodePageCursor(encodePageCursor(2, { offset: 40 }))).toBe(2);
+  });
+
+  it('decodePagePosition when cursor carries a page size then returns it', () => {
+    expect(decodePagePosition(encodePageCursor(1, { pageSize: 10 }))).toEqual({
+      page: 1,
+      offset: 0,
+      pageSize: 10,
+    });
+  });
+
+  it('decodePagePosition when page size is zero then throws ValidationError', () => {
+    const cursor = Buffer.from(JSON.stringify({ page: 1, pageSize: 0 })).toString('base64url');
+
+    expect(() => decodePagePosition(cursor)).toThrow(ValidationError);
+  });
+
+  it('decodePagePosition when offset is negative then throws ValidationError', () => {
+    const cursor = Buffer.from(JSON.stringify({ page: 1, offset: -5 })).toString('base64url');
+
+    expect(() => decodePagePosition(cursor)).toThrow(ValidationError);
+  });
+});
+
+describe('resolvePagePosition', () => {
+  it('resolvePagePosition when nothing provided then returns top of first page', () => {
+    expect(resolvePagePosition({})).toEqual({ page: 0, offset: 0 });
+  });
+
+  it('resolvePagePosition when page provided then starts at the top of it', () => {
+    expect(resolvePagePosition({ page: 4 })).toEqual({ page: 4, offset: 0 });
+  });
+
+  it('resolvePagePosition when cursor and page provided then cursor wins', () => {
+    expect(resolvePagePosition({ page: 4, cursor: encodePageCursor(2, { offset: 10 }) })).toEqual({
+      page: 2,
+      offset: 10,
+    });
+  });
+});
+
+describe('getNextPageCursor', () => {
+  it('getNextPageCursor when more pages remain then returns cursor for next page', () => {
+    const cursor = getNextPageCursor(0, 3);
+
+    expect(cursor).toBeDefined();
+    expect(decodePageCursor(cursor!)).toBe(1);
+  });
+
+  it('getNextPageCursor when on last page then returns undefined', () => {
+    expect(getNextPageCursor(2, 3)).toBeUndefined();
+  });
+
+  it('getNextPageCursor when there are no pages then returns undefined', () => {
+    expect(getNextPageCursor(0, 0)).toBeUndefined();
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Broader repertory queries to try when a search finds nothing
+ *
+ * Each suggestion builds on the previous one, applying the recovery steps of
+ * the search syntax guide in order: repertory vocabulary, no exact phrases,
+ * wildcards, then fewer terms.
+ */
+
+import type { QuerySuggestion } from '../utils/schemas.js';
+import { applyVocabulary, isPositiveTerm, toWildcard, tokenizeQuery } from './query-translator.js';
+
+const MAX_SUGGESTIONS = 6;
+
+/**
+ * Suggest broader queries for a repertory search that found no rubrics
+ *
+ * @example
+ * ```typescript
+ * suggestRepertoryQueries('burning headache worse motion');
+ * // [{ query: 'burning head pain agg motion', strategy: 'vocabulary', ... },
+ * //  { query: 'burn* head* pain* agg motion*', strategy: 'wildcard', ... }, ...]
+ * ```
+ */
+export function suggestRepertoryQueries(symptom: string): QuerySuggestion[] {
+  const suggestions: QuerySuggestion[] = [];
+  const seen = new Set([tokenizeQuery(symptom.toLowerCase()).join(' ')]);
+  const suggest = (terms: string[], strategy: QuerySuggestion['strategy'], reason: string) => {
+    const query = terms.join(' ');
+    if (terms.some(isPositiveTerm) && query.length >= 3 && !seen.has(query)) {
+      seen.add(query);
+      suggestions.push({ query, strategy, reason });
+    }
+  };
+
+  const vocabulary = applyVocabulary(symptom.toLowerCase());
+  const swaps = vocabulary.swaps.map(({ from, to }) => `${from} → ${to}`);
+  let terms = tokenizeQuery(vocabulary.query);
+  suggest(terms, 'vocabulary', `Repertories use their own terms: ${swaps.join(', ')}`);
+
+  if (terms.some((term) => term.startsWith('"'))) {
+    terms = terms.flatMap((term) =>
+      term.startsWith('"') ? tokenizeQuery(term.replace(/"/g, ' ')) : [term]
+    );
+    suggest(terms, 'unquote', 'Exact phrases are restrictive; search the words separately');
+  }
+
+  const stems: string[] = [];
+  terms = terms.map((term) => {
+    const wildcard = toWildcard(term);
+    if (wildcard !== term) {
+      stems.push(`${term} → ${wildcard}`);
+    }
+    return wildcard;
+  });
+  suggest(terms, 'wildcard', `Wildcards match word variations: ${stems.join(', ')}`);
+
+  if (terms.some((term) => !isPositiveTerm(term))) {
+    terms = terms.filter(isPositiveTerm);
+    suggest(terms, 'drop-term', 'Exclusions remove matches; search without them');
+  }
+
+  // Every term must match, so dropping one broadens the search. Later terms go first.
+  if (terms.length > 2) {
+    for (let i = terms.length - 1; i >= 0 && suggestions.length < MAX_SUGGESTIONS; i--) {
+      suggest(
+        terms.filter((_, index) => index !== i),
+        'drop-term',
+        `Every term must match; without "${terms[i]}"`
+      );
+    }
+  }
+
+  return suggestions.slice(0, MAX_SUGGESTIONS);
+}
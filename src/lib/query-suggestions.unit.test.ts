@@ -0,0 +1,67 @@
+/**
+ * Unit tests for empty-result query suggestions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { suggestRepertoryQueries } from './query-suggestions.js';
+
+describe('suggestRepertoryQueries', () => {
+  it('suggestRepertoryQueries when query uses natural language then swaps in repertory terms', () => {
+    const [first] = suggestRepertoryQueries('headache worse motion');
+
+    expect(first).toMatchObject({ query: 'head pain agg motion', strategy: 'vocabulary' });
+    expect(first.reason).toContain('worse → agg');
+  });
+
+  it('suggestRepertoryQueries when phrase matches vocabulary then swaps the whole phrase', () => {
+    const [first] = suggestRepertoryQueries('sharp pain chest');
+
+    expect(first.query).toBe('stitch* chest');
+  });
+
+  it('suggestRepertoryQueries when terms are long enough then adds wildcards to their stems', () => {
+    const suggestions = suggestRepertoryQueries('burning headache');
+
+    expect(suggestions[1]).toMatchObject({ query: 'burn* head* pain*', strategy: 'wildcard' });
+  });
+
+  it('suggestRepertoryQueries when terms are short or modalities then leaves them unchanged', () => {
+    const suggestions = suggestRepertoryQueries('eye agg');
+
+    expect(suggestions).toEqual([]);
+  });
+
+  it('suggestRepertoryQueries when query has an exact phrase then searches its words separately', () => {
+    const suggestions = suggestRepertoryQueries('"stitching pain" chest');
+
+    expect(suggestions[0]).toMatchObject({ query: 'stitching pain chest', strategy: 'unquote' });
+    expect(suggestions[1]).toMatchObject({ query: 'stitch* pain* chest*', strategy: 'wildcard' });
+  });
+
+  it('suggestRepertoryQueries when query has exclusions then suggests dropping them', () => {
+    const suggestions = suggestRepertoryQueries('head* -"forehead"');
+
+    expect(suggestions).toEqual([
+      expect.objectContaining({ query: 'head*', strategy: 'drop-term' }),
+    ]);
+  });
+
+  it('suggestRepertoryQueries when more than two terms then drops one term at a time, last first', () => {
+    const queries = suggestRepertoryQueries('head* pain* night').map((s) => s.query);
+
+    expect(queries).toEqual(['head* pain* night*', 'head* pain*', 'head* night*', 'pain* night*']);
+  });
+
+  it('suggestRepertoryQueries when steps produce the same query then suggests it once', () => {
+    const queries = suggestRepertoryQueries('vertigo').map((s) => s.query);
+
+    expect(queries).toEqual(['vertigo*']);
+  });
+
+  it('suggestRepertoryQueries when query has many terms then returns at most six suggestions', () => {
+    const suggestions = suggestRepertoryQueries('dizziness worse rising morning cold sweating');
+
+    expect(suggestions).toHaveLength(6);
+    expect(new Set(suggestions.map((s) => s.query)).size).toBe(6);
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Rule-based translation of natural-language symptoms into repertory queries
+ *
+ * Applies the query construction rules of the search syntax guide: repertory
+ * vocabulary, no filler words, body location first, and wildcards on word stems.
+ * The vocabulary here is the one source for the guide's table, the analysis
+ * prompts and empty-result suggestions.
+ */
+
+import type { RepertoryQueryTranslation } from '../utils/schemas.js';
+
+/**
+ * Natural language terms and the repertory terms to use instead
+ * Multi-word phrases come before the single words they contain.
+ */
+export const REPERTORY_VOCABULARY: readonly {
+  natural: readonly string[];
+  repertory: readonly string[];
+}[] = [
+  { natural: ['blocked', 'congested', 'stopped up'], repertory: ['obstruct*'] },
+  { natural: ['nodules'], repertory: ['nod*'] },
+  { natural: ['sharp pain', 'stabbing'], repertory: ['stitch*'] },
+  { natural: ['pounding', 'throbbing'], repertory: ['pulsat*'] },
+  { natural: ['headache'], repertory: ['head pain'] },
+  { natural: ['toothache'], repertory: ['teeth pain'] },
+  { natural: ['earache'], repertory: ['ear pain'] },
+  { natural: ['backache'], repertory: ['back pain'] },
+  { natural: ['sore throat'], repertory: ['throat pain'] },
+  { natural: ['belly', 'tummy'], repertory: ['abdomen'] },
+  { natural: ['dizziness', 'dizzy'], repertory: ['vertigo'] },
+  { natural: ['runny nose'], repertory: ['coryza', 'discharg*'] },
+  { natural: ['nosebleed'], repertory: ['epistax*'] },
+  { natural: ['throwing up'], repertory: ['vomit*'] },
+  { natural: ['breathing difficulty', 'short of breath'], repertory: ['dyspn*'] },
+  { natural: ['sweating', 'sweat'], repertory: ['perspir*'] },
+  { natural: ['insomnia', 'sleepless'], repertory: ['sleeplessness'] },
+  { natural: ['itchy'], repertory: ['itch*'] },
+  { natural: ['worse', 'worsening'], repertory: ['agg'] },
+  { natural: ['better', 'improving'], repertory: ['amel'] },
+];
+
+/**
+ * Body locations, which the guide puts first in a query ("head pain" not "pain head")
+ */
+export const BODY_LOCATIONS: ReadonlySet<string> = new Set([
+  'head',
+  'scalp',
+  'forehead',
+  'occiput',
+  'vertex',
+  'temples',
+  'eye',
+  'eyes',
+  'ear',
+  'ears',
+  'nose',
+  'face',
+  'lips',
+  'mouth',
+  'tongue',
+  'teeth',
+  'gums',
+  'throat',
+  'larynx',
+  'neck',
+  'chest',
+  'heart',
+  'breast',
+  'breasts',
+  'lungs',
+  'stomach',
+  'abdomen',
+  'liver',
+  'rectum',
+  'anus',
+  'bladder',
+  'kidneys',
+  'urethra',
+  'uterus',
+  'ovaries',
+  'back',
+  'spine',
+  'extremities',
+  'arm',
+  'arms',
+  'hand',
+  'hands',
+  'fingers',
+  'leg',
+  'legs',
+  'knee',
+  'knees',
+  'foot',
+  'feet',
+  'toes',
+  'joints',
+  'skin',
+  'hair',
+  'nails',
+]);
+
+/** Filler words that only narrow an AND search */
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'the',
+  'my',
+  'i',
+  'am',
+  'is',
+  'are',
+  'have',
+  'has',
+  'had',
+  'feel',
+  'feels',
+  'feeling',
+  'very',
+  'really',
+  'in',
+  'on',
+  'at',
+  'of',
+  'from',
+  'with',
+  'when',
+  'while',
+  'during',
+]);
+
+/** Terms too short to stem usefully, and modalities that are already repertory terms */
+const MIN_WILDCARD_LENGTH = 4;
+const MODALITIES = new Set(['agg', 'amel']);
+
+/** Shorter stems match unrelated words, e.g. "mot*" for motion */
+const MIN_STEM_LENGTH = 4;
+
+/** Longest first, so "anticipating" loses "ating" rather than "ing" */
+const SUFFIXES = [
+  'ations',
+  'ation',
+  'ating',
+  'ings',
+  'ing',
+  'ness',
+  'ions',
+  'ion',
+  'ed',
+  'es',
+  's',
+];
+
+/**
+ * Translate a natural-language symptom into a repertory query
+ *
+ * Returns the query unchanged, with no changes listed, if translation would
+ * leave nothing to search for.
+ *
+ * @example
+ * ```typescript
+ * translateSymptomQuery('Throbbing headache, worse from motion');
+ * // { query: 'head* pulsat* pain* agg motion*', changes: [...] }
+ * ```
+ */
+export function translateSymptomQuery(symptom: string): RepertoryQueryTranslation {
+  const original = symptom.trim();
+  const changes: RepertoryQueryTranslation['changes'] = [];
+
+  const vocabulary = applyVocabulary(original.toLowerCase().replace(/[,.;:!?()]/g, ' '));
+  for (const { from, to } of vocabulary.swaps) {
+    changes.push({ rule: 'vocabulary', from, to });
+  }
+
+  let terms = tokenizeQuery(vocabulary.query).filter((term) => {
+    if (!STOP_WORDS.has(term)) return true;
+    changes.push({ rule: 'stop-word', from: term, to: '' });
+    return false;
+  });
+
+  const locations = terms.filter(isBodyLocation);
+  const reordered = [
+    ...locations,
+    ...terms.filter((term) => !isBodyLocation(term) && isPositiveTerm(term)),
+    ...terms.filter((term) => !isPositiveTerm(term)),
+  ];
+  if (reordered.join(' ') !== terms.join(' ')) {
+    changes.push({ rule: 'reorder', from: terms.join(' '), to: reordered.join(' ') });
+    terms = reordered;
+  }
+
+  terms = terms.map((term) => {
+    const wildcard = toWildcard(term);
+    if (wildcard !== term) {
+      changes.push({ rule: 'wildcard', from: term, to: wildcard });
+    }
+    return wildcard;
+  });
+
+  const query = terms.join(' ');
+  if (!terms.some(isPositiveTerm) || query.length < 3) {
+    return { original, query: original, changes: [] };
+  }
+  return { original, query, changes };
+}
+
+/**
+ * Replace natural-language terms with repertory vocabulary
+ * Expects a lowercase query.
+ */
+export function applyVocabulary(query: string): {
+  query: string;
+  swaps: { from: string; to: string }[];
+} {
+  const swaps: { from: string; to: string }[] = [];
+  for (const { natural, repertory } of REPERTORY_VOCABULARY) {
+    for (const term of natural) {
+      const swapped = query.replace(new RegExp(`\\b${term}\\b`, 'g'), repertory[0]);
+      if (swapped !== query) {
+        query = swapped;
+        swaps.push({ from: term, to: repertory[0] });
+      }
+    }
+  }
+  return { query, swaps };
+}
+
+/**
+ * Split a query into terms, keeping quoted phrases and their exclusion prefix together
+ */
+export function tokenizeQuery(query: string): string[] {
+  return query.match(/-?"[^"]*"?|\S+/g) ?? [];
+}
+
+export function isPositiveTerm(term: string): boolean {
+  return !term.startsWith('-');
+}
+
+/**
+ * Add a wildcard to the stem of a plain search word
+ *
+ * Exclusions, phrases, short words, modalities and terms that already hold a
+ * wildcard are returned unchanged.
+ */
+export function toWildcard(term: string): string {
+  if (!isPositiveTerm(term) || !/^[a-z]+$/.test(term) || term.length < MIN_WILDCARD_LENGTH) {
+    return term;
+  }
+  if (MODALITIES.has(term)) {
+    return term;
+  }
+  const suffix = SUFFIXES.find(
+    (candidate) => term.endsWith(candidate) && term.length - candidate.length >= MIN_STEM_LENGTH
+  );
+  return `${suffix ? term.slice(0, -suffix.length) : term}*`;
+}
+
+function isBodyLocation(term: string): boolean {
+  return BODY_LOCATIONS.has(term);
+}
@@ -0,0 +1,84 @@
+/**
+ * Unit tests for natural-language query translation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyVocabulary, toWildcard, translateSymptomQuery } from './query-translator.js';
+
+describe('translateSymptomQuery', () => {
+  it('translateSymptomQuery when symptom is natural language then returns a repertory query', () => {
+    const translation = translateSymptomQuery('Throbbing headache, worse from motion');
+
+    expect(translation.original).toBe('Throbbing headache, worse from motion');
+    expect(translation.query).toBe('head* pulsat* pain* agg motion*');
+  });
+
+  it('translateSymptomQuery when terms are translated then lists each change in order', () => {
+    const { changes } = translateSymptomQuery('pain in my chest worse');
+
+    expect(changes).toEqual([
+      { rule: 'vocabulary', from: 'worse', to: 'agg' },
+      { rule: 'stop-word', from: 'in', to: '' },
+      { rule: 'stop-word', from: 'my', to: '' },
+      { rule: 'reorder', from: 'pain chest agg', to: 'chest pain agg' },
+      { rule: 'wildcard', from: 'chest', to: 'chest*' },
+      { rule: 'wildcard', from: 'pain', to: 'pain*' },
+    ]);
+  });
+
+  it('translateSymptomQuery when body location is already first then does not reorder', () => {
+    const { query, changes } = translateSymptomQuery('stomach burning');
+
+    expect(query).toBe('stomach* burn*');
+    expect(changes.map((change) => change.rule)).not.toContain('reorder');
+  });
+
+  it('translateSymptomQuery when query has exclusions then keeps them last and unchanged', () => {
+    const { query } = translateSymptomQuery('-night fever "cold sweat"');
+
+    expect(query).toBe('fever* "cold perspir*" -night');
+  });
+
+  it('translateSymptomQuery when query is already in repertory terms then leaves it unchanged', () => {
+    const translation = translateSymptomQuery('head* agg');
+
+    expect(translation).toEqual({ original: 'head* agg', query: 'head* agg', changes: [] });
+  });
+
+  it('translateSymptomQuery when only filler words remain then returns the symptom unchanged', () => {
+    const translation = translateSymptomQuery('I have a');
+
+    expect(translation).toEqual({ original: 'I have a', query: 'I have a', changes: [] });
+  });
+});
+
+describe('applyVocabulary', () => {
+  it('applyVocabulary when phrase matches then swaps the phrase before its words', () => {
+    expect(applyVocabulary('sharp pain chest')).toEqual({
+      query: 'stitch* chest',
+      swaps: [{ from: 'sharp pain', to: 'stitch*' }],
+    });
+  });
+
+  it('applyVocabulary when term is part of a longer word then leaves it', () => {
+    expect(applyVocabulary('betterment').query).toBe('betterment');
+  });
+});
+
+describe('toWildcard', () => {
+  it('toWildcard when word has a known suffix then stems it', () => {
+    expect(toWildcard('anticipating')).toBe('anticip*');
+    expect(toWildcard('nodules')).toBe('nodul*');
+  });
+
+  it('toWildcard when stem would be too short then keeps the whole word', () => {
+    expect(toWildcard('motion')).toBe('motion*');
+  });
+
+  it('toWildcard when term is short, a modality, an exclusion or a wildcard then keeps it', () => {
+    expect(toWildcard('eye')).toBe('eye');
+    expect(toWildcard('amel')).toBe('amel');
+    expect(toWildcard('-night')).toBe('-night');
+    expect(toWildcard('head*')).toBe('head*');
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Remedy ranking strategies for repertory remedyStats
+ *
+ * Homeopathic schools weigh the same rubric data differently. Each strategy
+ * scores every remedy and reports the components of that score so agents can
+ * explain a ranking instead of presenting it as a black box.
+ */
+
+import { getRubricPathSegments } from './rubric-tree.js';
+import type { RemedyRankingName, RemedyStat, Rubric } from '../utils/schemas.js';
+
+/**
+ * Extra information a strategy may use besides the remedy totals
+ */
+export interface RemedyRankingContext {
+  /** Rubrics returned by the search, used for per-rubric analysis */
+  rubrics: Rubric[];
+  /** The search query, used to infer the patient's modality */
+  symptom?: string;
+  /** Highest rubric count among the ranked remedies; filled in by rankRemedyStats */
+  largestCount?: number;
+}
+
+/**
+ * Score assigned to a remedy, with the named components it was built from
+ */
+export interface RemedyScore {
+  score: number;
+  scoreBreakdown: Record<string, number>;
+}
+
+/**
+ * A remedy with the score assigned by a ranking strategy
+ */
+export type RankedRemedyStat = RemedyStat & RemedyScore;
+
+/**
+ * Strategy for ranking remedies in repertory search results
+ */
+export interface RemedyRankingStrategy {
+  readonly name: string;
+  readonly description: string;
+  /** Score a single remedy; ordering is handled by rankRemedyStats */
+  score(stat: RemedyStat, context: RemedyRankingContext): RemedyScore;
+}
+
+type Modality = 'agg' | 'amel';
+
+// Boger and Boenninghausen give general symptoms precedence over particulars
+const GENERAL_CHAPTERS = new Set([
+  'generals',
+  'general',
+  'mind',
+  'modalities',
+  'sleep',
+  'dreams',
+  'fever',
+  'chill',
+  'perspiration',
+  'time',
+]);
+
+const GENERAL_CHAPTER_FACTOR = 2;
+
+/**
+ * Kent totality: sum of grades across all rubrics, ties broken by rubric count
+ */
+export const kentTotalityStrategy: RemedyRankingStrategy = {
+  name: 'kent',
+  description: 'Kent totality: sum of grades, then number of rubrics',
+  score(stat) {
+    return {
+      score: stat.cumulativeWeight,
+      scoreBreakdown: { cumulativeWeight: stat.cumulativeWeight, count: stat.count },
+    };
+  },
+};
+
+/**
+ * Boenninghausen polarity: sum of grades adjusted by the polarity difference
+ *
+ * When the query names a modality (agg./amel., worse/better), grades in rubrics
+ * with that modality count for the remedy and grades in rubrics with the
+ * contrary modality count against it.
+ */
+export const boenninghausenPolarityStrategy: RemedyRankingStrategy = {
+  name: 'boenninghausen',
+  description: 'Boenninghausen polarity: sum of grades plus patient minus contrary modality grades',
+  score(stat, context) {
+    const patientModality = detectModality(context.symptom ?? '');
+    let patientGrades = 0;
+    let contraryGrades = 0;
+
+    if (patientModality) {
+      for (const rubric of context.rubrics) {
+        const modality = detectModality(rubric.rubric);
+        if (!modality) continue;
+        const grade = findGrade(rubric, stat);
+        if (modality === patientModality) {
+          patientGrades += grade;
+        } else {
+          contraryGrades += grade;
+        }
+      }
+    }
+
+    const polarityDifference = patientGrades - contraryGrades;
+    return {
+      score: stat.cumulativeWeight + polarityDifference,
+      scoreBreakdown: {
+        cumulativeWeight: stat.cumulativeWeight,
+        patientModalityGrades: patientGrades,
+        contraryModalityGrades: contraryGrades,
+        polarityDifference,
+      },
+    };
+  },
+};
+
+/**
+ * Boger general-first: grades in general chapters (Mind, Generals, Sleep,
+ * Fever, ...) count double compared to particular, local rubrics
+ */
+export const bogerGeneralFirstStrategy: RemedyRankingStrategy = {
+  name: 'boger',
+  description: 'Boger general-first: grades in general chapters weighted double',
+  score(stat, context) {
+    let generalGrades = 0;
+    for (const rubric of context.rubrics) {
+      const chapter = (
+        rubric.chapter ??
+        getRubricPathSegments(rubric.rubric)[0] ??
+        ''
+      ).toLowerCase();
+      if (GENERAL_CHAPTERS.has(chapter)) {
+        generalGrades += findGrade(rubric, stat);
+      }
+    }
+
+    return {
+      score: stat.cumulativeWeight + (GENERAL_CHAPTER_FACTOR - 1) * generalGrades,
+      scoreBreakdown: {
+        cumulativeWeight: stat.cumulativeWeight,
+        generalGrades,
+        particularGrades: Math.max(stat.cumulativeWeight - generalGrades, 0),
+      },
+    };
+  },
+};
+
+/**
+ * Small-remedy correction: boosts remedies that appear in few rubrics so that
+ * polychrests do not dominate by sheer size
+ *
+ * Remedy size is approximated by the remedy's rubric count in this result set.
+ * The correction is sqrt(largest count / remedy count).
+ */
+export const smallRemedyCorrectionStrategy: RemedyRankingStrategy = {
+  name: 'small-remedy',
+  description: 'Small-remedy correction: sum of grades scaled up for remedies in few rubrics',
+  score(stat, context) {
+    const largest = Math.max(stat.count, context.largestCount ?? stat.count);
+    const correction = stat.count > 0 ? round(Math.sqrt(largest / stat.count)) : 1;
+    return {
+      score: round(stat.cumulativeWeight * correction),
+      scoreBreakdown: {
+        cumulativeWeight: stat.cumulativeWeight,
+        count: stat.count,
+        correction,
+      },
+    };
+  },
+};
+
+/**
+ * Built-in strategies by name
+ */
+export const REMEDY_RANKING_STRATEGIES: Record<RemedyRankingName, RemedyRankingStrategy> = {
+  kent: kentTotalityStrategy,
+  boenninghausen: boenninghausenPolarityStrategy,
+  boger: bogerGeneralFirstStrategy,
+  'small-remedy': smallRemedyCorrectionStrategy,
+};
+
+/**
+ * Score and order remedies with a strategy
+ *
+ * Remedies are ordered by score, then cumulative weight, then rubric count.
+ */
+export function rankRemedyStats(
+  stats: RemedyStat[],
+  strategy: RemedyRankingStrategy,
+  context: RemedyRankingContext
+): RankedRemedyStat[] {
+  const largestCount = stats.reduce((max, stat) => Math.max(max, stat.count), 0);
+  const scoringContext = { ...context, largestCount };
+
+  return stats
+    .map((stat): RankedRemedyStat => ({ ...stat, ...strategy.score(stat, scoringContext) }))
+    .sort(
+      (a, b) => b.score - a.score || b.cumulativeWeight - a.cumulativeWeight || b.count - a.count
+    );
+}
+
+function findGrade(rubric: Rubric, stat: RemedyStat): number {
+  const match = rubric.remedies.find((remedy) =>
+    stat.abbreviation ? remedy.abbreviation === stat.abbreviation : remedy.name === stat.name
+  );
+  return match?.weight ?? 0;
+}
+
+function detectModality(text: string): Modality | undefined {
+  const normalized = text.toLowerCase();
+  if (/\bamel\b|\bbetter\b/.test(normalized)) return 'amel';
+  if (/\bagg\b|\bworse\b/.test(normalized)) return 'agg';
+  return undefined;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
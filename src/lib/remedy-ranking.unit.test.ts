@@ -0,0 +1,136 @@
+/**
+ * Unit tests for remedy ranking strategies
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  REMEDY_RANKING_STRATEGIES,
+  rankRemedyStats,
+  type RemedyRankingStrategy,
+} from './remedy-ranking.js';
+import type { RemedyStat, Rubric } from '../utils/schemas.js';
+
+function rubric(path: string, remedies: Array<[string, number]>): Rubric {
+  return {
+    rubric: path,
+    repertory: 'kent',
+    remedies: remedies.map(([abbreviation, weight]) => ({
+      name: abbreviation,
+      abbreviation,
+      weight,
+    })),
+  };
+}
+
+function stat(abbreviation: string, count: number, cumulativeWeight: number): RemedyStat {
+  return { name: abbreviation, abbreviation, count, cumulativeWeight };
+}
+
+function order(stats: Array<{ abbreviation?: string }>): Array<string | undefined> {
+  return stats.map((entry) => entry.abbreviation);
+}
+
+describe('rankRemedyStats', () => {
+  it('rankRemedyStats when kent then orders by cumulative weight and reports breakdown', () => {
+    const ranked = rankRemedyStats(
+      [stat('Bry.', 3, 5), stat('Bell.', 2, 6), stat('Sulph.', 3, 6)],
+      REMEDY_RANKING_STRATEGIES.kent,
+      { rubrics: [] }
+    );
+
+    expect(order(ranked)).toEqual(['Sulph.', 'Bell.', 'Bry.']);
+    expect(ranked[0]).toMatchObject({
+      score: 6,
+      scoreBreakdown: { cumulativeWeight: 6, count: 3 },
+    });
+  });
+
+  it('rankRemedyStats when boenninghausen and symptom names modality then applies polarity', () => {
+    const rubrics = [
+      rubric('Generals, cold, agg.', [
+        ['Ars.', 3],
+        ['Puls.', 1],
+      ]),
+      rubric('Generals, cold, amel.', [
+        ['Puls.', 3],
+        ['Ars.', 1],
+      ]),
+    ];
+
+    const ranked = rankRemedyStats(
+      [stat('Puls.', 2, 4), stat('Ars.', 2, 4)],
+      REMEDY_RANKING_STRATEGIES.boenninghausen,
+      { rubrics, symptom: 'cold agg' }
+    );
+
+    expect(order(ranked)).toEqual(['Ars.', 'Puls.']);
+    expect(ranked[0].scoreBreakdown).toEqual({
+      cumulativeWeight: 4,
+      patientModalityGrades: 3,
+      contraryModalityGrades: 1,
+      polarityDifference: 2,
+    });
+    expect(ranked[1].score).toBe(2);
+  });
+
+  it('rankRemedyStats when boenninghausen and symptom has no modality then keeps grade totals', () => {
+    const ranked = rankRemedyStats([stat('Ars.', 1, 3)], REMEDY_RANKING_STRATEGIES.boenninghausen, {
+      rubrics: [rubric('Generals, cold, agg.', [['Ars.', 3]])],
+      symptom: 'cold',
+    });
+
+    expect(ranked[0].score).toBe(3);
+    expect(ranked[0].scoreBreakdown.polarityDifference).toBe(0);
+  });
+
+  it('rankRemedyStats when boger then weights general chapters double', () => {
+    const rubrics = [
+      rubric('Mind, anxiety', [['Ars.', 2]]),
+      rubric('Head, pain', [
+        ['Bell.', 3],
+        ['Ars.', 1],
+      ]),
+    ];
+
+    const ranked = rankRemedyStats(
+      [stat('Bell.', 1, 3), stat('Ars.', 2, 3)],
+      REMEDY_RANKING_STRATEGIES.boger,
+      { rubrics }
+    );
+
+    expect(order(ranked)).toEqual(['Ars.', 'Bell.']);
+    expect(ranked[0]).toMatchObject({
+      score: 5,
+      scoreBreakdown: { cumulativeWeight: 3, generalGrades: 2, particularGrades: 1 },
+    });
+  });
+
+  it('rankRemedyStats when small-remedy then boosts remedies in few rubrics', () => {
+    const ranked = rankRemedyStats(
+      [stat('Sulph.', 4, 8), stat('Glon.', 1, 3)],
+      REMEDY_RANKING_STRATEGIES['small-remedy'],
+      { rubrics: [] }
+    );
+
+    expect(order(ranked)).toEqual(['Sulph.', 'Glon.']);
+    expect(ranked[1]).toMatchObject({
+      score: 6,
+      scoreBreakdown: { cumulativeWeight: 3, count: 1, correction: 2 },
+    });
+    expect(ranked[0].scoreBreakdown.correction).toBe(1);
+  });
+
+  it('rankRemedyStats when custom strategy then uses its scores', () => {
+    const byCount: RemedyRankingStrategy = {
+      name: 'by-count',
+      description: 'Rubric count only',
+      score: (entry) => ({ score: entry.count, scoreBreakdown: { count: entry.count } }),
+    };
+
+    const ranked = rankRemedyStats([stat('Bell.', 1, 9), stat('Bry.', 3, 3)], byCount, {
+      rubrics: [],
+    });
+
+    expect(order(ranked)).toEqual(['Bry.', 'Bell.']);
+  });
+});
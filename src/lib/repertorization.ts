@@ -0,0 +1,155 @@
+/**
+ * Case repertorization
+ *
+ * Builds a remedy × rubric grid from the rubrics selected for a case and ranks
+ * remedies by the classic totality measures:
+ * - sum of grades: remedy grade in each rubric multiplied by the rubric's intensity
+ * - sum of symptoms: number of case rubrics the remedy appears in
+ * - coverage: share of the case's total intensity covered by the remedy
+ *
+ * All rankings are deterministic: ties fall back to the other measures and
+ * finally to the remedy abbreviation.
+ */
+
+import type {
+  CaseRubric,
+  RepertorizationResult,
+  RepertorizedRemedy,
+  Rubric,
+} from '../utils/schemas.js';
+
+export const DEFAULT_MAX_REMEDIES = 20;
+
+/**
+ * A resolved rubric taking part in the case
+ */
+export interface SelectedCaseRubric {
+  /** Position of the rubric in the caller's selection */
+  index: number;
+  rubric: Rubric;
+  /** Symptom importance (1-4) */
+  intensity: number;
+}
+
+type RemedyTotals = Omit<RepertorizedRemedy, 'ranks'>;
+
+/**
+ * Repertorize a case from already resolved rubrics
+ */
+export function repertorize(
+  selected: SelectedCaseRubric[],
+  options: { maxRemedies?: number } = {}
+): Omit<RepertorizationResult, 'unresolved'> {
+  const maxRemedies = options.maxRemedies ?? DEFAULT_MAX_REMEDIES;
+  const totalIntensity = selected.reduce((sum, entry) => sum + entry.intensity, 0);
+
+  const totals = new Map<string, RemedyTotals>();
+  const coveredIntensity = new Map<string, number>();
+
+  selected.forEach((entry, column) => {
+    for (const remedy of entry.rubric.remedies) {
+      let row = totals.get(remedy.abbreviation);
+      if (!row) {
+        row = {
+          name: remedy.name,
+          abbreviation: remedy.abbreviation,
+          grades: new Array<number>(selected.length).fill(0),
+          sumOfGrades: 0,
+          sumOfSymptoms: 0,
+          coverage: 0,
+        };
+        totals.set(remedy.abbreviation, row);
+      }
+      // A remedy listed twice in one rubric keeps its highest grade
+      if (remedy.weight > row.grades[column]) {
+        if (row.grades[column] === 0) {
+          row.sumOfSymptoms += 1;
+          coveredIntensity.set(
+            remedy.abbreviation,
+            (coveredIntensity.get(remedy.abbreviation) ?? 0) + entry.intensity
+          );
+        }
+        row.sumOfGrades += (remedy.weight - row.grades[column]) * entry.intensity;
+        row.grades[column] = remedy.weight;
+      }
+    }
+  });
+
+  const rows = Array.from(totals.values());
+  rows.forEach((row) => {
+    const covered = coveredIntensity.get(row.abbreviation) ?? 0;
+    row.coverage = totalIntensity > 0 ? roundRatio(covered / totalIntensity) : 0;
+  });
+
+  const bySumOfGrades = [...rows].sort(
+    (a, b) =>
+      b.sumOfGrades - a.sumOfGrades ||
+      b.sumOfSymptoms - a.sumOfSymptoms ||
+      a.abbreviation.localeCompare(b.abbreviation)
+  );
+  const bySumOfSymptoms = [...rows].sort(
+    (a, b) =>
+      b.sumOfSymptoms - a.sumOfSymptoms ||
+      b.sumOfGrades - a.sumOfGrades ||
+      a.abbreviation.localeCompare(b.abbreviation)
+  );
+  const byCoverage = [...rows].sort(
+    (a, b) =>
+      b.coverage - a.coverage ||
+      b.sumOfGrades - a.sumOfGrades ||
+      a.abbreviation.localeCompare(b.abbreviation)
+  );
+
+  const ranks = {
+    sumOfGrades: rankPositions(bySumOfGrades),
+    sumOfSymptoms: rankPositions(bySumOfSymptoms),
+    coverage: rankPositions(byCoverage),
+  };
+
+  const rankings = {
+    sumOfGrades: bySumOfGrades.slice(0, maxRemedies).map((row) => row.abbreviation),
+    sumOfSymptoms: bySumOfSymptoms.slice(0, maxRemedies).map((row) => row.abbreviation),
+    coverage: byCoverage.slice(0, maxRemedies).map((row) => row.abbreviation),
+  };
+
+  // Return the grid for every remedy that made at least one ranking
+  const listed = new Set([
+    ...rankings.sumOfGrades,
+    ...rankings.sumOfSymptoms,
+    ...rankings.coverage,
+  ]);
+  const remedies: RepertorizedRemedy[] = bySumOfGrades
+    .filter((row) => listed.has(row.abbreviation))
+    .map((row) => ({
+      ...row,
+      ranks: {
+        sumOfGrades: ranks.sumOfGrades.get(row.abbreviation)!,
+        sumOfSymptoms: ranks.sumOfSymptoms.get(row.abbreviation)!,
+        coverage: ranks.coverage.get(row.abbreviation)!,
+      },
+    }));
+
+  const rubrics: CaseRubric[] = selected.map((entry) => ({
+    index: entry.index,
+    id: entry.rubric.id,
+    rubric: entry.rubric.rubric,
+    repertory: entry.rubric.repertory,
+    intensity: entry.intensity,
+    remedyCount: entry.rubric.remedies.length,
+  }));
+
+  return {
+    rubrics,
+    totalRemedies: rows.length,
+    remedies,
+    rankings,
+  };
+}
+
+function rankPositions(sorted: RemedyTotals[]): Map<string, number> {
+  return new Map(sorted.map((row, position) => [row.abbreviation, position + 1]));
+}
+
+function roundRatio(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
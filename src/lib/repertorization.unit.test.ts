@@ -0,0 +1,116 @@
+/**
+ * Unit tests for case repertorization
+ */
+
+import { describe, it, expect } from 'vitest';
+import { repertorize, type SelectedCaseRubric } from './repertorization.js';
+import type { Rubric } from '../utils/schemas.js';
+
+function rubric(id: number, path: string, remedies: Array<[string, number]>): Rubric {
+  return {
+    id,
+    rubric: path,
+    repertory: 'kent',
+    remedies: remedies.map(([abbreviation, weight]) => ({
+      name: abbreviation,
+      abbreviation,
+      weight,
+    })),
+  };
+}
+
+function select(rubrics: Rubric[], intensities: number[] = []): SelectedCaseRubric[] {
+  return rubrics.map((entry, index) => ({
+    index,
+    rubric: entry,
+    intensity: intensities[index] ?? 1,
+  }));
+}
+
+describe('repertorize', () => {
+  const caseRubrics = [
+    rubric(1, 'Head, pain, throbbing', [
+      ['Bell.', 3],
+      ['Glon.', 3],
+      ['Sulph.', 1],
+    ]),
+    rubric(2, 'Generals, heat, agg.', [
+      ['Bell.', 2],
+      ['Sulph.', 2],
+    ]),
+    rubric(3, 'Face, red', [
+      ['Bell.', 3],
+      ['Sulph.', 1],
+      ['Glon.', 2],
+    ]),
+  ];
+
+  it('repertorize when rubrics selected then builds grade grid aligned with rubrics', () => {
+    const result = repertorize(select(caseRubrics));
+
+    const bell = result.remedies.find((remedy) => remedy.abbreviation === 'Bell.')!;
+    const glon = result.remedies.find((remedy) => remedy.abbreviation === 'Glon.')!;
+    expect(bell.grades).toEqual([3, 2, 3]);
+    expect(glon.grades).toEqual([3, 0, 2]);
+    expect(result.rubrics.map((entry) => entry.id)).toEqual([1, 2, 3]);
+    expect(result.totalRemedies).toBe(3);
+  });
+
+  it('repertorize when rubrics selected then computes sum of grades, symptoms and coverage', () => {
+    const result = repertorize(select(caseRubrics));
+
+    const sulph = result.remedies.find((remedy) => remedy.abbreviation === 'Sulph.')!;
+    expect(sulph.sumOfGrades).toBe(4);
+    expect(sulph.sumOfSymptoms).toBe(3);
+    expect(sulph.coverage).toBe(1);
+    expect(result.rankings.sumOfGrades).toEqual(['Bell.', 'Glon.', 'Sulph.']);
+    expect(result.rankings.sumOfSymptoms).toEqual(['Bell.', 'Sulph.', 'Glon.']);
+    expect(result.rankings.coverage).toEqual(['Bell.', 'Sulph.', 'Glon.']);
+  });
+
+  it('repertorize when intensity set then multiplies grades and weights coverage', () => {
+    const result = repertorize(select(caseRubrics, [1, 4, 1]));
+
+    const sulph = result.remedies.find((remedy) => remedy.abbreviation === 'Sulph.')!;
+    const glon = result.remedies.find((remedy) => remedy.abbreviation === 'Glon.')!;
+    expect(sulph.sumOfGrades).toBe(1 + 8 + 1);
+    expect(glon.sumOfGrades).toBe(5);
+    expect(glon.coverage).toBeCloseTo(2 / 6, 3);
+    expect(result.rankings.sumOfGrades).toEqual(['Bell.', 'Sulph.', 'Glon.']);
+  });
+
+  it('repertorize when remedies tie then orders them by abbreviation', () => {
+    const result = repertorize(
+      select([
+        rubric(1, 'Mind, anxiety', [
+          ['Phos.', 2],
+          ['Ars.', 2],
+        ]),
+      ])
+    );
+
+    expect(result.rankings.sumOfGrades).toEqual(['Ars.', 'Phos.']);
+    expect(result.remedies[0].ranks).toEqual({ sumOfGrades: 1, sumOfSymptoms: 1, coverage: 1 });
+  });
+
+  it('repertorize when maxRemedies set then limits rankings and grid rows', () => {
+    const result = repertorize(select(caseRubrics), { maxRemedies: 1 });
+
+    expect(result.rankings.sumOfGrades).toEqual(['Bell.']);
+    expect(result.remedies.map((remedy) => remedy.abbreviation)).toEqual(['Bell.']);
+    expect(result.totalRemedies).toBe(3);
+  });
+
+  it('repertorize when remedy listed twice in a rubric then keeps its highest grade', () => {
+    const result = repertorize(
+      select([
+        rubric(1, 'Mind, anxiety', [
+          ['Ars.', 1],
+          ['Ars.', 3],
+        ]),
+      ])
+    );
+
+    expect(result.remedies[0]).toMatchObject({ grades: [3], sumOfGrades: 3, sumOfSymptoms: 1 });
+  });
+});
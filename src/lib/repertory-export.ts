@@ -0,0 +1,275 @@
+/**
+ * Repertorization chart exporters
+ *
+ * Render repertory search results as the classic chart: remedies as columns,
+ * rubrics as rows and grades in the cells, followed by a row of grade totals.
+ * Columns follow the order of remedyStats when present (server totals or the
+ * requested ranking), otherwise the chart's own grade totals.
+ */
+
+import { MIME_TYPES } from '../sdk/constants.js';
+import type { RepertoryExportFormat, RepertorySearchResult } from '../utils/schemas.js';
+
+export const DEFAULT_CHART_REMEDIES = 20;
+
+/**
+ * Remedy column of a repertorization chart
+ */
+export interface RepertoryChartRemedy {
+  name: string;
+  abbreviation: string;
+  /** Sum of grades across the chart's rubrics */
+  total: number;
+  /** Number of chart rubrics the remedy appears in */
+  count: number;
+}
+
+/**
+ * Remedy × rubric grid built from a repertory search result
+ */
+export interface RepertoryChart {
+  remedies: RepertoryChartRemedy[];
+  rows: Array<{
+    rubric: string;
+    repertory: string;
+    /** Grade per remedy column; 0 when the remedy is absent from the rubric */
+    grades: number[];
+  }>;
+}
+
+/**
+ * A rendered chart, ready to be returned as an embedded resource
+ */
+export interface RepertoryExport {
+  format: Exclude<RepertoryExportFormat, 'json'>;
+  mimeType: string;
+  extension: string;
+  text: string;
+}
+
+const EXPORT_FILES: Record<RepertoryExport['format'], { mimeType: string; extension: string }> = {
+  csv: { mimeType: MIME_TYPES.CSV, extension: 'csv' },
+  markdown: { mimeType: MIME_TYPES.MARKDOWN, extension: 'md' },
+  html: { mimeType: MIME_TYPES.HTML, extension: 'html' },
+  svg: { mimeType: MIME_TYPES.SVG, extension: 'svg' },
+};
+
+/**
+ * Build the remedy × rubric grid for a search result
+ */
+export function buildRepertoryChart(
+  result: RepertorySearchResult,
+  options: { maxRemedies?: number } = {}
+): RepertoryChart {
+  const maxRemedies = options.maxRemedies ?? DEFAULT_CHART_REMEDIES;
+  // Highest grade per remedy in each rubric, so duplicate listings count once
+  const rubricGrades = result.rubrics.map((rubric) => {
+    const grades = new Map<string, number>();
+    for (const remedy of rubric.remedies) {
+      grades.set(
+        remedy.abbreviation,
+        Math.max(grades.get(remedy.abbreviation) ?? 0, remedy.weight)
+      );
+    }
+    return grades;
+  });
+
+  const totals = new Map<string, RepertoryChartRemedy>();
+  for (const rubric of result.rubrics) {
+    for (const remedy of rubric.remedies) {
+      if (!totals.has(remedy.abbreviation)) {
+        totals.set(remedy.abbreviation, {
+          name: remedy.name,
+          abbreviation: remedy.abbreviation,
+          total: 0,
+          count: 0,
+        });
+      }
+    }
+  }
+  for (const grades of rubricGrades) {
+    for (const [abbreviation, grade] of grades) {
+      const entry = totals.get(abbreviation)!;
+      entry.total += grade;
+      entry.count += 1;
+    }
+  }
+
+  const statsOrder = new Map(
+    (result.remedyStats ?? []).map((stat, index) => [stat.abbreviation ?? stat.name, index])
+  );
+  const remedies = Array.from(totals.values())
+    .sort(
+      (a, b) =>
+        (statsOrder.get(a.abbreviation) ?? Infinity) -
+          (statsOrder.get(b.abbreviation) ?? Infinity) ||
+        b.total - a.total ||
+        b.count - a.count ||
+        a.abbreviation.localeCompare(b.abbreviation)
+    )
+    .slice(0, maxRemedies);
+
+  const rows = result.rubrics.map((rubric, index) => ({
+    rubric: rubric.rubric,
+    repertory: rubric.repertory,
+    grades: remedies.map((remedy) => rubricGrades[index].get(remedy.abbreviation) ?? 0),
+  }));
+
+  return { remedies, rows };
+}
+
+/**
+ * Render a search result as a chart in the given format
+ */
+export function exportRepertoryChart(
+  result: RepertorySearchResult,
+  format: RepertoryExport['format'],
+  options: { title?: string; maxRemedies?: number } = {}
+): RepertoryExport {
+  const chart = buildRepertoryChart(result, options);
+  const title = options.title ?? 'Repertorization chart';
+  const renderers: Record<RepertoryExport['format'], () => string> = {
+    csv: () => renderCsv(chart),
+    markdown: () => renderMarkdown(chart, title),
+    html: () => renderHtml(chart, title),
+    svg: () => renderSvg(chart, title),
+  };
+
+  return { format, ...EXPORT_FILES[format], text: renderers[format]() };
+}
+
+/**
+ * URI identifying an exported chart in embedded resource content
+ */
+export function getRepertoryExportUri(symptom: string, exported: RepertoryExport): string {
+  return `oorep://exports/repertory/${encodeURIComponent(symptom)}.${exported.extension}`;
+}
+
+/**
+ * CSV with one row per rubric; absent remedies are graded 0
+ */
+function renderCsv(chart: RepertoryChart): string {
+  const lines = [
+    ['Rubric', 'Repertory', ...chart.remedies.map((remedy) => remedy.abbreviation)],
+    ...chart.rows.map((row) => [row.rubric, row.repertory, ...row.grades.map(String)]),
+    ['Total', '', ...chart.remedies.map((remedy) => String(remedy.total))],
+  ];
+  return lines.map((line) => line.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * GitHub Markdown table; absent remedies are left blank
+ */
+function renderMarkdown(chart: RepertoryChart, title: string): string {
+  const header = ['Rubric', ...chart.remedies.map((remedy) => remedy.abbreviation)];
+  const lines = [
+    `## ${escapeMarkdown(title)}`,
+    '',
+    `| ${header.map(escapeMarkdown).join(' | ')} |`,
+    `| ${['---', ...chart.remedies.map(() => ':---:')].join(' | ')} |`,
+    ...chart.rows.map(
+      (row) => `| ${[escapeMarkdown(row.rubric), ...row.grades.map(formatGrade)].join(' | ')} |`
+    ),
+    `| ${['**Total**', ...chart.remedies.map((remedy) => `**${remedy.total}**`)].join(' | ')} |`,
+  ];
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Standalone HTML document with the chart as a table
+ */
+function renderHtml(chart: RepertoryChart, title: string): string {
+  const head = chart.remedies
+    .map((remedy) => `<th title="${escapeXml(remedy.name)}">${escapeXml(remedy.abbreviation)}</th>`)
+    .join('');
+  const body = chart.rows
+    .map(
+      (row) =>
+        `<tr><th scope="row">${escapeXml(row.rubric)}</th>` +
+        row.grades.map((grade) => `<td class="g${grade}">${formatGrade(grade)}</td>`).join('') +
+        '</tr>'
+    )
+    .join('\n');
+  const totals = chart.remedies.map((remedy) => `<td>${remedy.total}</td>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeXml(title)}</title>
+<style>
+body { font-family: sans-serif; }
+table { border-collapse: collapse; }
+th, td { border: 1px solid #ccc; padding: 2px 6px; text-align: center; }
+th[scope="row"] { text-align: left; font-weight: normal; }
+.g2 { font-style: italic; }
+.g3, .g4, tfoot td { font-weight: bold; }
+</style>
+</head>
+<body>
+<h1>${escapeXml(title)}</h1>
+<table>
+<thead><tr><th>Rubric</th>${head}</tr></thead>
+<tbody>
+${body}
+</tbody>
+<tfoot><tr><th scope="row">Total</th>${totals}</tr></tfoot>
+</table>
+</body>
+</html>
+`;
+}
+
+/**
+ * Horizontal bar chart of each remedy's grade total
+ */
+function renderSvg(chart: RepertoryChart, title: string): string {
+  const labelWidth = 120;
+  const barArea = 400;
+  const rowHeight = 24;
+  const top = 32;
+  const width = labelWidth + barArea + 60;
+  const height = top + chart.remedies.length * rowHeight + 8;
+  const maxTotal = Math.max(1, ...chart.remedies.map((remedy) => remedy.total));
+
+  const bars = chart.remedies.map((remedy, index) => {
+    const y = top + index * rowHeight;
+    const barWidth = Math.round((remedy.total / maxTotal) * barArea);
+    return (
+      `<g><title>${escapeXml(remedy.name)}: ${remedy.total} in ${remedy.count} rubrics</title>` +
+      `<text x="${labelWidth - 8}" y="${y + 16}" text-anchor="end">${escapeXml(remedy.abbreviation)}</text>` +
+      `<rect x="${labelWidth}" y="${y + 4}" width="${barWidth}" height="${rowHeight - 8}" fill="#4a78b5"/>` +
+      `<text x="${labelWidth + barWidth + 6}" y="${y + 16}">${remedy.total}</text></g>`
+    );
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="sans-serif" font-size="12">`,
+    `<title>${escapeXml(title)}</title>`,
+    `<text x="8" y="20" font-size="14" font-weight="bold">${escapeXml(title)}</text>`,
+    ...bars,
+    '</svg>',
+    '',
+  ].join('\n');
+}
+
+function formatGrade(grade: number): string {
+  return grade > 0 ? String(grade) : '';
+}
+
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function escapeMarkdown(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
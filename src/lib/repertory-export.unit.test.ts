@@ -0,0 +1,155 @@
+/**
+ * Unit tests for repertorization chart exporters
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildRepertoryChart,
+  exportRepertoryChart,
+  getRepertoryExportUri,
+} from './repertory-export.js';
+import type { RepertorySearchResult, Rubric } from '../utils/schemas.js';
+
+function rubric(path: string, remedies: Array<[string, number]>): Rubric {
+  return {
+    rubric: path,
+    repertory: 'kent',
+    remedies: remedies.map(([abbreviation, weight]) => ({
+      name: `${abbreviation} long`,
+      abbreviation,
+      weight,
+    })),
+  };
+}
+
+const result: RepertorySearchResult = {
+  totalResults: 2,
+  rubrics: [
+    rubric('Head, pain, throbbing', [
+      ['Bell.', 3],
+      ['Glon.', 2],
+    ]),
+    rubric('Face, red', [
+      ['Bell.', 2],
+      ['Sulph.', 1],
+    ]),
+  ],
+};
+
+describe('buildRepertoryChart', () => {
+  it('buildRepertoryChart when no remedyStats then orders columns by grade totals', () => {
+    const chart = buildRepertoryChart(result);
+
+    expect(chart.remedies).toEqual([
+      { name: 'Bell. long', abbreviation: 'Bell.', total: 5, count: 2 },
+      { name: 'Glon. long', abbreviation: 'Glon.', total: 2, count: 1 },
+      { name: 'Sulph. long', abbreviation: 'Sulph.', total: 1, count: 1 },
+    ]);
+    expect(chart.rows).toEqual([
+      { rubric: 'Head, pain, throbbing', repertory: 'kent', grades: [3, 2, 0] },
+      { rubric: 'Face, red', repertory: 'kent', grades: [2, 0, 1] },
+    ]);
+  });
+
+  it('buildRepertoryChart when remedyStats present then follows their order', () => {
+    const chart = buildRepertoryChart({
+      ...result,
+      remedyStats: [
+        { name: 'Sulph. long', abbreviation: 'Sulph.', count: 9, cumulativeWeight: 20 },
+        { name: 'Bell. long', abbreviation: 'Bell.', count: 2, cumulativeWeight: 5 },
+      ],
+    });
+
+    expect(chart.remedies.map((remedy) => remedy.abbreviation)).toEqual([
+      'Sulph.',
+      'Bell.',
+      'Glon.',
+    ]);
+  });
+
+  it('buildRepertoryChart when maxRemedies set then limits columns', () => {
+    const chart = buildRepertoryChart(result, { maxRemedies: 1 });
+
+    expect(chart.remedies).toHaveLength(1);
+    expect(chart.rows[1].grades).toEqual([2]);
+  });
+
+  it('buildRepertoryChart when remedy listed twice in a rubric then counts its highest grade once', () => {
+    const chart = buildRepertoryChart({
+      totalResults: 1,
+      rubrics: [
+        rubric('Mind, anxiety', [
+          ['Ars.', 1],
+          ['Ars.', 3],
+        ]),
+      ],
+    });
+
+    expect(chart.remedies[0]).toMatchObject({ total: 3, count: 1 });
+    expect(chart.rows[0].grades).toEqual([3]);
+  });
+});
+
+describe('exportRepertoryChart', () => {
+  it('exportRepertoryChart when csv then quotes rubrics and ends with totals', () => {
+    const exported = exportRepertoryChart(result, 'csv');
+
+    expect(exported).toMatchObject({ format: 'csv', mimeType: 'text/csv', extension: 'csv' });
+    expect(exported.text.split('\r\n')).toEqual([
+      'Rubric,Repertory,Bell.,Glon.,Sulph.',
+      '"Head, pain, throbbing",kent,3,2,0',
+      '"Face, red",kent,2,0,1',
+      'Total,,5,2,1',
+      '',
+    ]);
+  });
+
+  it('exportRepertoryChart when markdown then renders table with blank absent grades', () => {
+    const exported = exportRepertoryChart(result, 'markdown', { title: 'Chart | test' });
+
+    expect(exported.mimeType).toBe('text/markdown');
+    expect(exported.text).toContain('## Chart \\| test');
+    expect(exported.text).toContain('| Rubric | Bell. | Glon. | Sulph. |');
+    expect(exported.text).toContain('| Face, red | 2 |  | 1 |');
+    expect(exported.text).toContain('| **Total** | **5** | **2** | **1** |');
+  });
+
+  it('exportRepertoryChart when html then renders escaped standalone document', () => {
+    const exported = exportRepertoryChart(
+      { totalResults: 1, rubrics: [rubric('Mind, <fear> & dread', [['Acon.', 3]])] },
+      'html',
+      { title: 'Fear' }
+    );
+
+    expect(exported.mimeType).toBe('text/html');
+    expect(exported.text).toMatch(/^<!DOCTYPE html>/);
+    expect(exported.text).toContain('<th scope="row">Mind, &lt;fear&gt; &amp; dread</th>');
+    expect(exported.text).toContain('<td class="g3">3</td>');
+  });
+
+  it('exportRepertoryChart when svg then draws one bar per remedy scaled to the largest total', () => {
+    const exported = exportRepertoryChart(result, 'svg');
+
+    expect(exported.mimeType).toBe('image/svg+xml');
+    expect(exported.text.match(/<rect /g)).toHaveLength(3);
+    expect(exported.text).toContain('width="400"');
+    expect(exported.text).toContain('width="160"');
+    expect(exported.text).toContain('<title>Bell. long: 5 in 2 rubrics</title>');
+  });
+
+  it('exportRepertoryChart when no rubrics then renders an empty chart', () => {
+    const exported = exportRepertoryChart({ totalResults: 0, rubrics: [] }, 'csv');
+
+    expect(exported.text).toBe('Rubric,Repertory\r\nTotal,\r\n');
+  });
+});
+
+describe('getRepertoryExportUri', () => {
+  it('getRepertoryExportUri when called then encodes symptom and uses format extension', () => {
+    const exported = exportRepertoryChart(result, 'html');
+
+    expect(getRepertoryExportUri('fear of dark', exported)).toBe(
+      'oorep://exports/repertory/fear%20of%20dark.html'
+    );
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Rubric hierarchy helpers
+ *
+ * OOREP encodes a rubric's position in its repertory as a comma-separated full
+ * path: the chapter first, then the root rubric, then sub-rubrics
+ * ("Head, pain, throbbing"). These helpers rebuild that hierarchy from flat
+ * search results so agents can navigate by chapter and root rubric.
+ */
+
+import type { Rubric, RubricGroupBy, RubricTreeNode } from '../utils/schemas.js';
+
+/**
+ * Split a rubric's full path into its segments, e.g. "Head, pain, throbbing"
+ */
+export function getRubricPathSegments(fullPath: string | null | undefined): string[] {
+  return (fullPath ?? '')
+    .split(',')
+    .map((segment) => segment.trim())
+    .filter((segment) => segment.length > 0);
+}
+
+/**
+ * Chapter of a rubric, which OOREP encodes as the first segment of its full path
+ */
+export function getRubricChapter(fullPath: string | null | undefined): string | undefined {
+  return getRubricPathSegments(fullPath)[0];
+}
+
+/**
+ * Full path of a rubric's parent, or undefined for chapter-level rubrics
+ */
+export function getParentRubricPath(fullPath: string): string | undefined {
+  const segments = getRubricPathSegments(fullPath);
+  return segments.length > 1 ? segments.slice(0, -1).join(', ') : undefined;
+}
+
+/**
+ * Full paths of every ancestor of a rubric, from the chapter down to its parent
+ */
+export function getRubricAncestorPaths(fullPath: string): string[] {
+  const segments = getRubricPathSegments(fullPath);
+  return segments.slice(0, -1).map((_, index) => segments.slice(0, index + 1).join(', '));
+}
+
+/**
+ * Normalized form of a full path for comparisons and cache keys
+ */
+export function normalizeRubricPath(fullPath: string): string {
+  return getRubricPathSegments(fullPath).join(', ').toLowerCase();
+}
+
+/**
+ * Whether a rubric sits anywhere below the given full path
+ */
+export function isRubricDescendant(fullPath: string, ancestorPath: string): boolean {
+  return normalizeRubricPath(fullPath).startsWith(`${normalizeRubricPath(ancestorPath)}, `);
+}
+
+/** Path words kept in a path query; more words only narrow the search further */
+const MAX_PATH_QUERY_WORDS = 5;
+
+/**
+ * Repertory search that returns a rubric and all of its descendants
+ *
+ * OOREP ANDs search terms, so any subset of the path's words matches every
+ * rubric below it. Short words are left out because OOREP ignores them.
+ *
+ * @returns The query, or undefined when the path has no searchable words
+ */
+export function getRubricPathQuery(fullPath: string): string | undefined {
+  const words = fullPath
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length >= 3);
+  const unique = Array.from(new Set(words)).slice(0, MAX_PATH_QUERY_WORDS);
+  return unique.length > 0 ? unique.join(' ') : undefined;
+}
+
+type MutableNode = {
+  name: string;
+  path: string;
+  rubric?: Rubric;
+  children: MutableNode[];
+};
+
+/**
+ * Group rubrics into chapter nodes
+ *
+ * - `chapter`: each chapter lists its rubrics as leaves
+ * - `tree`: each chapter nests root rubrics and sub-rubrics by path segment.
+ *   Path segments with a single child and no rubric of their own are merged,
+ *   so multi-segment roots such as Murphy's "HEADACHES, general" stay intact.
+ *
+ * Chapters and children keep the order in which rubrics were returned.
+ */
+export function buildRubricTree(
+  rubrics: Rubric[],
+  groupBy: Exclude<RubricGroupBy, 'flat'>
+): RubricTreeNode[] {
+  const chapters = new Map<string, MutableNode>();
+
+  for (const rubric of rubrics) {
+    const segments = getRubricPathSegments(rubric.rubric);
+    const chapterName = rubric.chapter ?? segments[0] ?? rubric.rubric;
+    const rest = segments[0] === chapterName ? segments.slice(1) : segments;
+
+    let chapter = chapters.get(chapterName);
+    if (!chapter) {
+      chapter = { name: chapterName, path: chapterName, children: [] };
+      chapters.set(chapterName, chapter);
+    }
+
+    if (rest.length === 0) {
+      chapter.rubric ??= rubric;
+      continue;
+    }
+
+    if (groupBy === 'chapter') {
+      chapter.children.push({
+        name: rest.join(', '),
+        path: rubric.rubric,
+        rubric,
+        children: [],
+      });
+      continue;
+    }
+
+    let parent = chapter;
+    for (const segment of rest) {
+      let child = parent.children.find((node) => node.name === segment);
+      if (!child) {
+        child = { name: segment, path: `${parent.path}, ${segment}`, children: [] };
+        parent.children.push(child);
+      }
+      parent = child;
+    }
+    parent.rubric ??= rubric;
+  }
+
+  return Array.from(chapters.values()).map((chapter) => {
+    chapter.children = chapter.children.map(collapseNode);
+    return toTreeNode(chapter);
+  });
+}
+
+/**
+ * Build the nodes below a rubric path from its descendant rubrics
+ *
+ * Children nest by path segment and collapse like `buildRubricTree` nodes.
+ * Rubrics that are not below `parentPath` are ignored.
+ */
+export function buildRubricSubtree(parentPath: string, rubrics: Rubric[]): RubricTreeNode[] {
+  const depth = getRubricPathSegments(parentPath).length;
+  const root: MutableNode = { name: parentPath, path: parentPath, children: [] };
+
+  for (const rubric of rubrics) {
+    if (!isRubricDescendant(rubric.rubric, parentPath)) {
+      continue;
+    }
+
+    let parent = root;
+    for (const segment of getRubricPathSegments(rubric.rubric).slice(depth)) {
+      let child = parent.children.find((node) => node.name === segment);
+      if (!child) {
+        child = { name: segment, path: `${parent.path}, ${segment}`, children: [] };
+        parent.children.push(child);
+      }
+      parent = child;
+    }
+    parent.rubric ??= rubric;
+  }
+
+  return root.children.map(collapseNode).map(toTreeNode);
+}
+
+/**
+ * Drop nodes deeper than `depth` levels, keeping the counts of the nodes that remain
+ */
+export function pruneRubricTree(nodes: RubricTreeNode[], depth: number): RubricTreeNode[] {
+  return nodes.map((node) => ({
+    ...node,
+    children: depth > 1 ? pruneRubricTree(node.children, depth - 1) : [],
+  }));
+}
+
+/**
+ * Merge chains of rubric-less single-child segments into one node
+ */
+function collapseNode(node: MutableNode): MutableNode {
+  let current = node;
+  while (!current.rubric && current.children.length === 1) {
+    const [child] = current.children;
+    current = {
+      name: `${current.name}, ${child.name}`,
+      path: child.path,
+      rubric: child.rubric,
+      children: child.children,
+    };
+  }
+  current.children = current.children.map(collapseNode);
+  return current;
+}
+
+/**
+ * Convert a built node into its output shape, counting rubrics and distinct remedies
+ */
+function toTreeNode(node: MutableNode): RubricTreeNode {
+  const children = node.children.map(toTreeNode);
+  const remedies = new Set<string>();
+  collectRemedies(node, remedies);
+
+  return {
+    name: node.name,
+    path: node.path,
+    rubric: node.rubric,
+    rubricCount:
+      (node.rubric ? 1 : 0) + children.reduce((sum, child) => sum + child.rubricCount, 0),
+    remedyCount: remedies.size,
+    children,
+  };
+}
+
+function collectRemedies(node: MutableNode, remedies: Set<string>): void {
+  node.rubric?.remedies.forEach((remedy) => remedies.add(remedy.abbreviation));
+  node.children.forEach((child) => collectRemedies(child, remedies));
+}
@@ -0,0 +1,178 @@
+/**
+ * Unit tests for rubric hierarchy helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildRubricSubtree,
+  buildRubricTree,
+  getParentRubricPath,
+  getRubricAncestorPaths,
+  getRubricChapter,
+  getRubricPathQuery,
+  getRubricPathSegments,
+  isRubricDescendant,
+  pruneRubricTree,
+} from './rubric-tree.js';
+import type { Rubric } from '../utils/schemas.js';
+
+function rubric(path: string, remedies: string[] = []): Rubric {
+  return {
+    rubric: path,
+    chapter: getRubricChapter(path),
+    repertory: 'kent',
+    remedies: remedies.map((abbreviation) => ({ name: abbreviation, abbreviation, weight: 1 })),
+  };
+}
+
+describe('getRubricPathSegments', () => {
+  it('getRubricPathSegments when path has commas then trims each segment', () => {
+    expect(getRubricPathSegments('Head, pain ,throbbing')).toEqual(['Head', 'pain', 'throbbing']);
+  });
+
+  it('getRubricPathSegments when path is missing then returns no segments', () => {
+    expect(getRubricPathSegments(undefined)).toEqual([]);
+    expect(getRubricPathSegments(null)).toEqual([]);
+  });
+
+  it('getRubricChapter when path given then returns first segment', () => {
+    expect(getRubricChapter('MIND, DELUSIONS, clouds')).toBe('MIND');
+    expect(getRubricChapter('')).toBeUndefined();
+  });
+});
+
+describe('buildRubricTree', () => {
+  it('buildRubricTree when tree then nests chapter, root rubric and sub-rubrics', () => {
+    const rubrics = [
+      rubric('Mind, DELUSIONS, clouds', ['Mag-m.']),
+      rubric('Mind, DELUSIONS, conspiracies, against her father', ['Plb.']),
+      rubric('Mind, DELUSIONS, conspiracies, against him', ['Plb.', 'Ars.']),
+      rubric('Head, pain, throbbing', ['Bell.']),
+    ];
+
+    const tree = buildRubricTree(rubrics, 'tree');
+
+    expect(tree.map((node) => node.name)).toEqual(['Mind', 'Head']);
+    const delusions = tree[0].children[0];
+    expect(delusions.name).toBe('DELUSIONS');
+    expect(delusions.path).toBe('Mind, DELUSIONS');
+    expect(delusions.rubric).toBeUndefined();
+    expect(delusions.children.map((node) => node.name)).toEqual(['clouds', 'conspiracies']);
+    const conspiracies = delusions.children[1];
+    expect(conspiracies.children.map((node) => node.rubric?.rubric)).toEqual([
+      'Mind, DELUSIONS, conspiracies, against her father',
+      'Mind, DELUSIONS, conspiracies, against him',
+    ]);
+  });
+
+  it('buildRubricTree when tree then counts rubrics and distinct remedies per node', () => {
+    const rubrics = [
+      rubric('Mind, DELUSIONS, clouds', ['Mag-m.']),
+      rubric('Mind, DELUSIONS, conspiracies, against her father', ['Plb.']),
+      rubric('Mind, DELUSIONS, conspiracies, against him', ['Plb.', 'Ars.']),
+    ];
+
+    const [mind] = buildRubricTree(rubrics, 'tree');
+
+    expect(mind.rubricCount).toBe(3);
+    expect(mind.remedyCount).toBe(3);
+    expect(mind.children[0].children[1].rubricCount).toBe(2);
+    expect(mind.children[0].children[1].remedyCount).toBe(2);
+  });
+
+  it('buildRubricTree when segments have a single child then merges them into one node', () => {
+    const rubrics = [
+      rubric('Headaches, HEADACHES, general, head pain, morning'),
+      rubric('Headaches, HEADACHES, general, head pain, night'),
+    ];
+
+    const [chapter] = buildRubricTree(rubrics, 'tree');
+
+    expect(chapter.children).toHaveLength(1);
+    expect(chapter.children[0].name).toBe('HEADACHES, general, head pain');
+    expect(chapter.children[0].children.map((node) => node.name)).toEqual(['morning', 'night']);
+  });
+
+  it('buildRubricTree when parent rubric is returned then attaches it to the parent node', () => {
+    const rubrics = [rubric('Mind, DELUSIONS', ['Bell.']), rubric('Mind, DELUSIONS, clouds')];
+
+    const [mind] = buildRubricTree(rubrics, 'tree');
+
+    expect(mind.children[0].rubric?.rubric).toBe('Mind, DELUSIONS');
+    expect(mind.children[0].children[0].rubric?.rubric).toBe('Mind, DELUSIONS, clouds');
+    expect(mind.rubricCount).toBe(2);
+  });
+
+  it('buildRubricTree when chapter then lists rubrics as leaves under each chapter', () => {
+    const rubrics = [
+      rubric('Mind, DELUSIONS, clouds'),
+      rubric('Head, pain, throbbing'),
+      rubric('Mind, anxiety'),
+    ];
+
+    const tree = buildRubricTree(rubrics, 'chapter');
+
+    expect(tree.map((node) => node.name)).toEqual(['Mind', 'Head']);
+    expect(tree[0].children.map((node) => node.name)).toEqual(['DELUSIONS, clouds', 'anxiety']);
+    expect(tree[0].children.every((node) => node.children.length === 0)).toBe(true);
+  });
+
+  it('buildRubricTree when no rubrics then returns empty tree', () => {
+    expect(buildRubricTree([], 'tree')).toEqual([]);
+  });
+});
+
+describe('rubric ancestry', () => {
+  it('getParentRubricPath when nested then drops the last segment', () => {
+    expect(getParentRubricPath('Head, pain, throbbing')).toBe('Head, pain');
+    expect(getParentRubricPath('Head')).toBeUndefined();
+  });
+
+  it('getRubricAncestorPaths when nested then lists paths from chapter to parent', () => {
+    expect(getRubricAncestorPaths('Head, pain ,throbbing')).toEqual(['Head', 'Head, pain']);
+  });
+
+  it('isRubricDescendant when compared then matches whole segments ignoring case', () => {
+    expect(isRubricDescendant('Head, pain, throbbing', 'HEAD, Pain')).toBe(true);
+    expect(isRubricDescendant('Head, pain', 'Head, pain')).toBe(false);
+    expect(isRubricDescendant('Head, painful', 'Head, pain')).toBe(false);
+  });
+
+  it('getRubricPathQuery when path given then keeps unique words of three letters or more', () => {
+    expect(getRubricPathQuery('Mind, DELUSIONS, conspiracies, against him')).toBe(
+      'mind delusions conspiracies against him'
+    );
+    expect(getRubricPathQuery('Head, pain, in, head')).toBe('head pain');
+    expect(getRubricPathQuery('a, of')).toBeUndefined();
+  });
+});
+
+describe('buildRubricSubtree', () => {
+  const rubrics = [
+    rubric('Head, pain', ['Bell.']),
+    rubric('Head, pain, throbbing', ['Bell.', 'Glon.']),
+    rubric('Head, pain, throbbing, morning', ['Nat-m.']),
+    rubric('Head, pain, forehead, extending to, occiput', ['Lac-c.']),
+    rubric('Head, painful', ['Arn.']),
+  ];
+
+  it('buildRubricSubtree when descendants given then nests children below the parent', () => {
+    const children = buildRubricSubtree('Head, pain', rubrics);
+
+    expect(children.map((node) => node.name)).toEqual([
+      'throbbing',
+      'forehead, extending to, occiput',
+    ]);
+    expect(children[0].path).toBe('Head, pain, throbbing');
+    expect(children[0].rubricCount).toBe(2);
+    expect(children[0].remedyCount).toBe(3);
+    expect(children[0].children.map((node) => node.name)).toEqual(['morning']);
+  });
+
+  it('pruneRubricTree when depth one then keeps counts but drops grandchildren', () => {
+    const [throbbing] = pruneRubricTree(buildRubricSubtree('Head, pain', rubrics), 1);
+
+    expect(throbbing.rubricCount).toBe(2);
+    expect(throbbing.children).toEqual([]);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * URI template helpers for templated MCP resources
+ *
+ * Supports the simple `{name}` form of RFC 6570 used by the oorep:// resource
+ * templates, where every variable fills exactly one path segment.
+ */
+
+const VARIABLE_PATTERN = /\{(\w+)\}/g;
+
+/**
+ * Fill a URI template's variables, percent-encoding each value
+ */
+export function expandUriTemplate(
+  template: string,
+  values: Record<string, string | number>
+): string {
+  return template.replace(VARIABLE_PATTERN, (_, name: string) =>
+    encodeURIComponent(String(values[name] ?? ''))
+  );
+}
+
+/**
+ * Match a URI against a template and extract its decoded variables
+ *
+ * @returns The variables by name, or null if the URI does not fit the template
+ */
+export function matchUriTemplate(template: string, uri: string): Record<string, string> | null {
+  const names: string[] = [];
+  const pattern = template
+    .split(/(\{\w+\})/)
+    .map((part) => {
+      const variable = /^\{(\w+)\}$/.exec(part);
+      if (variable) {
+        names.push(variable[1]);
+        return '([^/?#]+)';
+      }
+      return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  const match = new RegExp(`^${pattern}$`).exec(uri);
+  if (!match) {
+    return null;
+  }
+
+  try {
+    return Object.fromEntries(
+      names.map((name, index) => [name, decodeURIComponent(match[index + 1])])
+    );
+  } catch {
+    // Malformed percent-encoding
+    return null;
+  }
+}
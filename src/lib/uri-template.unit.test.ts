@@ -0,0 +1,34 @@
+/**
+ * Unit tests for URI template helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { expandUriTemplate, matchUriTemplate } from './uri-template.js';
+
+const TEMPLATE = 'oorep://repertories/{abbrev}/rubrics/{id}';
+
+describe('expandUriTemplate', () => {
+  it('expandUriTemplate when values given then fills and encodes each variable', () => {
+    expect(expandUriTemplate(TEMPLATE, { abbrev: 'kent de', id: 42 })).toBe(
+      'oorep://repertories/kent%20de/rubrics/42'
+    );
+  });
+});
+
+describe('matchUriTemplate', () => {
+  it('matchUriTemplate when uri fits then returns decoded variables', () => {
+    expect(matchUriTemplate(TEMPLATE, 'oorep://repertories/kent%20de/rubrics/42')).toEqual({
+      abbrev: 'kent de',
+      id: '42',
+    });
+  });
+
+  it('matchUriTemplate when uri has extra segments then returns null', () => {
+    expect(matchUriTemplate(TEMPLATE, 'oorep://repertories/kent/rubrics/42/children')).toBeNull();
+    expect(matchUriTemplate(TEMPLATE, 'oorep://repertories/list')).toBeNull();
+  });
+
+  it('matchUriTemplate when percent-encoding is malformed then returns null', () => {
+    expect(matchUriTemplate(TEMPLATE, 'oorep://repertories/%E0/rubrics/42')).toBeNull();
+  });
+});
@@ -6,6 +6,7 @@
 
 import { PROMPT_NAMES, TOOL_NAMES, type PromptName } from '../sdk/constants.js';
 import { type OOREPPromptDefinition, type OOREPPromptArgument } from '../sdk/prompts.js';
+import { REPERTORY_VOCABULARY } from '../lib/query-translator.js';
 
 export interface AnalyzeSymptomsArgs {
   symptom_description?: string;
@@ -81,11 +82,11 @@ Follow this workflow:
 
 2. **Convert to Repertory Terms**
    Map natural language to repertory vocabulary:
-   - "blocked nose" → "obstruction"
-   - "worse" → "agg"
-   - "better" → "amel"
-   - "sharp pain" → "stitching"
-   - "pounding headache" → "pulsating" or "throbbing"
+${REPERTORY_VOCABULARY.map(
+  ({ natural, repertory }) => `   - "${natural.join('", "')}" → "${repertory.join('" or "')}"`
+).join('\n')}
+
+   ${TOOL_NAMES.SUGGEST_REPERTORY_QUERY} applies this mapping for you and shows each change.
 
 3. **Search Repertory**
    Use ${TOOL_NAMES.SEARCH_REPERTORY} with:
@@ -108,9 +109,10 @@ Follow this workflow:
    Search each significant modality separately.
 
 6. **Present Top Remedies**
-   From \`remedyStats\` in search results, identify remedies that:
-   - Appear in multiple rubrics
-   - Have high cumulative weights
+   Pass the rubric IDs chosen for each symptom to ${TOOL_NAMES.REPERTORIZE_CASE}
+   and use its rankings to identify remedies that:
+   - Appear in multiple rubrics (sum of symptoms, coverage)
+   - Have high cumulative grades (sum of grades)
    Focus on the top 3-5 remedies.
 
 7. **Provide Detailed Information**
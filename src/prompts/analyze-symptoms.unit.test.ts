@@ -167,6 +167,11 @@ describe('buildAnalyzeSymptomsPrompt', () => {
     it('when called then references search_materia_medica tool', () => {
       expect(text).toContain(TOOL_NAMES.SEARCH_MATERIA_MEDICA);
     });
+
+    it('when called then references suggest_repertory_query tool', () => {
+      expect(text).toContain(TOOL_NAMES.SUGGEST_REPERTORY_QUERY);
+      expect(text).toContain('"worse", "worsening" → "agg"');
+    });
   });
 
   describe('practitioner disclaimer', () => {
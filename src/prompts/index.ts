@@ -5,6 +5,7 @@
  */
 
 import { PROMPT_NAMES, type PromptName } from '../sdk/constants.js';
+import type { OOREPConfig } from '../config.js';
 import { logger } from '../utils/logger.js';
 import { NotFoundError } from '../utils/errors.js';
 
@@ -49,8 +50,18 @@ const promptDefinitions: PromptDefinition[] = [
 ];
 
 export class PromptRegistry {
+  private definitions: PromptDefinition[];
+
+  /**
+   * @param config - Server configuration; only the disabled prompts are used
+   */
+  constructor(config: Pick<OOREPConfig, 'prompts'> = {}) {
+    const disabled: string[] = config.prompts?.disabled ?? [];
+    this.definitions = promptDefinitions.filter((d) => !disabled.includes(d.name));
+  }
+
   getDefinitions(): PromptDefinition[] {
-    return promptDefinitions;
+    return this.definitions;
   }
 
   /**
@@ -68,6 +79,10 @@ export class PromptRegistry {
   ): Promise<{ messages: PromptMessage[] }> {
     logger.info('Getting prompt', { name, args });
 
+    if (!this.definitions.some((definition) => definition.name === name)) {
+      throw new NotFoundError(`Unknown prompt: ${name}`, 'prompt', name);
+    }
+
     switch (name as PromptName) {
       case PROMPT_NAMES.ANALYZE_SYMPTOMS: {
         const result = buildAnalyzeSymptomsPrompt({
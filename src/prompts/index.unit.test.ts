@@ -311,4 +311,18 @@ describe('PromptRegistry', () => {
       }
     });
   });
+
+  describe('config file settings', () => {
+    it('PromptRegistry when prompt disabled then hides it and rejects requests', async () => {
+      const registry = new PromptRegistry({ prompts: { disabled: ['remedy-comparison'] } });
+
+      expect(registry.getDefinitions().map((d) => d.name)).toEqual([
+        'analyze-symptoms',
+        'repertorization-workflow',
+      ]);
+      await expect(
+        registry.getPrompt('remedy-comparison', { remedies: 'Acon,Bell' })
+      ).rejects.toThrow('Unknown prompt: remedy-comparison');
+    });
+  });
 });
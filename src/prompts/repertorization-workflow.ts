@@ -6,6 +6,7 @@
 
 import { PROMPT_NAMES, TOOL_NAMES } from '../sdk/constants.js';
 import type { PromptResult, PromptDefinition } from './analyze-symptoms.js';
+import { REPERTORY_VOCABULARY } from '../lib/query-translator.js';
 
 export const repertorizationWorkflowDefinition: PromptDefinition = {
   name: PROMPT_NAMES.REPERTORIZATION_WORKFLOW,
@@ -40,12 +41,12 @@ Use this framework to gather complete symptom information:
 Convert natural language to repertory terms:
 | Say This | Instead Of |
 |----------|------------|
-| obstruction | blocked, stopped up |
-| agg | worse |
-| amel | better |
-| stitching | sharp, stabbing |
-| pulsating | throbbing, pounding |
-| coryza | runny nose |
+${REPERTORY_VOCABULARY.map(
+  ({ natural, repertory }) => `| ${repertory.join(' or ')} | ${natural.join(', ')} |`
+).join('\n')}
+
+${TOOL_NAMES.SUGGEST_REPERTORY_QUERY} applies this mapping, puts the location first and adds
+wildcards; or pass \`autoTranslate: true\` to ${TOOL_NAMES.SEARCH_REPERTORY}.
 
 ## Workflow
 
@@ -83,11 +84,13 @@ Use ${TOOL_NAMES.SEARCH_REPERTORY} with \`includeRemedyStats: true\`:
 3. Add wildcard: \`nose*\`
 4. Try broader terms
 
-Create a running tally:
-"Remedy Name: appears in X rubrics, cumulative weight: Y"
+Note the \`id\` of the best rubric for each symptom, then pass them to
+${TOOL_NAMES.REPERTORIZE_CASE} with an intensity (1-4) per symptom:
+\`{"rubrics": [{"id": 1234, "intensity": 3}, {"query": "thirst* large", "intensity": 2}]}\`
+It returns the remedy × rubric grid with sum-of-grades, sum-of-symptoms and coverage rankings.
 
 **STEP 4: Cross-Reference with Materia Medica**
-For top 3-5 remedies from \`remedyStats\`:
+For top 3-5 remedies from the ${TOOL_NAMES.REPERTORIZE_CASE} rankings:
 - Use ${TOOL_NAMES.SEARCH_MATERIA_MEDICA} with remedy filter:
   \`{"symptom": "headache", "remedy": "Belladonna"}\`
 - Check if TOTALITY of symptoms matches
@@ -162,6 +162,11 @@ describe('buildRepertorizationWorkflowPrompt', () => {
     it('when called then references get_remedy_info tool', () => {
       expect(text).toContain(TOOL_NAMES.GET_REMEDY_INFO);
     });
+
+    it('when called then maps vocabulary and references suggest_repertory_query tool', () => {
+      expect(text).toContain('| agg | worse, worsening |');
+      expect(text).toContain(TOOL_NAMES.SUGGEST_REPERTORY_QUERY);
+    });
   });
 
   describe('guidelines', () => {
@@ -4,14 +4,20 @@
  * Provides access to MCP resources for the OOREP server.
  */
 
+import { join } from 'node:path';
 import { OOREPHttpClient } from '../lib/oorep-client.js';
-import { RESOURCE_URIS, type ResourceUri } from '../sdk/constants.js';
+import { OOREPClient } from '../sdk/client.js';
+import { DEFAULTS, RESOURCE_URIS, ALL_RESOURCE_URIS, type ResourceUri } from '../sdk/constants.js';
+import type { OOREPResourceDefinition } from '../sdk/resources.js';
+import type { IOOREPClient } from '../interfaces/IOOREPClient.js';
+import type { ICache } from '../interfaces/ICache.js';
 import type { OOREPConfig } from '../config.js';
 import { logger } from '../utils/logger.js';
 import { sanitizeError, NotFoundError } from '../utils/errors.js';
 import { generateCacheKey } from '../lib/data-formatter.js';
-import { InMemoryCache } from '../lib/cache.js';
+import { FileSystemCache, InMemoryCache } from '../lib/cache.js';
 import { MapRequestDeduplicator } from '../lib/deduplicator.js';
+import { decodePageCursor, getNextPageCursor } from '../lib/pagination.js';
 
 import {
   remediesListDefinition,
@@ -22,14 +28,84 @@ import {
 import { repertoriesListDefinition, fetchRepertoriesList } from './repertories-list.js';
 import { materiaMedicasListDefinition, fetchMateriaMedicasList } from './materia-medicas-list.js';
 import { searchSyntaxHelpDefinition, getSearchSyntaxHelp } from './search-syntax-help.js';
+import {
+  rubricTemplateDefinition,
+  fetchRubric,
+  parseRubricResourceUri,
+  type ResourceTemplateDefinition,
+} from './rubric.js';
+import {
+  repertoryTemplateDefinition,
+  fetchRepertory,
+  parseRepertoryResourceUri,
+} from './repertory.js';
+import {
+  materiaMedicaTemplateDefinition,
+  fetchMateriaMedica,
+  parseMateriaMedicaResourceUri,
+} from './materia-medica.js';
+import { remedyTemplateDefinition, fetchRemedy, parseRemedyResourceUri } from './remedy.js';
+import {
+  remediesChunkTemplateDefinition,
+  fetchRemediesChunk,
+  getRemediesChunkDefinitions,
+  parseRemediesChunkResourceUri,
+} from './remedies-chunk.js';
 
-export type { ResourceContent, ResourceDefinition };
+export type { ResourceContent, ResourceDefinition, ResourceTemplateDefinition };
 
 // Re-export fetch functions and definitions for use in SDK client
 export { fetchRemediesList, remediesListDefinition } from './remedies-list.js';
 export { fetchRepertoriesList, repertoriesListDefinition } from './repertories-list.js';
 export { fetchMateriaMedicasList, materiaMedicasListDefinition } from './materia-medicas-list.js';
 export { getSearchSyntaxHelp, searchSyntaxHelpDefinition } from './search-syntax-help.js';
+export {
+  fetchRubric,
+  getRubricResourceUri,
+  parseRubricResourceUri,
+  rubricTemplateDefinition,
+} from './rubric.js';
+export {
+  fetchRepertory,
+  getRepertoryResourceUri,
+  parseRepertoryResourceUri,
+  repertoryTemplateDefinition,
+} from './repertory.js';
+export {
+  fetchMateriaMedica,
+  getMateriaMedicaResourceUri,
+  parseMateriaMedicaResourceUri,
+  materiaMedicaTemplateDefinition,
+} from './materia-medica.js';
+export {
+  fetchRemedy,
+  getRemedyResourceUri,
+  parseRemedyResourceUri,
+  remedyTemplateDefinition,
+} from './remedy.js';
+export {
+  REMEDY_LIST_INITIALS,
+  fetchRemediesChunk,
+  getRemediesChunkDefinitions,
+  getRemediesChunkResourceUri,
+  parseRemediesChunkResourceUri,
+  remediesChunkTemplateDefinition,
+} from './remedies-chunk.js';
+
+/** Most resources a resources/list response carries before handing out a cursor */
+export const RESOURCE_LIST_PAGE_SIZE = 20;
+
+/**
+ * Called with the URI of a subscribed resource whose content changed
+ */
+export type ResourceUpdateListener = (uri: string) => void;
+
+interface ResourceSubscription {
+  listeners: Set<ResourceUpdateListener>;
+  /** Content last seen, so a refresh only notifies when something changed */
+  text: string;
+  timer: NodeJS.Timeout;
+}
 
 const resourceDefinitions: ResourceDefinition[] = [
   remediesListDefinition,
@@ -38,13 +114,50 @@ const resourceDefinitions: ResourceDefinition[] = [
   searchSyntaxHelpDefinition,
 ];
 
+const resourceTemplateDefinitions: ResourceTemplateDefinition[] = [
+  rubricTemplateDefinition,
+  repertoryTemplateDefinition,
+  materiaMedicaTemplateDefinition,
+  remedyTemplateDefinition,
+  remediesChunkTemplateDefinition,
+];
+
 export class ResourceRegistry {
   private httpClient: OOREPHttpClient;
-  private cache: InMemoryCache;
+  private cache: ICache;
   private deduplicator: MapRequestDeduplicator;
+  private client: IOOREPClient;
+  private definitions: ResourceDefinition[];
+  private templateDefinitions: ResourceTemplateDefinition[];
+  private subscriptions = new Map<string, ResourceSubscription>();
+  private readonly refreshIntervalMs: number;
 
-  constructor(config: OOREPConfig) {
-    this.cache = new InMemoryCache(config.cacheTtlMs, logger);
+  /**
+   * @param config - Server configuration
+   * @param client - Client for templated resources. Pass the tool registry's client so
+   *   rubrics found by tool calls can be read as resources.
+   */
+  constructor(config: OOREPConfig, client?: IOOREPClient) {
+    const disabled: string[] = config.resources?.disabled ?? [];
+    this.definitions = resourceDefinitions.filter((d) => !disabled.includes(d.uri));
+    this.templateDefinitions = resourceTemplateDefinitions.filter(
+      (d) => !disabled.includes(d.uriTemplate)
+    );
+    const cacheLimits = {
+      maxEntries: config.cacheMaxEntries ?? DEFAULTS.CACHE_MAX_ENTRIES,
+      maxBytes: config.cacheMaxBytes ?? DEFAULTS.CACHE_MAX_BYTES,
+    };
+    // Kept apart from the tool registry's cache so each applies its size limits to its own files
+    this.cache = config.cacheDir
+      ? new FileSystemCache(
+          join(config.cacheDir, 'resources'),
+          config.cacheTtlMs,
+          logger,
+          cacheLimits
+        )
+      : new InMemoryCache(config.cacheTtlMs, logger, cacheLimits);
+    // With caching disabled there is no TTL to follow, so subscriptions poll at the default
+    this.refreshIntervalMs = config.cacheTtlMs || DEFAULTS.CACHE_TTL_MS;
     this.deduplicator = new MapRequestDeduplicator(logger);
     this.httpClient = new OOREPHttpClient(
       {
@@ -56,10 +169,57 @@ export class ResourceRegistry {
       },
       logger
     );
+    this.client =
+      client ??
+      new OOREPClient({
+        maxResults: config.maxResults,
+        remoteUser: config.remoteUser,
+        defaultRepertory: config.defaultRepertory,
+        defaultMateriaMedica: config.defaultMateriaMedica,
+        httpClient: this.httpClient,
+        cache: this.cache,
+        deduplicator: this.deduplicator,
+        logger,
+      });
   }
 
   getDefinitions(): ResourceDefinition[] {
-    return resourceDefinitions;
+    return this.definitions;
+  }
+
+  getTemplateDefinitions(): ResourceTemplateDefinition[] {
+    return this.templateDefinitions;
+  }
+
+  /**
+   * List resources a page at a time
+   *
+   * Fixed resources come first, followed by one resource per remedy list chunk.
+   *
+   * @param cursor - nextCursor from the previous page
+   * @throws {ValidationError} If the cursor is malformed
+   */
+  listResources(cursor?: string): {
+    resources: OOREPResourceDefinition[];
+    nextCursor?: string;
+  } {
+    const resources: OOREPResourceDefinition[] = [
+      ...this.definitions,
+      ...(this.templateDefinitions.includes(remediesChunkTemplateDefinition)
+        ? getRemediesChunkDefinitions()
+        : []),
+    ];
+    const page = cursor === undefined ? 0 : decodePageCursor(cursor);
+    const start = page * RESOURCE_LIST_PAGE_SIZE;
+    const nextCursor = getNextPageCursor(
+      page,
+      Math.ceil(resources.length / RESOURCE_LIST_PAGE_SIZE)
+    );
+
+    return {
+      resources: resources.slice(start, start + RESOURCE_LIST_PAGE_SIZE),
+      ...(nextCursor && { nextCursor }),
+    };
   }
 
   /**
@@ -68,6 +228,7 @@ export class ResourceRegistry {
    * @param uri - The resource URI to retrieve
    * @returns Promise resolving to the resource contents
    * @throws {NotFoundError} If the resource URI is not recognized
+   * @throws {ValidationError} If a templated resource cannot be resolved
    * @throws {NetworkError} If there is a network error fetching the resource
    */
   async getResource(
@@ -82,26 +243,7 @@ export class ResourceRegistry {
         return { contents: [cached] };
       }
 
-      const resource = await this.deduplicator.deduplicate(cacheKey, async () => {
-        switch (uri as ResourceUri) {
-          case RESOURCE_URIS.REMEDIES_LIST:
-            return fetchRemediesList(this.httpClient);
-
-          case RESOURCE_URIS.REPERTORIES_LIST:
-            return fetchRepertoriesList(this.httpClient);
-
-          case RESOURCE_URIS.MATERIA_MEDICAS_LIST:
-            return fetchMateriaMedicasList(this.httpClient);
-
-          case RESOURCE_URIS.SEARCH_SYNTAX_HELP:
-            return getSearchSyntaxHelp();
-
-          default: {
-            const _exhaustive: never = uri as never;
-            throw new NotFoundError(`Unknown resource URI: ${_exhaustive}`, 'resource', uri);
-          }
-        }
-      });
+      const resource = await this.deduplicator.deduplicate(cacheKey, () => this.readResource(uri));
 
       await this.cache.set(cacheKey, resource);
 
@@ -120,10 +262,158 @@ export class ResourceRegistry {
     }
   }
 
+  /**
+   * Watch a resource for changes
+   *
+   * While a resource has subscribers it is re-read every cache TTL, refreshing
+   * the cached copy, and listeners are called when its content has changed.
+   *
+   * @throws {NotFoundError} If the resource URI is not recognized
+   */
+  async subscribe(uri: string, listener: ResourceUpdateListener): Promise<void> {
+    if (this.addListener(uri, listener)) {
+      return;
+    }
+
+    // Reading the resource checks the URI and records the content to compare against
+    const { contents } = await this.getResource(uri);
+
+    // Another subscriber may have started watching while the resource was read
+    if (this.addListener(uri, listener)) {
+      return;
+    }
+
+    // The timer serves every subscriber, so its records go to none of their sessions
+    const timer = setInterval(
+      () => logger.withoutTarget(() => void this.refreshSubscription(uri)),
+      this.refreshIntervalMs
+    );
+    timer.unref();
+    this.subscriptions.set(uri, { listeners: new Set([listener]), text: contents[0].text, timer });
+    logger.debug('Resource subscribed', { uri });
+  }
+
+  /**
+   * Stop calling a listener for a resource, and stop refreshing it once nobody is subscribed
+   */
+  unsubscribe(uri: string, listener: ResourceUpdateListener): void {
+    const subscription = this.subscriptions.get(uri);
+    if (!subscription) {
+      return;
+    }
+
+    subscription.listeners.delete(listener);
+    if (subscription.listeners.size === 0) {
+      clearInterval(subscription.timer);
+      this.subscriptions.delete(uri);
+      logger.debug('Resource unsubscribed', { uri });
+    }
+  }
+
+  /**
+   * Add a listener to an existing subscription
+   *
+   * @returns false if nobody is subscribed to the resource yet
+   */
+  private addListener(uri: string, listener: ResourceUpdateListener): boolean {
+    const subscription = this.subscriptions.get(uri);
+    subscription?.listeners.add(listener);
+    return subscription !== undefined;
+  }
+
+  private async refreshSubscription(uri: string): Promise<void> {
+    try {
+      const resource = await this.readResource(uri);
+      await this.cache.set(generateCacheKey('resource', { uri }), resource);
+
+      const subscription = this.subscriptions.get(uri);
+      if (!subscription || resource.text === subscription.text) {
+        return;
+      }
+      subscription.text = resource.text;
+      logger.info('Subscribed resource changed', { uri });
+      for (const listener of subscription.listeners) {
+        listener(uri);
+      }
+    } catch (error) {
+      logger.warn('Failed to refresh subscribed resource', { uri, error });
+    }
+  }
+
+  private readResource(uri: string): Promise<ResourceContent> {
+    return (ALL_RESOURCE_URIS as string[]).includes(uri)
+      ? this.readFixedResource(uri as ResourceUri)
+      : this.readTemplatedResource(uri);
+  }
+
+  private async readFixedResource(uri: ResourceUri): Promise<ResourceContent> {
+    if (!this.definitions.some((definition) => definition.uri === uri)) {
+      throw new NotFoundError(`Unknown resource URI: ${uri}`, 'resource', uri);
+    }
+
+    switch (uri) {
+      case RESOURCE_URIS.REMEDIES_LIST:
+        return fetchRemediesList(this.httpClient);
+
+      case RESOURCE_URIS.REPERTORIES_LIST:
+        return fetchRepertoriesList(this.httpClient);
+
+      case RESOURCE_URIS.MATERIA_MEDICAS_LIST:
+        return fetchMateriaMedicasList(this.httpClient);
+
+      case RESOURCE_URIS.SEARCH_SYNTAX_HELP:
+        return getSearchSyntaxHelp();
+
+      default: {
+        const _exhaustive: never = uri;
+        throw new NotFoundError(`Unknown resource URI: ${_exhaustive}`, 'resource', uri);
+      }
+    }
+  }
+
+  /**
+   * Read a URI that is not a fixed resource through the first enabled template it fits
+   *
+   * Fixed URIs such as oorep://repertories/list are checked first, so they never
+   * reach the item templates.
+   */
+  private async readTemplatedResource(uri: string): Promise<ResourceContent> {
+    const rubric = parseRubricResourceUri(uri);
+    if (rubric && this.templateDefinitions.includes(rubricTemplateDefinition)) {
+      return fetchRubric(this.client, rubric.repertory, rubric.id);
+    }
+
+    const repertory = parseRepertoryResourceUri(uri);
+    if (repertory && this.templateDefinitions.includes(repertoryTemplateDefinition)) {
+      return fetchRepertory(this.httpClient, repertory.repertory);
+    }
+
+    const materiaMedica = parseMateriaMedicaResourceUri(uri);
+    if (materiaMedica && this.templateDefinitions.includes(materiaMedicaTemplateDefinition)) {
+      return fetchMateriaMedica(this.httpClient, materiaMedica.materiamedica);
+    }
+
+    const remedy = parseRemedyResourceUri(uri);
+    if (remedy && this.templateDefinitions.includes(remedyTemplateDefinition)) {
+      return fetchRemedy(this.httpClient, remedy.remedy);
+    }
+
+    const chunk = parseRemediesChunkResourceUri(uri);
+    if (chunk && this.templateDefinitions.includes(remediesChunkTemplateDefinition)) {
+      return fetchRemediesChunk(this.httpClient, chunk.initial);
+    }
+
+    throw new NotFoundError(`Unknown resource URI: ${uri}`, 'resource', uri);
+  }
+
   /**
    * Clean up resources - clears cache and releases connections
    */
   async destroy(): Promise<void> {
+    for (const subscription of this.subscriptions.values()) {
+      clearInterval(subscription.timer);
+    }
+    this.subscriptions.clear();
     await this.cache.destroy?.();
   }
 }
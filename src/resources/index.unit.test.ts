@@ -2,17 +2,29 @@
  * Unit tests for resource registry
  */
 
-import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { ResourceRegistry } from './index.js';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ResourceRegistry, RESOURCE_LIST_PAGE_SIZE } from './index.js';
 import type { OOREPConfig } from '../config.js';
+import { createMockSDKClient } from '../tools/test-helpers.js';
+import { ValidationError } from '../utils/errors.js';
 
 // Use vi.hoisted to create mock functions that can be accessed inside vi.mock
-const { mockGetAvailableRemedies, mockGetAvailableRepertories, mockGetAvailableMateriaMedicas } =
-  vi.hoisted(() => ({
-    mockGetAvailableRemedies: vi.fn(),
-    mockGetAvailableRepertories: vi.fn(),
-    mockGetAvailableMateriaMedicas: vi.fn(),
-  }));
+const {
+  mockGetAvailableRemedies,
+  mockGetAvailableRepertories,
+  mockGetAvailableMateriaMedicas,
+  mockGetRepertoriesWithRemedies,
+  mockGetMateriaMedicasWithRemedies,
+} = vi.hoisted(() => ({
+  mockGetAvailableRemedies: vi.fn(),
+  mockGetAvailableRepertories: vi.fn(),
+  mockGetAvailableMateriaMedicas: vi.fn(),
+  mockGetRepertoriesWithRemedies: vi.fn(),
+  mockGetMateriaMedicasWithRemedies: vi.fn(),
+}));
 
 // Mock the OOREPHttpClient from lib
 vi.mock('../lib/oorep-client.js', () => {
@@ -21,6 +33,8 @@ vi.mock('../lib/oorep-client.js', () => {
       getAvailableRemedies = mockGetAvailableRemedies;
       getAvailableRepertories = mockGetAvailableRepertories;
       getAvailableMateriaMedicas = mockGetAvailableMateriaMedicas;
+      getRepertoriesWithRemedies = mockGetRepertoriesWithRemedies;
+      getMateriaMedicasWithRemedies = mockGetMateriaMedicasWithRemedies;
     },
   };
 });
@@ -43,6 +57,12 @@ describe('ResourceRegistry', () => {
     mockGetAvailableMateriaMedicas.mockResolvedValue([
       { abbreviation: 'boericke', title: 'Boericke MM' },
     ]);
+    mockGetRepertoriesWithRemedies.mockResolvedValue([
+      { metadata: { abbreviation: 'kent', title: 'Kent Repertory' }, remedyIds: [1] },
+    ]);
+    mockGetMateriaMedicasWithRemedies.mockResolvedValue([
+      { metadata: { abbreviation: 'boericke', title: 'Boericke MM' }, remedyIds: [1] },
+    ]);
 
     mockConfig = {
       baseUrl: 'https://test.oorep.com',
@@ -100,6 +120,242 @@ describe('ResourceRegistry', () => {
     });
   });
 
+  describe('getTemplateDefinitions', () => {
+    it('getTemplateDefinitions when called then includes the rubric and item templates', () => {
+      const templates = registry.getTemplateDefinitions();
+
+      expect(templates.map((t) => t.uriTemplate)).toEqual([
+        'oorep://repertories/{abbrev}/rubrics/{id}',
+        'oorep://repertories/{abbrev}',
+        'oorep://materia-medicas/{abbrev}',
+        'oorep://remedies/{abbrev}',
+        'oorep://remedies/list/{initial}',
+      ]);
+      expect(templates[0].mimeType).toBe('application/json');
+    });
+  });
+
+  describe('getResource - rubric template', () => {
+    it('getResource when rubric uri then returns rubric details from the client', async () => {
+      const client = createMockSDKClient();
+      const details = {
+        rubric: { id: 11, rubric: 'Head, pain, throbbing', repertory: 'kent', remedies: [] },
+        uri: 'oorep://repertories/kent/rubrics/11',
+        ancestors: ['Head', 'Head, pain'],
+      };
+      client.getRubric.mockResolvedValue(details);
+      const templated = new ResourceRegistry(mockConfig, client);
+
+      const result = await templated.getResource('oorep://repertories/kent/rubrics/11');
+
+      expect(client.getRubric).toHaveBeenCalledWith({ id: 11, repertory: 'kent' });
+      expect(result.contents[0].uri).toBe('oorep://repertories/kent/rubrics/11');
+      expect(JSON.parse(result.contents[0].text)).toEqual(details);
+    });
+
+    it('getResource when rubric has not been seen then throws validation error', async () => {
+      const client = createMockSDKClient();
+      client.getRubric.mockRejectedValue(new ValidationError('Rubric 99 is not known in kent'));
+      const templated = new ResourceRegistry(mockConfig, client);
+
+      await expect(templated.getResource('oorep://repertories/kent/rubrics/99')).rejects.toThrow(
+        ValidationError
+      );
+    });
+
+    it('getResource when rubric id is not numeric then throws not found', async () => {
+      await expect(registry.getResource('oorep://repertories/kent/rubrics/abc')).rejects.toThrow(
+        'resource not found'
+      );
+    });
+  });
+
+  describe('listResources', () => {
+    it('listResources when no cursor then returns the first page and a cursor', () => {
+      const { resources, nextCursor } = registry.listResources();
+
+      expect(resources).toHaveLength(RESOURCE_LIST_PAGE_SIZE);
+      expect(resources.slice(0, 4).map((r) => r.uri)).toEqual([
+        'oorep://remedies/list',
+        'oorep://repertories/list',
+        'oorep://materia-medicas/list',
+        'oorep://help/search-syntax',
+      ]);
+      expect(resources[4].uri).toBe('oorep://remedies/list/a');
+      expect(nextCursor).toEqual(expect.any(String));
+    });
+
+    it('listResources when following cursors then lists every resource once', () => {
+      const first = registry.listResources();
+      const second = registry.listResources(first.nextCursor);
+
+      const uris = [...first.resources, ...second.resources].map((r) => r.uri);
+      expect(uris).toHaveLength(4 + 27);
+      expect(new Set(uris).size).toBe(uris.length);
+      expect(uris.at(-1)).toBe('oorep://remedies/list/other');
+      expect(second.nextCursor).toBeUndefined();
+    });
+
+    it('listResources when cursor is malformed then throws validation error', () => {
+      expect(() => registry.listResources('not-a-cursor')).toThrow(ValidationError);
+    });
+
+    it('listResources when chunk template disabled then lists only fixed resources', () => {
+      const configured = new ResourceRegistry({
+        ...mockConfig,
+        resources: { disabled: ['oorep://remedies/list/{initial}'] },
+      });
+
+      expect(configured.listResources()).toEqual({ resources: configured.getDefinitions() });
+    });
+  });
+
+  describe('getResource - remedy list chunks', () => {
+    it('getResource when chunk uri then returns remedies with that initial', async () => {
+      mockGetAvailableRemedies.mockResolvedValue([
+        { id: 1, nameAbbrev: 'Acon.', nameLong: 'Aconitum napellus' },
+        { id: 2, nameAbbrev: 'Bell.', nameLong: 'Belladonna' },
+      ]);
+
+      const result = await registry.getResource('oorep://remedies/list/b');
+
+      expect(result.contents[0].uri).toBe('oorep://remedies/list/b');
+      expect(JSON.parse(result.contents[0].text)).toEqual([
+        { id: 2, nameAbbrev: 'Bell.', nameLong: 'Belladonna' },
+      ]);
+    });
+  });
+
+  describe('subscribe', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(async () => {
+      await registry.destroy();
+      vi.useRealTimers();
+    });
+
+    it('subscribe when list changes after the TTL then notifies listeners', async () => {
+      const listener = vi.fn();
+      await registry.subscribe('oorep://remedies/list', listener);
+      mockGetAvailableRemedies.mockResolvedValue([
+        { id: 1, nameAbbrev: 'Acon.', nameLong: 'Aconitum napellus', namealt: [] },
+        { id: 2, nameAbbrev: 'Bell.', nameLong: 'Belladonna', namealt: [] },
+      ]);
+
+      await vi.advanceTimersByTimeAsync(mockConfig.cacheTtlMs);
+
+      expect(listener).toHaveBeenCalledWith('oorep://remedies/list');
+      const result = await registry.getResource('oorep://remedies/list');
+      expect(JSON.parse(result.contents[0].text)).toHaveLength(2);
+    });
+
+    it('subscribe when refreshed content is unchanged then does not notify', async () => {
+      const listener = vi.fn();
+      await registry.subscribe('oorep://remedies/list', listener);
+
+      await vi.advanceTimersByTimeAsync(mockConfig.cacheTtlMs * 2);
+
+      expect(mockGetAvailableRemedies).toHaveBeenCalledTimes(3);
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('subscribe when several listeners then refreshes once and notifies each', async () => {
+      const first = vi.fn();
+      const second = vi.fn();
+      await registry.subscribe('oorep://repertories/list', first);
+      await registry.subscribe('oorep://repertories/list', second);
+      mockGetAvailableRepertories.mockResolvedValue([]);
+
+      await vi.advanceTimersByTimeAsync(mockConfig.cacheTtlMs);
+
+      expect(mockGetAvailableRepertories).toHaveBeenCalledTimes(2);
+      expect(first).toHaveBeenCalledOnce();
+      expect(second).toHaveBeenCalledOnce();
+    });
+
+    it('unsubscribe when last listener removed then stops refreshing', async () => {
+      const listener = vi.fn();
+      await registry.subscribe('oorep://remedies/list', listener);
+
+      registry.unsubscribe('oorep://remedies/list', listener);
+      await vi.advanceTimersByTimeAsync(mockConfig.cacheTtlMs * 2);
+
+      expect(mockGetAvailableRemedies).toHaveBeenCalledOnce();
+    });
+
+    it('subscribe when refresh fails then keeps the subscription', async () => {
+      const listener = vi.fn();
+      await registry.subscribe('oorep://remedies/list', listener);
+      mockGetAvailableRemedies.mockRejectedValueOnce(new Error('Network error'));
+      mockGetAvailableRemedies.mockResolvedValueOnce([]);
+
+      await vi.advanceTimersByTimeAsync(mockConfig.cacheTtlMs * 2);
+
+      expect(listener).toHaveBeenCalledOnce();
+    });
+
+    it('subscribe when uri is unknown then throws not found', async () => {
+      await expect(registry.subscribe('oorep://unknown', vi.fn())).rejects.toThrow(
+        'resource not found'
+      );
+    });
+  });
+
+  describe('getResource - item templates', () => {
+    it('getResource when repertory uri then returns its metadata', async () => {
+      const result = await registry.getResource('oorep://repertories/kent');
+
+      expect(result.contents[0].uri).toBe('oorep://repertories/kent');
+      expect(JSON.parse(result.contents[0].text)).toMatchObject({
+        abbreviation: 'kent',
+        remedyCount: 1,
+      });
+    });
+
+    it('getResource when materia medica uri then returns its metadata', async () => {
+      const result = await registry.getResource('oorep://materia-medicas/boericke');
+
+      expect(JSON.parse(result.contents[0].text)).toMatchObject({ abbreviation: 'boericke' });
+    });
+
+    it('getResource when remedy uri then returns the books covering it', async () => {
+      const result = await registry.getResource('oorep://remedies/Acon.');
+
+      expect(JSON.parse(result.contents[0].text)).toMatchObject({
+        nameAbbrev: 'Acon.',
+        repertories: ['kent'],
+        materiaMedicas: ['boericke'],
+      });
+    });
+
+    it('getResource when list uri then returns the list rather than an item', async () => {
+      const result = await registry.getResource('oorep://repertories/list');
+
+      expect(result.contents[0].uri).toBe('oorep://repertories/list');
+      expect(mockGetRepertoriesWithRemedies).not.toHaveBeenCalled();
+    });
+
+    it('getResource when list resource disabled then does not read it as an item', async () => {
+      const configured = new ResourceRegistry({
+        ...mockConfig,
+        resources: { disabled: ['oorep://repertories/list'] },
+      });
+
+      await expect(configured.getResource('oorep://repertories/list')).rejects.toThrow(
+        'resource not found: oorep://repertories/list'
+      );
+      expect(mockGetRepertoriesWithRemedies).not.toHaveBeenCalled();
+    });
+
+    it('getResource when item is unknown then throws not found', async () => {
+      await expect(registry.getResource('oorep://remedies/Sulph.')).rejects.toThrow(
+        'resource not found'
+      );
+    });
+  });
+
   describe('getResource - remedies list', () => {
     it('getResource when oorep://remedies/list then returns remedies', async () => {
       const mockRemedies = [
@@ -239,4 +495,52 @@ describe('ResourceRegistry', () => {
       expect(text).toContain('  ');
     });
   });
+
+  describe('persistent cache', () => {
+    it('ResourceRegistry when cacheDir set then caches under its own subdirectory', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'oorep-resources-'));
+      const persistent = new ResourceRegistry({ ...mockConfig, cacheDir: dir });
+
+      try {
+        await persistent.getResource('oorep://remedies/list');
+
+        expect(await readdir(dir)).toEqual(['resources']);
+        expect(await readdir(join(dir, 'resources', 'v1'))).toHaveLength(1);
+      } finally {
+        await persistent.destroy();
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('config file settings', () => {
+    it('ResourceRegistry when resource disabled then hides it and rejects reads', async () => {
+      const configured = new ResourceRegistry({
+        ...mockConfig,
+        resources: { disabled: ['oorep://remedies/list'] },
+      });
+
+      expect(configured.getDefinitions().map((d) => d.uri)).not.toContain('oorep://remedies/list');
+      await expect(configured.getResource('oorep://remedies/list')).rejects.toThrow(
+        'resource not found: oorep://remedies/list'
+      );
+      expect(mockGetAvailableRemedies).not.toHaveBeenCalled();
+    });
+
+    it('ResourceRegistry when rubric template disabled then hides it and rejects reads', async () => {
+      const client = createMockSDKClient();
+      const configured = new ResourceRegistry(
+        { ...mockConfig, resources: { disabled: ['oorep://repertories/{abbrev}/rubrics/{id}'] } },
+        client
+      );
+
+      expect(configured.getTemplateDefinitions().map((t) => t.uriTemplate)).not.toContain(
+        'oorep://repertories/{abbrev}/rubrics/{id}'
+      );
+      await expect(configured.getResource('oorep://repertories/kent/rubrics/1')).rejects.toThrow(
+        'resource not found'
+      );
+      expect(client.getRubric).not.toHaveBeenCalled();
+    });
+  });
 });
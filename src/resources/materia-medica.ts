@@ -0,0 +1,65 @@
+/**
+ * Resource template: oorep://materia-medicas/{abbrev}
+ *
+ * Provides a single materia medica's metadata with the number of remedies it covers.
+ */
+
+import { RESOURCE_URI_TEMPLATES, MIME_TYPES } from '../sdk/constants.js';
+import type { OOREPHttpClient } from '../lib/oorep-client.js';
+import { expandUriTemplate, matchUriTemplate } from '../lib/uri-template.js';
+import { NotFoundError } from '../utils/errors.js';
+import type { ResourceContent } from './remedies-list.js';
+import type { ResourceTemplateDefinition } from './rubric.js';
+
+export const materiaMedicaTemplateDefinition: ResourceTemplateDefinition = {
+  uriTemplate: RESOURCE_URI_TEMPLATES.MATERIA_MEDICA,
+  name: 'Materia Medica',
+  description:
+    'A materia medica by abbreviation, with its metadata and the number of remedies it covers',
+  mimeType: MIME_TYPES.JSON,
+};
+
+/**
+ * Build the resource URI of a materia medica
+ */
+export function getMateriaMedicaResourceUri(materiamedica: string): string {
+  return expandUriTemplate(RESOURCE_URI_TEMPLATES.MATERIA_MEDICA, { abbrev: materiamedica });
+}
+
+/**
+ * Extract the materia medica abbreviation from a materia medica resource URI
+ *
+ * @returns null if the URI is not a materia medica URI
+ */
+export function parseMateriaMedicaResourceUri(uri: string): { materiamedica: string } | null {
+  const variables = matchUriTemplate(RESOURCE_URI_TEMPLATES.MATERIA_MEDICA, uri);
+  return variables ? { materiamedica: variables.abbrev } : null;
+}
+
+/**
+ * @throws {NotFoundError} If no materia medica has the abbreviation
+ */
+export async function fetchMateriaMedica(
+  client: OOREPHttpClient,
+  materiamedica: string
+): Promise<ResourceContent> {
+  const uri = getMateriaMedicaResourceUri(materiamedica);
+  const abbrev = materiamedica.toLowerCase();
+  const match = (await client.getMateriaMedicasWithRemedies()).find(
+    ({ metadata }) => metadata.abbreviation.toLowerCase() === abbrev
+  );
+  if (!match) {
+    throw new NotFoundError(`Materia medica "${materiamedica}" not found`, 'resource', uri);
+  }
+
+  const { metadata, remedyIds } = match;
+  const details = {
+    ...metadata,
+    ...(remedyIds.length > 0 && { remedyCount: remedyIds.length }),
+  };
+  return {
+    uri: getMateriaMedicaResourceUri(metadata.abbreviation),
+    mimeType: MIME_TYPES.JSON,
+    text: JSON.stringify(details, null, 2),
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * Unit tests for materia medica resource template
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  materiaMedicaTemplateDefinition,
+  getMateriaMedicaResourceUri,
+  parseMateriaMedicaResourceUri,
+  fetchMateriaMedica,
+} from './materia-medica.js';
+import type { OOREPHttpClient } from '../lib/oorep-client.js';
+import { NotFoundError } from '../utils/errors.js';
+
+function createHttpClient(): OOREPHttpClient {
+  return {
+    getMateriaMedicasWithRemedies: vi.fn().mockResolvedValue([
+      {
+        metadata: { abbreviation: 'boericke', title: 'Boericke', author: 'William Boericke' },
+        remedyIds: [1, 2],
+      },
+    ]),
+  } as unknown as OOREPHttpClient;
+}
+
+describe('materiaMedicaTemplateDefinition', () => {
+  it('materiaMedicaTemplateDefinition when accessed then has uri template and JSON mime type', () => {
+    expect(materiaMedicaTemplateDefinition.uriTemplate).toBe('oorep://materia-medicas/{abbrev}');
+    expect(materiaMedicaTemplateDefinition.mimeType).toBe('application/json');
+  });
+});
+
+describe('materia medica resource uris', () => {
+  it('getMateriaMedicaResourceUri when called then round-trips through parse', () => {
+    const uri = getMateriaMedicaResourceUri('boericke');
+
+    expect(uri).toBe('oorep://materia-medicas/boericke');
+    expect(parseMateriaMedicaResourceUri(uri)).toEqual({ materiamedica: 'boericke' });
+  });
+
+  it('parseMateriaMedicaResourceUri when uri is another resource then returns null', () => {
+    expect(parseMateriaMedicaResourceUri('oorep://repertories/kent')).toBeNull();
+  });
+});
+
+describe('fetchMateriaMedica', () => {
+  it('fetchMateriaMedica when abbreviation matches then returns metadata with remedy count', async () => {
+    const result = await fetchMateriaMedica(createHttpClient(), 'Boericke');
+
+    expect(result.uri).toBe('oorep://materia-medicas/boericke');
+    expect(JSON.parse(result.text)).toEqual({
+      abbreviation: 'boericke',
+      title: 'Boericke',
+      author: 'William Boericke',
+      remedyCount: 2,
+    });
+  });
+
+  it('fetchMateriaMedica when abbreviation is unknown then throws NotFoundError', async () => {
+    await expect(fetchMateriaMedica(createHttpClient(), 'hering')).rejects.toThrow(NotFoundError);
+  });
+});
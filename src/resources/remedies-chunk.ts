@@ -0,0 +1,87 @@
+/**
+ * Resource template: oorep://remedies/list/{initial}
+ *
+ * Provides the remedy list one initial letter at a time, so clients can read
+ * the catalogue in pieces that fit a context window.
+ */
+
+import { RESOURCE_URI_TEMPLATES, MIME_TYPES } from '../sdk/constants.js';
+import type { OOREPResourceDefinition } from '../sdk/resources.js';
+import type { OOREPHttpClient } from '../lib/oorep-client.js';
+import { expandUriTemplate, matchUriTemplate } from '../lib/uri-template.js';
+import type { ResourceContent } from './remedies-list.js';
+import type { ResourceTemplateDefinition } from './rubric.js';
+
+/** Chunk for remedies whose abbreviation does not start with a letter */
+const OTHER_INITIAL = 'other';
+
+/** Every chunk of the remedy list: one per letter, then the rest */
+export const REMEDY_LIST_INITIALS: readonly string[] = [
+  ...'abcdefghijklmnopqrstuvwxyz',
+  OTHER_INITIAL,
+];
+
+export const remediesChunkTemplateDefinition: ResourceTemplateDefinition = {
+  uriTemplate: RESOURCE_URI_TEMPLATES.REMEDIES_LIST_CHUNK,
+  name: 'Remedies by Initial',
+  description:
+    'Remedies whose abbreviation starts with a letter (a-z), or "other" for the rest. ' +
+    'Smaller than oorep://remedies/list.',
+  mimeType: MIME_TYPES.JSON,
+};
+
+/**
+ * Build the resource URI of a remedy list chunk
+ */
+export function getRemediesChunkResourceUri(initial: string): string {
+  return expandUriTemplate(RESOURCE_URI_TEMPLATES.REMEDIES_LIST_CHUNK, { initial });
+}
+
+/**
+ * Extract the initial from a remedy list chunk URI
+ *
+ * @returns null if the URI is not a chunk URI or names no chunk
+ */
+export function parseRemediesChunkResourceUri(uri: string): { initial: string } | null {
+  const variables = matchUriTemplate(RESOURCE_URI_TEMPLATES.REMEDIES_LIST_CHUNK, uri);
+  const initial = variables?.initial.toLowerCase();
+  return initial && REMEDY_LIST_INITIALS.includes(initial) ? { initial } : null;
+}
+
+/**
+ * One resource per chunk, for resources/list
+ */
+export function getRemediesChunkDefinitions(): OOREPResourceDefinition[] {
+  return REMEDY_LIST_INITIALS.map((initial) => {
+    const isOther = initial === OTHER_INITIAL;
+    return {
+      uri: getRemediesChunkResourceUri(initial),
+      name: `Remedies: ${isOther ? 'Other' : initial.toUpperCase()}`,
+      description: isOther
+        ? 'Remedies whose abbreviation does not start with a letter'
+        : `Remedies whose abbreviation starts with ${initial.toUpperCase()}`,
+      mimeType: MIME_TYPES.JSON,
+    };
+  });
+}
+
+function getInitial(nameAbbrev: string): string {
+  const first = nameAbbrev.normalize('NFD').replace(/\p{M}/gu, '').charAt(0).toLowerCase();
+  return /^[a-z]$/.test(first) ? first : OTHER_INITIAL;
+}
+
+export async function fetchRemediesChunk(
+  client: OOREPHttpClient,
+  initial: string
+): Promise<ResourceContent> {
+  const remedies = await client.getAvailableRemedies();
+  return {
+    uri: getRemediesChunkResourceUri(initial),
+    mimeType: MIME_TYPES.JSON,
+    text: JSON.stringify(
+      remedies.filter((remedy) => getInitial(remedy.nameAbbrev) === initial),
+      null,
+      2
+    ),
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * Unit tests for remedy list chunk resource template
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  REMEDY_LIST_INITIALS,
+  remediesChunkTemplateDefinition,
+  getRemediesChunkDefinitions,
+  getRemediesChunkResourceUri,
+  parseRemediesChunkResourceUri,
+  fetchRemediesChunk,
+} from './remedies-chunk.js';
+import type { OOREPHttpClient } from '../lib/oorep-client.js';
+
+function createHttpClient(): OOREPHttpClient {
+  return {
+    getAvailableRemedies: vi.fn().mockResolvedValue([
+      { id: 1, nameAbbrev: 'Acon.', nameLong: 'Aconitum napellus' },
+      { id: 2, nameAbbrev: 'Bell.', nameLong: 'Belladonna' },
+      { id: 3, nameAbbrev: 'Ant-t.', nameLong: 'Antimonium tartaricum' },
+      { id: 4, nameAbbrev: 'Ëxample.', nameLong: 'Accented' },
+      { id: 5, nameAbbrev: '3x.', nameLong: 'Numbered' },
+    ]),
+  } as unknown as OOREPHttpClient;
+}
+
+describe('remediesChunkTemplateDefinition', () => {
+  it('remediesChunkTemplateDefinition when accessed then has uri template and JSON mime type', () => {
+    expect(remediesChunkTemplateDefinition.uriTemplate).toBe('oorep://remedies/list/{initial}');
+    expect(remediesChunkTemplateDefinition.mimeType).toBe('application/json');
+  });
+});
+
+describe('getRemediesChunkDefinitions', () => {
+  it('getRemediesChunkDefinitions when called then lists one resource per letter and other', () => {
+    const definitions = getRemediesChunkDefinitions();
+
+    expect(definitions).toHaveLength(27);
+    expect(definitions[0]).toMatchObject({
+      uri: 'oorep://remedies/list/a',
+      name: 'Remedies: A',
+      mimeType: 'application/json',
+    });
+    expect(definitions[26].uri).toBe('oorep://remedies/list/other');
+  });
+});
+
+describe('remedy list chunk uris', () => {
+  it('parseRemediesChunkResourceUri when initial is known then returns it in lower case', () => {
+    expect(parseRemediesChunkResourceUri(getRemediesChunkResourceUri('b'))).toEqual({
+      initial: 'b',
+    });
+    expect(parseRemediesChunkResourceUri('oorep://remedies/list/B')).toEqual({ initial: 'b' });
+    expect(REMEDY_LIST_INITIALS).toContain('other');
+  });
+
+  it('parseRemediesChunkResourceUri when initial is unknown then returns null', () => {
+    expect(parseRemediesChunkResourceUri('oorep://remedies/list/ab')).toBeNull();
+    expect(parseRemediesChunkResourceUri('oorep://remedies/list')).toBeNull();
+  });
+});
+
+describe('fetchRemediesChunk', () => {
+  it('fetchRemediesChunk when initial is a letter then returns remedies starting with it', async () => {
+    const result = await fetchRemediesChunk(createHttpClient(), 'a');
+
+    expect(result.uri).toBe('oorep://remedies/list/a');
+    expect(result.mimeType).toBe('application/json');
+    expect(JSON.parse(result.text).map((r: { id: number }) => r.id)).toEqual([1, 3]);
+  });
+
+  it('fetchRemediesChunk when abbreviation is accented then files it under the base letter', async () => {
+    const result = await fetchRemediesChunk(createHttpClient(), 'e');
+
+    expect(JSON.parse(result.text).map((r: { id: number }) => r.id)).toEqual([4]);
+  });
+
+  it('fetchRemediesChunk when initial is other then returns remedies not starting with a letter', async () => {
+    const result = await fetchRemediesChunk(createHttpClient(), 'other');
+
+    expect(JSON.parse(result.text).map((r: { id: number }) => r.id)).toEqual([5]);
+  });
+});
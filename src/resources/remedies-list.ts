@@ -9,7 +9,8 @@ import { type OOREPResourceDefinition } from '../sdk/resources.js';
 import type { OOREPHttpClient } from '../lib/oorep-client.js';
 
 export interface ResourceContent {
-  uri: ResourceUri;
+  // A fixed resource URI, or a URI expanded from a resource template
+  uri: string;
   mimeType: string;
   text: string;
 }
@@ -0,0 +1,86 @@
+/**
+ * Resource template: oorep://remedies/{abbrev}
+ *
+ * Provides a single remedy with its alternate names and the repertories and
+ * materia medicas that cover it.
+ */
+
+import { RESOURCE_URI_TEMPLATES, MIME_TYPES } from '../sdk/constants.js';
+import type { OOREPHttpClient } from '../lib/oorep-client.js';
+import { expandUriTemplate, matchUriTemplate } from '../lib/uri-template.js';
+import { NotFoundError } from '../utils/errors.js';
+import type { ResourceContent } from './remedies-list.js';
+import type { ResourceTemplateDefinition } from './rubric.js';
+
+export const remedyTemplateDefinition: ResourceTemplateDefinition = {
+  uriTemplate: RESOURCE_URI_TEMPLATES.REMEDY,
+  name: 'Remedy',
+  description:
+    'A remedy by abbreviation (e.g. "Acon."), with its full and alternate names and the ' +
+    'repertories and materia medicas that cover it',
+  mimeType: MIME_TYPES.JSON,
+};
+
+/**
+ * Build the resource URI of a remedy
+ */
+export function getRemedyResourceUri(remedy: string): string {
+  return expandUriTemplate(RESOURCE_URI_TEMPLATES.REMEDY, { abbrev: remedy });
+}
+
+/**
+ * Extract the remedy abbreviation from a remedy resource URI
+ *
+ * @returns null if the URI is not a remedy URI
+ */
+export function parseRemedyResourceUri(uri: string): { remedy: string } | null {
+  const variables = matchUriTemplate(RESOURCE_URI_TEMPLATES.REMEDY, uri);
+  return variables ? { remedy: variables.abbrev } : null;
+}
+
+/** Abbreviations match case-insensitively, with or without the trailing period */
+function normalizeAbbrev(abbrev: string): string {
+  return abbrev.trim().toLowerCase().replace(/\.$/, '');
+}
+
+/**
+ * @throws {NotFoundError} If no remedy has the abbreviation
+ */
+export async function fetchRemedy(
+  client: OOREPHttpClient,
+  remedy: string
+): Promise<ResourceContent> {
+  const abbrev = normalizeAbbrev(remedy);
+  const [remedies, repertories, materiaMedicas] = await Promise.all([
+    client.getAvailableRemedies(),
+    client.getRepertoriesWithRemedies(),
+    client.getMateriaMedicasWithRemedies(),
+  ]);
+
+  const match = remedies.find((r) => normalizeAbbrev(r.nameAbbrev) === abbrev);
+  if (!match) {
+    throw new NotFoundError(
+      `Remedy "${remedy}" not found`,
+      'resource',
+      getRemedyResourceUri(remedy)
+    );
+  }
+
+  const details = {
+    id: match.id,
+    nameAbbrev: match.nameAbbrev,
+    nameLong: match.nameLong,
+    nameAlt: match.namealt ?? [],
+    repertories: repertories
+      .filter(({ remedyIds }) => remedyIds.includes(match.id))
+      .map(({ metadata }) => metadata.abbreviation),
+    materiaMedicas: materiaMedicas
+      .filter(({ remedyIds }) => remedyIds.includes(match.id))
+      .map(({ metadata }) => metadata.abbreviation),
+  };
+  return {
+    uri: getRemedyResourceUri(match.nameAbbrev),
+    mimeType: MIME_TYPES.JSON,
+    text: JSON.stringify(details, null, 2),
+  };
+}
@@ -0,0 +1,74 @@
+/**
+ * Unit tests for remedy resource template
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  remedyTemplateDefinition,
+  getRemedyResourceUri,
+  parseRemedyResourceUri,
+  fetchRemedy,
+} from './remedy.js';
+import type { OOREPHttpClient } from '../lib/oorep-client.js';
+import { NotFoundError } from '../utils/errors.js';
+
+function createHttpClient(): OOREPHttpClient {
+  return {
+    getAvailableRemedies: vi.fn().mockResolvedValue([
+      { id: 1, nameAbbrev: 'Acon.', nameLong: 'Aconitum napellus', namealt: ['Aconite'] },
+      { id: 2, nameAbbrev: 'Bell.', nameLong: 'Belladonna' },
+    ]),
+    getRepertoriesWithRemedies: vi.fn().mockResolvedValue([
+      { metadata: { abbreviation: 'kent', title: 'Kent' }, remedyIds: [1, 2] },
+      { metadata: { abbreviation: 'boger', title: 'Boger' }, remedyIds: [2] },
+    ]),
+    getMateriaMedicasWithRemedies: vi.fn().mockResolvedValue([
+      { metadata: { abbreviation: 'boericke', title: 'Boericke' }, remedyIds: [1] },
+      { metadata: { abbreviation: 'hering', title: 'Hering' }, remedyIds: [1, 2] },
+    ]),
+  } as unknown as OOREPHttpClient;
+}
+
+describe('remedyTemplateDefinition', () => {
+  it('remedyTemplateDefinition when accessed then has uri template and JSON mime type', () => {
+    expect(remedyTemplateDefinition.uriTemplate).toBe('oorep://remedies/{abbrev}');
+    expect(remedyTemplateDefinition.mimeType).toBe('application/json');
+  });
+});
+
+describe('remedy resource uris', () => {
+  it('getRemedyResourceUri when called then round-trips through parseRemedyResourceUri', () => {
+    const uri = getRemedyResourceUri('Nux-v.');
+
+    expect(uri).toBe('oorep://remedies/Nux-v.');
+    expect(parseRemedyResourceUri(uri)).toEqual({ remedy: 'Nux-v.' });
+  });
+});
+
+describe('fetchRemedy', () => {
+  it('fetchRemedy when abbreviation matches then returns names and covering books', async () => {
+    const result = await fetchRemedy(createHttpClient(), 'Acon.');
+
+    expect(result.uri).toBe('oorep://remedies/Acon.');
+    expect(result.mimeType).toBe('application/json');
+    expect(JSON.parse(result.text)).toEqual({
+      id: 1,
+      nameAbbrev: 'Acon.',
+      nameLong: 'Aconitum napellus',
+      nameAlt: ['Aconite'],
+      repertories: ['kent'],
+      materiaMedicas: ['boericke', 'hering'],
+    });
+  });
+
+  it('fetchRemedy when case and trailing period differ then still matches', async () => {
+    const result = await fetchRemedy(createHttpClient(), 'bell');
+
+    expect(result.uri).toBe('oorep://remedies/Bell.');
+    expect(JSON.parse(result.text)).toMatchObject({ nameAlt: [], repertories: ['kent', 'boger'] });
+  });
+
+  it('fetchRemedy when abbreviation is unknown then throws NotFoundError', async () => {
+    await expect(fetchRemedy(createHttpClient(), 'Sulph.')).rejects.toThrow(NotFoundError);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Resource template: oorep://repertories/{abbrev}
+ *
+ * Provides a single repertory's metadata with the number of remedies it covers.
+ */
+
+import { RESOURCE_URI_TEMPLATES, MIME_TYPES } from '../sdk/constants.js';
+import type { OOREPHttpClient } from '../lib/oorep-client.js';
+import { expandUriTemplate, matchUriTemplate } from '../lib/uri-template.js';
+import { NotFoundError } from '../utils/errors.js';
+import type { ResourceContent } from './remedies-list.js';
+import type { ResourceTemplateDefinition } from './rubric.js';
+
+export const repertoryTemplateDefinition: ResourceTemplateDefinition = {
+  uriTemplate: RESOURCE_URI_TEMPLATES.REPERTORY,
+  name: 'Repertory',
+  description:
+    'A repertory by abbreviation, with its metadata, the number of remedies it covers ' +
+    'and the URI template of its rubrics',
+  mimeType: MIME_TYPES.JSON,
+};
+
+/**
+ * Build the resource URI of a repertory
+ */
+export function getRepertoryResourceUri(repertory: string): string {
+  return expandUriTemplate(RESOURCE_URI_TEMPLATES.REPERTORY, { abbrev: repertory });
+}
+
+/**
+ * Extract the repertory abbreviation from a repertory resource URI
+ *
+ * @returns null if the URI is not a repertory URI
+ */
+export function parseRepertoryResourceUri(uri: string): { repertory: string } | null {
+  const variables = matchUriTemplate(RESOURCE_URI_TEMPLATES.REPERTORY, uri);
+  return variables ? { repertory: variables.abbrev } : null;
+}
+
+/**
+ * @throws {NotFoundError} If no repertory has the abbreviation
+ */
+export async function fetchRepertory(
+  client: OOREPHttpClient,
+  repertory: string
+): Promise<ResourceContent> {
+  const uri = getRepertoryResourceUri(repertory);
+  const abbrev = repertory.toLowerCase();
+  const match = (await client.getRepertoriesWithRemedies()).find(
+    ({ metadata }) => metadata.abbreviation.toLowerCase() === abbrev
+  );
+  if (!match) {
+    throw new NotFoundError(`Repertory "${repertory}" not found`, 'resource', uri);
+  }
+
+  const { metadata, remedyIds } = match;
+  const details = {
+    ...metadata,
+    // OOREP may omit remedy IDs, so a count of zero would be misleading
+    ...(remedyIds.length > 0 && { remedyCount: remedyIds.length }),
+    rubricUriTemplate: RESOURCE_URI_TEMPLATES.RUBRIC.replace(
+      '{abbrev}',
+      encodeURIComponent(metadata.abbreviation)
+    ),
+  };
+  return {
+    uri: getRepertoryResourceUri(metadata.abbreviation),
+    mimeType: MIME_TYPES.JSON,
+    text: JSON.stringify(details, null, 2),
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * Unit tests for repertory resource template
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  repertoryTemplateDefinition,
+  getRepertoryResourceUri,
+  parseRepertoryResourceUri,
+  fetchRepertory,
+} from './repertory.js';
+import type { OOREPHttpClient } from '../lib/oorep-client.js';
+import { NotFoundError } from '../utils/errors.js';
+
+function createHttpClient(): OOREPHttpClient {
+  return {
+    getRepertoriesWithRemedies: vi.fn().mockResolvedValue([
+      {
+        metadata: { abbreviation: 'kent', title: 'Kent Repertory', language: 'en' },
+        remedyIds: [1, 2, 3],
+      },
+      { metadata: { abbreviation: 'bogboen', title: 'Boger Boenninghausen' }, remedyIds: [] },
+    ]),
+  } as unknown as OOREPHttpClient;
+}
+
+describe('repertoryTemplateDefinition', () => {
+  it('repertoryTemplateDefinition when accessed then has uri template and JSON mime type', () => {
+    expect(repertoryTemplateDefinition.uriTemplate).toBe('oorep://repertories/{abbrev}');
+    expect(repertoryTemplateDefinition.mimeType).toBe('application/json');
+  });
+});
+
+describe('repertory resource uris', () => {
+  it('getRepertoryResourceUri when called then round-trips through parseRepertoryResourceUri', () => {
+    const uri = getRepertoryResourceUri('kent de');
+
+    expect(uri).toBe('oorep://repertories/kent%20de');
+    expect(parseRepertoryResourceUri(uri)).toEqual({ repertory: 'kent de' });
+  });
+
+  it('parseRepertoryResourceUri when uri is a rubric uri then returns null', () => {
+    expect(parseRepertoryResourceUri('oorep://repertories/kent/rubrics/42')).toBeNull();
+    expect(parseRepertoryResourceUri('oorep://remedies/Acon.')).toBeNull();
+  });
+});
+
+describe('fetchRepertory', () => {
+  it('fetchRepertory when abbreviation matches then returns metadata with remedy count', async () => {
+    const result = await fetchRepertory(createHttpClient(), 'KENT');
+
+    expect(result.uri).toBe('oorep://repertories/kent');
+    expect(result.mimeType).toBe('application/json');
+    expect(JSON.parse(result.text)).toEqual({
+      abbreviation: 'kent',
+      title: 'Kent Repertory',
+      language: 'en',
+      remedyCount: 3,
+      rubricUriTemplate: 'oorep://repertories/kent/rubrics/{id}',
+    });
+  });
+
+  it('fetchRepertory when OOREP sends no remedy IDs then omits the remedy count', async () => {
+    const result = await fetchRepertory(createHttpClient(), 'bogboen');
+
+    expect(JSON.parse(result.text)).not.toHaveProperty('remedyCount');
+  });
+
+  it('fetchRepertory when abbreviation is unknown then throws NotFoundError', async () => {
+    await expect(fetchRepertory(createHttpClient(), 'missing')).rejects.toThrow(NotFoundError);
+  });
+});
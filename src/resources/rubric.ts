@@ -0,0 +1,63 @@
+/**
+ * Resource template: oorep://repertories/{abbrev}/rubrics/{id}
+ *
+ * Provides a single rubric with its remedies and place in the repertory hierarchy.
+ */
+
+import { RESOURCE_URI_TEMPLATES, MIME_TYPES, type ResourceUriTemplate } from '../sdk/constants.js';
+import { type OOREPResourceTemplateDefinition } from '../sdk/resources.js';
+import type { IOOREPClient } from '../interfaces/IOOREPClient.js';
+import { expandUriTemplate, matchUriTemplate } from '../lib/uri-template.js';
+import type { ResourceContent } from './remedies-list.js';
+
+/**
+ * MCP-specific resource template definition with typed URI template
+ */
+export interface ResourceTemplateDefinition extends Omit<
+  OOREPResourceTemplateDefinition,
+  'uriTemplate'
+> {
+  uriTemplate: ResourceUriTemplate;
+}
+
+export const rubricTemplateDefinition: ResourceTemplateDefinition = {
+  uriTemplate: RESOURCE_URI_TEMPLATES.RUBRIC,
+  name: 'Repertory Rubric',
+  description:
+    'A rubric by repertory abbreviation and rubric id, with its remedies, ancestors and parent. ' +
+    'The rubric must have come up in an earlier search.',
+  mimeType: MIME_TYPES.JSON,
+};
+
+/**
+ * Build the resource URI of a rubric
+ */
+export function getRubricResourceUri(repertory: string, id: number): string {
+  return expandUriTemplate(RESOURCE_URI_TEMPLATES.RUBRIC, { abbrev: repertory, id });
+}
+
+/**
+ * Extract the repertory and rubric id from a rubric resource URI
+ *
+ * @returns null if the URI is not a rubric URI
+ */
+export function parseRubricResourceUri(uri: string): { repertory: string; id: number } | null {
+  const variables = matchUriTemplate(RESOURCE_URI_TEMPLATES.RUBRIC, uri);
+  if (!variables || !/^[1-9]\d*$/.test(variables.id)) {
+    return null;
+  }
+  return { repertory: variables.abbrev, id: Number(variables.id) };
+}
+
+export async function fetchRubric(
+  client: IOOREPClient,
+  repertory: string,
+  id: number
+): Promise<ResourceContent> {
+  const details = await client.getRubric({ id, repertory });
+  return {
+    uri: details.uri,
+    mimeType: MIME_TYPES.JSON,
+    text: JSON.stringify(details, null, 2),
+  };
+}
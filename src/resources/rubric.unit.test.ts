@@ -0,0 +1,52 @@
+/**
+ * Unit tests for rubric resource template
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  rubricTemplateDefinition,
+  getRubricResourceUri,
+  parseRubricResourceUri,
+  fetchRubric,
+} from './rubric.js';
+import { createMockSDKClient } from '../tools/test-helpers.js';
+
+describe('rubricTemplateDefinition', () => {
+  it('rubricTemplateDefinition when accessed then has uri template and JSON mime type', () => {
+    expect(rubricTemplateDefinition.uriTemplate).toBe('oorep://repertories/{abbrev}/rubrics/{id}');
+    expect(rubricTemplateDefinition.mimeType).toBe('application/json');
+  });
+});
+
+describe('rubric resource uris', () => {
+  it('getRubricResourceUri when called then round-trips through parseRubricResourceUri', () => {
+    const uri = getRubricResourceUri('kent', 42);
+
+    expect(uri).toBe('oorep://repertories/kent/rubrics/42');
+    expect(parseRubricResourceUri(uri)).toEqual({ repertory: 'kent', id: 42 });
+  });
+
+  it('parseRubricResourceUri when id is not a positive integer then returns null', () => {
+    expect(parseRubricResourceUri('oorep://repertories/kent/rubrics/0')).toBeNull();
+    expect(parseRubricResourceUri('oorep://repertories/kent/rubrics/1.5')).toBeNull();
+    expect(parseRubricResourceUri('oorep://repertories/list')).toBeNull();
+  });
+});
+
+describe('fetchRubric', () => {
+  it('fetchRubric when called then returns rubric details as JSON', async () => {
+    const client = createMockSDKClient();
+    const details = {
+      rubric: { id: 42, rubric: 'Mind, anxiety', repertory: 'kent', remedies: [] },
+      uri: 'oorep://repertories/kent/rubrics/42',
+      ancestors: ['Mind'],
+    };
+    client.getRubric.mockResolvedValue(details);
+
+    const result = await fetchRubric(client, 'kent', 42);
+
+    expect(result.uri).toBe(details.uri);
+    expect(result.mimeType).toBe('application/json');
+    expect(JSON.parse(result.text)).toEqual(details);
+  });
+});
@@ -6,6 +6,7 @@
  */
 
 import { RESOURCE_URIS, MIME_TYPES } from '../sdk/constants.js';
+import { REPERTORY_VOCABULARY } from '../lib/query-translator.js';
 import type { ResourceContent, ResourceDefinition } from './remedies-list.js';
 
 export const searchSyntaxHelpDefinition: ResourceDefinition = {
@@ -51,16 +52,10 @@ Natural language must be converted to repertory terms:
 
 | Natural Language | Use This Instead |
 |------------------|------------------|
-| blocked, congested | \`obstruct*\` |
-| nodules | \`nod*\` |
-| sharp pain | \`stitch*\` |
-| dizziness | \`vertigo\` |
-| runny nose | \`coryza\` or \`discharg*\` |
-| nosebleed | \`epistax*\` |
-| throwing up | \`vomit*\` |
-| breathing difficulty | \`dyspn*\` |
-| worse/worsening | \`agg\` |
-| better/improving | \`amel\` |
+${REPERTORY_VOCABULARY.map(
+  ({ natural, repertory }) =>
+    `| ${natural.join(', ')} | ${repertory.map((term) => `\`${term}\``).join(' or ')} |`
+).join('\n')}
 
 ## Query Construction
 
@@ -6,6 +6,7 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import { searchSyntaxHelpDefinition, getSearchSyntaxHelp } from './search-syntax-help.js';
 import type { ResourceContent } from './remedies-list.js';
 import { RESOURCE_URIS, MIME_TYPES } from '../sdk/constants.js';
+import { REPERTORY_VOCABULARY } from '../lib/query-translator.js';
 
 describe('searchSyntaxHelpDefinition', () => {
   it('when accessed then has correct URI', () => {
@@ -79,6 +80,12 @@ describe('getSearchSyntaxHelp', () => {
       expect(result.text).toContain('Natural Language');
     });
 
+    it('when called then lists every vocabulary swap used for query suggestions', () => {
+      for (const { natural } of REPERTORY_VOCABULARY) {
+        expect(result.text).toContain(`| ${natural.join(', ')} |`);
+      }
+    });
+
     it('when called then includes query construction section', () => {
       expect(result.text).toContain('## Query Construction');
       expect(result.text).toContain('Golden Rules');
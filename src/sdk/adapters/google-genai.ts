@@ -38,6 +38,17 @@ import type {
   GetRemedyInfoArgs,
   ListRepertoriesArgs,
   ListMateriaMedicasArgs,
+  RepertorizeCaseArgs,
+  CrossReferenceSymptomsArgs,
+  CreateCaseArgs,
+  AddRubricToCaseArgs,
+  RemoveRubricFromCaseArgs,
+  GetCaseArgs,
+  ListCasesArgs,
+  DeleteCaseArgs,
+  GetRubricArgs,
+  BrowseRubricChildrenArgs,
+  SuggestRepertoryQueryArgs,
 } from '../../utils/schemas.js';
 
 /**
@@ -148,7 +159,29 @@ export type GeminiToolExecutors = {
             ? ListRepertoriesArgs
             : K extends typeof TOOL_NAMES.LIST_MATERIA_MEDICAS
               ? ListMateriaMedicasArgs
-              : never
+              : K extends typeof TOOL_NAMES.REPERTORIZE_CASE
+                ? RepertorizeCaseArgs
+                : K extends typeof TOOL_NAMES.CROSS_REFERENCE_SYMPTOMS
+                  ? CrossReferenceSymptomsArgs
+                  : K extends typeof TOOL_NAMES.CREATE_CASE
+                    ? CreateCaseArgs
+                    : K extends typeof TOOL_NAMES.ADD_RUBRIC_TO_CASE
+                      ? AddRubricToCaseArgs
+                      : K extends typeof TOOL_NAMES.REMOVE_RUBRIC_FROM_CASE
+                        ? RemoveRubricFromCaseArgs
+                        : K extends typeof TOOL_NAMES.GET_CASE
+                          ? GetCaseArgs
+                          : K extends typeof TOOL_NAMES.LIST_CASES
+                            ? ListCasesArgs
+                            : K extends typeof TOOL_NAMES.DELETE_CASE
+                              ? DeleteCaseArgs
+                              : K extends typeof TOOL_NAMES.GET_RUBRIC
+                                ? GetRubricArgs
+                                : K extends typeof TOOL_NAMES.BROWSE_RUBRIC_CHILDREN
+                                  ? BrowseRubricChildrenArgs
+                                  : K extends typeof TOOL_NAMES.SUGGEST_REPERTORY_QUERY
+                                    ? SuggestRepertoryQueryArgs
+                                    : never
   >;
 };
 
@@ -167,6 +200,21 @@ export function createGeminiToolExecutors(client: OOREPClient): GeminiToolExecut
     [TOOL_NAMES.LIST_REPERTORIES]: (args: ListRepertoriesArgs) => client.listRepertories(args),
     [TOOL_NAMES.LIST_MATERIA_MEDICAS]: (args: ListMateriaMedicasArgs) =>
       client.listMateriaMedicas(args),
+    [TOOL_NAMES.REPERTORIZE_CASE]: (args: RepertorizeCaseArgs) => client.repertorizeCase(args),
+    [TOOL_NAMES.CROSS_REFERENCE_SYMPTOMS]: (args: CrossReferenceSymptomsArgs) =>
+      client.crossReferenceSymptoms(args),
+    [TOOL_NAMES.CREATE_CASE]: (args: CreateCaseArgs) => client.createCase(args),
+    [TOOL_NAMES.ADD_RUBRIC_TO_CASE]: (args: AddRubricToCaseArgs) => client.addRubricToCase(args),
+    [TOOL_NAMES.REMOVE_RUBRIC_FROM_CASE]: (args: RemoveRubricFromCaseArgs) =>
+      client.removeRubricFromCase(args),
+    [TOOL_NAMES.GET_CASE]: (args: GetCaseArgs) => client.getCase(args),
+    [TOOL_NAMES.LIST_CASES]: (_args: ListCasesArgs) => client.listCases(),
+    [TOOL_NAMES.DELETE_CASE]: (args: DeleteCaseArgs) => client.deleteCase(args),
+    [TOOL_NAMES.GET_RUBRIC]: (args: GetRubricArgs) => client.getRubric(args),
+    [TOOL_NAMES.BROWSE_RUBRIC_CHILDREN]: (args: BrowseRubricChildrenArgs) =>
+      client.browseRubricChildren(args),
+    [TOOL_NAMES.SUGGEST_REPERTORY_QUERY]: (args: SuggestRepertoryQueryArgs) =>
+      client.suggestRepertoryQuery(args),
   };
 }
 
@@ -15,8 +15,8 @@ import { TOOL_NAMES } from '../constants.js';
 import type { OOREPClient } from '../client.js';
 
 describe('geminiFunctionDeclarations', () => {
-  it('when accessed then contains all five tools', () => {
-    expect(geminiFunctionDeclarations).toHaveLength(5);
+  it('when accessed then contains all fifteen tools', () => {
+    expect(geminiFunctionDeclarations).toHaveLength(16);
   });
 
   it('when accessed then schemas do not contain unsupported Gemini fields', () => {
@@ -38,6 +38,17 @@ describe('geminiFunctionDeclarations', () => {
     'get_remedy_info',
     'list_available_repertories',
     'list_available_materia_medicas',
+    'repertorize_case',
+    'cross_reference_symptoms',
+    'create_case',
+    'add_rubric_to_case',
+    'remove_rubric_from_case',
+    'get_case',
+    'list_cases',
+    'delete_case',
+    'get_rubric',
+    'browse_rubric_children',
+    'suggest_repertory_query',
   ])('when accessed then contains tool %s', (toolName) => {
     const tool = geminiFunctionDeclarations.find((t) => t.name === toolName);
     expect(tool).toBeDefined();
@@ -68,8 +79,8 @@ describe('geminiTools', () => {
     expect(Array.isArray(geminiTools[0].functionDeclarations)).toBe(true);
   });
 
-  it('when accessed then functionDeclarations contains all five tools', () => {
-    expect(geminiTools[0].functionDeclarations).toHaveLength(5);
+  it('when accessed then functionDeclarations contains all fifteen tools', () => {
+    expect(geminiTools[0].functionDeclarations).toHaveLength(16);
   });
 });
 
@@ -94,16 +105,29 @@ describe('createGeminiToolExecutors', () => {
       getRemedyInfo: vi.fn().mockResolvedValue({ id: 1, nameAbbrev: 'Acon.' }),
       listRepertories: vi.fn().mockResolvedValue([{ abbreviation: 'kent' }]),
       listMateriaMedicas: vi.fn().mockResolvedValue([{ abbreviation: 'boericke' }]),
+      repertorizeCase: vi.fn().mockResolvedValue({ rubrics: [], remedies: [] }),
+      crossReferenceSymptoms: vi
+        .fn()
+        .mockResolvedValue({ queries: [], remedies: [], eliminated: [] }),
+      createCase: vi.fn().mockResolvedValue({ id: 'case-1', rubrics: [] }),
+      addRubricToCase: vi.fn().mockResolvedValue({ id: 'case-1', rubrics: [] }),
+      removeRubricFromCase: vi.fn().mockResolvedValue({ id: 'case-1', rubrics: [] }),
+      getCase: vi.fn().mockResolvedValue({ id: 'case-1', rubrics: [] }),
+      listCases: vi.fn().mockResolvedValue([]),
+      deleteCase: vi.fn().mockResolvedValue({ caseId: 'case-1', deleted: true }),
+      getRubric: vi.fn().mockResolvedValue({ rubric: {}, uri: '', ancestors: [] }),
+      browseRubricChildren: vi.fn().mockResolvedValue({ children: [] }),
     } as unknown as OOREPClient;
     executors = createGeminiToolExecutors(mockClient);
   });
 
-  it('when called then returns executors for all five tools', () => {
+  it('when called then returns executors for all fifteen tools', () => {
     expect(executors.search_repertory).toBeDefined();
     expect(executors.search_materia_medica).toBeDefined();
     expect(executors.get_remedy_info).toBeDefined();
     expect(executors.list_available_repertories).toBeDefined();
     expect(executors.list_available_materia_medicas).toBeDefined();
+    expect(executors.repertorize_case).toBeDefined();
   });
 
   it('when search_repertory executor called then calls client method', async () => {
@@ -135,6 +159,18 @@ describe('createGeminiToolExecutors', () => {
     await executors.list_available_materia_medicas(args);
     expect(mockClient.listMateriaMedicas).toHaveBeenCalledWith(args);
   });
+
+  it('when repertorize_case executor called then calls client method', async () => {
+    const args = { rubrics: [{ id: 12, intensity: 2 }] };
+    await executors.repertorize_case(args);
+    expect(mockClient.repertorizeCase).toHaveBeenCalledWith(args);
+  });
+
+  it('when get_case executor called then calls client method', async () => {
+    const args = { caseId: 'case-1', repertorize: true };
+    await executors.get_case(args);
+    expect(mockClient.getCase).toHaveBeenCalledWith(args);
+  });
 });
 
 describe('executeGeminiFunctionCall', () => {
@@ -148,6 +184,18 @@ describe('executeGeminiFunctionCall', () => {
       getRemedyInfo: vi.fn().mockResolvedValue({ id: 1, nameAbbrev: 'Acon.' }),
       listRepertories: vi.fn().mockResolvedValue([{ abbreviation: 'kent' }]),
       listMateriaMedicas: vi.fn().mockResolvedValue([{ abbreviation: 'boericke' }]),
+      repertorizeCase: vi.fn().mockResolvedValue({ rubrics: [], remedies: [] }),
+      crossReferenceSymptoms: vi
+        .fn()
+        .mockResolvedValue({ queries: [], remedies: [], eliminated: [] }),
+      createCase: vi.fn().mockResolvedValue({ id: 'case-1', rubrics: [] }),
+      addRubricToCase: vi.fn().mockResolvedValue({ id: 'case-1', rubrics: [] }),
+      removeRubricFromCase: vi.fn().mockResolvedValue({ id: 'case-1', rubrics: [] }),
+      getCase: vi.fn().mockResolvedValue({ id: 'case-1', rubrics: [] }),
+      listCases: vi.fn().mockResolvedValue([]),
+      deleteCase: vi.fn().mockResolvedValue({ caseId: 'case-1', deleted: true }),
+      getRubric: vi.fn().mockResolvedValue({ rubric: {}, uri: '', ancestors: [] }),
+      browseRubricChildren: vi.fn().mockResolvedValue({ children: [] }),
     } as unknown as OOREPClient;
     executors = createGeminiToolExecutors(mockClient);
   });
@@ -296,7 +296,7 @@ describe('LangChain Adapter Integration Tests', () => {
 
       const { tools, toolsByName } = createLangGraphTools(client);
 
-      expect(tools).toHaveLength(5);
+      expect(tools).toHaveLength(16);
       expect(toolsByName.search_repertory).toBeDefined();
 
       // Execute to verify it works
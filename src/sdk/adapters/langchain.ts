@@ -21,7 +21,13 @@
  * ```
  */
 
-import { z } from '../../utils/schemas.js';
+import {
+  z,
+  type RemedyRankingName,
+  type RepertorizeCaseArgs,
+  type CrossReferenceSymptomsArgs,
+  type RubricGroupBy,
+} from '../../utils/schemas.js';
 import type { OOREPClient } from '../client.js';
 import type { ResourceContent } from '../resources.js';
 import type { PromptResult } from '../prompts.js';
@@ -66,16 +72,37 @@ export function createLangChainTools(client: OOREPClient): LangChainToolDefiniti
         symptom: z.string().describe('The symptom to search for'),
         repertory: z.string().optional().describe('Repertory abbreviation'),
         minWeight: z.number().optional().describe('Minimum remedy weight (1-4)'),
+        remedy: z.string().optional().describe('Only return rubrics containing this remedy'),
         maxResults: z.number().optional().describe('Maximum results'),
         includeRemedyStats: z.boolean().optional().describe('Include remedy statistics'),
+        page: z.number().optional().describe('Zero-based result page'),
+        cursor: z.string().optional().describe('nextCursor from a previous result'),
+        groupBy: z
+          .enum(['flat', 'tree', 'chapter'])
+          .optional()
+          .describe('Result layout: flat list, chapter groups, or rubric tree'),
+        ranking: z
+          .enum(['kent', 'boenninghausen', 'boger', 'small-remedy'])
+          .optional()
+          .describe('Remedy ranking strategy for remedyStats'),
+        autoTranslate: z
+          .boolean()
+          .optional()
+          .describe('Rewrite an everyday-language symptom into repertory terms first'),
       }),
       func: async (args: Record<string, unknown>) => {
         const result = await client.searchRepertory({
           symptom: args.symptom as string,
           repertory: args.repertory as string | undefined,
           minWeight: args.minWeight as number | undefined,
+          remedy: args.remedy as string | undefined,
           maxResults: args.maxResults as number | undefined,
           includeRemedyStats: args.includeRemedyStats as boolean | undefined,
+          page: args.page as number | undefined,
+          cursor: args.cursor as string | undefined,
+          groupBy: args.groupBy as RubricGroupBy | undefined,
+          ranking: args.ranking as RemedyRankingName | undefined,
+          autoTranslate: args.autoTranslate as boolean | undefined,
         });
         return JSON.stringify(result, null, 2);
       },
@@ -88,6 +115,8 @@ export function createLangChainTools(client: OOREPClient): LangChainToolDefiniti
         materiamedica: z.string().optional().describe('Materia medica abbreviation'),
         remedy: z.string().optional().describe('Filter to specific remedy'),
         maxResults: z.number().optional().describe('Maximum results'),
+        page: z.number().optional().describe('Zero-based result page'),
+        cursor: z.string().optional().describe('nextCursor from a previous result'),
       }),
       func: async (args: Record<string, unknown>) => {
         const result = await client.searchMateriaMedica({
@@ -95,6 +124,8 @@ export function createLangChainTools(client: OOREPClient): LangChainToolDefiniti
           materiamedica: args.materiamedica as string | undefined,
           remedy: args.remedy as string | undefined,
           maxResults: args.maxResults as number | undefined,
+          page: args.page as number | undefined,
+          cursor: args.cursor as string | undefined,
         });
         return JSON.stringify(result, null, 2);
       },
@@ -138,6 +169,211 @@ export function createLangChainTools(client: OOREPClient): LangChainToolDefiniti
         return JSON.stringify(result, null, 2);
       },
     },
+    {
+      name: TOOL_NAMES.REPERTORIZE_CASE,
+      description:
+        'Repertorize a case from selected rubrics. Returns a remedy × rubric grid ranked by sum of grades, sum of symptoms and coverage.',
+      schema: z.object({
+        rubrics: z
+          .array(
+            z.object({
+              id: z.number().optional().describe('Rubric id from a search_repertory result'),
+              query: z.string().optional().describe('Repertory search for the rubric'),
+              repertory: z.string().optional().describe('Repertory abbreviation'),
+              intensity: z.number().optional().describe('Symptom importance (1-4)'),
+            })
+          )
+          .describe('Rubrics selected for the case, each with an id, a query, or both'),
+        repertory: z.string().optional().describe('Default repertory'),
+        minWeight: z.number().optional().describe('Minimum remedy grade (1-4)'),
+        maxRemedies: z.number().optional().describe('Top remedies per ranking'),
+      }),
+      func: async (args: Record<string, unknown>) => {
+        const result = await client.repertorizeCase({
+          rubrics: args.rubrics as RepertorizeCaseArgs['rubrics'],
+          repertory: args.repertory as string | undefined,
+          minWeight: args.minWeight as number | undefined,
+          maxRemedies: args.maxRemedies as number | undefined,
+        });
+        return JSON.stringify(result, null, 2);
+      },
+    },
+    {
+      name: TOOL_NAMES.CROSS_REFERENCE_SYMPTOMS,
+      description:
+        'Run several repertory searches and rank remedies by how many queries they appear in. Remedies missing from an eliminative query are dropped and reported.',
+      schema: z.object({
+        queries: z
+          .array(
+            z.object({
+              symptom: z.string().describe('Repertory search for one symptom'),
+              repertory: z.string().optional().describe('Repertory abbreviation'),
+              minWeight: z.number().optional().describe('Minimum remedy weight (1-4)'),
+              eliminative: z
+                .boolean()
+                .optional()
+                .describe('Drop remedies that do not appear in this query'),
+            })
+          )
+          .describe('Symptom queries to cross-reference (2-10)'),
+        repertory: z.string().optional().describe('Default repertory'),
+        minWeight: z.number().optional().describe('Default minimum remedy weight (1-4)'),
+        maxRemedies: z.number().optional().describe('Number of remedies to return'),
+      }),
+      func: async (args: Record<string, unknown>) => {
+        const result = await client.crossReferenceSymptoms({
+          queries: args.queries as CrossReferenceSymptomsArgs['queries'],
+          repertory: args.repertory as string | undefined,
+          minWeight: args.minWeight as number | undefined,
+          maxRemedies: args.maxRemedies as number | undefined,
+        });
+        return JSON.stringify(result, null, 2);
+      },
+    },
+    {
+      name: TOOL_NAMES.CREATE_CASE,
+      description:
+        'Create an empty saved case and return it with its id. Use the id with the other case tools to build up the case across turns.',
+      schema: z.object({
+        name: z.string().describe('Name of the case, e.g. a patient alias and date'),
+        notes: z.string().optional().describe('Free-text notes about the case'),
+      }),
+      func: async (args: Record<string, unknown>) => {
+        const result = await client.createCase({
+          name: args.name as string,
+          notes: args.notes as string | undefined,
+        });
+        return JSON.stringify(result, null, 2);
+      },
+    },
+    {
+      name: TOOL_NAMES.ADD_RUBRIC_TO_CASE,
+      description:
+        'Add a rubric to a saved case, selected by id (from search results), by query (first matching rubric), or both.',
+      schema: z.object({
+        caseId: z.string().describe('Case id returned by create_case'),
+        id: z.number().optional().describe('Rubric id from a previous search'),
+        query: z.string().optional().describe('Repertory search for the rubric'),
+        repertory: z.string().optional().describe('Repertory abbreviation'),
+        intensity: z.number().optional().describe('Importance of the symptom (1-4)'),
+        minWeight: z.number().optional().describe('Minimum remedy grade (1-4)'),
+      }),
+      func: async (args: Record<string, unknown>) => {
+        const result = await client.addRubricToCase({
+          caseId: args.caseId as string,
+          id: args.id as number | undefined,
+          query: args.query as string | undefined,
+          repertory: args.repertory as string | undefined,
+          intensity: args.intensity as number | undefined,
+          minWeight: args.minWeight as number | undefined,
+        });
+        return JSON.stringify(result, null, 2);
+      },
+    },
+    {
+      name: TOOL_NAMES.REMOVE_RUBRIC_FROM_CASE,
+      description: 'Remove a rubric from a saved case by its rubric id or zero-based position.',
+      schema: z.object({
+        caseId: z.string().describe('Case id returned by create_case'),
+        rubricId: z.number().optional().describe('OOREP id of the rubric to remove'),
+        index: z.number().optional().describe('Zero-based position of the rubric in the case'),
+      }),
+      func: async (args: Record<string, unknown>) => {
+        const result = await client.removeRubricFromCase({
+          caseId: args.caseId as string,
+          rubricId: args.rubricId as number | undefined,
+          index: args.index as number | undefined,
+        });
+        return JSON.stringify(result, null, 2);
+      },
+    },
+    {
+      name: TOOL_NAMES.GET_CASE,
+      description: 'Get a saved case with its rubrics, optionally repertorized.',
+      schema: z.object({
+        caseId: z.string().describe('Case id returned by create_case'),
+        repertorize: z.boolean().optional().describe('Also repertorize the case rubrics'),
+        maxRemedies: z.number().optional().describe('Top remedies per ranking'),
+      }),
+      func: async (args: Record<string, unknown>) => {
+        const result = await client.getCase({
+          caseId: args.caseId as string,
+          repertorize: args.repertorize as boolean | undefined,
+          maxRemedies: args.maxRemedies as number | undefined,
+        });
+        return JSON.stringify(result, null, 2);
+      },
+    },
+    {
+      name: TOOL_NAMES.LIST_CASES,
+      description: 'List saved cases with their rubric counts, most recently updated first.',
+      schema: z.object({}),
+      func: async () => {
+        const result = await client.listCases();
+        return JSON.stringify(result, null, 2);
+      },
+    },
+    {
+      name: TOOL_NAMES.DELETE_CASE,
+      description: 'Delete a saved case.',
+      schema: z.object({
+        caseId: z.string().describe('Case id returned by create_case'),
+      }),
+      func: async (args: Record<string, unknown>) => {
+        const result = await client.deleteCase({ caseId: args.caseId as string });
+        return JSON.stringify(result, null, 2);
+      },
+    },
+    {
+      name: TOOL_NAMES.GET_RUBRIC,
+      description: 'Look up a rubric by its search_repertory id, with its ancestors and parent.',
+      schema: z.object({
+        id: z.number().describe('Rubric id from a search_repertory result'),
+        repertory: z.string().optional().describe('Repertory abbreviation'),
+        query: z.string().optional().describe('Search that finds the rubric if not seen yet'),
+      }),
+      func: async (args: Record<string, unknown>) => {
+        const result = await client.getRubric({
+          id: args.id as number,
+          repertory: args.repertory as string | undefined,
+          query: args.query as string | undefined,
+        });
+        return JSON.stringify(result, null, 2);
+      },
+    },
+    {
+      name: TOOL_NAMES.BROWSE_RUBRIC_CHILDREN,
+      description: 'List the sub-rubrics below a rubric, given its id or full path.',
+      schema: z.object({
+        id: z.number().optional().describe('Id of the parent rubric'),
+        path: z.string().optional().describe('Full path of the parent rubric, e.g. "Head, pain"'),
+        query: z.string().optional().describe('Search that finds the parent if not seen yet'),
+        repertory: z.string().optional().describe('Repertory abbreviation'),
+        depth: z.number().optional().describe('Levels of sub-rubrics to return (1-5)'),
+      }),
+      func: async (args: Record<string, unknown>) => {
+        const result = await client.browseRubricChildren({
+          id: args.id as number | undefined,
+          path: args.path as string | undefined,
+          query: args.query as string | undefined,
+          repertory: args.repertory as string | undefined,
+          depth: args.depth as number | undefined,
+        });
+        return JSON.stringify(result, null, 2);
+      },
+    },
+    {
+      name: TOOL_NAMES.SUGGEST_REPERTORY_QUERY,
+      description:
+        'Translate a symptom in everyday words into a repertory query for search_repertory.',
+      schema: z.object({
+        symptom: z.string().describe('Symptom in natural language'),
+      }),
+      func: async (args: Record<string, unknown>) => {
+        const result = await client.suggestRepertoryQuery({ symptom: args.symptom as string });
+        return JSON.stringify(result, null, 2);
+      },
+    },
   ];
 }
 
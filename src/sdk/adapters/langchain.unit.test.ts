@@ -29,15 +29,27 @@ describe('createLangChainTools', () => {
       getRemedyInfo: vi.fn().mockResolvedValue({ id: 1, nameAbbrev: 'Acon.' }),
       listRepertories: vi.fn().mockResolvedValue([{ abbreviation: 'kent' }]),
       listMateriaMedicas: vi.fn().mockResolvedValue([{ abbreviation: 'boericke' }]),
+      repertorizeCase: vi.fn().mockResolvedValue({ rubrics: [], remedies: [] }),
+      crossReferenceSymptoms: vi
+        .fn()
+        .mockResolvedValue({ queries: [], remedies: [], eliminated: [] }),
+      createCase: vi.fn().mockResolvedValue({ id: 'case-1', rubrics: [] }),
+      addRubricToCase: vi.fn().mockResolvedValue({ id: 'case-1', rubrics: [] }),
+      removeRubricFromCase: vi.fn().mockResolvedValue({ id: 'case-1', rubrics: [] }),
+      getCase: vi.fn().mockResolvedValue({ id: 'case-1', rubrics: [] }),
+      listCases: vi.fn().mockResolvedValue([]),
+      deleteCase: vi.fn().mockResolvedValue({ caseId: 'case-1', deleted: true }),
+      getRubric: vi.fn().mockResolvedValue({ rubric: {}, uri: '', ancestors: [] }),
+      browseRubricChildren: vi.fn().mockResolvedValue({ children: [] }),
     } as unknown as OOREPClient;
   });
 
-  it('when called then returns array with all five tools', () => {
+  it('when called then returns array with all fifteen tools', () => {
     // Act
     const tools = createLangChainTools(mockClient);
 
     // Assert
-    expect(tools).toHaveLength(5);
+    expect(tools).toHaveLength(16);
   });
 
   it.each([
@@ -46,6 +58,17 @@ describe('createLangChainTools', () => {
     'get_remedy_info',
     'list_available_repertories',
     'list_available_materia_medicas',
+    'repertorize_case',
+    'cross_reference_symptoms',
+    'create_case',
+    'add_rubric_to_case',
+    'remove_rubric_from_case',
+    'get_case',
+    'list_cases',
+    'delete_case',
+    'get_rubric',
+    'browse_rubric_children',
+    'suggest_repertory_query',
   ])('when called then contains tool %s', (toolName) => {
     // Act
     const tools = createLangChainTools(mockClient);
@@ -259,6 +282,43 @@ describe('createLangChainTools', () => {
       });
     });
   });
+
+  describe('repertorize_case tool', () => {
+    it('when executed then calls client.repertorizeCase and returns JSON string', async () => {
+      // Arrange
+      const tools = createLangChainTools(mockClient);
+      const tool = tools.find((t) => t.name === 'repertorize_case')!;
+
+      // Act
+      const result = await tool.func({ rubrics: [{ id: 12 }], maxRemedies: 5 });
+
+      // Assert
+      expect(mockClient.repertorizeCase).toHaveBeenCalledWith({
+        rubrics: [{ id: 12 }],
+        maxRemedies: 5,
+      });
+      expect(JSON.parse(result)).toEqual({ rubrics: [], remedies: [] });
+    });
+  });
+
+  describe('cross_reference_symptoms tool', () => {
+    it('when executed then calls client.crossReferenceSymptoms and returns JSON string', async () => {
+      // Arrange
+      const tools = createLangChainTools(mockClient);
+      const tool = tools.find((t) => t.name === 'cross_reference_symptoms')!;
+
+      // Act
+      const result = await tool.func({
+        queries: [{ symptom: 'thirstless', eliminative: true }, { symptom: 'weeping' }],
+      });
+
+      // Assert
+      expect(mockClient.crossReferenceSymptoms).toHaveBeenCalledWith({
+        queries: [{ symptom: 'thirstless', eliminative: true }, { symptom: 'weeping' }],
+      });
+      expect(JSON.parse(result)).toEqual({ queries: [], remedies: [], eliminated: [] });
+    });
+  });
 });
 
 describe('getLangChainTools', () => {
@@ -336,7 +396,7 @@ describe('createLangGraphTools', () => {
     // Assert
     expect(result.tools).toBeDefined();
     expect(Array.isArray(result.tools)).toBe(true);
-    expect(result.tools).toHaveLength(5);
+    expect(result.tools).toHaveLength(16);
   });
 
   it('when called then returns object with toolsByName', () => {
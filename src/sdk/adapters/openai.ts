@@ -33,6 +33,12 @@ import type { PromptResult } from '../prompts.js';
 import { toolDefinitions } from '../tools.js';
 import { TOOL_NAMES } from '../constants.js';
 import { NotFoundError } from '../../utils/errors.js';
+import type {
+  CrossReferenceSymptomsArgs,
+  RemedyRankingName,
+  RepertorizeCaseArgs,
+  RubricGroupBy,
+} from '../../utils/schemas.js';
 
 /**
  * OpenAI tool definition format
@@ -113,8 +119,14 @@ export async function executeOOREPTool(
         symptom: args.symptom as string,
         repertory: args.repertory as string | undefined,
         minWeight: args.minWeight as number | undefined,
+        remedy: args.remedy as string | undefined,
         maxResults: args.maxResults as number | undefined,
         includeRemedyStats: args.includeRemedyStats as boolean | undefined,
+        page: args.page as number | undefined,
+        cursor: args.cursor as string | undefined,
+        groupBy: args.groupBy as RubricGroupBy | undefined,
+        ranking: args.ranking as RemedyRankingName | undefined,
+        autoTranslate: args.autoTranslate as boolean | undefined,
       });
 
     case TOOL_NAMES.SEARCH_MATERIA_MEDICA:
@@ -123,6 +135,8 @@ export async function executeOOREPTool(
         materiamedica: args.materiamedica as string | undefined,
         remedy: args.remedy as string | undefined,
         maxResults: args.maxResults as number | undefined,
+        page: args.page as number | undefined,
+        cursor: args.cursor as string | undefined,
       });
 
     case TOOL_NAMES.GET_REMEDY_INFO:
@@ -140,6 +154,81 @@ export async function executeOOREPTool(
         language: args.language as string | undefined,
       });
 
+    case TOOL_NAMES.REPERTORIZE_CASE:
+      return client.repertorizeCase({
+        rubrics: args.rubrics as RepertorizeCaseArgs['rubrics'],
+        repertory: args.repertory as string | undefined,
+        minWeight: args.minWeight as number | undefined,
+        maxRemedies: args.maxRemedies as number | undefined,
+      });
+
+    case TOOL_NAMES.CROSS_REFERENCE_SYMPTOMS:
+      return client.crossReferenceSymptoms({
+        queries: args.queries as CrossReferenceSymptomsArgs['queries'],
+        repertory: args.repertory as string | undefined,
+        minWeight: args.minWeight as number | undefined,
+        maxRemedies: args.maxRemedies as number | undefined,
+      });
+
+    case TOOL_NAMES.CREATE_CASE:
+      return client.createCase({
+        name: args.name as string,
+        notes: args.notes as string | undefined,
+      });
+
+    case TOOL_NAMES.ADD_RUBRIC_TO_CASE:
+      return client.addRubricToCase({
+        caseId: args.caseId as string,
+        id: args.id as number | undefined,
+        query: args.query as string | undefined,
+        repertory: args.repertory as string | undefined,
+        intensity: args.intensity as number | undefined,
+        minWeight: args.minWeight as number | undefined,
+      });
+
+    case TOOL_NAMES.REMOVE_RUBRIC_FROM_CASE:
+      return client.removeRubricFromCase({
+        caseId: args.caseId as string,
+        rubricId: args.rubricId as number | undefined,
+        index: args.index as number | undefined,
+      });
+
+    case TOOL_NAMES.GET_CASE:
+      return client.getCase({
+        caseId: args.caseId as string,
+        repertorize: args.repertorize as boolean | undefined,
+        maxRemedies: args.maxRemedies as number | undefined,
+      });
+
+    case TOOL_NAMES.LIST_CASES:
+      return client.listCases();
+
+    case TOOL_NAMES.DELETE_CASE:
+      return client.deleteCase({
+        caseId: args.caseId as string,
+      });
+
+    case TOOL_NAMES.GET_RUBRIC:
+      return client.getRubric({
+        id: args.id as number,
+        repertory: args.repertory as string | undefined,
+        query: args.query as string | undefined,
+      });
+
+    case TOOL_NAMES.BROWSE_RUBRIC_CHILDREN:
+      return client.browseRubricChildren({
+        id: args.id as number | undefined,
+        path: args.path as string | undefined,
+        query: args.query as string | undefined,
+        repertory: args.repertory as string | undefined,
+        depth: args.depth as number | undefined,
+      });
+
+    case TOOL_NAMES.SUGGEST_REPERTORY_QUERY:
+      return client.suggestRepertoryQuery({
+        symptom: args.symptom as string,
+      });
+
     default:
       throw new NotFoundError(`Unknown tool: ${toolName}`, 'tool', toolName);
   }
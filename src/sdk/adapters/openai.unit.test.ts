@@ -21,9 +21,9 @@ import type { OOREPClient, ResourceContent, PromptResult } from '../client.js';
 import { NotFoundError } from '../../utils/errors.js';
 
 describe('openAITools', () => {
-  it('when accessed then contains all five tools', () => {
+  it('when accessed then contains all fifteen tools', () => {
     // Assert
-    expect(openAITools).toHaveLength(5);
+    expect(openAITools).toHaveLength(16);
   });
 
   it('when accessed then all tools have correct type', () => {
@@ -39,6 +39,17 @@ describe('openAITools', () => {
     'get_remedy_info',
     'list_available_repertories',
     'list_available_materia_medicas',
+    'repertorize_case',
+    'cross_reference_symptoms',
+    'create_case',
+    'add_rubric_to_case',
+    'remove_rubric_from_case',
+    'get_case',
+    'list_cases',
+    'delete_case',
+    'get_rubric',
+    'browse_rubric_children',
+    'suggest_repertory_query',
   ])('when accessed then contains tool %s', (toolName) => {
     // Act
     const tool = openAITools.find((t) => t.function.name === toolName);
@@ -71,7 +82,7 @@ describe('getOpenAITools', () => {
     const tools = getOpenAITools();
 
     // Assert
-    expect(tools).toHaveLength(5);
+    expect(tools).toHaveLength(16);
   });
 
   it('when empty array filter then returns all tools', () => {
@@ -79,7 +90,7 @@ describe('getOpenAITools', () => {
     const tools = getOpenAITools([]);
 
     // Assert
-    expect(tools).toHaveLength(5);
+    expect(tools).toHaveLength(16);
   });
 
   it('when specific tools requested then returns only those tools', () => {
@@ -120,6 +131,18 @@ describe('executeOOREPTool', () => {
       getRemedyInfo: vi.fn().mockResolvedValue({ id: 1, nameAbbrev: 'Acon.' }),
       listRepertories: vi.fn().mockResolvedValue([{ abbreviation: 'kent' }]),
       listMateriaMedicas: vi.fn().mockResolvedValue([{ abbreviation: 'boericke' }]),
+      repertorizeCase: vi.fn().mockResolvedValue({ rubrics: [], remedies: [] }),
+      crossReferenceSymptoms: vi
+        .fn()
+        .mockResolvedValue({ queries: [], remedies: [], eliminated: [] }),
+      createCase: vi.fn().mockResolvedValue({ id: 'case-1', rubrics: [] }),
+      addRubricToCase: vi.fn().mockResolvedValue({ id: 'case-1', rubrics: [] }),
+      removeRubricFromCase: vi.fn().mockResolvedValue({ id: 'case-1', rubrics: [] }),
+      getCase: vi.fn().mockResolvedValue({ id: 'case-1', rubrics: [] }),
+      listCases: vi.fn().mockResolvedValue([]),
+      deleteCase: vi.fn().mockResolvedValue({ caseId: 'case-1', deleted: true }),
+      getRubric: vi.fn().mockResolvedValue({ rubric: {}, uri: '', ancestors: [] }),
+      browseRubricChildren: vi.fn().mockResolvedValue({ children: [] }),
     } as unknown as OOREPClient;
   });
 
@@ -195,6 +218,78 @@ describe('executeOOREPTool', () => {
     });
   });
 
+  it('when repertorize_case then calls client.repertorizeCase', async () => {
+    // Arrange
+    const args = { rubrics: [{ id: 12 }, { query: 'thirst*', intensity: 3 }], repertory: 'kent' };
+
+    // Act
+    await executeOOREPTool(mockClient, 'repertorize_case', args);
+
+    // Assert
+    expect(mockClient.repertorizeCase).toHaveBeenCalledWith({
+      rubrics: [{ id: 12 }, { query: 'thirst*', intensity: 3 }],
+      repertory: 'kent',
+    });
+  });
+
+  it('when cross_reference_symptoms then calls client.crossReferenceSymptoms', async () => {
+    // Arrange
+    const args = {
+      queries: [{ symptom: 'thirstless', eliminative: true }, { symptom: 'weeping' }],
+      maxRemedies: 10,
+    };
+
+    // Act
+    await executeOOREPTool(mockClient, 'cross_reference_symptoms', args);
+
+    // Assert
+    expect(mockClient.crossReferenceSymptoms).toHaveBeenCalledWith({
+      queries: [{ symptom: 'thirstless', eliminative: true }, { symptom: 'weeping' }],
+      maxRemedies: 10,
+    });
+  });
+
+  it('when add_rubric_to_case then calls client.addRubricToCase', async () => {
+    // Arrange
+    const args = { caseId: 'case-1', query: 'thirstless', intensity: 3 };
+
+    // Act
+    await executeOOREPTool(mockClient, 'add_rubric_to_case', args);
+
+    // Assert
+    expect(mockClient.addRubricToCase).toHaveBeenCalledWith({
+      caseId: 'case-1',
+      query: 'thirstless',
+      intensity: 3,
+    });
+  });
+
+  it('when list_cases then calls client.listCases', async () => {
+    // Act
+    const result = await executeOOREPTool(mockClient, 'list_cases', {});
+
+    // Assert
+    expect(mockClient.listCases).toHaveBeenCalled();
+    expect(result).toEqual([]);
+  });
+
+  it('when browse_rubric_children then calls client.browseRubricChildren', async () => {
+    // Arrange
+    const args = { path: 'Head, pain', repertory: 'kent', depth: 2 };
+
+    // Act
+    await executeOOREPTool(mockClient, 'browse_rubric_children', args);
+
+    // Assert
+    expect(mockClient.browseRubricChildren).toHaveBeenCalledWith({
+      id: undefined,
+      path: 'Head, pain',
+      query: undefined,
+      repertory: 'kent',
+      depth: 2,
+    });
+  });
+
   it('when unknown tool then throws NotFoundError', async () => {
     // Act & Assert
     await expect(executeOOREPTool(mockClient, 'unknown_tool', {})).rejects.toThrow(NotFoundError);
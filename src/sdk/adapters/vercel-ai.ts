@@ -22,7 +22,21 @@
  * ```
  */
 
-import { z } from '../../utils/schemas.js';
+import {
+  z,
+  type RemedyRankingName,
+  type RepertorizeCaseArgs,
+  type CrossReferenceSymptomsArgs,
+  type CreateCaseArgs,
+  type AddRubricToCaseArgs,
+  type RemoveRubricFromCaseArgs,
+  type GetCaseArgs,
+  type DeleteCaseArgs,
+  type GetRubricArgs,
+  type BrowseRubricChildrenArgs,
+  type SuggestRepertoryQueryArgs,
+  type RubricGroupBy,
+} from '../../utils/schemas.js';
 import type { OOREPClient } from '../client.js';
 import type { ResourceContent } from '../resources.js';
 import type { PromptResult } from '../prompts.js';
@@ -72,6 +86,10 @@ export function createOOREPTools(client: OOREPClient) {
           .optional()
           .describe('Repertory abbreviation. Use list_available_repertories to discover options.'),
         minWeight: z.number().min(1).max(4).optional().describe('Minimum remedy weight (1-4)'),
+        remedy: z
+          .string()
+          .optional()
+          .describe('Only return rubrics containing this remedy (name or abbreviation)'),
         maxResults: z
           .number()
           .min(1)
@@ -83,13 +101,36 @@ export function createOOREPTools(client: OOREPClient) {
           .optional()
           .default(true)
           .describe('Include remedy statistics'),
+        page: z.number().int().min(0).optional().describe('Zero-based result page'),
+        cursor: z
+          .string()
+          .optional()
+          .describe('nextCursor from a previous result. Takes precedence over page.'),
+        groupBy: z
+          .enum(['flat', 'tree', 'chapter'])
+          .optional()
+          .describe('Result layout: flat list, chapter groups, or rubric tree'),
+        ranking: z
+          .enum(['kent', 'boenninghausen', 'boger', 'small-remedy'])
+          .optional()
+          .describe('Remedy ranking strategy for remedyStats'),
+        autoTranslate: z
+          .boolean()
+          .optional()
+          .describe('Rewrite an everyday-language symptom into repertory terms first'),
       }),
       execute: async (args: {
         symptom: string;
         repertory?: string;
         minWeight?: number;
+        remedy?: string;
         maxResults?: number;
         includeRemedyStats?: boolean;
+        page?: number;
+        cursor?: string;
+        groupBy?: RubricGroupBy;
+        ranking?: RemedyRankingName;
+        autoTranslate?: boolean;
       }) => client.searchRepertory(args),
     },
 
@@ -110,12 +151,19 @@ export function createOOREPTools(client: OOREPClient) {
           .max(500)
           .optional()
           .describe('Maximum results. Defaults to client config maxResults when omitted.'),
+        page: z.number().int().min(0).optional().describe('Zero-based result page'),
+        cursor: z
+          .string()
+          .optional()
+          .describe('nextCursor from a previous result. Takes precedence over page.'),
       }),
       execute: async (args: {
         symptom: string;
         materiamedica?: string;
         remedy?: string;
         maxResults?: number;
+        page?: number;
+        cursor?: string;
       }) => client.searchMateriaMedica(args),
     },
 
@@ -142,6 +190,150 @@ export function createOOREPTools(client: OOREPClient) {
       }),
       execute: async (args: { language?: string }) => client.listMateriaMedicas(args),
     },
+
+    [TOOL_NAMES.REPERTORIZE_CASE]: {
+      description:
+        'Repertorize a case from selected rubrics. Returns a remedy × rubric grid ranked by sum of grades, sum of symptoms and coverage.',
+      parameters: z.object({
+        rubrics: z
+          .array(
+            z.object({
+              id: z.number().int().optional().describe('Rubric id from a search_repertory result'),
+              query: z.string().optional().describe('Repertory search for the rubric'),
+              repertory: z.string().optional().describe('Repertory abbreviation'),
+              intensity: z.number().int().min(1).max(4).optional().describe('Symptom importance'),
+            })
+          )
+          .min(1)
+          .max(50)
+          .describe('Rubrics selected for the case, each with an id, a query, or both'),
+        repertory: z.string().optional().describe('Default repertory for rubrics'),
+        minWeight: z.number().min(1).max(4).optional().describe('Minimum remedy grade (1-4)'),
+        maxRemedies: z.number().min(1).max(200).optional().describe('Top remedies per ranking'),
+      }),
+      execute: async (args: RepertorizeCaseArgs) => client.repertorizeCase(args),
+    },
+
+    [TOOL_NAMES.CROSS_REFERENCE_SYMPTOMS]: {
+      description:
+        'Run several repertory searches and rank remedies by how many queries they appear in. Remedies missing from an eliminative query are dropped and reported.',
+      parameters: z.object({
+        queries: z
+          .array(
+            z.object({
+              symptom: z.string().min(3).max(200).describe('Repertory search for one symptom'),
+              repertory: z.string().optional().describe('Repertory abbreviation'),
+              minWeight: z
+                .number()
+                .int()
+                .min(1)
+                .max(4)
+                .optional()
+                .describe('Minimum remedy weight'),
+              eliminative: z
+                .boolean()
+                .optional()
+                .describe('Drop remedies that do not appear in this query'),
+            })
+          )
+          .min(2)
+          .max(10)
+          .describe('Symptom queries to cross-reference'),
+        repertory: z.string().optional().describe('Default repertory for queries'),
+        minWeight: z.number().min(1).max(4).optional().describe('Default minimum remedy weight'),
+        maxRemedies: z.number().min(1).max(200).optional().describe('Number of remedies to return'),
+      }),
+      execute: async (args: CrossReferenceSymptomsArgs) => client.crossReferenceSymptoms(args),
+    },
+
+    [TOOL_NAMES.CREATE_CASE]: {
+      description:
+        'Create an empty saved case and return it with its id. Use the id with the other case tools to build up the case across turns.',
+      parameters: z.object({
+        name: z.string().min(1).max(200).describe('Name of the case'),
+        notes: z.string().max(2000).optional().describe('Free-text notes about the case'),
+      }),
+      execute: async (args: CreateCaseArgs) => client.createCase(args),
+    },
+
+    [TOOL_NAMES.ADD_RUBRIC_TO_CASE]: {
+      description:
+        'Add a rubric to a saved case, selected by id (from search results), by query (first matching rubric), or both.',
+      parameters: z.object({
+        caseId: z.string().describe('Case id returned by create_case'),
+        id: z.number().int().positive().optional().describe('Rubric id from a previous search'),
+        query: z.string().min(3).max(200).optional().describe('Repertory search for the rubric'),
+        repertory: z.string().optional().describe('Repertory abbreviation'),
+        intensity: z.number().int().min(1).max(4).optional().describe('Symptom importance (1-4)'),
+        minWeight: z.number().int().min(1).max(4).optional().describe('Minimum remedy grade'),
+      }),
+      execute: async (args: AddRubricToCaseArgs) => client.addRubricToCase(args),
+    },
+
+    [TOOL_NAMES.REMOVE_RUBRIC_FROM_CASE]: {
+      description: 'Remove a rubric from a saved case by its rubric id or zero-based position.',
+      parameters: z.object({
+        caseId: z.string().describe('Case id returned by create_case'),
+        rubricId: z.number().int().positive().optional().describe('Rubric id to remove'),
+        index: z.number().int().min(0).optional().describe('Position of the rubric in the case'),
+      }),
+      execute: async (args: RemoveRubricFromCaseArgs) => client.removeRubricFromCase(args),
+    },
+
+    [TOOL_NAMES.GET_CASE]: {
+      description: 'Get a saved case with its rubrics, optionally repertorized.',
+      parameters: z.object({
+        caseId: z.string().describe('Case id returned by create_case'),
+        repertorize: z.boolean().optional().describe('Also repertorize the case rubrics'),
+        maxRemedies: z.number().min(1).max(200).optional().describe('Top remedies per ranking'),
+      }),
+      execute: async (args: GetCaseArgs) => client.getCase(args),
+    },
+
+    [TOOL_NAMES.LIST_CASES]: {
+      description: 'List saved cases with their rubric counts, most recently updated first.',
+      parameters: z.object({}),
+      execute: async () => client.listCases(),
+    },
+
+    [TOOL_NAMES.DELETE_CASE]: {
+      description: 'Delete a saved case.',
+      parameters: z.object({
+        caseId: z.string().describe('Case id returned by create_case'),
+      }),
+      execute: async (args: DeleteCaseArgs) => client.deleteCase(args),
+    },
+
+    [TOOL_NAMES.GET_RUBRIC]: {
+      description: 'Look up a rubric by its search_repertory id, with its ancestors and parent.',
+      parameters: z.object({
+        id: z.number().int().positive().describe('Rubric id from a search_repertory result'),
+        repertory: z.string().optional().describe('Repertory abbreviation'),
+        query: z.string().optional().describe('Search that finds the rubric if not seen yet'),
+      }),
+      execute: async (args: GetRubricArgs) => client.getRubric(args),
+    },
+
+    [TOOL_NAMES.BROWSE_RUBRIC_CHILDREN]: {
+      description: 'List the sub-rubrics below a rubric, given its id or full path.',
+      parameters: z.object({
+        id: z.number().int().positive().optional().describe('Id of the parent rubric'),
+        path: z.string().optional().describe('Full path of the parent rubric, e.g. "Head, pain"'),
+        query: z.string().optional().describe('Search that finds the parent if not seen yet'),
+        repertory: z.string().optional().describe('Repertory abbreviation'),
+        depth: z.number().int().min(1).max(5).optional().describe('Levels of sub-rubrics'),
+      }),
+      execute: async (args: BrowseRubricChildrenArgs) => client.browseRubricChildren(args),
+    },
+
+    [TOOL_NAMES.SUGGEST_REPERTORY_QUERY]: {
+      description:
+        'Translate a symptom in everyday words into a repertory query for search_repertory.',
+      parameters: z.object({
+        symptom: z.string().describe('Symptom in natural language'),
+      }),
+      execute: async (args: SuggestRepertoryQueryArgs) => client.suggestRepertoryQuery(args),
+    },
   };
 }
 
@@ -204,6 +396,50 @@ export function createListMateriaMedicasTool(client: OOREPClient) {
   return createOOREPTools(client).list_available_materia_medicas;
 }
 
+export function createRepertorizeCaseTool(client: OOREPClient) {
+  return createOOREPTools(client).repertorize_case;
+}
+
+export function createCrossReferenceSymptomsTool(client: OOREPClient) {
+  return createOOREPTools(client).cross_reference_symptoms;
+}
+
+export function createCreateCaseTool(client: OOREPClient) {
+  return createOOREPTools(client).create_case;
+}
+
+export function createAddRubricToCaseTool(client: OOREPClient) {
+  return createOOREPTools(client).add_rubric_to_case;
+}
+
+export function createRemoveRubricFromCaseTool(client: OOREPClient) {
+  return createOOREPTools(client).remove_rubric_from_case;
+}
+
+export function createGetCaseTool(client: OOREPClient) {
+  return createOOREPTools(client).get_case;
+}
+
+export function createListCasesTool(client: OOREPClient) {
+  return createOOREPTools(client).list_cases;
+}
+
+export function createDeleteCaseTool(client: OOREPClient) {
+  return createOOREPTools(client).delete_case;
+}
+
+export function createGetRubricTool(client: OOREPClient) {
+  return createOOREPTools(client).get_rubric;
+}
+
+export function createBrowseRubricChildrenTool(client: OOREPClient) {
+  return createOOREPTools(client).browse_rubric_children;
+}
+
+export function createSuggestRepertoryQueryTool(client: OOREPClient) {
+  return createOOREPTools(client).suggest_repertory_query;
+}
+
 /**
  * Vercel AI SDK system message format for resources
  */
@@ -12,6 +12,7 @@ import {
   createGetRemedyInfoTool,
   createListRepertoriesTool,
   createListMateriaMedicasTool,
+  createRepertorizeCaseTool,
   vercelAIFormatResourceAsSystemMessage,
   vercelAIFormatResourcesAsContext,
   convertPromptToVercelAI,
@@ -31,20 +32,33 @@ describe('createOOREPTools', () => {
       getRemedyInfo: vi.fn().mockResolvedValue({ id: 1, nameAbbrev: 'Acon.' }),
       listRepertories: vi.fn().mockResolvedValue([{ abbreviation: 'kent' }]),
       listMateriaMedicas: vi.fn().mockResolvedValue([{ abbreviation: 'boericke' }]),
+      repertorizeCase: vi.fn().mockResolvedValue({ rubrics: [], remedies: [] }),
+      crossReferenceSymptoms: vi
+        .fn()
+        .mockResolvedValue({ queries: [], remedies: [], eliminated: [] }),
+      createCase: vi.fn().mockResolvedValue({ id: 'case-1', rubrics: [] }),
+      addRubricToCase: vi.fn().mockResolvedValue({ id: 'case-1', rubrics: [] }),
+      removeRubricFromCase: vi.fn().mockResolvedValue({ id: 'case-1', rubrics: [] }),
+      getCase: vi.fn().mockResolvedValue({ id: 'case-1', rubrics: [] }),
+      listCases: vi.fn().mockResolvedValue([]),
+      deleteCase: vi.fn().mockResolvedValue({ caseId: 'case-1', deleted: true }),
+      getRubric: vi.fn().mockResolvedValue({ rubric: {}, uri: '', ancestors: [] }),
+      browseRubricChildren: vi.fn().mockResolvedValue({ children: [] }),
     } as unknown as OOREPClient;
   });
 
-  it('when called then returns object with all five tools', () => {
+  it('when called then returns object with all fifteen tools', () => {
     // Act
     const tools = createOOREPTools(mockClient);
 
     // Assert
-    expect(Object.keys(tools)).toHaveLength(5);
+    expect(Object.keys(tools)).toHaveLength(16);
     expect(tools.search_repertory).toBeDefined();
     expect(tools.search_materia_medica).toBeDefined();
     expect(tools.get_remedy_info).toBeDefined();
     expect(tools.list_available_repertories).toBeDefined();
     expect(tools.list_available_materia_medicas).toBeDefined();
+    expect(tools.repertorize_case).toBeDefined();
   });
 
   describe('tool structure', () => {
@@ -191,6 +205,35 @@ describe('createOOREPTools', () => {
       expect(mockClient.listMateriaMedicas).toHaveBeenCalledWith(args);
     });
   });
+
+  describe('create_case tool', () => {
+    it('when executed then calls client.createCase', async () => {
+      // Arrange
+      const tools = createOOREPTools(mockClient);
+      const args = { name: 'Patient A', notes: 'Follow-up in 4 weeks' };
+
+      // Act
+      const result = await tools.create_case.execute(args);
+
+      // Assert
+      expect(mockClient.createCase).toHaveBeenCalledWith(args);
+      expect(result).toEqual({ id: 'case-1', rubrics: [] });
+    });
+  });
+
+  describe('get_rubric tool', () => {
+    it('when executed then calls client.getRubric', async () => {
+      // Arrange
+      const tools = createOOREPTools(mockClient);
+      const args = { id: 42, repertory: 'kent' };
+
+      // Act
+      await tools.get_rubric.execute(args);
+
+      // Assert
+      expect(mockClient.getRubric).toHaveBeenCalledWith(args);
+    });
+  });
 });
 
 describe('getOOREPTools', () => {
@@ -363,6 +406,26 @@ describe('individual tool creators', () => {
       expect(mockClient.listMateriaMedicas).toHaveBeenCalled();
     });
   });
+
+  describe('createRepertorizeCaseTool', () => {
+    it('when called then returns repertorize_case tool', () => {
+      // Act
+      const tool = createRepertorizeCaseTool(mockClient);
+
+      // Assert
+      expect(tool.description).toContain('Repertorize');
+      expect(tool.execute).toBeDefined();
+    });
+
+    it('when rubric list is empty then parameters reject it', () => {
+      // Act
+      const tool = createRepertorizeCaseTool(mockClient);
+
+      // Assert
+      expect(tool.parameters.safeParse({ rubrics: [] }).success).toBe(false);
+      expect(tool.parameters.safeParse({ rubrics: [{ id: 3 }] }).success).toBe(true);
+    });
+  });
 });
 
 describe('vercelAIFormatResourceAsSystemMessage', () => {
@@ -466,6 +466,53 @@ describe('OOREPClient Integration Tests', () => {
     });
   });
 
+  describe('rubric memory', () => {
+    it('when a search returns more rubrics than the cache holds then keeps catalogue and earlier rubrics', async () => {
+      const rubricsResponse = (firstId: number) =>
+        createMockResponse(
+          [
+            {
+              totalNumberOfResults: 6,
+              results: Array.from({ length: 6 }, (_, i) => ({
+                rubric: { id: firstId + i, fullPath: `Head, pain ${firstId + i}` },
+                repertoryAbbrev: 'kent',
+                weightedRemedies: [
+                  { remedy: { nameAbbrev: 'Bell.', nameLong: 'Belladonna' }, weight: 2 },
+                ],
+              })),
+            },
+            [],
+          ],
+          200,
+          { 'set-cookie': 'session=test123' }
+        );
+      mockFetch
+        .mockResolvedValueOnce(createSessionResponse()) // session init
+        .mockResolvedValueOnce(createSessionResponse()) // getAvailableRemedies
+        .mockResolvedValueOnce(rubricsResponse(100))
+        .mockResolvedValueOnce(rubricsResponse(200));
+
+      const client = new OOREPClient({ cacheMaxEntries: 3 });
+
+      await client.getRemedyInfo({ remedy: 'acon' });
+      await client.searchRepertory({ symptom: 'head pain', repertory: 'kent' });
+      await client.searchRepertory({ symptom: 'head ache', repertory: 'kent' });
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+
+      const remedy = await client.getRemedyInfo({ remedy: 'acon' });
+      const result = await client.repertorizeCase({
+        rubrics: [{ id: 100 }, { id: 205 }],
+        repertory: 'kent',
+      });
+
+      expect(remedy?.nameAbbrev).toBe('Acon.');
+      expect(result.rubrics.map((rubric) => rubric.id)).toEqual([100, 205]);
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+
+      client.destroy();
+    });
+  });
+
   describe('searchMateriaMedica', () => {
     it('when valid symptom then returns formatted results', async () => {
       mockFetch
@@ -7,11 +7,19 @@
  * Fully supports dependency injection for extensibility.
  */
 
-import { OOREPHttpClient } from '../lib/oorep-client.js';
-import { InMemoryCache } from '../lib/cache.js';
+import { randomUUID } from 'node:crypto';
+import { join } from 'node:path';
+import {
+  OOREPHttpClient,
+  type OOREPCallOptions,
+  type ProgressCallback,
+} from '../lib/oorep-client.js';
+import { FileSystemCache, InMemoryCache } from '../lib/cache.js';
+import { InMemoryCaseStore } from '../lib/case-store.js';
 import { MapRequestDeduplicator } from '../lib/deduplicator.js';
 import { ConsoleLogger } from '../utils/logger.js';
 import type { ICache } from '../interfaces/ICache.js';
+import type { ICaseStore } from '../interfaces/ICaseStore.js';
 import type { IRequestDeduplicator } from '../interfaces/IRequestDeduplicator.js';
 import type { ILogger } from '../interfaces/ILogger.js';
 import {
@@ -19,20 +27,107 @@ import {
   formatMateriaMedicaResults,
   generateCacheKey,
 } from '../lib/data-formatter.js';
+import { resolvePagePosition } from '../lib/pagination.js';
+import {
+  readCachedValue,
+  resolveCacheTtls,
+  toCachedValue,
+  type CachedOperation,
+  type CacheReadPolicy,
+  type CacheTtlPolicy,
+} from '../lib/cache-policy.js';
+import { suggestRepertoryQueries } from '../lib/query-suggestions.js';
+import { translateSymptomQuery } from '../lib/query-translator.js';
+import { repertorize, type SelectedCaseRubric } from '../lib/repertorization.js';
+import { crossReference, type CrossReferenceQueryOutcome } from '../lib/cross-reference.js';
+import {
+  buildRubricSubtree,
+  getParentRubricPath,
+  getRubricAncestorPaths,
+  getRubricPathQuery,
+  getRubricPathSegments,
+  isRubricDescendant,
+  normalizeRubricPath,
+  pruneRubricTree,
+} from '../lib/rubric-tree.js';
+import { expandUriTemplate } from '../lib/uri-template.js';
+import {
+  CancelledError,
+  NotFoundError,
+  ValidationError,
+  sanitizeError,
+  throwIfCancelled,
+} from '../utils/errors.js';
 import { validateSymptom, validateRemedyName, validateLanguage } from '../utils/validation.js';
 import {
+  RemoteUserSchema,
   SearchRepertoryArgsSchema,
   SearchMateriaMedicaArgsSchema,
   GetRemedyInfoArgsSchema,
   ListRepertoriesArgsSchema,
   ListMateriaMedicasArgsSchema,
+  RepertorizeCaseArgsSchema,
+  CrossReferenceSymptomsArgsSchema,
+  CreateCaseArgsSchema,
+  AddRubricToCaseArgsSchema,
+  RemoveRubricFromCaseArgsSchema,
+  GetCaseArgsSchema,
+  DeleteCaseArgsSchema,
+  GetRubricArgsSchema,
+  BrowseRubricChildrenArgsSchema,
+  SuggestRepertoryQueryArgsSchema,
+  type AddRubricToCaseArgs,
+  type BrowseRubricChildrenArgs,
+  type CaseDetails,
+  type CaseRubricSelection,
+  type CaseSummary,
+  type CreateCaseArgs,
+  type CrossReferenceSymptomsArgs,
+  type CrossReferenceResult,
+  type DeleteCaseArgs,
+  type DeleteCaseResult,
+  type GetCaseArgs,
+  type GetRubricArgs,
+  type RemoveRubricFromCaseArgs,
+  type RepertorizeCaseArgs,
+  type RepertorizationResult,
+  type RepertoryQueryTranslation,
   type RepertorySearchResult,
+  type Rubric,
+  type RubricChildrenResult,
+  type RubricDetails,
+  type RubricGroupBy,
+  type RubricTreeNode,
+  type RemedyRankingName,
+  type SavedCase,
+  type SuggestRepertoryQueryArgs,
   type MateriaMedicaSearchResult,
+  type MateriaMedicaResult,
   type RemedyInfo,
   type RepertoryMetadata,
   type MateriaMedicaMetadata,
 } from '../utils/schemas.js';
-import { DEFAULTS } from './constants.js';
+import { DEFAULTS, RESOURCE_URI_TEMPLATES } from './constants.js';
+
+export type { OOREPCallOptions, ProgressCallback };
+
+/** Largest page size accepted by the search schemas, used when iterating all pages */
+const MAX_PAGE_SIZE = 500;
+
+/** Most rubrics fetched when discovering the sub-rubrics of one parent */
+const MAX_BROWSE_RUBRICS = 2000;
+
+/** Most rubrics remembered by ID and path, two entries per rubric */
+const RUBRIC_MEMORY_MAX_ENTRIES = 20000;
+
+/**
+ * Sub-rubrics discovered below one parent path, cached at full depth
+ */
+type DiscoveredRubricChildren = {
+  rubric?: Rubric;
+  children: RubricTreeNode[];
+  partial: boolean;
+};
 
 /**
  * Helper function for partial remedy name matching
@@ -69,13 +164,40 @@ export interface OOREPSDKConfig {
   timeoutMs?: number;
   /** Cache TTL in milliseconds (default: 300000 = 5 minutes) */
   cacheTtlMs?: number;
+  /** Most entries the default cache keeps before evicting the least recently used, 0 for no limit (default: 1000) */
+  cacheMaxEntries?: number;
+  /** Approximate memory limit of the default cache in bytes, 0 for no limit (default: 52428800 = 50 MB) */
+  cacheMaxBytes?: number;
+  /**
+   * Directory for a persistent cache that survives restarts (default: in memory).
+   * The entry and byte limits then apply to the files on disk.
+   */
+  cacheDir?: string;
+  /**
+   * Cache TTLs in milliseconds for individual operations, e.g. `{ listRemedies: 86400000 }`.
+   * Operations not listed use cacheTtlMs; 0 disables caching for an operation.
+   */
+  cacheTtls?: CacheTtlPolicy;
+  /**
+   * Keep serving a cached result for up to this long after it expires, while it is
+   * refreshed in the background (default: 0 = off)
+   */
+  staleWhileRevalidateMs?: number;
+  /**
+   * Cache TTL in milliseconds for searches that found nothing, capped by the
+   * operation's TTL (default: 60000 = 1 minute, 0 = do not cache them)
+   */
+  negativeCacheTtlMs?: number;
   /** Maximum results to return from searches (default: 100, max: 500) */
   maxResults?: number;
   /**
    * Optional numeric OOREP member ID to send via X-Remote-User header.
    * Useful for self-hosted OOREP deployments behind a reverse proxy auth layer.
+   * Search and list methods also accept `remoteUser` to act as another member for one call.
    */
   remoteUser?: string;
+  /** Drop a member's OOREP session after this long without requests (default: 1800000 = 30 minutes) */
+  sessionIdleMs?: number;
   /** Default repertory abbreviation (default: publicum) */
   defaultRepertory?: string;
   /** Default materia medica abbreviation (default: boericke) */
@@ -90,12 +212,20 @@ export interface OOREPSDKConfig {
   logger?: ILogger;
   /** Custom OOREP HTTP client (advanced usage) */
   httpClient?: OOREPHttpClient;
+  /** Custom store for saved cases (default: in-memory) */
+  caseStore?: ICaseStore;
 }
 
 type NormalizedSDKConfig = {
   baseUrl: string;
   timeoutMs: number;
   cacheTtlMs: number;
+  cacheMaxEntries: number;
+  cacheMaxBytes: number;
+  cacheDir?: string;
+  cacheTtls: Record<CachedOperation, number>;
+  staleWhileRevalidateMs: number;
+  negativeCacheTtlMs: number;
   maxResults: number;
   remoteUser?: string;
   defaultRepertory: string;
@@ -109,9 +239,13 @@ type NormalizedSDKConfig = {
 export class OOREPClient {
   private httpClient: OOREPHttpClient;
   private cache: ICache;
+  private rubricMemory: ICache;
   private deduplicator: IRequestDeduplicator;
   private logger: ILogger;
+  private caseStore: ICaseStore;
   private config: NormalizedSDKConfig;
+  // Last pending mutation per case ID, so concurrent updates to one case apply in turn
+  private caseMutations = new Map<string, Promise<SavedCase>>();
 
   private normalizeOverride(value: string | undefined, fallback: string): string {
     const trimmed = value?.trim();
@@ -124,6 +258,12 @@ export class OOREPClient {
       baseUrl: config.baseUrl ?? DEFAULTS.BASE_URL,
       timeoutMs: config.timeoutMs ?? DEFAULTS.TIMEOUT_MS,
       cacheTtlMs: config.cacheTtlMs ?? DEFAULTS.CACHE_TTL_MS,
+      cacheMaxEntries: config.cacheMaxEntries ?? DEFAULTS.CACHE_MAX_ENTRIES,
+      cacheMaxBytes: config.cacheMaxBytes ?? DEFAULTS.CACHE_MAX_BYTES,
+      cacheDir: config.cacheDir?.trim() || undefined,
+      cacheTtls: resolveCacheTtls(config.cacheTtlMs ?? DEFAULTS.CACHE_TTL_MS, config.cacheTtls),
+      staleWhileRevalidateMs: config.staleWhileRevalidateMs ?? 0,
+      negativeCacheTtlMs: config.negativeCacheTtlMs ?? DEFAULTS.NEGATIVE_CACHE_TTL_MS,
       maxResults: Math.min(Math.max(config.maxResults ?? DEFAULTS.MAX_RESULTS, 1), 500),
       remoteUser: config.remoteUser,
       defaultRepertory: config.defaultRepertory ?? DEFAULTS.REPERTORY,
@@ -133,8 +273,35 @@ export class OOREPClient {
     // Set up injectable dependencies with sensible defaults
     // User-provided implementations are responsible for their own error handling
     this.logger = config.logger ?? new ConsoleLogger('warn');
-    this.cache = config.cache ?? new InMemoryCache(this.config.cacheTtlMs, this.logger);
+    const cacheLimits = {
+      maxEntries: this.config.cacheMaxEntries,
+      maxBytes: this.config.cacheMaxBytes,
+    };
+    // Freshness is checked per operation on read, so the store keeps entries for the longest TTL
+    const storeTtlMs =
+      Math.max(this.config.cacheTtlMs, ...Object.values(this.config.cacheTtls)) +
+      this.config.staleWhileRevalidateMs;
+    this.cache =
+      config.cache ??
+      (this.config.cacheDir
+        ? new FileSystemCache(this.config.cacheDir, storeTtlMs, this.logger, cacheLimits)
+        : new InMemoryCache(storeTtlMs, this.logger, cacheLimits));
+    // Rubrics seen in results are kept apart from cached results, so a large search or
+    // browse cannot evict catalogue entries or rubrics remembered earlier
+    const rubricLimits = {
+      maxEntries: RUBRIC_MEMORY_MAX_ENTRIES,
+      maxBytes: this.config.cacheMaxBytes,
+    };
+    this.rubricMemory = this.config.cacheDir
+      ? new FileSystemCache(
+          join(this.config.cacheDir, 'rubrics'),
+          storeTtlMs,
+          this.logger,
+          rubricLimits
+        )
+      : new InMemoryCache(storeTtlMs, this.logger, rubricLimits);
     this.deduplicator = config.deduplicator ?? new MapRequestDeduplicator(this.logger);
+    this.caseStore = config.caseStore ?? new InMemoryCaseStore();
 
     this.httpClient =
       config.httpClient ??
@@ -143,6 +310,7 @@ export class OOREPClient {
           baseUrl: this.config.baseUrl,
           timeoutMs: this.config.timeoutMs,
           remoteUser: this.config.remoteUser,
+          sessionIdleMs: config.sessionIdleMs,
           defaultRepertory: this.config.defaultRepertory,
           defaultMateriaMedica: this.config.defaultMateriaMedica,
         },
@@ -152,66 +320,177 @@ export class OOREPClient {
 
   /**
    * Search for symptoms in homeopathic repertories
+   *
+   * Returns a single page of results. Pass `page` (zero-based) or the `nextCursor`
+   * from a previous result as `cursor` to fetch subsequent pages. When nothing
+   * matches, `suggestions` lists broader queries to try, and the empty result is
+   * cached only for `negativeCacheTtlMs`. With `autoTranslate`, a natural-language
+   * symptom is rewritten by translateSymptomQuery and the query sent is returned
+   * as `translatedQuery`.
+   *
+   * @param options - Signal to cancel the search and callback for retry progress
    */
-  async searchRepertory(args: {
-    symptom: string;
-    repertory?: string;
-    minWeight?: number;
-    maxResults?: number;
-    includeRemedyStats?: boolean;
-  }): Promise<RepertorySearchResult> {
+  async searchRepertory(
+    args: {
+      symptom: string;
+      repertory?: string;
+      minWeight?: number;
+      remedy?: string;
+      maxResults?: number;
+      includeRemedyStats?: boolean;
+      page?: number;
+      cursor?: string;
+      groupBy?: RubricGroupBy;
+      ranking?: RemedyRankingName;
+      autoTranslate?: boolean;
+      remoteUser?: string;
+    },
+    options: OOREPCallOptions = {}
+  ): Promise<RepertorySearchResult> {
     const validated = SearchRepertoryArgsSchema.parse(args);
     validateSymptom(validated.symptom);
+    // Translated searches share cache entries with the same query typed directly
+    const symptom = validated.autoTranslate
+      ? translateSymptomQuery(validated.symptom).query
+      : validated.symptom;
+    const remoteUser = validated.remoteUser ?? this.config.remoteUser;
 
     // Trim whitespace overrides and apply default repertory consistently for cache and API
     const repertory = this.normalizeOverride(validated.repertory, this.config.defaultRepertory);
     const maxResults =
       args.maxResults !== undefined ? validated.maxResults : this.config.maxResults;
+    const { page, offset } = resolvePagePosition(validated);
+    const remedy = validated.remedy?.trim()
+      ? await this.resolveRemedyFilter(validated.remedy, remoteUser, options)
+      : undefined;
 
     const cacheKey = generateCacheKey('repertory', {
-      remoteUser: this.config.remoteUser,
-      symptom: validated.symptom,
+      remoteUser,
+      symptom,
       repertory,
       minWeight: validated.minWeight,
+      remedy,
       maxResults,
       includeRemedyStats: validated.includeRemedyStats,
+      page,
+      offset,
+      groupBy: validated.groupBy,
+      ranking: validated.ranking,
     });
 
-    const cached = (await this.cache.get(cacheKey)) as RepertorySearchResult | null;
-    if (cached) return cached;
+    const result = await this.readThrough(
+      cacheKey,
+      'searchRepertory',
+      options,
+      async (fetchOptions) => {
+        const apiResponse = await this.httpClient.lookupRepertory({
+          symptom,
+          repertory,
+          minWeight: validated.minWeight,
+          remedy,
+          includeRemedyStats: validated.includeRemedyStats,
+          page,
+          remoteUser,
+          ...fetchOptions,
+        });
 
-    return this.deduplicator.deduplicate(cacheKey, async () => {
-      const apiResponse = await this.httpClient.lookupRepertory({
-        symptom: validated.symptom,
-        repertory,
-        minWeight: validated.minWeight,
-        includeRemedyStats: validated.includeRemedyStats,
-      });
+        const result = formatRepertoryResults(apiResponse, {
+          includeRemedyStats: validated.includeRemedyStats,
+          maxResults,
+          offset,
+          groupBy: validated.groupBy,
+          ranking: validated.ranking,
+          symptom,
+        });
 
-      const result = formatRepertoryResults(apiResponse, {
-        includeRemedyStats: validated.includeRemedyStats,
-        maxResults,
-      });
+        if (result.totalResults === 0) {
+          result.suggestions = suggestRepertoryQueries(symptom);
+        }
+        await this.rememberRubrics(result.rubrics, remoteUser);
+        return result;
+      },
+      (result) => result.totalResults === 0
+    );
+    return symptom !== validated.symptom ? { ...result, translatedQuery: symptom } : result;
+  }
 
-      await this.cache.set(cacheKey, result);
-      return result;
-    });
+  /**
+   * Iterate over every matching rubric across all result pages
+   *
+   * Pages are fetched lazily through searchRepertory, so each page is cached and
+   * deduplicated like a regular search. `maxResults` caps rubrics per request and
+   * defaults to the largest allowed page size; iteration follows `nextCursor`, so
+   * pages cut short by it are resumed rather than skipped.
+   *
+   * @example
+   * ```typescript
+   * for await (const rubric of client.iterateRepertory({ symptom: 'head*' })) {
+   *   console.log(rubric.rubric);
+   * }
+   * ```
+   */
+  async *iterateRepertory(
+    args: {
+      symptom: string;
+      repertory?: string;
+      minWeight?: number;
+      remedy?: string;
+      maxResults?: number;
+      remoteUser?: string;
+    },
+    options: OOREPCallOptions = {}
+  ): AsyncGenerator<Rubric, void, undefined> {
+    let cursor: string | undefined;
+
+    do {
+      throwIfCancelled(options.signal);
+      const result = await this.searchRepertory(
+        {
+          ...args,
+          maxResults: args.maxResults ?? MAX_PAGE_SIZE,
+          includeRemedyStats: false,
+          cursor,
+        },
+        options
+      );
+
+      yield* result.rubrics;
+
+      cursor = result.nextCursor;
+      if (cursor !== undefined && !result.pageTruncated) {
+        options.onProgress?.(
+          `Fetched repertory page ${(result.currentPage ?? 0) + 1} of ${result.totalPages}`
+        );
+      }
+    } while (cursor !== undefined);
   }
 
   /**
    * Search materia medica texts for remedy descriptions
+   *
+   * Returns a single page of remedy chapters. `remedyHits` always lists the hit
+   * counts for every matching chapter, so callers can see what later pages hold.
+   *
+   * @param options - Signal to cancel the search and callback for retry progress
    */
-  async searchMateriaMedica(args: {
-    symptom: string;
-    materiamedica?: string;
-    remedy?: string;
-    maxResults?: number;
-  }): Promise<MateriaMedicaSearchResult> {
+  async searchMateriaMedica(
+    args: {
+      symptom: string;
+      materiamedica?: string;
+      remedy?: string;
+      maxResults?: number;
+      page?: number;
+      cursor?: string;
+      remoteUser?: string;
+    },
+    options: OOREPCallOptions = {}
+  ): Promise<MateriaMedicaSearchResult> {
     const validated = SearchMateriaMedicaArgsSchema.parse(args);
     validateSymptom(validated.symptom);
     if (validated.remedy !== undefined) {
       validateRemedyName(validated.remedy);
     }
+    const remoteUser = validated.remoteUser ?? this.config.remoteUser;
 
     // Trim whitespace overrides and apply default materia medica consistently for cache and API
     const materiamedica = this.normalizeOverride(
@@ -220,48 +499,832 @@ export class OOREPClient {
     );
     const maxResults =
       args.maxResults !== undefined ? validated.maxResults : this.config.maxResults;
+    const { page, offset, pageSize: cursorPageSize } = resolvePagePosition(validated);
 
     const cacheKey = generateCacheKey('mm', {
-      remoteUser: this.config.remoteUser,
+      remoteUser,
       symptom: validated.symptom,
       materiamedica,
       remedy: validated.remedy,
       maxResults,
+      page,
+      offset,
     });
 
-    const cached = (await this.cache.get(cacheKey)) as MateriaMedicaSearchResult | null;
-    if (cached) return cached;
-
-    return this.deduplicator.deduplicate(cacheKey, async () => {
-      const apiResponse = await this.httpClient.lookupMateriaMedica({
+    return this.readThrough(cacheKey, 'searchMateriaMedica', options, async (fetchOptions) => {
+      const query = {
         symptom: validated.symptom,
         materiamedica,
         remedy: validated.remedy,
+        remoteUser,
+      };
+      const apiResponse = await this.httpClient.lookupMateriaMedica({
+        ...query,
+        page,
+        ...fetchOptions,
+      });
+      const pageSize =
+        page === 0
+          ? undefined
+          : (cursorPageSize ?? (await this.getMateriaMedicaPageSize(query, fetchOptions)));
+
+      return formatMateriaMedicaResults(apiResponse, maxResults, page, pageSize, offset);
+    });
+  }
+
+  /**
+   * Number of remedy chapters OOREP returns per materia medica page
+   *
+   * lookup_mm does not report its page size and any later page may be the short
+   * last one, so the size is read from the length of page 0 and cached.
+   */
+  private async getMateriaMedicaPageSize(
+    query: { symptom: string; materiamedica: string; remedy?: string; remoteUser?: string },
+    options: OOREPCallOptions
+  ): Promise<number> {
+    const cacheKey = generateCacheKey('mm-page-size', query);
+
+    return this.readThrough(cacheKey, 'searchMateriaMedica', options, async (fetchOptions) => {
+      const apiResponse = await this.httpClient.lookupMateriaMedica({
+        ...query,
+        page: 0,
+        ...fetchOptions,
+      });
+      return apiResponse?.results.length ?? 0;
+    });
+  }
+
+  /**
+   * Iterate over every matching remedy chapter across all result pages
+   *
+   * Stops once every chapter listed in `remedyHits` has been yielded or OOREP
+   * returns an empty page.
+   *
+   * @example
+   * ```typescript
+   * for await (const chapter of client.iterateMateriaMedica({ symptom: 'anxiety' })) {
+   *   console.log(chapter.remedy, chapter.hitCount);
+   * }
+   * ```
+   */
+  async *iterateMateriaMedica(
+    args: {
+      symptom: string;
+      materiamedica?: string;
+      remedy?: string;
+      remoteUser?: string;
+    },
+    options: OOREPCallOptions = {}
+  ): AsyncGenerator<MateriaMedicaResult, void, undefined> {
+    let cursor: string | undefined;
+    let seen = 0;
+
+    do {
+      throwIfCancelled(options.signal);
+      const result = await this.searchMateriaMedica(
+        {
+          ...args,
+          maxResults: MAX_PAGE_SIZE,
+          cursor,
+        },
+        options
+      );
+
+      yield* result.results;
+
+      // The cursor carries the page size learned from page 0, so no extra lookups are needed
+      seen += result.results.length;
+      cursor = result.nextCursor;
+      if (cursor !== undefined) {
+        options.onProgress?.(`Fetched ${seen} of ${result.totalRemedies} materia medica chapters`);
+      }
+    } while (cursor !== undefined);
+  }
+
+  /**
+   * Repertorize a case from a list of selected rubrics
+   *
+   * Each rubric is selected by `id` (from an earlier search), by `query` (first
+   * matching rubric), or by both (that rubric within the query's results), with
+   * an optional intensity (1-4). Rubrics that cannot be resolved are reported in
+   * `unresolved` instead of failing the whole case.
+   *
+   * @param options - Signal to cancel the case and callback called after each rubric
+   * @throws {ValidationError} If none of the selected rubrics can be resolved
+   */
+  async repertorizeCase(
+    args: RepertorizeCaseArgs & { remoteUser?: string },
+    options: OOREPCallOptions = {}
+  ): Promise<RepertorizationResult> {
+    const validated = RepertorizeCaseArgsSchema.parse(args);
+    const remoteUser = RemoteUserSchema.optional().parse(args.remoteUser) ?? this.config.remoteUser;
+
+    const selected: SelectedCaseRubric[] = [];
+    const unresolved: NonNullable<RepertorizationResult['unresolved']> = [];
+
+    for (const [index, selection] of validated.rubrics.entries()) {
+      throwIfCancelled(options.signal);
+      const repertory = this.normalizeOverride(
+        selection.repertory ?? validated.repertory,
+        this.config.defaultRepertory
+      );
+      const rubric = await this.resolveCaseRubric(
+        selection,
+        repertory,
+        validated.minWeight,
+        remoteUser,
+        options
+      );
+      options.onProgress?.(`Resolved rubric ${index + 1} of ${validated.rubrics.length}`);
+      if (rubric) {
+        selected.push({ index, rubric, intensity: selection.intensity ?? 1 });
+      } else {
+        unresolved.push({
+          index,
+          id: selection.id,
+          query: selection.query,
+          reason: selection.query
+            ? `No matching rubric for "${selection.query}" in ${repertory}`
+            : `Rubric ${selection.id} is not known in ${repertory}. Search for it first or pass a query.`,
+        });
+      }
+    }
+
+    if (selected.length === 0) {
+      throw new ValidationError(
+        'None of the selected rubrics could be resolved. Use search_repertory to find rubrics first.'
+      );
+    }
+
+    this.logger.debug('Repertorizing case', {
+      rubrics: selected.length,
+      unresolved: unresolved.length,
+    });
+
+    return {
+      ...repertorize(selected, { maxRemedies: validated.maxRemedies }),
+      unresolved: unresolved.length > 0 ? unresolved : undefined,
+    };
+  }
+
+  /**
+   * Cross-reference remedies across several symptom queries
+   *
+   * Each query runs as a regular repertory search, so results are cached and
+   * deduplicated. Remedies are ranked by how many queries they appear in.
+   * Remedies missing from an eliminative query are moved to `eliminated`,
+   * together with the queries that eliminated them.
+   *
+   * @param options - Signal to cancel the searches and callback called after each query
+   */
+  async crossReferenceSymptoms(
+    args: CrossReferenceSymptomsArgs & { remoteUser?: string },
+    options: OOREPCallOptions = {}
+  ): Promise<CrossReferenceResult> {
+    const validated = CrossReferenceSymptomsArgsSchema.parse(args);
+    const remoteUser = RemoteUserSchema.optional().parse(args.remoteUser) ?? this.config.remoteUser;
+
+    const outcomes: CrossReferenceQueryOutcome[] = [];
+    for (const [index, query] of validated.queries.entries()) {
+      throwIfCancelled(options.signal);
+      const repertory = this.normalizeOverride(
+        query.repertory ?? validated.repertory,
+        this.config.defaultRepertory
+      );
+      const result = await this.searchRepertory(
+        {
+          symptom: query.symptom,
+          repertory,
+          minWeight: query.minWeight ?? validated.minWeight,
+          includeRemedyStats: true,
+          remoteUser,
+        },
+        options
+      );
+      const remedyStats = result.remedyStats ?? [];
+      options.onProgress?.(`Searched query ${index + 1} of ${validated.queries.length}`);
+
+      outcomes.push({
+        summary: {
+          index,
+          symptom: query.symptom,
+          repertory,
+          eliminative: query.eliminative ?? false,
+          totalResults: result.totalResults,
+          remedyCount: remedyStats.length,
+          remedyStatsPartial: result.remedyStatsPartial,
+        },
+        remedyStats,
       });
+    }
+
+    this.logger.debug('Cross-referencing symptoms', {
+      queries: outcomes.length,
+      eliminative: outcomes.filter((outcome) => outcome.summary.eliminative).length,
+    });
+
+    return crossReference(outcomes, { maxRemedies: validated.maxRemedies });
+  }
+
+  /**
+   * Create an empty saved case
+   *
+   * Saved cases collect rubrics across calls and can be resumed later by ID.
+   */
+  async createCase(args: CreateCaseArgs): Promise<SavedCase> {
+    const validated = CreateCaseArgsSchema.parse(args);
+    const now = new Date().toISOString();
+    const savedCase: SavedCase = {
+      id: randomUUID(),
+      name: validated.name,
+      notes: validated.notes,
+      createdAt: now,
+      updatedAt: now,
+      rubrics: [],
+    };
+
+    await this.caseStore.save(savedCase);
+    this.logger.debug('Created case', { caseId: savedCase.id });
+    return savedCase;
+  }
+
+  /**
+   * Add a rubric to a saved case
+   *
+   * The rubric is resolved like a repertorize_case selection and stored in full,
+   * so the case can be repertorized later without searching again.
+   *
+   * @throws {NotFoundError} If the case does not exist
+   * @throws {ValidationError} If the rubric cannot be resolved
+   */
+  async addRubricToCase(
+    args: AddRubricToCaseArgs & { remoteUser?: string },
+    options: OOREPCallOptions = {}
+  ): Promise<SavedCase> {
+    const validated = AddRubricToCaseArgsSchema.parse(args);
+    const remoteUser = RemoteUserSchema.optional().parse(args.remoteUser) ?? this.config.remoteUser;
+    await this.requireCase(validated.caseId);
+
+    const repertory = this.normalizeOverride(validated.repertory, this.config.defaultRepertory);
+    const rubric = await this.resolveCaseRubric(
+      validated,
+      repertory,
+      validated.minWeight,
+      remoteUser,
+      options
+    );
+    if (!rubric) {
+      throw new ValidationError(
+        validated.query
+          ? `No matching rubric for "${validated.query}" in ${repertory}`
+          : `Rubric ${validated.id} is not known in ${repertory}. Search for it first or pass a query.`
+      );
+    }
+
+    // The case is read again after the lookup so concurrent additions are not lost
+    return this.mutateCase(validated.caseId, (savedCase) => {
+      const now = new Date().toISOString();
+      savedCase.rubrics.push({ ...rubric, intensity: validated.intensity ?? 1, addedAt: now });
+      savedCase.updatedAt = now;
+    });
+  }
+
+  /**
+   * Remove a rubric from a saved case by rubric ID or position
+   *
+   * @throws {NotFoundError} If the case does not exist
+   * @throws {ValidationError} If the case has no such rubric
+   */
+  async removeRubricFromCase(args: RemoveRubricFromCaseArgs): Promise<SavedCase> {
+    const validated = RemoveRubricFromCaseArgsSchema.parse(args);
+
+    return this.mutateCase(validated.caseId, (savedCase) => {
+      const index =
+        validated.index ??
+        savedCase.rubrics.findIndex((rubric) => rubric.id === validated.rubricId);
+      const rubric = savedCase.rubrics[index];
+      if (!rubric || (validated.rubricId !== undefined && rubric.id !== validated.rubricId)) {
+        throw new ValidationError(
+          validated.index !== undefined
+            ? `Case ${savedCase.id} has no rubric at index ${validated.index}`
+            : `Case ${savedCase.id} does not contain rubric ${validated.rubricId}`
+        );
+      }
+
+      savedCase.rubrics.splice(index, 1);
+      savedCase.updatedAt = new Date().toISOString();
+    });
+  }
+
+  /**
+   * Get a saved case, optionally repertorized
+   *
+   * @throws {NotFoundError} If the case does not exist
+   */
+  async getCase(args: GetCaseArgs): Promise<CaseDetails> {
+    const validated = GetCaseArgsSchema.parse(args);
+    const savedCase = await this.requireCase(validated.caseId);
+
+    if (!validated.repertorize || savedCase.rubrics.length === 0) {
+      return savedCase;
+    }
+
+    const selected = savedCase.rubrics.map(
+      ({ intensity, addedAt: _addedAt, ...rubric }, index) => ({ index, rubric, intensity })
+    );
+    return {
+      ...savedCase,
+      repertorization: repertorize(selected, { maxRemedies: validated.maxRemedies }),
+    };
+  }
+
+  /**
+   * List saved cases, most recently updated first
+   */
+  async listCases(): Promise<CaseSummary[]> {
+    const cases = await this.caseStore.list();
+    return cases
+      .map(({ rubrics, ...summary }) => ({ ...summary, rubricCount: rubrics.length }))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  /**
+   * Delete a saved case
+   */
+  async deleteCase(args: DeleteCaseArgs): Promise<DeleteCaseResult> {
+    const validated = DeleteCaseArgsSchema.parse(args);
+    const deleted = await this.caseStore.delete(validated.caseId);
+    return { caseId: validated.caseId, deleted };
+  }
+
+  /**
+   * Look up a rubric by ID together with its place in the repertory hierarchy
+   *
+   * Rubrics are known by ID once a search has returned them. Pass `query` to
+   * search for the rubric when it has not been seen yet.
+   *
+   * @throws {ValidationError} If the rubric cannot be found
+   */
+  async getRubric(
+    args: GetRubricArgs & { remoteUser?: string },
+    options: OOREPCallOptions = {}
+  ): Promise<RubricDetails> {
+    const validated = GetRubricArgsSchema.parse(args);
+    const remoteUser = RemoteUserSchema.optional().parse(args.remoteUser) ?? this.config.remoteUser;
+    const repertory = this.normalizeOverride(validated.repertory, this.config.defaultRepertory);
+    const rubric = await this.requireRubric(validated, repertory, remoteUser, options);
+
+    const parentPath = getParentRubricPath(rubric.rubric);
+    const parent = parentPath
+      ? await this.findRubricByPath(repertory, parentPath, remoteUser, options)
+      : null;
+
+    return {
+      rubric,
+      uri: expandUriTemplate(RESOURCE_URI_TEMPLATES.RUBRIC, {
+        abbrev: repertory,
+        id: validated.id,
+      }),
+      ancestors: getRubricAncestorPaths(rubric.rubric),
+      parent: parent ?? undefined,
+    };
+  }
+
+  /**
+   * List the sub-rubrics below a rubric, identified by ID or full path
+   *
+   * OOREP has no hierarchy endpoint, so the children are discovered by searching
+   * for the words of the parent path and nesting the matches by path segment.
+   * The discovered tree is cached per parent; `depth` only trims the result.
+   *
+   * @throws {ValidationError} If the parent rubric cannot be found
+   */
+  async browseRubricChildren(
+    args: BrowseRubricChildrenArgs & { remoteUser?: string },
+    options: OOREPCallOptions = {}
+  ): Promise<RubricChildrenResult> {
+    const validated = BrowseRubricChildrenArgsSchema.parse(args);
+    const remoteUser = RemoteUserSchema.optional().parse(args.remoteUser) ?? this.config.remoteUser;
+    const repertory = this.normalizeOverride(validated.repertory, this.config.defaultRepertory);
+
+    const rubric =
+      validated.id !== undefined
+        ? await this.requireRubric(
+            { id: validated.id, query: validated.query },
+            repertory,
+            remoteUser,
+            options
+          )
+        : undefined;
+    const path = getRubricPathSegments(rubric?.rubric ?? validated.path).join(', ');
+
+    const cacheKey = generateCacheKey('rubric-children', {
+      remoteUser,
+      repertory,
+      path: normalizeRubricPath(path),
+    });
+
+    const discovered = await this.readThrough(
+      cacheKey,
+      'browseRubricChildren',
+      options,
+      (fetchOptions) => this.discoverRubricChildren(repertory, path, remoteUser, fetchOptions)
+    );
+
+    return {
+      repertory,
+      path,
+      rubric: rubric ?? discovered.rubric,
+      totalChildren: discovered.children.length,
+      children: pruneRubricTree(discovered.children, validated.depth ?? 1),
+      partial: discovered.partial,
+    };
+  }
+
+  /**
+   * Translate a natural-language symptom into a repertory query
+   *
+   * Runs locally with the rules of the search syntax guide; nothing is sent to OOREP.
+   */
+  async suggestRepertoryQuery(args: SuggestRepertoryQueryArgs): Promise<RepertoryQueryTranslation> {
+    const validated = SuggestRepertoryQueryArgsSchema.parse(args);
+    validateSymptom(validated.symptom);
+    return translateSymptomQuery(validated.symptom);
+  }
+
+  /**
+   * Deduplicate a request that runs with one caller's signal
+   *
+   * A shared request is cancelled along with the caller that started it. Callers
+   * that joined it without being cancelled themselves start it again.
+   */
+  private async deduplicate<T>(
+    key: string,
+    options: OOREPCallOptions,
+    fn: () => Promise<T>
+  ): Promise<T> {
+    try {
+      return await this.deduplicator.deduplicate(key, fn);
+    } catch (error) {
+      if (error instanceof CancelledError && !options.signal?.aborted) {
+        return this.deduplicator.deduplicate(key, fn);
+      }
+      throw error;
+    }
+  }
 
-      const result = formatMateriaMedicaResults(apiResponse, maxResults);
+  /**
+   * Read a result through the cache under its operation's TTL
+   *
+   * Within the stale window an expired result is returned at once and refreshed
+   * in the background through the deduplicator, so callers never wait on a
+   * refresh and concurrent reads share one. Null results are not cached, and
+   * results matching `isEmpty` are cached as negative entries with a short TTL.
+   */
+  private async readThrough<T>(
+    key: string,
+    operation: CachedOperation,
+    options: OOREPCallOptions,
+    fetch: (options: OOREPCallOptions) => Promise<T>,
+    isEmpty?: (result: T) => boolean
+  ): Promise<T> {
+    const cached = readCachedValue<T>(await this.cache.get(key), this.readPolicy(operation));
+    if (cached?.stale) {
+      this.revalidate(key, operation, fetch, isEmpty);
+    }
+    if (cached) return cached.data;
+
+    return this.deduplicate(key, options, () =>
+      this.fetchAndCache(key, operation, options, fetch, isEmpty)
+    );
+  }
 
-      await this.cache.set(cacheKey, result);
+  private async fetchAndCache<T>(
+    key: string,
+    operation: CachedOperation,
+    options: OOREPCallOptions,
+    fetch: (options: OOREPCallOptions) => Promise<T>,
+    isEmpty?: (result: T) => boolean
+  ): Promise<T> {
+    const result = await fetch(options);
+    if (result === null || this.config.cacheTtls[operation] <= 0) {
       return result;
+    }
+    const negative = isEmpty?.(result) ?? false;
+    if (!negative || this.config.negativeCacheTtlMs > 0) {
+      await this.cache.set(key, toCachedValue(result, Date.now(), negative));
+    }
+    return result;
+  }
+
+  private readPolicy(operation: CachedOperation): CacheReadPolicy {
+    return {
+      ttlMs: this.config.cacheTtls[operation],
+      staleMs: this.config.staleWhileRevalidateMs,
+      negativeTtlMs: this.config.negativeCacheTtlMs,
+    };
+  }
+
+  /**
+   * Refresh a stale result without a caller's signal or progress callback
+   * Failures are logged; the stale result stays until its window runs out.
+   */
+  private revalidate<T>(
+    key: string,
+    operation: CachedOperation,
+    fetch: (options: OOREPCallOptions) => Promise<T>,
+    isEmpty?: (result: T) => boolean
+  ): void {
+    this.logger.debug(`Revalidating stale cache entry: ${key}`);
+    this.deduplicator
+      .deduplicate(key, () => this.fetchAndCache(key, operation, {}, fetch, isEmpty))
+      .catch((error: unknown) => {
+        this.logger.warn(`Background refresh failed: ${key}`, sanitizeError(error).message);
+      });
+  }
+
+  /**
+   * Look up a rubric remembered from a search, stale or not
+   */
+  private async recallRubric(key: string): Promise<Rubric | null> {
+    return (
+      readCachedValue<Rubric>(await this.rubricMemory.get(key), this.readPolicy('searchRepertory'))
+        ?.data ?? null
+    );
+  }
+
+  private async rememberRubric(key: string, rubric: Rubric): Promise<void> {
+    if (this.config.cacheTtls.searchRepertory > 0) {
+      await this.rubricMemory.set(key, toCachedValue(rubric));
+    }
+  }
+
+  /**
+   * Load a saved case or fail with a not-found error
+   */
+  private async requireCase(caseId: string): Promise<SavedCase> {
+    const savedCase = await this.caseStore.get(caseId);
+    if (!savedCase) {
+      throw new NotFoundError(`Case not found: ${caseId}`, 'case', caseId);
+    }
+    return savedCase;
+  }
+
+  /**
+   * Load a case, apply a change and save it, one mutation per case at a time
+   *
+   * @throws {NotFoundError} If the case does not exist
+   */
+  private mutateCase(caseId: string, mutate: (savedCase: SavedCase) => void): Promise<SavedCase> {
+    const run = async () => {
+      const savedCase = await this.requireCase(caseId);
+      mutate(savedCase);
+      await this.caseStore.save(savedCase);
+      return savedCase;
+    };
+
+    // Chain after the previous mutation even if it failed, so one error does not block later ones
+    const previous = this.caseMutations.get(caseId);
+    const mutation = previous ? previous.then(run, run) : run();
+    this.caseMutations.set(caseId, mutation);
+    const release = () => {
+      if (this.caseMutations.get(caseId) === mutation) {
+        this.caseMutations.delete(caseId);
+      }
+    };
+    mutation.then(release, release);
+    return mutation;
+  }
+
+  /**
+   * Find the rubric a case selection refers to
+   */
+  private async resolveCaseRubric(
+    selection: CaseRubricSelection,
+    repertory: string,
+    minWeight: number | undefined,
+    remoteUser: string | undefined,
+    options: OOREPCallOptions
+  ): Promise<Rubric | null> {
+    if (selection.query === undefined) {
+      return this.recallRubric(this.rubricCacheKey(repertory, selection.id!, remoteUser));
+    }
+
+    if (selection.id === undefined) {
+      const result = await this.searchRepertory(
+        {
+          symptom: selection.query,
+          repertory,
+          minWeight,
+          includeRemedyStats: false,
+          remoteUser,
+        },
+        options
+      );
+      return result.rubrics[0] ?? null;
+    }
+
+    for await (const rubric of this.iterateRepertory(
+      {
+        symptom: selection.query,
+        repertory,
+        minWeight,
+        remoteUser,
+      },
+      options
+    )) {
+      if (rubric.id === selection.id) {
+        return rubric;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Resolve a rubric by ID, searching with `query` if it has not been seen yet
+   *
+   * @throws {ValidationError} If the rubric cannot be found
+   */
+  private async requireRubric(
+    selection: { id: number; query?: string },
+    repertory: string,
+    remoteUser: string | undefined,
+    options: OOREPCallOptions
+  ): Promise<Rubric> {
+    const rubric = await this.resolveCaseRubric(
+      selection,
+      repertory,
+      undefined,
+      remoteUser,
+      options
+    );
+    if (!rubric) {
+      throw new ValidationError(
+        selection.query
+          ? `Rubric ${selection.id} does not match "${selection.query}" in ${repertory}`
+          : `Rubric ${selection.id} is not known in ${repertory}. Search for it first or pass a query.`
+      );
+    }
+    return rubric;
+  }
+
+  /**
+   * Find the rubric with an exact full path, searching once if it has not been seen
+   */
+  private async findRubricByPath(
+    repertory: string,
+    path: string,
+    remoteUser: string | undefined,
+    options: OOREPCallOptions
+  ): Promise<Rubric | null> {
+    const cacheKey = this.rubricPathCacheKey(repertory, path, remoteUser);
+    const cached = await this.recallRubric(cacheKey);
+    const query = getRubricPathQuery(path);
+    if (cached || !query) return cached;
+
+    const result = await this.searchRepertory(
+      {
+        symptom: query,
+        repertory,
+        maxResults: MAX_PAGE_SIZE,
+        includeRemedyStats: false,
+        remoteUser,
+      },
+      options
+    );
+    const normalizedPath = normalizeRubricPath(path);
+    return (
+      result.rubrics.find((rubric) => normalizeRubricPath(rubric.rubric) === normalizedPath) ?? null
+    );
+  }
+
+  /**
+   * Search for every rubric below a path and nest the matches
+   *
+   * @throws {ValidationError} If the path has no searchable words
+   */
+  private async discoverRubricChildren(
+    repertory: string,
+    path: string,
+    remoteUser: string | undefined,
+    options: OOREPCallOptions
+  ): Promise<DiscoveredRubricChildren> {
+    const query = getRubricPathQuery(path);
+    if (!query) {
+      throw new ValidationError(`Rubric path "${path}" has no words long enough to search for`);
+    }
+
+    const normalizedPath = normalizeRubricPath(path);
+    const descendants: Rubric[] = [];
+    let rubric: Rubric | undefined;
+    let fetched = 0;
+    let partial = false;
+
+    for await (const candidate of this.iterateRepertory(
+      { symptom: query, repertory, remoteUser },
+      options
+    )) {
+      if (++fetched > MAX_BROWSE_RUBRICS) {
+        partial = true;
+        break;
+      }
+      if (normalizeRubricPath(candidate.rubric) === normalizedPath) {
+        rubric ??= candidate;
+      } else if (isRubricDescendant(candidate.rubric, path)) {
+        descendants.push(candidate);
+      }
+    }
+
+    this.logger.debug('Discovered rubric children', { repertory, path, fetched, partial });
+    return { rubric, children: buildRubricSubtree(path, descendants), partial };
+  }
+
+  /**
+   * Cache key under which individual rubrics are remembered by ID
+   */
+  private rubricCacheKey(repertory: string, id: number, remoteUser: string | undefined): string {
+    return generateCacheKey('rubric', { remoteUser, repertory, id });
+  }
+
+  /**
+   * Cache key under which individual rubrics are remembered by full path
+   */
+  private rubricPathCacheKey(
+    repertory: string,
+    path: string,
+    remoteUser: string | undefined
+  ): string {
+    return generateCacheKey('rubric-path', {
+      remoteUser,
+      repertory,
+      path: normalizeRubricPath(path),
     });
   }
 
+  /**
+   * Remember rubrics from a search so they can later be referenced by ID or path
+   */
+  private async rememberRubrics(rubrics: Rubric[], remoteUser: string | undefined): Promise<void> {
+    await Promise.all(
+      rubrics.flatMap((rubric) => [
+        ...(rubric.id !== undefined
+          ? [
+              this.rememberRubric(
+                this.rubricCacheKey(rubric.repertory, rubric.id, remoteUser),
+                rubric
+              ),
+            ]
+          : []),
+        this.rememberRubric(
+          this.rubricPathCacheKey(rubric.repertory, rubric.rubric, remoteUser),
+          rubric
+        ),
+      ])
+    );
+  }
+
+  /**
+   * Resolve a user-supplied remedy filter to the abbreviation OOREP expects
+   *
+   * Uses the same matching rules as getRemedyInfo, so "Sulphur", "sulph" and
+   * "Sulph." all resolve to the same remedy.
+   *
+   * @throws {ValidationError} If the remedy cannot be found
+   */
+  private async resolveRemedyFilter(
+    remedy: string,
+    remoteUser: string | undefined,
+    options: OOREPCallOptions
+  ): Promise<string> {
+    const info = await this.getRemedyInfo({ remedy, remoteUser }, options);
+    if (!info) {
+      throw new ValidationError(
+        `Remedy "${remedy}" not found. Use get_remedy_info to check the name or abbreviation.`
+      );
+    }
+    return info.nameAbbrev;
+  }
+
   /**
    * Get detailed information about a specific remedy
    */
-  async getRemedyInfo(args: { remedy: string }): Promise<RemedyInfo | null> {
+  async getRemedyInfo(
+    args: { remedy: string; remoteUser?: string },
+    options: OOREPCallOptions = {}
+  ): Promise<RemedyInfo | null> {
     const validated = GetRemedyInfoArgsSchema.parse(args);
     validateRemedyName(validated.remedy);
+    const remoteUser = validated.remoteUser ?? this.config.remoteUser;
 
     const cacheKey = generateCacheKey('remedy', {
-      remoteUser: this.config.remoteUser,
+      remoteUser,
       name: validated.remedy.toLowerCase(),
     });
-    const cached = (await this.cache.get(cacheKey)) as RemedyInfo | null;
-    if (cached) return cached;
-
-    return this.deduplicator.deduplicate(cacheKey, async () => {
-      const remedies = await this.httpClient.getAvailableRemedies();
+    return this.readThrough(cacheKey, 'getRemedyInfo', options, async (fetchOptions) => {
+      const remedies = await this.httpClient.getAvailableRemedies({
+        remoteUser,
+        ...fetchOptions,
+      });
       const query = validated.remedy.trim().toLowerCase();
       const normalizedQuery = query.replace(/[^a-z0-9]/g, '');
       const allowPartialMatch = normalizedQuery.length >= 3;
@@ -276,43 +1339,66 @@ export class OOREPClient {
 
       if (!remedy) return null;
 
-      const result: RemedyInfo = {
+      return {
         id: remedy.id,
         nameAbbrev: remedy.nameAbbrev,
         nameLong: remedy.nameLong,
         nameAlt: remedy.namealt,
       };
-
-      await this.cache.set(cacheKey, result);
-      return result;
     });
   }
 
+  /**
+   * List every remedy OOREP knows, with abbreviations and alternate names
+   */
+  async listRemedies(
+    args: { remoteUser?: string } = {},
+    options: OOREPCallOptions = {}
+  ): Promise<RemedyInfo[]> {
+    const remoteUser = RemoteUserSchema.optional().parse(args.remoteUser) ?? this.config.remoteUser;
+
+    const cacheKey = generateCacheKey('remedies', { remoteUser });
+    return this.readThrough(cacheKey, 'listRemedies', options, async (fetchOptions) =>
+      (await this.httpClient.getAvailableRemedies({ remoteUser, ...fetchOptions })).map(
+        (remedy): RemedyInfo => ({
+          id: remedy.id,
+          nameAbbrev: remedy.nameAbbrev,
+          nameLong: remedy.nameLong,
+          nameAlt: remedy.namealt,
+        })
+      )
+    );
+  }
+
   /**
    * List all available repertories
    */
-  async listRepertories(args: { language?: string } = {}): Promise<RepertoryMetadata[]> {
+  async listRepertories(
+    args: { language?: string; remoteUser?: string } = {},
+    options: OOREPCallOptions = {}
+  ): Promise<RepertoryMetadata[]> {
     const validated = ListRepertoriesArgsSchema.parse(args);
     if (validated.language) {
       validateLanguage(validated.language);
     }
 
+    const remoteUser = validated.remoteUser ?? this.config.remoteUser;
+
     const cacheKey = generateCacheKey('repertories', {
-      remoteUser: this.config.remoteUser,
+      remoteUser,
       language: validated.language,
     });
-    const cached = (await this.cache.get(cacheKey)) as RepertoryMetadata[] | null;
-    if (cached) return cached;
-
-    return this.deduplicator.deduplicate(cacheKey, async () => {
-      let repertories = await this.httpClient.getAvailableRepertories();
+    return this.readThrough(cacheKey, 'listRepertories', options, async (fetchOptions) => {
+      let repertories = await this.httpClient.getAvailableRepertories({
+        remoteUser,
+        ...fetchOptions,
+      });
 
       if (validated.language) {
         const lang = validated.language.toLowerCase();
         repertories = repertories.filter((r) => r.language?.toLowerCase() === lang);
       }
 
-      await this.cache.set(cacheKey, repertories);
       return repertories;
     });
   }
@@ -320,37 +1406,42 @@ export class OOREPClient {
   /**
    * List all available materia medicas
    */
-  async listMateriaMedicas(args: { language?: string } = {}): Promise<MateriaMedicaMetadata[]> {
+  async listMateriaMedicas(
+    args: { language?: string; remoteUser?: string } = {},
+    options: OOREPCallOptions = {}
+  ): Promise<MateriaMedicaMetadata[]> {
     const validated = ListMateriaMedicasArgsSchema.parse(args);
     if (validated.language) {
       validateLanguage(validated.language);
     }
 
+    const remoteUser = validated.remoteUser ?? this.config.remoteUser;
+
     const cacheKey = generateCacheKey('materiamedicas', {
-      remoteUser: this.config.remoteUser,
+      remoteUser,
       language: validated.language,
     });
-    const cached = (await this.cache.get(cacheKey)) as MateriaMedicaMetadata[] | null;
-    if (cached) return cached;
-
-    return this.deduplicator.deduplicate(cacheKey, async () => {
-      let materiaMedicas = await this.httpClient.getAvailableMateriaMedicas();
+    return this.readThrough(cacheKey, 'listMateriaMedicas', options, async (fetchOptions) => {
+      let materiaMedicas = await this.httpClient.getAvailableMateriaMedicas({
+        remoteUser,
+        ...fetchOptions,
+      });
 
       if (validated.language) {
         const lang = validated.language.toLowerCase();
         materiaMedicas = materiaMedicas.filter((mm) => mm.language?.toLowerCase() === lang);
       }
 
-      await this.cache.set(cacheKey, materiaMedicas);
       return materiaMedicas;
     });
   }
 
   /**
-   * Clear the cache
+   * Clear cached results and remembered rubrics
    */
   async clearCache(): Promise<void> {
     await this.cache.clear();
+    await this.rubricMemory.clear();
   }
 
   /**
@@ -358,6 +1449,8 @@ export class OOREPClient {
    */
   async destroy(): Promise<void> {
     await this.cache.destroy?.();
+    await this.rubricMemory.destroy?.();
+    await this.caseStore.destroy?.();
   }
 
   /**
@@ -9,6 +9,7 @@
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { OOREPClient, createOOREPClient } from './client.js';
+import { CancelledError } from '../utils/errors.js';
 
 // Mock the dependencies with proper class constructors
 const mockOOREPClientInstance = {
@@ -40,6 +41,9 @@ vi.mock('../lib/cache.js', () => ({
   InMemoryCache: vi.fn().mockImplementation(function () {
     return mockCacheInstance;
   }),
+  FileSystemCache: vi.fn().mockImplementation(function () {
+    return mockCacheInstance;
+  }),
   Cache: vi.fn().mockImplementation(function () {
     return mockCacheInstance;
   }),
@@ -58,7 +62,9 @@ vi.mock('../utils/logger.js', () => ({
 }));
 
 import { OOREPHttpClient } from '../lib/oorep-client.js';
-import { InMemoryCache } from '../lib/cache.js';
+import { encodePageCursor } from '../lib/pagination.js';
+import { FileSystemCache, InMemoryCache } from '../lib/cache.js';
+import { toCachedValue } from '../lib/cache-policy.js';
 import { MapRequestDeduplicator } from '../lib/deduplicator.js';
 
 describe('OOREPClient Unit Tests', () => {
@@ -103,7 +109,35 @@ describe('OOREPClient Unit Tests', () => {
     it('initializes Cache with cacheTtlMs', () => {
       const client = new OOREPClient({ cacheTtlMs: 600000 });
 
-      expect(InMemoryCache).toHaveBeenCalledWith(600000, expect.any(Object));
+      expect(InMemoryCache).toHaveBeenCalledWith(600000, expect.any(Object), {
+        maxEntries: 1000,
+        maxBytes: 52428800,
+      });
+
+      client.destroy();
+    });
+
+    it('initializes Cache with cacheMaxEntries and cacheMaxBytes', () => {
+      const client = new OOREPClient({ cacheMaxEntries: 10, cacheMaxBytes: 0 });
+
+      expect(InMemoryCache).toHaveBeenCalledWith(300000, expect.any(Object), {
+        maxEntries: 10,
+        maxBytes: 0,
+      });
+      expect(client.getConfig()).toMatchObject({ cacheMaxEntries: 10, cacheMaxBytes: 0 });
+
+      client.destroy();
+    });
+
+    it('initializes FileSystemCache when cacheDir is set', () => {
+      vi.mocked(InMemoryCache).mockClear();
+      const client = new OOREPClient({ cacheDir: '/tmp/oorep-cache', cacheMaxEntries: 10 });
+
+      expect(FileSystemCache).toHaveBeenCalledWith('/tmp/oorep-cache', 300000, expect.any(Object), {
+        maxEntries: 10,
+        maxBytes: 52428800,
+      });
+      expect(InMemoryCache).not.toHaveBeenCalled();
 
       client.destroy();
     });
@@ -165,7 +199,7 @@ describe('OOREPClient Unit Tests', () => {
       const client = new OOREPClient();
 
       const cachedResult = { totalResults: 5, rubrics: [], remedyStats: [] };
-      mockCacheInstance.get.mockResolvedValue(cachedResult);
+      mockCacheInstance.get.mockResolvedValue(toCachedValue(cachedResult));
 
       const result = await client.searchRepertory({ symptom: 'headache' });
 
@@ -185,10 +219,10 @@ describe('OOREPClient Unit Tests', () => {
 
       await client.searchRepertory({ symptom: 'headache' });
 
-      expect(mockCacheInstance.set).toHaveBeenCalledWith(
-        expect.any(String),
-        expect.objectContaining({ totalResults: 10 })
-      );
+      expect(mockCacheInstance.set).toHaveBeenCalledWith(expect.any(String), {
+        data: expect.objectContaining({ totalResults: 10 }),
+        cachedAt: expect.any(Number),
+      });
 
       client.destroy();
     });
@@ -212,258 +246,1677 @@ describe('OOREPClient Unit Tests', () => {
     });
   });
 
-  describe('searchMateriaMedica - unit logic', () => {
-    it('uses default materia medica when not specified', async () => {
-      const client = new OOREPClient({ defaultMateriaMedica: 'boericke' });
+  describe('searchRepertory - pagination', () => {
+    it('when page provided then passes it to API and cache key', async () => {
+      const client = new OOREPClient();
 
-      mockOOREPClientInstance.lookupMateriaMedica.mockResolvedValue({
+      mockOOREPClientInstance.lookupRepertory.mockResolvedValue({
+        totalNumberOfResults: 0,
         results: [],
-        numberOfMatchingSectionsPerChapter: [],
       });
 
-      await client.searchMateriaMedica({ symptom: 'anxiety' });
+      await client.searchRepertory({ symptom: 'headache', page: 2 });
 
-      expect(mockCacheInstance.get).toHaveBeenCalledWith(
-        expect.stringContaining('materiamedica=boericke')
+      expect(mockOOREPClientInstance.lookupRepertory).toHaveBeenCalledWith(
+        expect.objectContaining({ page: 2 })
       );
+      expect(mockCacheInstance.get).toHaveBeenCalledWith(expect.stringContaining('page=2'));
 
       client.destroy();
     });
-  });
 
-  describe('getRemedyInfo - unit logic', () => {
-    it('performs case-insensitive matching', async () => {
+    it('when cursor provided then fetches the page it encodes', async () => {
       const client = new OOREPClient();
 
-      mockOOREPClientInstance.getAvailableRemedies.mockResolvedValue([
-        { id: 1, nameAbbrev: 'Acon.', nameLong: 'Aconitum napellus', namealt: [] },
-      ]);
+      mockOOREPClientInstance.lookupRepertory.mockResolvedValue({
+        totalNumberOfResults: 0,
+        results: [],
+      });
 
-      const result = await client.getRemedyInfo({ remedy: 'ACONITUM NAPELLUS' });
+      await client.searchRepertory({ symptom: 'headache', cursor: encodePageCursor(4) });
 
-      expect(result).not.toBeNull();
-      expect(result!.nameAbbrev).toBe('Acon.');
+      expect(mockOOREPClientInstance.lookupRepertory).toHaveBeenCalledWith(
+        expect.objectContaining({ page: 4 })
+      );
 
       client.destroy();
     });
 
-    it('matches by abbreviation', async () => {
+    it('when cursor is invalid then throws ValidationError', async () => {
       const client = new OOREPClient();
 
-      mockOOREPClientInstance.getAvailableRemedies.mockResolvedValue([
-        { id: 1, nameAbbrev: 'Acon.', nameLong: 'Aconitum napellus', namealt: [] },
-      ]);
+      await expect(
+        client.searchRepertory({ symptom: 'headache', cursor: 'bogus' })
+      ).rejects.toThrow('Invalid pagination cursor');
+      expect(mockOOREPClientInstance.lookupRepertory).not.toHaveBeenCalled();
 
-      const result = await client.getRemedyInfo({ remedy: 'acon.' });
+      client.destroy();
+    });
+  });
 
-      expect(result).not.toBeNull();
-      expect(result!.nameLong).toBe('Aconitum napellus');
+  describe('searchRepertory - ranking', () => {
+    it('when ranking provided then caches separately and scores remedyStats', async () => {
+      const client = new OOREPClient();
+
+      mockOOREPClientInstance.lookupRepertory.mockResolvedValue({
+        totalNumberOfResults: 1,
+        results: [
+          {
+            rubric: { fullPath: 'Generals, cold, agg.' },
+            repertoryAbbrev: 'kent',
+            weightedRemedies: [
+              { remedy: { nameAbbrev: 'Ars.', nameLong: 'Arsenicum' }, weight: 3 },
+            ],
+          },
+        ],
+      });
+
+      const result = await client.searchRepertory({
+        symptom: 'cold agg',
+        ranking: 'boenninghausen',
+      });
+
+      expect(mockCacheInstance.get).toHaveBeenCalledWith(
+        expect.stringContaining('ranking=boenninghausen')
+      );
+      expect(result.ranking).toBe('boenninghausen');
+      expect(result.remedyStats![0]).toMatchObject({
+        score: 6,
+        scoreBreakdown: { patientModalityGrades: 3, polarityDifference: 3 },
+      });
 
       client.destroy();
     });
+  });
 
-    it('matches by alternative name', async () => {
+  describe('searchRepertory - remedy filter', () => {
+    it('when remedy provided then resolves it to its abbreviation before lookup', async () => {
       const client = new OOREPClient();
 
       mockOOREPClientInstance.getAvailableRemedies.mockResolvedValue([
-        { id: 1, nameAbbrev: 'Acon.', nameLong: 'Aconitum napellus', namealt: ['Aconite'] },
+        { id: 7, nameAbbrev: 'Sulph.', nameLong: 'Sulphur', namealt: [] },
       ]);
+      mockOOREPClientInstance.lookupRepertory.mockResolvedValue({
+        totalNumberOfResults: 0,
+        results: [],
+      });
 
-      const result = await client.getRemedyInfo({ remedy: 'aconite' });
+      await client.searchRepertory({ symptom: 'burn*', repertory: 'kent', remedy: 'sulphur' });
 
-      expect(result).not.toBeNull();
-      expect(result!.id).toBe(1);
+      expect(mockOOREPClientInstance.lookupRepertory).toHaveBeenCalledWith(
+        expect.objectContaining({ remedy: 'Sulph.' })
+      );
+      expect(mockCacheInstance.get).toHaveBeenCalledWith(expect.stringContaining('remedy=Sulph.'));
 
       client.destroy();
     });
 
-    it('performs partial matching for queries >= 3 chars', async () => {
+    it('when remedy cannot be resolved then throws ValidationError without lookup', async () => {
       const client = new OOREPClient();
 
       mockOOREPClientInstance.getAvailableRemedies.mockResolvedValue([
-        { id: 1, nameAbbrev: 'Bell.', nameLong: 'Belladonna', namealt: [] },
+        { id: 7, nameAbbrev: 'Sulph.', nameLong: 'Sulphur', namealt: [] },
       ]);
 
-      const result = await client.getRemedyInfo({ remedy: 'bella' });
-
-      expect(result).not.toBeNull();
-      expect(result!.nameLong).toBe('Belladonna');
+      await expect(
+        client.searchRepertory({ symptom: 'burn*', remedy: 'Unobtainium' })
+      ).rejects.toThrow('Remedy "Unobtainium" not found');
+      expect(mockOOREPClientInstance.lookupRepertory).not.toHaveBeenCalled();
 
       client.destroy();
     });
 
-    it('performs partial matching via alternative names', async () => {
+    it('when remedy omitted then does not fetch the remedy list', async () => {
       const client = new OOREPClient();
 
-      mockOOREPClientInstance.getAvailableRemedies.mockResolvedValue([
-        {
-          id: 1,
-          nameAbbrev: 'Acon.',
-          nameLong: 'Aconitum napellus',
-          namealt: ['Monkshood', 'Wolfsbane'],
-        },
-      ]);
+      mockOOREPClientInstance.lookupRepertory.mockResolvedValue({
+        totalNumberOfResults: 0,
+        results: [],
+      });
 
-      // Partial match on alternative name 'Wolfsbane'
-      const result = await client.getRemedyInfo({ remedy: 'wolfs' });
+      await client.searchRepertory({ symptom: 'burn*' });
 
-      expect(result).not.toBeNull();
-      expect(result!.nameAbbrev).toBe('Acon.');
+      expect(mockOOREPClientInstance.getAvailableRemedies).not.toHaveBeenCalled();
+      expect(mockOOREPClientInstance.lookupRepertory).toHaveBeenCalledWith(
+        expect.objectContaining({ remedy: undefined })
+      );
 
       client.destroy();
     });
+  });
 
-    it('matches when query contains alternative name', async () => {
+  describe('repertorizeCase', () => {
+    const rawRubric = (id: number, fullPath: string, remedies: Array<[string, number]>) => ({
+      rubric: { id, fullPath },
+      repertoryAbbrev: 'kent',
+      weightedRemedies: remedies.map(([nameAbbrev, weight]) => ({
+        remedy: { nameAbbrev, nameLong: nameAbbrev },
+        weight,
+      })),
+    });
+
+    it('when rubric selected by query then uses first matching rubric', async () => {
       const client = new OOREPClient();
+      mockOOREPClientInstance.lookupRepertory.mockResolvedValue({
+        totalNumberOfResults: 2,
+        results: [
+          rawRubric(10, 'Head, pain, throbbing', [['Bell.', 3]]),
+          rawRubric(11, 'Head, pain, pressing', [['Bry.', 2]]),
+        ],
+      });
 
-      mockOOREPClientInstance.getAvailableRemedies.mockResolvedValue([
+      const result = await client.repertorizeCase({
+        rubrics: [{ query: 'head pain', intensity: 2 }],
+        repertory: 'kent',
+      });
+
+      expect(result.rubrics).toEqual([
         {
-          id: 1,
-          nameAbbrev: 'Acon.',
-          nameLong: 'Aconitum napellus',
-          namealt: ['Monk'],
+          index: 0,
+          id: 10,
+          rubric: 'Head, pain, throbbing',
+          repertory: 'kent',
+          intensity: 2,
+          remedyCount: 1,
         },
       ]);
+      expect(result.rankings.sumOfGrades).toEqual(['Bell.']);
+      expect(result.remedies[0].sumOfGrades).toBe(6);
 
-      // Query 'monkfish' contains 'monk'
-      const result = await client.getRemedyInfo({ remedy: 'monkfish' });
+      client.destroy();
+    });
 
-      expect(result).not.toBeNull();
-      expect(result!.nameAbbrev).toBe('Acon.');
+    it('when rubric selected by id then uses rubric remembered from an earlier search', async () => {
+      const client = new OOREPClient();
+      const remembered = {
+        id: 42,
+        rubric: 'Mind, anxiety',
+        repertory: 'kent',
+        remedies: [{ name: 'Arsenicum', abbreviation: 'Ars.', weight: 3 }],
+      };
+      mockCacheInstance.get.mockImplementation(async (key: string) =>
+        key.startsWith('rubric:') && key.includes('id=42') && key.includes('repertory=kent')
+          ? toCachedValue(remembered)
+          : null
+      );
+
+      const result = await client.repertorizeCase({ rubrics: [{ id: 42 }], repertory: 'kent' });
+
+      expect(mockOOREPClientInstance.lookupRepertory).not.toHaveBeenCalled();
+      expect(result.rankings.sumOfGrades).toEqual(['Ars.']);
 
       client.destroy();
     });
 
-    it('does not partial match for queries < 3 chars', async () => {
+    it('when search returns rubrics with ids then remembers them for later selection', async () => {
       const client = new OOREPClient();
+      mockOOREPClientInstance.lookupRepertory.mockResolvedValue({
+        totalNumberOfResults: 1,
+        results: [rawRubric(10, 'Head, pain, throbbing', [['Bell.', 3]])],
+      });
 
-      mockOOREPClientInstance.getAvailableRemedies.mockResolvedValue([
-        { id: 1, nameAbbrev: 'Bell.', nameLong: 'Belladonna', namealt: [] },
-      ]);
+      await client.searchRepertory({ symptom: 'head pain', repertory: 'kent' });
 
-      const result = await client.getRemedyInfo({ remedy: 'be' });
+      expect(mockCacheInstance.set).toHaveBeenCalledWith(
+        expect.stringMatching(/^rubric:.*id=10.*repertory=kent/),
+        expect.objectContaining({
+          data: expect.objectContaining({ id: 10, rubric: 'Head, pain, throbbing' }),
+        })
+      );
 
-      expect(result).toBeNull();
+      client.destroy();
+    });
+
+    it('when rubric selected by query and id then finds that rubric across pages', async () => {
+      const client = new OOREPClient();
+      mockOOREPClientInstance.lookupRepertory
+        .mockResolvedValueOnce({
+          totalNumberOfResults: 2,
+          totalNumberOfPages: 2,
+          currPage: 0,
+          results: [rawRubric(10, 'Head, pain, throbbing', [['Bell.', 3]])],
+        })
+        .mockResolvedValueOnce({
+          totalNumberOfResults: 2,
+          totalNumberOfPages: 2,
+          currPage: 1,
+          results: [rawRubric(11, 'Head, pain, pressing', [['Bry.', 2]])],
+        });
+
+      const result = await client.repertorizeCase({ rubrics: [{ query: 'head pain', id: 11 }] });
+
+      expect(mockOOREPClientInstance.lookupRepertory).toHaveBeenCalledTimes(2);
+      expect(result.rubrics[0].id).toBe(11);
+      expect(result.rankings.sumOfGrades).toEqual(['Bry.']);
 
       client.destroy();
     });
 
-    it('returns null when remedy not found', async () => {
+    it('when some rubrics cannot be resolved then reports them as unresolved', async () => {
       const client = new OOREPClient();
+      mockOOREPClientInstance.lookupRepertory.mockResolvedValue({
+        totalNumberOfResults: 1,
+        results: [rawRubric(10, 'Head, pain, throbbing', [['Bell.', 3]])],
+      });
 
-      mockOOREPClientInstance.getAvailableRemedies.mockResolvedValue([
-        { id: 1, nameAbbrev: 'Acon.', nameLong: 'Aconitum napellus', namealt: [] },
+      const result = await client.repertorizeCase({
+        rubrics: [{ id: 999 }, { query: 'head pain' }],
+        repertory: 'kent',
+      });
+
+      expect(result.unresolved).toEqual([
+        {
+          index: 0,
+          id: 999,
+          reason: 'Rubric 999 is not known in kent. Search for it first or pass a query.',
+        },
       ]);
+      expect(result.rubrics.map((entry) => entry.index)).toEqual([1]);
 
-      const result = await client.getRemedyInfo({ remedy: 'nonexistent' });
+      client.destroy();
+    });
 
-      expect(result).toBeNull();
+    it('when no rubric can be resolved then throws ValidationError', async () => {
+      const client = new OOREPClient();
+      mockOOREPClientInstance.lookupRepertory.mockResolvedValue({
+        totalNumberOfResults: 0,
+        results: [],
+      });
+
+      await expect(
+        client.repertorizeCase({ rubrics: [{ id: 999 }, { query: 'nothing here' }] })
+      ).rejects.toThrow('None of the selected rubrics could be resolved');
 
       client.destroy();
     });
   });
 
-  describe('listRepertories - unit logic', () => {
-    it('filters by language when specified', async () => {
+  describe('crossReferenceSymptoms', () => {
+    const rawResult = (remedies: Array<[string, number]>) => ({
+      totalNumberOfResults: 1,
+      results: [
+        {
+          rubric: { id: 1, fullPath: 'Generals, test' },
+          repertoryAbbrev: 'kent',
+          weightedRemedies: remedies.map(([nameAbbrev, weight]) => ({
+            remedy: { nameAbbrev, nameLong: nameAbbrev },
+            weight,
+          })),
+        },
+      ],
+    });
+
+    it('when queries given then runs each search and drops remedies missing from eliminative queries', async () => {
       const client = new OOREPClient();
+      mockOOREPClientInstance.lookupRepertory.mockImplementation(
+        async ({ symptom }: { symptom: string }) =>
+          symptom === 'thirstless'
+            ? rawResult([
+                ['Puls.', 3],
+                ['Gels.', 2],
+              ])
+            : rawResult([
+                ['Puls.', 2],
+                ['Bry.', 3],
+              ])
+      );
 
-      mockOOREPClientInstance.getAvailableRepertories.mockResolvedValue([
-        { abbreviation: 'kent', title: 'Kent', language: 'en', author: 'Kent' },
-        { abbreviation: 'synth', title: 'Synthesis', language: 'de', author: 'Schroyens' },
+      const result = await client.crossReferenceSymptoms({
+        queries: [
+          { symptom: 'thirstless', eliminative: true },
+          { symptom: 'weeping', repertory: 'publicum' },
+        ],
+        repertory: 'kent',
+      });
+
+      expect(mockOOREPClientInstance.lookupRepertory).toHaveBeenCalledWith(
+        expect.objectContaining({ symptom: 'weeping', repertory: 'publicum' })
+      );
+      expect(result.queries.map((query) => query.repertory)).toEqual(['kent', 'publicum']);
+      expect(result.remedies.map((remedy) => remedy.abbreviation)).toEqual(['Puls.', 'Gels.']);
+      expect(result.remedies[0]).toMatchObject({ matchedQueries: 2, queries: [0, 1] });
+      expect(result.eliminated).toEqual([
+        expect.objectContaining({
+          abbreviation: 'Bry.',
+          eliminatedBy: [0],
+          reason: 'Missing from eliminative query #0 "thirstless"',
+        }),
       ]);
 
-      const result = await client.listRepertories({ language: 'en' });
+      client.destroy();
+    });
 
-      expect(result).toHaveLength(1);
-      expect(result[0].abbreviation).toBe('kent');
+    it('when options given then passes them to each search and reports each query', async () => {
+      const client = new OOREPClient();
+      const controller = new AbortController();
+      const onProgress = vi.fn();
+      mockOOREPClientInstance.lookupRepertory.mockResolvedValue(rawResult([['Puls.', 3]]));
+
+      await client.crossReferenceSymptoms(
+        { queries: [{ symptom: 'thirstless' }, { symptom: 'weeping' }] },
+        { signal: controller.signal, onProgress }
+      );
+
+      expect(mockOOREPClientInstance.lookupRepertory).toHaveBeenCalledWith(
+        expect.objectContaining({ symptom: 'weeping', signal: controller.signal })
+      );
+      expect(onProgress.mock.calls).toEqual([['Searched query 1 of 2'], ['Searched query 2 of 2']]);
 
       client.destroy();
     });
 
-    it('returns all when no language filter', async () => {
+    it('when signal aborted then throws CancelledError before searching', async () => {
       const client = new OOREPClient();
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        client.crossReferenceSymptoms(
+          { queries: [{ symptom: 'thirstless' }, { symptom: 'weeping' }] },
+          { signal: controller.signal }
+        )
+      ).rejects.toThrow(CancelledError);
+      expect(mockOOREPClientInstance.lookupRepertory).not.toHaveBeenCalled();
 
-      mockOOREPClientInstance.getAvailableRepertories.mockResolvedValue([
-        { abbreviation: 'kent', title: 'Kent', language: 'en', author: 'Kent' },
-        { abbreviation: 'synth', title: 'Synthesis', language: 'de', author: 'Schroyens' },
-      ]);
+      client.destroy();
+    });
 
-      const result = await client.listRepertories();
+    it('when fewer than two queries then throws before searching', async () => {
+      const client = new OOREPClient();
 
-      expect(result).toHaveLength(2);
+      await expect(
+        client.crossReferenceSymptoms({ queries: [{ symptom: 'thirstless' }] })
+      ).rejects.toThrow();
+      expect(mockOOREPClientInstance.lookupRepertory).not.toHaveBeenCalled();
 
       client.destroy();
     });
   });
 
-  describe('listMateriaMedicas - unit logic', () => {
-    it('filters by language when specified', async () => {
+  describe('shared request cancellation', () => {
+    it('when request shared with a cancelled caller then runs it again', async () => {
       const client = new OOREPClient();
+      mockDeduplicatorInstance.deduplicate.mockRejectedValueOnce(new CancelledError());
+      mockOOREPClientInstance.getAvailableRemedies.mockResolvedValue([]);
 
-      mockOOREPClientInstance.getAvailableMateriaMedicas.mockResolvedValue([
-        { abbreviation: 'boericke', title: 'Boericke', language: 'en', author: 'Boericke' },
-        { abbreviation: 'hering', title: 'Hering', language: 'de', author: 'Hering' },
-      ]);
+      await expect(client.listRemedies()).resolves.toEqual([]);
+      expect(mockDeduplicatorInstance.deduplicate).toHaveBeenCalledTimes(2);
 
-      const result = await client.listMateriaMedicas({ language: 'de' });
+      client.destroy();
+    });
 
-      expect(result).toHaveLength(1);
-      expect(result[0].abbreviation).toBe('hering');
+    it('when caller cancelled then does not run the request again', async () => {
+      const client = new OOREPClient();
+      const controller = new AbortController();
+      controller.abort();
+      mockDeduplicatorInstance.deduplicate.mockRejectedValueOnce(new CancelledError());
+
+      await expect(client.listRemedies({}, { signal: controller.signal })).rejects.toThrow(
+        CancelledError
+      );
+      expect(mockDeduplicatorInstance.deduplicate).toHaveBeenCalledTimes(1);
 
       client.destroy();
     });
+  });
 
-    it('returns cached result without calling API', async () => {
-      const client = new OOREPClient();
+  describe('saved cases', () => {
+    const rawRubric = (id: number, fullPath: string, remedies: Array<[string, number]>) => ({
+      rubric: { id, fullPath },
+      repertoryAbbrev: 'kent',
+      weightedRemedies: remedies.map(([nameAbbrev, weight]) => ({
+        remedy: { nameAbbrev, nameLong: nameAbbrev },
+        weight,
+      })),
+    });
 
-      const cachedResult = [
-        { abbreviation: 'cached', title: 'Cached MM', language: 'en', author: 'Test' },
-      ];
-      mockCacheInstance.get.mockResolvedValue(cachedResult);
+    it('when case created then stores it with an id and no rubrics', async () => {
+      const client = new OOREPClient();
 
-      const result = await client.listMateriaMedicas();
+      const created = await client.createCase({ name: '  Patient A  ', notes: 'Chronic' });
 
-      expect(result).toBe(cachedResult);
-      expect(mockOOREPClientInstance.getAvailableMateriaMedicas).not.toHaveBeenCalled();
+      expect(created.id).toMatch(/^[0-9a-f-]{36}$/);
+      expect(created).toMatchObject({ name: 'Patient A', notes: 'Chronic', rubrics: [] });
+      expect(await client.getCase({ caseId: created.id })).toEqual(created);
 
       client.destroy();
     });
 
-    it('returns all when no language filter', async () => {
+    it('when rubric added by query then stores the resolved rubric with intensity', async () => {
       const client = new OOREPClient();
+      mockOOREPClientInstance.lookupRepertory.mockResolvedValue({
+        totalNumberOfResults: 1,
+        results: [rawRubric(10, 'Head, pain, throbbing', [['Bell.', 3]])],
+      });
+      const created = await client.createCase({ name: 'Patient A' });
 
-      mockOOREPClientInstance.getAvailableMateriaMedicas.mockResolvedValue([
-        { abbreviation: 'boericke', title: 'Boericke', language: 'en', author: 'Boericke' },
-        { abbreviation: 'hering', title: 'Hering', language: 'de', author: 'Hering' },
+      const updated = await client.addRubricToCase({
+        caseId: created.id,
+        query: 'head pain',
+        repertory: 'kent',
+        intensity: 2,
+      });
+
+      expect(updated.rubrics).toEqual([
+        expect.objectContaining({
+          id: 10,
+          rubric: 'Head, pain, throbbing',
+          repertory: 'kent',
+          intensity: 2,
+          addedAt: expect.any(String),
+        }),
       ]);
+      expect((await client.getCase({ caseId: created.id })).rubrics).toHaveLength(1);
 
-      const result = await client.listMateriaMedicas();
+      client.destroy();
+    });
 
-      expect(result).toHaveLength(2);
+    it('when rubric cannot be resolved then throws ValidationError and leaves case unchanged', async () => {
+      const client = new OOREPClient();
+      const created = await client.createCase({ name: 'Patient A' });
+
+      await expect(
+        client.addRubricToCase({ caseId: created.id, id: 999, repertory: 'kent' })
+      ).rejects.toThrow('Rubric 999 is not known in kent');
+      expect((await client.getCase({ caseId: created.id })).rubrics).toEqual([]);
 
       client.destroy();
     });
-  });
 
-  describe('clearCache', () => {
-    it('delegates to cache clear method', () => {
+    it('when case does not exist then throws NotFoundError', async () => {
       const client = new OOREPClient();
 
-      client.clearCache();
-
-      expect(mockCacheInstance.clear).toHaveBeenCalled();
+      await expect(client.getCase({ caseId: 'missing' })).rejects.toMatchObject({
+        name: 'NotFoundError',
+        resourceType: 'case',
+        resourceName: 'missing',
+      });
 
       client.destroy();
     });
-  });
 
-  describe('destroy', () => {
-    it('delegates to cache destroy method', () => {
+    it('when rubric removed by id or index then drops it from the case', async () => {
       const client = new OOREPClient();
+      mockOOREPClientInstance.lookupRepertory
+        .mockResolvedValueOnce({
+          totalNumberOfResults: 1,
+          results: [rawRubric(10, 'Head, pain, throbbing', [['Bell.', 3]])],
+        })
+        .mockResolvedValueOnce({
+          totalNumberOfResults: 1,
+          results: [rawRubric(11, 'Mind, anxiety', [['Ars.', 3]])],
+        });
+      const created = await client.createCase({ name: 'Patient A' });
+      await client.addRubricToCase({ caseId: created.id, query: 'head pain' });
+      await client.addRubricToCase({ caseId: created.id, query: 'anxiety' });
+
+      const byId = await client.removeRubricFromCase({ caseId: created.id, rubricId: 10 });
+      const byIndex = await client.removeRubricFromCase({ caseId: created.id, index: 0 });
+
+      expect(byId.rubrics.map((rubric) => rubric.id)).toEqual([11]);
+      expect(byIndex.rubrics).toEqual([]);
+      await expect(client.removeRubricFromCase({ caseId: created.id, index: 0 })).rejects.toThrow(
+        'has no rubric at index 0'
+      );
 
       client.destroy();
+    });
 
-      expect(mockCacheInstance.destroy).toHaveBeenCalled();
+    it('when rubrics are added in parallel then keeps every one of them', async () => {
+      const client = new OOREPClient();
+      const rubrics: Record<string, ReturnType<typeof rawRubric>> = {
+        'head pain': rawRubric(10, 'Head, pain, throbbing', [['Bell.', 3]]),
+        anxiety: rawRubric(11, 'Mind, anxiety', [['Ars.', 3]]),
+        'face red': rawRubric(12, 'Face, red', [['Bell.', 2]]),
+      };
+      mockOOREPClientInstance.lookupRepertory.mockImplementation(
+        async ({ symptom }: { symptom: string }) => ({
+          totalNumberOfResults: 1,
+          results: [rubrics[symptom]],
+        })
+      );
+      const created = await client.createCase({ name: 'Patient A' });
+
+      await Promise.all(
+        Object.keys(rubrics).map((query) => client.addRubricToCase({ caseId: created.id, query }))
+      );
+
+      const stored = await client.getCase({ caseId: created.id });
+      expect(stored.rubrics.map((rubric) => rubric.id).sort()).toEqual([10, 11, 12]);
+
+      client.destroy();
+    });
+
+    it('when case fetched with repertorize then ranks remedies across its rubrics', async () => {
+      const client = new OOREPClient();
+      mockOOREPClientInstance.lookupRepertory
+        .mockResolvedValueOnce({
+          totalNumberOfResults: 1,
+          results: [rawRubric(10, 'Head, pain, throbbing', [['Bell.', 3]])],
+        })
+        .mockResolvedValueOnce({
+          totalNumberOfResults: 1,
+          results: [
+            rawRubric(11, 'Face, red', [
+              ['Bell.', 2],
+              ['Sulph.', 1],
+            ]),
+          ],
+        });
+      const created = await client.createCase({ name: 'Patient A' });
+      await client.addRubricToCase({ caseId: created.id, query: 'head pain', intensity: 2 });
+      await client.addRubricToCase({ caseId: created.id, query: 'face red' });
+
+      const details = await client.getCase({ caseId: created.id, repertorize: true });
+
+      expect(details.repertorization?.rankings.sumOfGrades).toEqual(['Bell.', 'Sulph.']);
+      expect(details.repertorization?.remedies[0].sumOfGrades).toBe(8);
+      expect(details.repertorization?.rubrics.map((rubric) => rubric.intensity)).toEqual([2, 1]);
+
+      client.destroy();
+    });
+
+    it('when cases listed then returns summaries and deleteCase removes them', async () => {
+      const client = new OOREPClient();
+      const created = await client.createCase({ name: 'Patient A' });
+
+      expect(await client.listCases()).toEqual([
+        {
+          id: created.id,
+          name: 'Patient A',
+          createdAt: created.createdAt,
+          updatedAt: created.updatedAt,
+          rubricCount: 0,
+        },
+      ]);
+      expect(await client.deleteCase({ caseId: created.id })).toEqual({
+        caseId: created.id,
+        deleted: true,
+      });
+      expect(await client.deleteCase({ caseId: created.id })).toEqual({
+        caseId: created.id,
+        deleted: false,
+      });
+      expect(await client.listCases()).toEqual([]);
+
+      client.destroy();
+    });
+
+    it('when caseStore injected then uses it', async () => {
+      const caseStore = {
+        get: vi.fn().mockResolvedValue(null),
+        save: vi.fn().mockResolvedValue(undefined),
+        delete: vi.fn().mockResolvedValue(false),
+        list: vi.fn().mockResolvedValue([]),
+        destroy: vi.fn().mockResolvedValue(undefined),
+      };
+      const client = new OOREPClient({ caseStore });
+
+      const created = await client.createCase({ name: 'Patient A' });
+      await client.destroy();
+
+      expect(caseStore.save).toHaveBeenCalledWith(created);
+      expect(caseStore.destroy).toHaveBeenCalled();
+    });
+  });
+
+  describe('rubric navigation', () => {
+    const rawRubric = (id: number, fullPath: string, remedies: Array<[string, number]>) => ({
+      rubric: { id, fullPath },
+      repertoryAbbrev: 'kent',
+      weightedRemedies: remedies.map(([nameAbbrev, weight]) => ({
+        remedy: { nameAbbrev, nameLong: nameAbbrev },
+        weight,
+      })),
+    });
+    const headPain = {
+      totalNumberOfResults: 4,
+      results: [
+        rawRubric(10, 'Head, pain', [['Bell.', 3]]),
+        rawRubric(11, 'Head, pain, throbbing', [
+          ['Bell.', 3],
+          ['Glon.', 2],
+        ]),
+        rawRubric(12, 'Head, pain, throbbing, morning', [['Nat-m.', 2]]),
+        rawRubric(13, 'Head, pain, forehead', [['Bry.', 1]]),
+      ],
+    };
+
+    it('when rubric found by query then returns its ancestors, parent and uri', async () => {
+      const client = new OOREPClient();
+      mockOOREPClientInstance.lookupRepertory.mockResolvedValue(headPain);
+
+      const details = await client.getRubric({ id: 11, query: 'head pain', repertory: 'kent' });
+
+      expect(details.rubric.rubric).toBe('Head, pain, throbbing');
+      expect(details.uri).toBe('oorep://repertories/kent/rubrics/11');
+      expect(details.ancestors).toEqual(['Head', 'Head, pain']);
+      expect(details.parent?.id).toBe(10);
+
+      client.destroy();
+    });
+
+    it('when rubric id has not been seen and no query given then throws', async () => {
+      const client = new OOREPClient();
+
+      await expect(client.getRubric({ id: 99, repertory: 'kent' })).rejects.toThrow(
+        'Rubric 99 is not known in kent'
+      );
+      expect(mockOOREPClientInstance.lookupRepertory).not.toHaveBeenCalled();
+
+      client.destroy();
+    });
+
+    it('when children browsed by path then nests them and reuses the discovered tree', async () => {
+      const client = new OOREPClient();
+      const stored = new Map<string, unknown>();
+      mockCacheInstance.get.mockImplementation(async (key: string) => stored.get(key) ?? null);
+      mockCacheInstance.set.mockImplementation(async (key: string, value: unknown) => {
+        stored.set(key, value);
+      });
+      mockOOREPClientInstance.lookupRepertory.mockResolvedValue(headPain);
+
+      const result = await client.browseRubricChildren({ path: 'head ,pain', repertory: 'kent' });
+
+      expect(mockOOREPClientInstance.lookupRepertory).toHaveBeenCalledWith(
+        expect.objectContaining({ symptom: 'head pain', repertory: 'kent' })
+      );
+      expect(result).toMatchObject({ repertory: 'kent', path: 'head, pain', totalChildren: 2 });
+      expect(result.rubric?.id).toBe(10);
+      expect(result.partial).toBe(false);
+      expect(result.children.map((node) => [node.name, node.rubricCount])).toEqual([
+        ['throbbing', 2],
+        ['forehead', 1],
+      ]);
+      expect(result.children[0].children).toEqual([]);
+
+      const deeper = await client.browseRubricChildren({ id: 11, repertory: 'kent', depth: 2 });
+
+      expect(mockOOREPClientInstance.lookupRepertory).toHaveBeenCalledTimes(2);
+      expect(deeper.path).toBe('Head, pain, throbbing');
+      expect(deeper.children.map((node) => node.name)).toEqual(['morning']);
+
+      await client.browseRubricChildren({ path: 'Head, Pain', repertory: 'kent', depth: 2 });
+      expect(mockOOREPClientInstance.lookupRepertory).toHaveBeenCalledTimes(2);
+
+      client.destroy();
+    });
+  });
+
+  describe('iterateRepertory', () => {
+    const pageOf = (page: number, totalPages: number, path: string) => ({
+      totalNumberOfResults: totalPages,
+      totalNumberOfPages: totalPages,
+      currPage: page,
+      results: [
+        {
+          rubric: { fullPath: path },
+          repertoryAbbrev: 'kent',
+          weightedRemedies: [],
+        },
+      ],
+    });
+
+    it('when several pages exist then yields rubrics from every page in order', async () => {
+      const client = new OOREPClient();
+
+      mockOOREPClientInstance.lookupRepertory
+        .mockResolvedValueOnce(pageOf(0, 3, 'Head, pain'))
+        .mockResolvedValueOnce(pageOf(1, 3, 'Head, heat'))
+        .mockResolvedValueOnce(pageOf(2, 3, 'Head, heaviness'));
+
+      const rubrics: string[] = [];
+      for await (const rubric of client.iterateRepertory({ symptom: 'head*' })) {
+        rubrics.push(rubric.rubric);
+      }
+
+      expect(rubrics).toEqual(['Head, pain', 'Head, heat', 'Head, heaviness']);
+      expect(mockOOREPClientInstance.lookupRepertory).toHaveBeenCalledTimes(3);
+      expect(mockOOREPClientInstance.lookupRepertory).toHaveBeenLastCalledWith(
+        expect.objectContaining({ page: 2 })
+      );
+
+      client.destroy();
+    });
+
+    it('when maxResults cuts pages short then still yields every rubric', async () => {
+      const client = new OOREPClient();
+      const twoRubricPage = (page: number, paths: string[]) => ({
+        ...pageOf(page, 2, paths[0]),
+        results: paths.map((path) => ({
+          rubric: { fullPath: path },
+          repertoryAbbrev: 'kent',
+          weightedRemedies: [],
+        })),
+      });
+
+      mockOOREPClientInstance.lookupRepertory
+        .mockResolvedValueOnce(twoRubricPage(0, ['Head, pain', 'Head, heat']))
+        .mockResolvedValueOnce(twoRubricPage(0, ['Head, pain', 'Head, heat']))
+        .mockResolvedValueOnce(twoRubricPage(1, ['Head, heaviness', 'Head, itching']))
+        .mockResolvedValueOnce(twoRubricPage(1, ['Head, heaviness', 'Head, itching']));
+
+      const rubrics: string[] = [];
+      for await (const rubric of client.iterateRepertory({ symptom: 'head*', maxResults: 1 })) {
+        rubrics.push(rubric.rubric);
+      }
+
+      expect(rubrics).toEqual(['Head, pain', 'Head, heat', 'Head, heaviness', 'Head, itching']);
+      expect(mockOOREPClientInstance.lookupRepertory.mock.calls.map(([call]) => call.page)).toEqual(
+        [0, 0, 1, 1]
+      );
+
+      client.destroy();
+    });
+
+    it('when no results then yields nothing after a single request', async () => {
+      const client = new OOREPClient();
+
+      mockOOREPClientInstance.lookupRepertory.mockResolvedValue(null);
+
+      const rubrics = [];
+      for await (const rubric of client.iterateRepertory({ symptom: 'nothing' })) {
+        rubrics.push(rubric);
+      }
+
+      expect(rubrics).toHaveLength(0);
+      expect(mockOOREPClientInstance.lookupRepertory).toHaveBeenCalledTimes(1);
+
+      client.destroy();
+    });
+  });
+
+  describe('searchMateriaMedica - unit logic', () => {
+    it('uses default materia medica when not specified', async () => {
+      const client = new OOREPClient({ defaultMateriaMedica: 'boericke' });
+
+      mockOOREPClientInstance.lookupMateriaMedica.mockResolvedValue({
+        results: [],
+        numberOfMatchingSectionsPerChapter: [],
+      });
+
+      await client.searchMateriaMedica({ symptom: 'anxiety' });
+
+      expect(mockCacheInstance.get).toHaveBeenCalledWith(
+        expect.stringContaining('materiamedica=boericke')
+      );
+
+      client.destroy();
+    });
+  });
+
+  describe('searchMateriaMedica - pagination', () => {
+    it('when cursor provided then passes decoded page to API and cache key', async () => {
+      const client = new OOREPClient();
+
+      mockOOREPClientInstance.lookupMateriaMedica.mockResolvedValue({
+        results: [],
+        numberOfMatchingSectionsPerChapter: [],
+      });
+
+      const result = await client.searchMateriaMedica({
+        symptom: 'anxiety',
+        cursor: encodePageCursor(2),
+      });
+
+      expect(mockOOREPClientInstance.lookupMateriaMedica).toHaveBeenCalledWith(
+        expect.objectContaining({ page: 2 })
+      );
+      expect(mockCacheInstance.get).toHaveBeenCalledWith(expect.stringContaining('page=2'));
+      expect(result.currentPage).toBe(2);
+
+      client.destroy();
+    });
+
+    it('when a later page is requested then derives the page size from page 0', async () => {
+      const client = new OOREPClient();
+      const chapters = (from: number, count: number) =>
+        Array.from({ length: count }, (_, i) => ({
+          abbrev: 'boericke',
+          remedy_id: from + i,
+          remedy_fullname: `Remedy ${from + i}`,
+          result_sections: [],
+        }));
+      const hits = Array.from({ length: 30 }, (_, i) => ({ hits: 1, remedyId: i + 1 }));
+
+      mockOOREPClientInstance.lookupMateriaMedica.mockImplementation(
+        async ({ page }: { page: number }) => ({
+          results: page === 0 ? chapters(1, 20) : chapters(21, 10),
+          numberOfMatchingSectionsPerChapter: hits,
+        })
+      );
+
+      const result = await client.searchMateriaMedica({ symptom: 'anxiety', page: 1 });
+
+      expect(mockOOREPClientInstance.lookupMateriaMedica).toHaveBeenCalledWith(
+        expect.objectContaining({ page: 0 })
+      );
+      expect(result.totalPages).toBe(2);
+      expect(result.nextCursor).toBeUndefined();
+
+      client.destroy();
+    });
+
+    it('when maxResults cuts pages short then following cursors reaches every chapter', async () => {
+      const client = new OOREPClient();
+      const chapters = (from: number, count: number) =>
+        Array.from({ length: count }, (_, i) => ({
+          abbrev: 'boericke',
+          remedy_id: from + i,
+          remedy_fullname: `Remedy ${from + i}`,
+          result_sections: [],
+        }));
+      const hits = Array.from({ length: 7 }, (_, i) => ({ hits: 1, remedyId: i + 1 }));
+
+      mockOOREPClientInstance.lookupMateriaMedica.mockImplementation(
+        async ({ page }: { page: number }) => ({
+          results: page === 0 ? chapters(1, 5) : chapters(6, 2),
+          numberOfMatchingSectionsPerChapter: hits,
+        })
+      );
+
+      const remedyIds: number[] = [];
+      let cursor: string | undefined;
+      do {
+        const result = await client.searchMateriaMedica({
+          symptom: 'anxiety',
+          maxResults: 2,
+          cursor,
+        });
+        remedyIds.push(...result.results.map((chapter) => chapter.remedyId!));
+        cursor = result.nextCursor;
+      } while (cursor !== undefined);
+
+      expect(remedyIds).toEqual([1, 2, 3, 4, 5, 6, 7]);
+
+      client.destroy();
+    });
+
+    it('when the cursor came from page 0 then reuses its page size', async () => {
+      const client = new OOREPClient();
+
+      mockOOREPClientInstance.lookupMateriaMedica.mockResolvedValue({
+        results: [],
+        numberOfMatchingSectionsPerChapter: Array.from({ length: 30 }, (_, i) => ({
+          hits: 1,
+          remedyId: i + 1,
+        })),
+      });
+
+      const result = await client.searchMateriaMedica({
+        symptom: 'anxiety',
+        cursor: encodePageCursor(1, { pageSize: 20 }),
+      });
+
+      expect(mockOOREPClientInstance.lookupMateriaMedica).toHaveBeenCalledTimes(1);
+      expect(result.totalPages).toBe(2);
+
+      client.destroy();
+    });
+  });
+
+  describe('iterateMateriaMedica', () => {
+    const chapter = (id: number) => ({
+      abbrev: 'boericke',
+      remedy_id: id,
+      remedy_fullname: `Remedy ${id}`,
+      result_sections: [],
+    });
+    const hits = Array.from({ length: 12 }, (_, i) => ({ hits: 1, remedyId: i + 1 }));
+
+    it('when chapters span pages then yields every chapter once', async () => {
+      const client = new OOREPClient();
+
+      mockOOREPClientInstance.lookupMateriaMedica
+        .mockResolvedValueOnce({
+          results: Array.from({ length: 10 }, (_, i) => chapter(i + 1)),
+          numberOfMatchingSectionsPerChapter: hits,
+        })
+        .mockResolvedValueOnce({
+          results: [chapter(11), chapter(12)],
+          numberOfMatchingSectionsPerChapter: hits,
+        });
+
+      const remedyIds: number[] = [];
+      for await (const result of client.iterateMateriaMedica({ symptom: 'anxiety' })) {
+        remedyIds.push(result.remedyId!);
+      }
+
+      expect(remedyIds).toEqual(Array.from({ length: 12 }, (_, i) => i + 1));
+      expect(mockOOREPClientInstance.lookupMateriaMedica).toHaveBeenCalledTimes(2);
+
+      client.destroy();
+    });
+
+    it('when a page comes back empty then stops', async () => {
+      const client = new OOREPClient();
+
+      mockOOREPClientInstance.lookupMateriaMedica
+        .mockResolvedValueOnce({
+          results: [chapter(1)],
+          numberOfMatchingSectionsPerChapter: hits,
+        })
+        .mockResolvedValueOnce({ results: [], numberOfMatchingSectionsPerChapter: hits });
+
+      const results = [];
+      for await (const result of client.iterateMateriaMedica({ symptom: 'anxiety' })) {
+        results.push(result);
+      }
+
+      expect(results).toHaveLength(1);
+      expect(mockOOREPClientInstance.lookupMateriaMedica).toHaveBeenCalledTimes(2);
+
+      client.destroy();
+    });
+  });
+
+  describe('getRemedyInfo - unit logic', () => {
+    it('performs case-insensitive matching', async () => {
+      const client = new OOREPClient();
+
+      mockOOREPClientInstance.getAvailableRemedies.mockResolvedValue([
+        { id: 1, nameAbbrev: 'Acon.', nameLong: 'Aconitum napellus', namealt: [] },
+      ]);
+
+      const result = await client.getRemedyInfo({ remedy: 'ACONITUM NAPELLUS' });
+
+      expect(result).not.toBeNull();
+      expect(result!.nameAbbrev).toBe('Acon.');
+
+      client.destroy();
+    });
+
+    it('matches by abbreviation', async () => {
+      const client = new OOREPClient();
+
+      mockOOREPClientInstance.getAvailableRemedies.mockResolvedValue([
+        { id: 1, nameAbbrev: 'Acon.', nameLong: 'Aconitum napellus', namealt: [] },
+      ]);
+
+      const result = await client.getRemedyInfo({ remedy: 'acon.' });
+
+      expect(result).not.toBeNull();
+      expect(result!.nameLong).toBe('Aconitum napellus');
+
+      client.destroy();
+    });
+
+    it('matches by alternative name', async () => {
+      const client = new OOREPClient();
+
+      mockOOREPClientInstance.getAvailableRemedies.mockResolvedValue([
+        { id: 1, nameAbbrev: 'Acon.', nameLong: 'Aconitum napellus', namealt: ['Aconite'] },
+      ]);
+
+      const result = await client.getRemedyInfo({ remedy: 'aconite' });
+
+      expect(result).not.toBeNull();
+      expect(result!.id).toBe(1);
+
+      client.destroy();
+    });
+
+    it('performs partial matching for queries >= 3 chars', async () => {
+      const client = new OOREPClient();
+
+      mockOOREPClientInstance.getAvailableRemedies.mockResolvedValue([
+        { id: 1, nameAbbrev: 'Bell.', nameLong: 'Belladonna', namealt: [] },
+      ]);
+
+      const result = await client.getRemedyInfo({ remedy: 'bella' });
+
+      expect(result).not.toBeNull();
+      expect(result!.nameLong).toBe('Belladonna');
+
+      client.destroy();
+    });
+
+    it('performs partial matching via alternative names', async () => {
+      const client = new OOREPClient();
+
+      mockOOREPClientInstance.getAvailableRemedies.mockResolvedValue([
+        {
+          id: 1,
+          nameAbbrev: 'Acon.',
+          nameLong: 'Aconitum napellus',
+          namealt: ['Monkshood', 'Wolfsbane'],
+        },
+      ]);
+
+      // Partial match on alternative name 'Wolfsbane'
+      const result = await client.getRemedyInfo({ remedy: 'wolfs' });
+
+      expect(result).not.toBeNull();
+      expect(result!.nameAbbrev).toBe('Acon.');
+
+      client.destroy();
+    });
+
+    it('matches when query contains alternative name', async () => {
+      const client = new OOREPClient();
+
+      mockOOREPClientInstance.getAvailableRemedies.mockResolvedValue([
+        {
+          id: 1,
+          nameAbbrev: 'Acon.',
+          nameLong: 'Aconitum napellus',
+          namealt: ['Monk'],
+        },
+      ]);
+
+      // Query 'monkfish' contains 'monk'
+      const result = await client.getRemedyInfo({ remedy: 'monkfish' });
+
+      expect(result).not.toBeNull();
+      expect(result!.nameAbbrev).toBe('Acon.');
+
+      client.destroy();
+    });
+
+    it('does not partial match for queries < 3 chars', async () => {
+      const client = new OOREPClient();
+
+      mockOOREPClientInstance.getAvailableRemedies.mockResolvedValue([
+        { id: 1, nameAbbrev: 'Bell.', nameLong: 'Belladonna', namealt: [] },
+      ]);
+
+      const result = await client.getRemedyInfo({ remedy: 'be' });
+
+      expect(result).toBeNull();
+
+      client.destroy();
+    });
+
+    it('returns null when remedy not found', async () => {
+      const client = new OOREPClient();
+
+      mockOOREPClientInstance.getAvailableRemedies.mockResolvedValue([
+        { id: 1, nameAbbrev: 'Acon.', nameLong: 'Aconitum napellus', namealt: [] },
+      ]);
+
+      const result = await client.getRemedyInfo({ remedy: 'nonexistent' });
+
+      expect(result).toBeNull();
+
+      client.destroy();
+    });
+  });
+
+  describe('listRepertories - unit logic', () => {
+    it('filters by language when specified', async () => {
+      const client = new OOREPClient();
+
+      mockOOREPClientInstance.getAvailableRepertories.mockResolvedValue([
+        { abbreviation: 'kent', title: 'Kent', language: 'en', author: 'Kent' },
+        { abbreviation: 'synth', title: 'Synthesis', language: 'de', author: 'Schroyens' },
+      ]);
+
+      const result = await client.listRepertories({ language: 'en' });
+
+      expect(result).toHaveLength(1);
+      expect(result[0].abbreviation).toBe('kent');
+
+      client.destroy();
+    });
+
+    it('returns all when no language filter', async () => {
+      const client = new OOREPClient();
+
+      mockOOREPClientInstance.getAvailableRepertories.mockResolvedValue([
+        { abbreviation: 'kent', title: 'Kent', language: 'en', author: 'Kent' },
+        { abbreviation: 'synth', title: 'Synthesis', language: 'de', author: 'Schroyens' },
+      ]);
+
+      const result = await client.listRepertories();
+
+      expect(result).toHaveLength(2);
+
+      client.destroy();
+    });
+  });
+
+  describe('listMateriaMedicas - unit logic', () => {
+    it('filters by language when specified', async () => {
+      const client = new OOREPClient();
+
+      mockOOREPClientInstance.getAvailableMateriaMedicas.mockResolvedValue([
+        { abbreviation: 'boericke', title: 'Boericke', language: 'en', author: 'Boericke' },
+        { abbreviation: 'hering', title: 'Hering', language: 'de', author: 'Hering' },
+      ]);
+
+      const result = await client.listMateriaMedicas({ language: 'de' });
+
+      expect(result).toHaveLength(1);
+      expect(result[0].abbreviation).toBe('hering');
+
+      client.destroy();
+    });
+
+    it('returns cached result without calling API', async () => {
+      const client = new OOREPClient();
+
+      const cachedResult = [
+        { abbreviation: 'cached', title: 'Cached MM', language: 'en', author: 'Test' },
+      ];
+      mockCacheInstance.get.mockResolvedValue(toCachedValue(cachedResult));
+
+      const result = await client.listMateriaMedicas();
+
+      expect(result).toBe(cachedResult);
+      expect(mockOOREPClientInstance.getAvailableMateriaMedicas).not.toHaveBeenCalled();
+
+      client.destroy();
+    });
+
+    it('returns all when no language filter', async () => {
+      const client = new OOREPClient();
+
+      mockOOREPClientInstance.getAvailableMateriaMedicas.mockResolvedValue([
+        { abbreviation: 'boericke', title: 'Boericke', language: 'en', author: 'Boericke' },
+        { abbreviation: 'hering', title: 'Hering', language: 'de', author: 'Hering' },
+      ]);
+
+      const result = await client.listMateriaMedicas();
+
+      expect(result).toHaveLength(2);
+
+      client.destroy();
+    });
+  });
+
+  describe('listRemedies - unit logic', () => {
+    it('maps alternate names and caches the list', async () => {
+      const client = new OOREPClient();
+
+      mockOOREPClientInstance.getAvailableRemedies.mockResolvedValue([
+        { id: 1, nameAbbrev: 'Acon.', nameLong: 'Aconitum napellus', namealt: ['Aconite'] },
+      ]);
+
+      const result = await client.listRemedies();
+
+      expect(result).toEqual([
+        { id: 1, nameAbbrev: 'Acon.', nameLong: 'Aconitum napellus', nameAlt: ['Aconite'] },
+      ]);
+      expect(mockCacheInstance.set).toHaveBeenCalledWith(expect.stringContaining('remedies'), {
+        data: result,
+        cachedAt: expect.any(Number),
+      });
+
+      client.destroy();
+    });
+
+    it('returns cached result without calling API', async () => {
+      const client = new OOREPClient();
+
+      const cachedResult = [{ id: 1, nameAbbrev: 'Cached.', nameLong: 'Cached remedy' }];
+      mockCacheInstance.get.mockResolvedValue(toCachedValue(cachedResult));
+
+      const result = await client.listRemedies();
+
+      expect(result).toBe(cachedResult);
+      expect(mockOOREPClientInstance.getAvailableRemedies).not.toHaveBeenCalled();
+
+      client.destroy();
+    });
+
+    it('sends remoteUser to the API', async () => {
+      const client = new OOREPClient();
+
+      mockOOREPClientInstance.getAvailableRemedies.mockResolvedValue([]);
+
+      await client.listRemedies({ remoteUser: '42' });
+
+      expect(mockOOREPClientInstance.getAvailableRemedies).toHaveBeenCalledWith({
+        remoteUser: '42',
+      });
+
+      client.destroy();
+    });
+  });
+
+  describe('per-call remoteUser', () => {
+    it('searchRepertory when remoteUser passed then sends it and partitions the cache key', async () => {
+      const client = new OOREPClient({ remoteUser: '1' });
+      mockOOREPClientInstance.lookupRepertory.mockResolvedValue({
+        totalNumberOfResults: 0,
+        results: [],
+      });
+
+      await client.searchRepertory({ symptom: 'headache', remoteUser: '42' });
+
+      expect(mockOOREPClientInstance.lookupRepertory).toHaveBeenCalledWith(
+        expect.objectContaining({ remoteUser: '42' })
+      );
+      expect(mockCacheInstance.get).toHaveBeenCalledWith(expect.stringContaining('remoteUser=42'));
+
+      client.destroy();
+    });
+
+    it('crossReferenceSymptoms when remoteUser passed then searches every query as that member', async () => {
+      const client = new OOREPClient({ remoteUser: '1' });
+      mockOOREPClientInstance.lookupRepertory.mockResolvedValue({
+        totalNumberOfResults: 0,
+        results: [],
+      });
+
+      await client.crossReferenceSymptoms({
+        queries: [{ symptom: 'headache' }, { symptom: 'anxiety' }],
+        remoteUser: '42',
+      });
+
+      expect(mockOOREPClientInstance.lookupRepertory).toHaveBeenCalledTimes(2);
+      for (const [call] of mockOOREPClientInstance.lookupRepertory.mock.calls) {
+        expect(call).toMatchObject({ remoteUser: '42' });
+      }
+
+      client.destroy();
+    });
+
+    it('searchRepertory when remoteUser omitted then falls back to the configured member', async () => {
+      const client = new OOREPClient({ remoteUser: '1' });
+      mockOOREPClientInstance.lookupRepertory.mockResolvedValue({
+        totalNumberOfResults: 0,
+        results: [],
+      });
+
+      await client.searchRepertory({ symptom: 'headache' });
+
+      expect(mockOOREPClientInstance.lookupRepertory).toHaveBeenCalledWith(
+        expect.objectContaining({ remoteUser: '1' })
+      );
+      expect(mockCacheInstance.get).toHaveBeenCalledWith(expect.stringContaining('remoteUser=1&'));
+
+      client.destroy();
+    });
+
+    it('searchRepertory when remedy filter and remoteUser then resolves the remedy as that member', async () => {
+      const client = new OOREPClient();
+      mockOOREPClientInstance.getAvailableRemedies.mockResolvedValue([
+        { id: 1, nameAbbrev: 'Sulph.', nameLong: 'Sulphur' },
+      ]);
+      mockOOREPClientInstance.lookupRepertory.mockResolvedValue({
+        totalNumberOfResults: 0,
+        results: [],
+      });
+
+      await client.searchRepertory({ symptom: 'headache', remedy: 'sulph', remoteUser: '42' });
+
+      expect(mockOOREPClientInstance.getAvailableRemedies).toHaveBeenCalledWith({
+        remoteUser: '42',
+      });
+
+      client.destroy();
+    });
+
+    it('searchMateriaMedica when remoteUser passed then sends it and partitions the cache key', async () => {
+      const client = new OOREPClient();
+      mockOOREPClientInstance.lookupMateriaMedica.mockResolvedValue({
+        results: [],
+        numberOfMatchingSectionsPerChapter: [],
+      });
+
+      await client.searchMateriaMedica({ symptom: 'anxiety', remoteUser: '42' });
+
+      expect(mockOOREPClientInstance.lookupMateriaMedica).toHaveBeenCalledWith(
+        expect.objectContaining({ remoteUser: '42' })
+      );
+      expect(mockCacheInstance.get).toHaveBeenCalledWith(expect.stringContaining('remoteUser=42'));
+
+      client.destroy();
+    });
+
+    it('listRepertories and listMateriaMedicas when remoteUser passed then send it', async () => {
+      const client = new OOREPClient();
+      mockOOREPClientInstance.getAvailableRepertories.mockResolvedValue([]);
+      mockOOREPClientInstance.getAvailableMateriaMedicas.mockResolvedValue([]);
+
+      await client.listRepertories({ remoteUser: '42' });
+      await client.listMateriaMedicas({ remoteUser: '7' });
+
+      expect(mockOOREPClientInstance.getAvailableRepertories).toHaveBeenCalledWith({
+        remoteUser: '42',
+      });
+      expect(mockOOREPClientInstance.getAvailableMateriaMedicas).toHaveBeenCalledWith({
+        remoteUser: '7',
+      });
+      expect(mockCacheInstance.get).toHaveBeenCalledWith(
+        expect.stringMatching(/^repertories:.*remoteUser=42/)
+      );
+      expect(mockCacheInstance.get).toHaveBeenCalledWith(
+        expect.stringMatching(/^materiamedicas:.*remoteUser=7/)
+      );
+
+      client.destroy();
+    });
+
+    it('repertorizeCase and getRubric when remoteUser passed then use rubrics that member found', async () => {
+      const client = new OOREPClient({ remoteUser: '1' });
+      const store = new Map<string, unknown>();
+      mockCacheInstance.get.mockImplementation(async (key: string) => store.get(key) ?? null);
+      mockCacheInstance.set.mockImplementation(async (key: string, value: unknown) => {
+        store.set(key, value);
+      });
+      mockOOREPClientInstance.lookupRepertory.mockResolvedValue({
+        totalNumberOfResults: 1,
+        results: [
+          {
+            rubric: { id: 10, fullPath: 'Head' },
+            repertoryAbbrev: 'kent',
+            weightedRemedies: [
+              { remedy: { nameAbbrev: 'Bell.', nameLong: 'Belladonna' }, weight: 3 },
+            ],
+          },
+        ],
+      });
+      await client.searchRepertory({ symptom: 'head', repertory: 'kent', remoteUser: '42' });
+      mockOOREPClientInstance.lookupRepertory.mockClear();
+
+      const result = await client.repertorizeCase({
+        rubrics: [{ id: 10 }],
+        repertory: 'kent',
+        remoteUser: '42',
+      });
+      const details = await client.getRubric({ id: 10, repertory: 'kent', remoteUser: '42' });
+
+      expect(result.rankings.sumOfGrades).toEqual(['Bell.']);
+      expect(details.rubric.rubric).toBe('Head');
+      expect(mockOOREPClientInstance.lookupRepertory).not.toHaveBeenCalled();
+      await expect(client.getRubric({ id: 10, repertory: 'kent' })).rejects.toThrow(
+        'Rubric 10 is not known in kent'
+      );
+
+      client.destroy();
+    });
+
+    it('browseRubricChildren when remoteUser passed then searches and caches as that member', async () => {
+      const client = new OOREPClient({ remoteUser: '1' });
+      mockOOREPClientInstance.lookupRepertory.mockResolvedValue(null);
+
+      await client.browseRubricChildren({
+        path: 'Head, pain',
+        repertory: 'kent',
+        remoteUser: '42',
+      });
+
+      expect(mockOOREPClientInstance.lookupRepertory).toHaveBeenCalledWith(
+        expect.objectContaining({ remoteUser: '42' })
+      );
+      expect(mockCacheInstance.get).toHaveBeenCalledWith(
+        expect.stringMatching(/^rubric-children:.*remoteUser=42/)
+      );
+
+      client.destroy();
+    });
+
+    it('listRepertories when remoteUser is not numeric then throws', async () => {
+      const client = new OOREPClient();
+
+      await expect(client.listRepertories({ remoteUser: 'admin' })).rejects.toThrow(
+        'remoteUser must be a numeric OOREP member ID'
+      );
+      expect(mockOOREPClientInstance.getAvailableRepertories).not.toHaveBeenCalled();
+
+      client.destroy();
+    });
+  });
+
+  describe('clearCache', () => {
+    it('delegates to cache clear method', () => {
+      const client = new OOREPClient();
+
+      client.clearCache();
+
+      expect(mockCacheInstance.clear).toHaveBeenCalled();
+
+      client.destroy();
+    });
+  });
+
+  describe('destroy', () => {
+    it('delegates to cache destroy method', () => {
+      const client = new OOREPClient();
+
+      client.destroy();
+
+      expect(mockCacheInstance.destroy).toHaveBeenCalled();
+    });
+  });
+
+  describe('cache policies', () => {
+    const remedies = [{ id: 1, nameAbbrev: 'Acon.', nameLong: 'Aconitum napellus' }];
+    const cachedList = [{ id: 1, nameAbbrev: 'Cached.', nameLong: 'Cached remedy' }];
+
+    it('sizes the default cache for the longest TTL plus the stale window', () => {
+      const client = new OOREPClient({
+        cacheTtls: { listRemedies: 86400000 },
+        staleWhileRevalidateMs: 60000,
+      });
+
+      expect(InMemoryCache).toHaveBeenCalledWith(86460000, expect.any(Object), expect.any(Object));
+      expect(client.getConfig().cacheTtls).toMatchObject({
+        listRemedies: 86400000,
+        searchRepertory: 300000,
+      });
+
+      client.destroy();
+    });
+
+    it('refetches when an entry is older than its operation TTL', async () => {
+      const client = new OOREPClient({ cacheTtls: { listRemedies: 1000 } });
+      mockCacheInstance.get.mockResolvedValue(toCachedValue(cachedList, Date.now() - 5000));
+      mockOOREPClientInstance.getAvailableRemedies.mockResolvedValue(remedies);
+
+      const result = await client.listRemedies();
+
+      expect(result[0].nameAbbrev).toBe('Acon.');
+
+      client.destroy();
+    });
+
+    it('keeps an entry fresh for a longer operation TTL', async () => {
+      const client = new OOREPClient({ cacheTtlMs: 1000, cacheTtls: { listRemedies: 60000 } });
+      mockCacheInstance.get.mockResolvedValue(toCachedValue(cachedList, Date.now() - 5000));
+
+      const result = await client.listRemedies();
+
+      expect(result).toBe(cachedList);
+      expect(mockOOREPClientInstance.getAvailableRemedies).not.toHaveBeenCalled();
+
+      client.destroy();
+    });
+
+    it('does not cache operations with a TTL of 0', async () => {
+      const client = new OOREPClient({ cacheTtls: { listRemedies: 0 } });
+      mockOOREPClientInstance.getAvailableRemedies.mockResolvedValue(remedies);
+
+      await client.listRemedies();
+
+      expect(mockCacheInstance.set).not.toHaveBeenCalled();
+
+      client.destroy();
+    });
+
+    it('serves a stale entry at once and refreshes it in the background', async () => {
+      const client = new OOREPClient({ cacheTtlMs: 1000, staleWhileRevalidateMs: 60000 });
+      mockCacheInstance.get.mockResolvedValue(toCachedValue(cachedList, Date.now() - 5000));
+      mockOOREPClientInstance.getAvailableRemedies.mockResolvedValue(remedies);
+      const controller = new AbortController();
+
+      const result = await client.listRemedies({}, { signal: controller.signal });
+
+      expect(result).toBe(cachedList);
+      await vi.waitFor(() =>
+        expect(mockCacheInstance.set).toHaveBeenCalledWith(expect.stringContaining('remedies'), {
+          data: [expect.objectContaining({ nameAbbrev: 'Acon.' })],
+          cachedAt: expect.any(Number),
+        })
+      );
+      expect(mockDeduplicatorInstance.deduplicate).toHaveBeenCalledWith(
+        expect.stringContaining('remedies'),
+        expect.any(Function)
+      );
+      // The refresh outlives the caller, so it must not carry the caller's signal
+      expect(mockOOREPClientInstance.getAvailableRemedies).toHaveBeenCalledWith({
+        remoteUser: undefined,
+      });
+
+      client.destroy();
+    });
+
+    it('keeps serving the stale entry when the background refresh fails', async () => {
+      const client = new OOREPClient({ cacheTtlMs: 1000, staleWhileRevalidateMs: 60000 });
+      mockCacheInstance.get.mockResolvedValue(toCachedValue(cachedList, Date.now() - 5000));
+      mockOOREPClientInstance.getAvailableRemedies.mockRejectedValue(new Error('offline'));
+
+      await expect(client.listRemedies()).resolves.toBe(cachedList);
+      await vi.waitFor(() =>
+        expect(mockOOREPClientInstance.getAvailableRemedies).toHaveBeenCalled()
+      );
+      expect(mockCacheInstance.set).not.toHaveBeenCalled();
+
+      client.destroy();
+    });
+
+    it('ignores entries past the stale window', async () => {
+      const client = new OOREPClient({ cacheTtlMs: 1000, staleWhileRevalidateMs: 1000 });
+      mockCacheInstance.get.mockResolvedValue(toCachedValue(cachedList, Date.now() - 5000));
+      mockOOREPClientInstance.getAvailableRemedies.mockResolvedValue(remedies);
+
+      const result = await client.listRemedies();
+
+      expect(result[0].nameAbbrev).toBe('Acon.');
+
+      client.destroy();
+    });
+  });
+
+  describe('query translation', () => {
+    it('searches the translated query when autoTranslate is set', async () => {
+      const client = new OOREPClient();
+      mockOOREPClientInstance.lookupRepertory.mockResolvedValue({
+        totalNumberOfResults: 1,
+        results: [
+          {
+            rubric: { fullPath: 'Head, pain, motion, agg.' },
+            repertoryAbbrev: 'publicum',
+            weightedRemedies: [],
+          },
+        ],
+      });
+
+      const result = await client.searchRepertory({
+        symptom: 'headache worse from motion',
+        autoTranslate: true,
+      });
+
+      expect(mockOOREPClientInstance.lookupRepertory).toHaveBeenCalledWith(
+        expect.objectContaining({ symptom: 'head* pain* agg motion*' })
+      );
+      expect(mockCacheInstance.get).toHaveBeenCalledWith(
+        expect.stringContaining('symptom=head* pain* agg motion*')
+      );
+      expect(result.translatedQuery).toBe('head* pain* agg motion*');
+
+      client.destroy();
+    });
+
+    it('omits translatedQuery when autoTranslate is not set', async () => {
+      const client = new OOREPClient();
+      mockOOREPClientInstance.lookupRepertory.mockResolvedValue(null);
+
+      const result = await client.searchRepertory({ symptom: 'headache worse from motion' });
+
+      expect(mockOOREPClientInstance.lookupRepertory).toHaveBeenCalledWith(
+        expect.objectContaining({ symptom: 'headache worse from motion' })
+      );
+      expect(result.translatedQuery).toBeUndefined();
+
+      client.destroy();
+    });
+
+    it('suggestRepertoryQuery translates without calling OOREP', async () => {
+      const client = new OOREPClient();
+
+      const translation = await client.suggestRepertoryQuery({ symptom: 'sharp pain in chest' });
+
+      expect(translation.query).toBe('chest* stitch*');
+      expect(mockOOREPClientInstance.lookupRepertory).not.toHaveBeenCalled();
+
+      client.destroy();
+    });
+  });
+
+  describe('empty search results', () => {
+    it('suggests broader queries when no rubric matches', async () => {
+      const client = new OOREPClient();
+      mockOOREPClientInstance.lookupRepertory.mockResolvedValue(null);
+
+      const result = await client.searchRepertory({ symptom: 'headache worse motion' });
+
+      expect(result.totalResults).toBe(0);
+      expect(result.suggestions).toContainEqual(
+        expect.objectContaining({ query: 'head pain agg motion', strategy: 'vocabulary' })
+      );
+
+      client.destroy();
+    });
+
+    it('omits suggestions when rubrics are found', async () => {
+      const client = new OOREPClient();
+      mockOOREPClientInstance.lookupRepertory.mockResolvedValue({
+        totalNumberOfResults: 1,
+        results: [
+          {
+            rubric: { fullPath: 'Head, pain' },
+            repertoryAbbrev: 'publicum',
+            weightedRemedies: [],
+          },
+        ],
+      });
+
+      const result = await client.searchRepertory({ symptom: 'headache' });
+
+      expect(result.suggestions).toBeUndefined();
+
+      client.destroy();
+    });
+
+    it('caches an empty result as a negative entry', async () => {
+      const client = new OOREPClient();
+      mockOOREPClientInstance.lookupRepertory.mockResolvedValue(null);
+
+      await client.searchRepertory({ symptom: 'nothing' });
+
+      expect(mockCacheInstance.set).toHaveBeenCalledWith(
+        expect.stringContaining('symptom=nothing'),
+        expect.objectContaining({ negative: true })
+      );
+
+      client.destroy();
+    });
+
+    it('refetches a negative entry older than the negative TTL', async () => {
+      const client = new OOREPClient({ negativeCacheTtlMs: 1000 });
+      const empty = { totalResults: 0, totalRemedies: 0, rubrics: [], remedyStats: [] };
+      mockCacheInstance.get.mockResolvedValue(toCachedValue(empty, Date.now() - 5000, true));
+      mockOOREPClientInstance.lookupRepertory.mockResolvedValue(null);
+
+      await client.searchRepertory({ symptom: 'nothing' });
+
+      expect(mockOOREPClientInstance.lookupRepertory).toHaveBeenCalledTimes(1);
+
+      client.destroy();
+    });
+
+    it('does not cache empty results when the negative TTL is 0', async () => {
+      const client = new OOREPClient({ negativeCacheTtlMs: 0 });
+      mockOOREPClientInstance.lookupRepertory.mockResolvedValue(null);
+
+      await client.searchRepertory({ symptom: 'nothing' });
+
+      expect(mockCacheInstance.set).not.toHaveBeenCalled();
+
+      client.destroy();
     });
   });
 
@@ -4,6 +4,17 @@ export const TOOL_NAMES = {
   GET_REMEDY_INFO: 'get_remedy_info',
   LIST_REPERTORIES: 'list_available_repertories',
   LIST_MATERIA_MEDICAS: 'list_available_materia_medicas',
+  REPERTORIZE_CASE: 'repertorize_case',
+  CROSS_REFERENCE_SYMPTOMS: 'cross_reference_symptoms',
+  CREATE_CASE: 'create_case',
+  ADD_RUBRIC_TO_CASE: 'add_rubric_to_case',
+  REMOVE_RUBRIC_FROM_CASE: 'remove_rubric_from_case',
+  GET_CASE: 'get_case',
+  LIST_CASES: 'list_cases',
+  DELETE_CASE: 'delete_case',
+  GET_RUBRIC: 'get_rubric',
+  BROWSE_RUBRIC_CHILDREN: 'browse_rubric_children',
+  SUGGEST_REPERTORY_QUERY: 'suggest_repertory_query',
 } as const;
 
 export const ALL_TOOL_NAMES = Object.values(TOOL_NAMES);
@@ -19,6 +30,18 @@ export const RESOURCE_URIS = {
 export const ALL_RESOURCE_URIS = Object.values(RESOURCE_URIS);
 export type ResourceUri = (typeof RESOURCE_URIS)[keyof typeof RESOURCE_URIS];
 
+export const RESOURCE_URI_TEMPLATES = {
+  RUBRIC: 'oorep://repertories/{abbrev}/rubrics/{id}',
+  REPERTORY: 'oorep://repertories/{abbrev}',
+  MATERIA_MEDICA: 'oorep://materia-medicas/{abbrev}',
+  REMEDY: 'oorep://remedies/{abbrev}',
+  REMEDIES_LIST_CHUNK: 'oorep://remedies/list/{initial}',
+} as const;
+
+export const ALL_RESOURCE_URI_TEMPLATES = Object.values(RESOURCE_URI_TEMPLATES);
+export type ResourceUriTemplate =
+  (typeof RESOURCE_URI_TEMPLATES)[keyof typeof RESOURCE_URI_TEMPLATES];
+
 export const PROMPT_NAMES = {
   ANALYZE_SYMPTOMS: 'analyze-symptoms',
   REMEDY_COMPARISON: 'remedy-comparison',
@@ -32,13 +55,25 @@ export const DEFAULTS = {
   BASE_URL: 'https://www.oorep.com',
   TIMEOUT_MS: 30000,
   CACHE_TTL_MS: 300000,
+  CACHE_MAX_ENTRIES: 1000,
+  CACHE_MAX_BYTES: 52428800,
+  STALE_WHILE_REVALIDATE_MS: 0,
+  NEGATIVE_CACHE_TTL_MS: 60000,
   MAX_RESULTS: 100,
   LOG_LEVEL: 'info',
   REPERTORY: 'publicum',
   MATERIA_MEDICA: 'boericke',
+  TRANSPORT: 'stdio',
+  HTTP_HOST: '127.0.0.1',
+  HTTP_PORT: 3000,
+  HTTP_PATH: '/mcp',
+  SESSION_IDLE_MS: 1800000,
 } as const;
 
 export const MIME_TYPES = {
   JSON: 'application/json',
   MARKDOWN: 'text/markdown',
+  CSV: 'text/csv',
+  HTML: 'text/html',
+  SVG: 'image/svg+xml',
 } as const;
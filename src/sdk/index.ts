@@ -21,7 +21,13 @@
  */
 
 // Re-export the main client
-export { OOREPClient, createOOREPClient, type OOREPSDKConfig } from './client.js';
+export {
+  OOREPClient,
+  createOOREPClient,
+  type OOREPSDKConfig,
+  type OOREPCallOptions,
+  type ProgressCallback,
+} from './client.js';
 
 // Re-export constants (single source of truth)
 export {
@@ -33,6 +39,9 @@ export {
   RESOURCE_URIS,
   ALL_RESOURCE_URIS,
   type ResourceUri,
+  RESOURCE_URI_TEMPLATES,
+  ALL_RESOURCE_URI_TEMPLATES,
+  type ResourceUriTemplate,
   // Prompt constants
   PROMPT_NAMES,
   ALL_PROMPT_NAMES,
@@ -44,8 +53,18 @@ export {
 } from './constants.js';
 
 // Re-export Resource types and functions
-export type { ResourceContent, ResourceDefinition } from './resources.js';
-export { listResources, getResource, getSearchSyntaxHelp } from './resources.js';
+export type {
+  ResourceContent,
+  ResourceDefinition,
+  ResourceTemplateDefinition,
+} from './resources.js';
+export {
+  listResources,
+  listResourceTemplates,
+  getResource,
+  getTemplatedResource,
+  getSearchSyntaxHelp,
+} from './resources.js';
 
 // Re-export Prompt types and functions
 export type { PromptMessage, PromptResult, PromptDefinition } from './prompts.js';
@@ -60,6 +79,19 @@ export type {
   GetRemedyInfoArgs,
   ListRepertoriesArgs,
   ListMateriaMedicasArgs,
+  RepertorizeCaseArgs,
+  CaseRubricSelection,
+  CrossReferenceSymptomsArgs,
+  CrossReferenceQuery,
+  CreateCaseArgs,
+  AddRubricToCaseArgs,
+  RemoveRubricFromCaseArgs,
+  GetCaseArgs,
+  ListCasesArgs,
+  DeleteCaseArgs,
+  GetRubricArgs,
+  BrowseRubricChildrenArgs,
+  SuggestRepertoryQueryArgs,
   // Result types
   RepertorySearchResult,
   MateriaMedicaSearchResult,
@@ -67,9 +99,32 @@ export type {
   RepertoryMetadata,
   MateriaMedicaMetadata,
   Rubric,
+  RubricGroupBy,
+  RubricTreeNode,
   Remedy,
+  RemedyStat,
+  RemedyRankingName,
+  RepertoryExportFormat,
   MateriaMedicaResult,
   MateriaMedicaSection,
+  MateriaMedicaRemedyHits,
+  RepertorizationResult,
+  RepertorizedRemedy,
+  CaseRubric,
+  CrossReferenceResult,
+  CrossReferenceQuerySummary,
+  CrossReferencedRemedy,
+  EliminatedRemedy,
+  SavedCase,
+  SavedCaseRubric,
+  CaseSummary,
+  CaseDetails,
+  DeleteCaseResult,
+  RubricDetails,
+  RubricChildrenResult,
+  QuerySuggestion,
+  RepertoryQueryTranslation,
+  QueryTranslationChange,
 } from '../utils/schemas.js';
 
 // Re-export validation schemas for client-side validation
@@ -79,11 +134,31 @@ export {
   GetRemedyInfoArgsSchema,
   ListRepertoriesArgsSchema,
   ListMateriaMedicasArgsSchema,
+  RepertorizeCaseArgsSchema,
+  CrossReferenceSymptomsArgsSchema,
+  CreateCaseArgsSchema,
+  AddRubricToCaseArgsSchema,
+  RemoveRubricFromCaseArgsSchema,
+  GetCaseArgsSchema,
+  ListCasesArgsSchema,
+  DeleteCaseArgsSchema,
+  GetRubricArgsSchema,
+  BrowseRubricChildrenArgsSchema,
+  SuggestRepertoryQueryArgsSchema,
   RepertorySearchResultSchema,
   MateriaMedicaSearchResultSchema,
   RemedyInfoSchema,
   RepertoryMetadataSchema,
   MateriaMedicaMetadataSchema,
+  RepertorizationResultSchema,
+  CrossReferenceResultSchema,
+  SavedCaseSchema,
+  CaseSummarySchema,
+  CaseDetailsSchema,
+  DeleteCaseResultSchema,
+  RubricDetailsSchema,
+  RubricChildrenResultSchema,
+  RepertoryQueryTranslationSchema,
 } from '../utils/schemas.js';
 
 // Re-export error classes
@@ -92,6 +167,7 @@ export {
   ValidationError,
   NetworkError,
   TimeoutError,
+  CancelledError,
   RateLimitError,
   OOREPAPIError,
   sanitizeError,
@@ -101,10 +177,23 @@ export {
 export type { ICache } from '../interfaces/ICache.js';
 export type { ILogger, LogLevel } from '../interfaces/ILogger.js';
 export type { IRequestDeduplicator } from '../interfaces/IRequestDeduplicator.js';
+export type { ICaseStore } from '../interfaces/ICaseStore.js';
 
 // Re-export implementations
-export { InMemoryCache } from '../lib/cache.js';
+export {
+  InMemoryCache,
+  FileSystemCache,
+  type InMemoryCacheOptions,
+  type FileSystemCacheOptions,
+} from '../lib/cache.js';
+export {
+  CACHED_OPERATIONS,
+  CATALOG_OPERATIONS,
+  type CachedOperation,
+  type CacheTtlPolicy,
+} from '../lib/cache-policy.js';
 export { MapRequestDeduplicator } from '../lib/deduplicator.js';
+export { InMemoryCaseStore, JsonFileCaseStore } from '../lib/case-store.js';
 export { ConsoleLogger } from '../utils/logger.js';
 
 // Re-export helper classes
@@ -121,6 +210,34 @@ export {
   formatList,
 } from '../lib/data-formatter.js';
 
+// Re-export remedy ranking strategies
+export type {
+  RemedyRankingStrategy,
+  RemedyRankingContext,
+  RemedyScore,
+  RankedRemedyStat,
+} from '../lib/remedy-ranking.js';
+export {
+  REMEDY_RANKING_STRATEGIES,
+  rankRemedyStats,
+  kentTotalityStrategy,
+  boenninghausenPolarityStrategy,
+  bogerGeneralFirstStrategy,
+  smallRemedyCorrectionStrategy,
+} from '../lib/remedy-ranking.js';
+
+// Re-export repertorization chart exporters
+export type {
+  RepertoryChart,
+  RepertoryChartRemedy,
+  RepertoryExport,
+} from '../lib/repertory-export.js';
+export { buildRepertoryChart, exportRepertoryChart } from '../lib/repertory-export.js';
+
+// Re-export natural-language query translation
+export { REPERTORY_VOCABULARY, translateSymptomQuery } from '../lib/query-translator.js';
+export { suggestRepertoryQueries } from '../lib/query-suggestions.js';
+
 // Export tool definitions for building custom integrations
 export {
   toolDefinitions,
@@ -134,7 +251,9 @@ export {
   resourceDefinitions,
   getResourceDefinition,
   getResourceUris,
+  resourceTemplateDefinitions,
   type OOREPResourceDefinition,
+  type OOREPResourceTemplateDefinition,
 } from './resources.js';
 
 // Export prompt definitions for building custom integrations
@@ -9,16 +9,26 @@
  * These can be used to build custom integrations with different AI SDKs.
  */
 
-import { RESOURCE_URIS, type ResourceUri } from './constants.js';
+import { RESOURCE_URIS, type ResourceUri, type ResourceUriTemplate } from './constants.js';
 import type { OOREPHttpClient } from '../lib/oorep-client.js';
 import { NotFoundError } from '../utils/errors.js';
 
 // Re-export for convenience
 export type { ResourceUri } from './constants.js';
-export { RESOURCE_URIS, ALL_RESOURCE_URIS } from './constants.js';
+export type { ResourceUriTemplate } from './constants.js';
+export {
+  RESOURCE_URIS,
+  ALL_RESOURCE_URIS,
+  RESOURCE_URI_TEMPLATES,
+  ALL_RESOURCE_URI_TEMPLATES,
+} from './constants.js';
 
 // Re-export types from resources module
-export type { ResourceContent, ResourceDefinition } from '../resources/index.js';
+export type {
+  ResourceContent,
+  ResourceDefinition,
+  ResourceTemplateDefinition,
+} from '../resources/index.js';
 
 // Import fetch functions and definitions from resources module
 import {
@@ -30,8 +40,22 @@ import {
   repertoriesListDefinition,
   materiaMedicasListDefinition,
   searchSyntaxHelpDefinition,
+  rubricTemplateDefinition,
+  repertoryTemplateDefinition,
+  materiaMedicaTemplateDefinition,
+  remedyTemplateDefinition,
+  remediesChunkTemplateDefinition,
+  fetchRepertory,
+  fetchMateriaMedica,
+  fetchRemedy,
+  parseRepertoryResourceUri,
+  parseMateriaMedicaResourceUri,
+  parseRemedyResourceUri,
+  fetchRemediesChunk,
+  parseRemediesChunkResourceUri,
   type ResourceContent,
   type ResourceDefinition,
+  type ResourceTemplateDefinition,
 } from '../resources/index.js';
 
 /**
@@ -44,6 +68,16 @@ export interface OOREPResourceDefinition {
   mimeType: string;
 }
 
+/**
+ * Generic resource template definition for resources addressed by parameterized URIs
+ */
+export interface OOREPResourceTemplateDefinition {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
 /**
  * All OOREP resource definitions (imported from source modules to avoid duplication)
  */
@@ -54,6 +88,17 @@ export const resourceDefinitions: OOREPResourceDefinition[] = [
   searchSyntaxHelpDefinition,
 ];
 
+/**
+ * All OOREP resource template definitions
+ */
+export const resourceTemplateDefinitions: OOREPResourceTemplateDefinition[] = [
+  rubricTemplateDefinition,
+  repertoryTemplateDefinition,
+  materiaMedicaTemplateDefinition,
+  remedyTemplateDefinition,
+  remediesChunkTemplateDefinition,
+];
+
 /**
  * Get a resource definition by URI
  */
@@ -89,6 +134,30 @@ export function listResources(): ResourceDefinition[] {
   }));
 }
 
+/**
+ * List all resource templates with their metadata
+ *
+ * Repertory, materia medica, remedy and remedy list chunk URIs can be read
+ * with `getTemplatedResource()`. Rubric URIs are read through an MCP server, or
+ * fetched directly with `client.getRubric()`.
+ *
+ * @example
+ * ```typescript
+ * import { listResourceTemplates } from 'oorep-mcp';
+ *
+ * const templates = listResourceTemplates();
+ * // [{ uriTemplate: 'oorep://repertories/{abbrev}/rubrics/{id}', name: 'Repertory Rubric', ... }]
+ * ```
+ */
+export function listResourceTemplates(): ResourceTemplateDefinition[] {
+  return resourceTemplateDefinitions.map((def) => ({
+    uriTemplate: def.uriTemplate as ResourceUriTemplate,
+    name: def.name,
+    description: def.description,
+    mimeType: def.mimeType,
+  }));
+}
+
 /**
  * Get a resource by URI
  *
@@ -151,6 +220,50 @@ export async function getResource(
   }
 }
 
+/**
+ * Get a resource addressed by a repertory, materia medica, remedy or remedy list
+ * chunk URI template
+ *
+ * @param uri - An expanded template URI, e.g. `oorep://remedies/Acon.`
+ * @param httpClient - HTTP client used to look the item up
+ * @returns Promise resolving to the resource content as JSON
+ * @throws {NotFoundError} If the URI fits no template or names an unknown item
+ *
+ * @example
+ * ```typescript
+ * import { getTemplatedResource } from 'oorep-mcp';
+ *
+ * const remedy = await getTemplatedResource('oorep://remedies/Bell.', httpClient);
+ * console.log(JSON.parse(remedy.text).materiaMedicas);
+ * ```
+ */
+export async function getTemplatedResource(
+  uri: string,
+  httpClient: OOREPHttpClient
+): Promise<ResourceContent> {
+  const repertory = parseRepertoryResourceUri(uri);
+  if (repertory) {
+    return fetchRepertory(httpClient, repertory.repertory);
+  }
+
+  const materiaMedica = parseMateriaMedicaResourceUri(uri);
+  if (materiaMedica) {
+    return fetchMateriaMedica(httpClient, materiaMedica.materiamedica);
+  }
+
+  const remedy = parseRemedyResourceUri(uri);
+  if (remedy) {
+    return fetchRemedy(httpClient, remedy.remedy);
+  }
+
+  const chunk = parseRemediesChunkResourceUri(uri);
+  if (chunk) {
+    return fetchRemediesChunk(httpClient, chunk.initial);
+  }
+
+  throw new NotFoundError(`Unknown resource URI: ${uri}`, 'resource', uri);
+}
+
 /**
  * Get the search syntax help guide as markdown text
  *
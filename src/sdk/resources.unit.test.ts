@@ -5,7 +5,9 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import {
   listResources,
+  listResourceTemplates,
   getResource,
+  getTemplatedResource,
   getSearchSyntaxHelp,
   getResourceDefinition,
   getResourceUris,
@@ -44,6 +46,70 @@ describe('listResources', () => {
   });
 });
 
+describe('listResourceTemplates', () => {
+  it('returns the rubric and item resource templates', () => {
+    const templates = listResourceTemplates();
+
+    expect(templates.map((t) => t.uriTemplate)).toEqual([
+      'oorep://repertories/{abbrev}/rubrics/{id}',
+      'oorep://repertories/{abbrev}',
+      'oorep://materia-medicas/{abbrev}',
+      'oorep://remedies/{abbrev}',
+      'oorep://remedies/list/{initial}',
+    ]);
+    expect(templates[0].name).toBe('Repertory Rubric');
+  });
+});
+
+describe('getTemplatedResource', () => {
+  const httpClient = {
+    getAvailableRemedies: vi.fn(),
+    getRepertoriesWithRemedies: vi.fn(),
+    getMateriaMedicasWithRemedies: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    httpClient.getAvailableRemedies.mockResolvedValue([
+      { id: 1, nameAbbrev: 'Acon.', nameLong: 'Aconitum napellus' },
+    ]);
+    httpClient.getRepertoriesWithRemedies.mockResolvedValue([
+      { metadata: { abbreviation: 'kent', title: 'Kent' }, remedyIds: [1] },
+    ]);
+    httpClient.getMateriaMedicasWithRemedies.mockResolvedValue([
+      { metadata: { abbreviation: 'boericke', title: 'Boericke' }, remedyIds: [] },
+    ]);
+  });
+
+  it('returns repertory, materia medica and remedy resources', async () => {
+    const repertory = await getTemplatedResource('oorep://repertories/kent', httpClient as any);
+    const materiaMedica = await getTemplatedResource(
+      'oorep://materia-medicas/boericke',
+      httpClient as any
+    );
+    const remedy = await getTemplatedResource('oorep://remedies/Acon.', httpClient as any);
+
+    expect(JSON.parse(repertory.text).abbreviation).toBe('kent');
+    expect(JSON.parse(materiaMedica.text).abbreviation).toBe('boericke');
+    expect(JSON.parse(remedy.text)).toMatchObject({ repertories: ['kent'], materiaMedicas: [] });
+  });
+
+  it('returns remedy list chunk resources', async () => {
+    const chunk = await getTemplatedResource('oorep://remedies/list/a', httpClient as any);
+
+    expect(chunk.uri).toBe('oorep://remedies/list/a');
+    expect(JSON.parse(chunk.text)).toEqual([
+      { id: 1, nameAbbrev: 'Acon.', nameLong: 'Aconitum napellus' },
+    ]);
+  });
+
+  it('throws NotFoundError for URIs that fit no item template', async () => {
+    await expect(
+      getTemplatedResource('oorep://repertories/kent/rubrics/1', httpClient as any)
+    ).rejects.toThrow('Unknown resource URI');
+  });
+});
+
 describe('getResource', () => {
   beforeEach(() => {
     vi.clearAllMocks();
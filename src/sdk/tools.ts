@@ -28,6 +28,9 @@ export interface OOREPToolDefinition {
         minimum?: number;
         maximum?: number;
         default?: unknown;
+        items?: Record<string, unknown>;
+        minItems?: number;
+        maxItems?: number;
       }
     >;
     required: string[];
@@ -62,6 +65,11 @@ export const toolDefinitions: OOREPToolDefinition[] = [
           minimum: 1,
           maximum: 4,
         },
+        remedy: {
+          type: 'string',
+          description:
+            'Only return rubrics containing this remedy. Accepts a name, abbreviation or alternate name (e.g., "Sulphur", "sulph").',
+        },
         maxResults: {
           type: 'number',
           description:
@@ -74,6 +82,34 @@ export const toolDefinitions: OOREPToolDefinition[] = [
           description: 'Include aggregated remedy statistics across all matching rubrics',
           default: true,
         },
+        page: {
+          type: 'number',
+          description: 'Zero-based result page to fetch. Defaults to the first page (0).',
+          minimum: 0,
+        },
+        cursor: {
+          type: 'string',
+          description:
+            'Opaque nextCursor value from a previous search_repertory result. Takes precedence over page.',
+        },
+        groupBy: {
+          type: 'string',
+          enum: ['flat', 'tree', 'chapter'],
+          description:
+            'Result layout. "tree" nests rubrics as chapter > root rubric > sub-rubrics, "chapter" groups them by chapter. Default: flat',
+        },
+        ranking: {
+          type: 'string',
+          enum: ['kent', 'boenninghausen', 'boger', 'small-remedy'],
+          description:
+            'Remedy ranking strategy for remedyStats. Adds score and scoreBreakdown to each remedy.',
+        },
+        autoTranslate: {
+          type: 'boolean',
+          description:
+            'Rewrite a symptom in everyday words into repertory terms before searching. The query sent is returned as translatedQuery.',
+          default: false,
+        },
       },
       required: ['symptom'],
     },
@@ -105,6 +141,17 @@ export const toolDefinitions: OOREPToolDefinition[] = [
           minimum: 1,
           maximum: 500,
         },
+        page: {
+          type: 'number',
+          description:
+            'Zero-based page of remedy chapters to fetch. Defaults to the first page (0).',
+          minimum: 0,
+        },
+        cursor: {
+          type: 'string',
+          description:
+            'Opaque nextCursor value from a previous search_materia_medica result. Takes precedence over page.',
+        },
       },
       required: ['symptom'],
     },
@@ -157,6 +204,292 @@ export const toolDefinitions: OOREPToolDefinition[] = [
       required: [],
     },
   },
+  {
+    name: TOOL_NAMES.REPERTORIZE_CASE,
+    description:
+      'Repertorize a case: combine the rubrics chosen for each symptom into a remedy × rubric grid and rank remedies by sum of grades, sum of symptoms and coverage.',
+    parameters: {
+      type: 'object',
+      properties: {
+        rubrics: {
+          type: 'array',
+          description:
+            'Rubrics selected for the case (1-50). Each needs an id from a search_repertory result, a query (first matching rubric is used), or both.',
+          minItems: 1,
+          maxItems: 50,
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'number', description: 'Rubric id from a search_repertory result' },
+              query: { type: 'string', description: 'Repertory search for the rubric' },
+              repertory: { type: 'string', description: 'Repertory abbreviation' },
+              intensity: {
+                type: 'number',
+                description: 'Symptom importance (1-4). Default: 1',
+                minimum: 1,
+                maximum: 4,
+              },
+            },
+          },
+        },
+        repertory: {
+          type: 'string',
+          description: 'Default repertory for rubrics that do not name one',
+        },
+        minWeight: {
+          type: 'number',
+          description: 'Ignore remedies graded below this weight (1-4)',
+          minimum: 1,
+          maximum: 4,
+        },
+        maxRemedies: {
+          type: 'number',
+          description: 'Number of top remedies per ranking (1-200). Default: 20',
+          minimum: 1,
+          maximum: 200,
+        },
+      },
+      required: ['rubrics'],
+    },
+  },
+  {
+    name: TOOL_NAMES.CROSS_REFERENCE_SYMPTOMS,
+    description:
+      'Run several repertory searches and rank remedies by how many queries they appear in. Remedies missing from an eliminative query are dropped and reported with the query that eliminated them.',
+    parameters: {
+      type: 'object',
+      properties: {
+        queries: {
+          type: 'array',
+          description: 'Symptom queries to cross-reference (2-10).',
+          minItems: 2,
+          maxItems: 10,
+          items: {
+            type: 'object',
+            properties: {
+              symptom: { type: 'string', description: 'Repertory search for one symptom' },
+              repertory: { type: 'string', description: 'Repertory abbreviation' },
+              minWeight: {
+                type: 'number',
+                description: 'Minimum remedy weight (1-4)',
+                minimum: 1,
+                maximum: 4,
+              },
+              eliminative: {
+                type: 'boolean',
+                description: 'Drop remedies that do not appear in this query. Default: false',
+              },
+            },
+            required: ['symptom'],
+          },
+        },
+        repertory: {
+          type: 'string',
+          description: 'Default repertory for queries that do not name one',
+        },
+        minWeight: {
+          type: 'number',
+          description: 'Default minimum remedy weight for queries that do not set one (1-4)',
+          minimum: 1,
+          maximum: 4,
+        },
+        maxRemedies: {
+          type: 'number',
+          description: 'Number of remedies and eliminated remedies to return (1-200). Default: 20',
+          minimum: 1,
+          maximum: 200,
+        },
+      },
+      required: ['queries'],
+    },
+  },
+  {
+    name: TOOL_NAMES.CREATE_CASE,
+    description:
+      'Create an empty saved case and return it with its id. Use the id with the other case tools to build up and repertorize the case across turns.',
+    parameters: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Name of the case, e.g. a patient alias and date',
+        },
+        notes: {
+          type: 'string',
+          description: 'Free-text notes about the case',
+        },
+      },
+      required: ['name'],
+    },
+  },
+  {
+    name: TOOL_NAMES.ADD_RUBRIC_TO_CASE,
+    description:
+      'Add a rubric to a saved case, selected by id (from search_repertory results), by query (first matching rubric), or both.',
+    parameters: {
+      type: 'object',
+      properties: {
+        caseId: {
+          type: 'string',
+          description: 'Case id returned by create_case',
+        },
+        id: { type: 'number', description: 'Rubric id from a previous search' },
+        query: {
+          type: 'string',
+          description: 'Repertory search; the first matching rubric is used unless id is also set',
+        },
+        repertory: { type: 'string', description: 'Repertory abbreviation for the rubric' },
+        intensity: {
+          type: 'number',
+          description: 'Importance of the symptom (1-4). Default: 1',
+          minimum: 1,
+          maximum: 4,
+        },
+        minWeight: {
+          type: 'number',
+          description: 'Minimum remedy weight (1-4)',
+          minimum: 1,
+          maximum: 4,
+        },
+      },
+      required: ['caseId'],
+    },
+  },
+  {
+    name: TOOL_NAMES.REMOVE_RUBRIC_FROM_CASE,
+    description: 'Remove a rubric from a saved case by its rubric id or zero-based position.',
+    parameters: {
+      type: 'object',
+      properties: {
+        caseId: {
+          type: 'string',
+          description: 'Case id returned by create_case',
+        },
+        rubricId: { type: 'number', description: 'OOREP id of the rubric to remove' },
+        index: {
+          type: 'number',
+          description: 'Zero-based position of the rubric in the case',
+          minimum: 0,
+        },
+      },
+      required: ['caseId'],
+    },
+  },
+  {
+    name: TOOL_NAMES.GET_CASE,
+    description:
+      'Get a saved case with its rubrics, optionally repertorized across all case rubrics.',
+    parameters: {
+      type: 'object',
+      properties: {
+        caseId: {
+          type: 'string',
+          description: 'Case id returned by create_case',
+        },
+        repertorize: {
+          type: 'boolean',
+          description: 'Also repertorize the case rubrics',
+          default: false,
+        },
+        maxRemedies: {
+          type: 'number',
+          description: 'Number of top remedies per ranking (1-200). Default: 20',
+          minimum: 1,
+          maximum: 200,
+        },
+      },
+      required: ['caseId'],
+    },
+  },
+  {
+    name: TOOL_NAMES.LIST_CASES,
+    description: 'List saved cases with their rubric counts, most recently updated first.',
+    parameters: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  {
+    name: TOOL_NAMES.DELETE_CASE,
+    description: 'Delete a saved case.',
+    parameters: {
+      type: 'object',
+      properties: {
+        caseId: {
+          type: 'string',
+          description: 'Case id returned by create_case',
+        },
+      },
+      required: ['caseId'],
+    },
+  },
+  {
+    name: TOOL_NAMES.GET_RUBRIC,
+    description:
+      'Look up a rubric by its search_repertory id, with its ancestors and parent rubric. ' +
+      'Pass query to find a rubric that has not come up in an earlier search.',
+    parameters: {
+      type: 'object',
+      properties: {
+        id: { type: 'number', description: 'Rubric id from a search_repertory result' },
+        repertory: {
+          type: 'string',
+          description: 'Repertory abbreviation the rubric belongs to',
+        },
+        query: {
+          type: 'string',
+          description: 'Repertory search that finds the rubric if it has not been seen yet',
+        },
+      },
+      required: ['id'],
+    },
+  },
+  {
+    name: TOOL_NAMES.BROWSE_RUBRIC_CHILDREN,
+    description:
+      'List the sub-rubrics below a rubric, given its id or full path (e.g. "Head, pain"), ' +
+      'with rubric and remedy counts for each child.',
+    parameters: {
+      type: 'object',
+      properties: {
+        id: { type: 'number', description: 'Id of the parent rubric' },
+        path: {
+          type: 'string',
+          description: 'Full path of the parent rubric, e.g. "Head, pain"',
+        },
+        query: {
+          type: 'string',
+          description: 'Repertory search that finds the parent rubric by id if not seen yet',
+        },
+        repertory: { type: 'string', description: 'Repertory abbreviation to browse' },
+        depth: {
+          type: 'number',
+          description: 'Levels of sub-rubrics to return (1-5). Default: 1',
+          minimum: 1,
+          maximum: 5,
+          default: 1,
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: TOOL_NAMES.SUGGEST_REPERTORY_QUERY,
+    description:
+      'Translate a symptom described in everyday words into a repertory query for search_repertory: ' +
+      'repertory vocabulary (worse → agg), body location first and wildcards on word stems.',
+    parameters: {
+      type: 'object',
+      properties: {
+        symptom: {
+          type: 'string',
+          description: 'Symptom in natural language, e.g. "throbbing headache worse from motion"',
+        },
+      },
+      required: ['symptom'],
+    },
+  },
 ];
 
 /**
@@ -11,9 +11,9 @@ import {
 } from './tools.js';
 
 describe('toolDefinitions', () => {
-  it('when accessed then contains all five tools', () => {
+  it('when accessed then contains all fifteen tools', () => {
     // Assert
-    expect(toolDefinitions).toHaveLength(5);
+    expect(toolDefinitions).toHaveLength(16);
   });
 
   it.each([
@@ -219,12 +219,22 @@ describe('getToolNames', () => {
     const names = getToolNames();
 
     // Assert
-    expect(names).toHaveLength(5);
+    expect(names).toHaveLength(16);
     expect(names).toContain('search_repertory');
     expect(names).toContain('search_materia_medica');
     expect(names).toContain('get_remedy_info');
     expect(names).toContain('list_available_repertories');
     expect(names).toContain('list_available_materia_medicas');
+    expect(names).toContain('repertorize_case');
+    expect(names).toContain('cross_reference_symptoms');
+    expect(names).toContain('create_case');
+    expect(names).toContain('add_rubric_to_case');
+    expect(names).toContain('remove_rubric_from_case');
+    expect(names).toContain('get_case');
+    expect(names).toContain('list_cases');
+    expect(names).toContain('delete_case');
+    expect(names).toContain('get_rubric');
+    expect(names).toContain('browse_rubric_children');
   });
 
   it('when called then returns strings only', () => {
@@ -9,25 +9,39 @@ import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
   ListPromptsRequestSchema,
   GetPromptRequestSchema,
+  CompleteRequestSchema,
+  SetLevelRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 
-import { getConfig } from './config.js';
-import { ToolRegistry } from './tools/index.js';
-import { ResourceRegistry } from './resources/index.js';
+import { getConfig, type OOREPConfig } from './config.js';
+import { startHttpServer, type RunningHttpServer } from './http-server.js';
+import { DEFAULTS } from './sdk/constants.js';
+import { ToolRegistry, type EmbeddedResourceContent } from './tools/index.js';
+import { ResourceRegistry, type ResourceUpdateListener } from './resources/index.js';
 import { PromptRegistry } from './prompts/index.js';
+import { CompletionRegistry } from './completions/index.js';
 import { logger, LogLevel } from './utils/logger.js';
+import { McpLogger, toLogLevel } from './utils/mcp-logger.js';
 import { sanitizeError } from './utils/errors.js';
 // Import package.json for version info - TypeScript will handle this correctly during compilation
 import packageJson from '../package.json' with { type: 'json' };
 
-export interface ServerContext {
-  server: Server;
+export interface ServerRegistries {
   toolRegistry: ToolRegistry;
   resourceRegistry: ResourceRegistry;
   promptRegistry: PromptRegistry;
+  completionRegistry: CompletionRegistry;
+}
+
+export interface ServerContext extends ServerRegistries {
+  server: Server;
+  config: OOREPConfig;
 }
 
 export async function createServer(): Promise<ServerContext> {
@@ -37,9 +51,42 @@ export async function createServer(): Promise<ServerContext> {
 
   // Initialize registries
   const toolRegistry = new ToolRegistry(config);
-  const resourceRegistry = new ResourceRegistry(config);
-  const promptRegistry = new PromptRegistry();
+  const resourceRegistry = new ResourceRegistry(config, toolRegistry.getClient());
+  const promptRegistry = new PromptRegistry(config);
+  const completionRegistry = new CompletionRegistry(
+    toolRegistry.getClient(),
+    promptRegistry,
+    resourceRegistry
+  );
+
+  const server = createMcpServer({
+    toolRegistry,
+    resourceRegistry,
+    promptRegistry,
+    completionRegistry,
+  });
+
+  logger.info('OOREP MCP Server initialized', {
+    tools: toolRegistry.getDefinitions().length,
+    resources: resourceRegistry.getDefinitions().length,
+    prompts: promptRegistry.getDefinitions().length,
+  });
 
+  return { server, config, toolRegistry, resourceRegistry, promptRegistry, completionRegistry };
+}
+
+/**
+ * Create an MCP server that serves the given registries
+ *
+ * The HTTP transport creates one server per session, all sharing the same
+ * registries and therefore the same caches and saved cases.
+ */
+export function createMcpServer({
+  toolRegistry,
+  resourceRegistry,
+  promptRegistry,
+  completionRegistry,
+}: ServerRegistries): Server {
   // Create MCP server
   const server = new Server(
     {
@@ -49,32 +96,68 @@ export async function createServer(): Promise<ServerContext> {
     {
       capabilities: {
         tools: {},
-        resources: {},
+        resources: { subscribe: true },
         prompts: {},
+        completions: {},
+        logging: {},
       },
     }
   );
 
+  // Records logged while handling this client's requests also reach the client
+  // once it has initialized, starting at the console's level. Other sessions'
+  // records never do.
+  const clientLogger = new McpLogger(server, logger.getLevel());
+  const setRequestHandler: Server['setRequestHandler'] = (schema, handler) =>
+    server.setRequestHandler(schema, (request, extra) =>
+      logger.withTarget(clientLogger, () => handler(request, extra))
+    );
+
+  setRequestHandler(SetLevelRequestSchema, async (request) => {
+    logger.debug('Handling set_level request', { level: request.params.level });
+    clientLogger.setLevel(toLogLevel(request.params.level));
+    return {};
+  });
+
   // Register tool list handler
-  server.setRequestHandler(ListToolsRequestSchema, async () => {
+  setRequestHandler(ListToolsRequestSchema, async () => {
     logger.debug('Handling list_tools request');
     const tools = toolRegistry.getDefinitions();
     return { tools };
   });
 
   // Register tool execution handler
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     logger.debug('Handling call_tool request', { tool: request.params.name });
 
+    // Progress counts notifications sent, since retries and batch steps have no shared total
+    const progressToken = request.params._meta?.progressToken;
+    let progress = 0;
+    const onProgress =
+      progressToken === undefined
+        ? undefined
+        : (message: string) => {
+            progress += 1;
+            extra
+              .sendNotification({
+                method: 'notifications/progress',
+                params: { progressToken, progress, message },
+              })
+              .catch((error) => logger.warn('Failed to send progress notification', error));
+          };
+
     try {
-      const result = await toolRegistry.executeTool(request.params.name, request.params.arguments);
+      const result = await toolRegistry.executeTool(request.params.name, request.params.arguments, {
+        signal: extra.signal,
+        onProgress,
+      });
 
       // Get tool definition to check for outputSchema
       const toolDef = toolRegistry.getDefinitions().find((t) => t.name === request.params.name);
 
       // Build response with both content and structuredContent for MCP compliance
       const response: {
-        content: Array<{ type: string; text: string }>;
+        content: Array<{ type: 'text'; text: string } | EmbeddedResourceContent>;
         structuredContent?: Record<string, unknown>;
       } = {
         content: [
@@ -82,6 +165,7 @@ export async function createServer(): Promise<ServerContext> {
             type: 'text',
             text: JSON.stringify(result, null, 2),
           },
+          ...toolRegistry.renderToolContent(request.params.name, request.params.arguments, result),
         ],
       };
 
@@ -110,14 +194,27 @@ export async function createServer(): Promise<ServerContext> {
   });
 
   // Register resource list handler
-  server.setRequestHandler(ListResourcesRequestSchema, async () => {
-    logger.debug('Handling list_resources request');
-    const resources = resourceRegistry.getDefinitions();
-    return { resources };
+  setRequestHandler(ListResourcesRequestSchema, async (request) => {
+    logger.debug('Handling list_resources request', { cursor: request.params?.cursor });
+
+    try {
+      return resourceRegistry.listResources(request.params?.cursor);
+    } catch (error) {
+      logger.error('Resource list failed', error);
+      const sanitized = sanitizeError(error);
+      throw new Error(sanitized.message, { cause: error });
+    }
+  });
+
+  // Register resource template list handler
+  setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    logger.debug('Handling list_resource_templates request');
+    const resourceTemplates = resourceRegistry.getTemplateDefinitions();
+    return { resourceTemplates };
   });
 
   // Register resource read handler
-  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+  setRequestHandler(ReadResourceRequestSchema, async (request) => {
     logger.debug('Handling read_resource request', { uri: request.params.uri });
 
     try {
@@ -130,15 +227,60 @@ export async function createServer(): Promise<ServerContext> {
     }
   });
 
+  // Resource subscriptions belong to this server's client, and end with its connection
+  const subscriptions = new Map<string, ResourceUpdateListener>();
+  server.onclose = () => {
+    for (const [uri, listener] of subscriptions) {
+      resourceRegistry.unsubscribe(uri, listener);
+    }
+    subscriptions.clear();
+  };
+
+  // Register resource subscribe handler
+  setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    logger.debug('Handling subscribe request', { uri });
+    if (subscriptions.has(uri)) {
+      return {};
+    }
+
+    const listener: ResourceUpdateListener = (updatedUri) => {
+      server.sendResourceUpdated({ uri: updatedUri }).catch((error: unknown) => {
+        logger.warn('Failed to send resource update', { uri: updatedUri, error });
+      });
+    };
+    try {
+      await resourceRegistry.subscribe(uri, listener);
+    } catch (error) {
+      logger.error('Resource subscribe failed', error);
+      const sanitized = sanitizeError(error);
+      throw new Error(sanitized.message, { cause: error });
+    }
+    subscriptions.set(uri, listener);
+    return {};
+  });
+
+  // Register resource unsubscribe handler
+  setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    logger.debug('Handling unsubscribe request', { uri });
+    const listener = subscriptions.get(uri);
+    if (listener) {
+      resourceRegistry.unsubscribe(uri, listener);
+      subscriptions.delete(uri);
+    }
+    return {};
+  });
+
   // Register prompt list handler
-  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+  setRequestHandler(ListPromptsRequestSchema, async () => {
     logger.debug('Handling list_prompts request');
     const prompts = promptRegistry.getDefinitions();
     return { prompts };
   });
 
   // Register prompt get handler
-  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+  setRequestHandler(GetPromptRequestSchema, async (request) => {
     logger.debug('Handling get_prompt request', { prompt: request.params.name });
 
     try {
@@ -151,26 +293,34 @@ export async function createServer(): Promise<ServerContext> {
     }
   });
 
-  logger.info('OOREP MCP Server initialized', {
-    tools: toolRegistry.getDefinitions().length,
-    resources: resourceRegistry.getDefinitions().length,
-    prompts: promptRegistry.getDefinitions().length,
+  // Register argument completion handler
+  setRequestHandler(CompleteRequestSchema, async (request) => {
+    logger.debug('Handling complete request', {
+      ref: request.params.ref,
+      argument: request.params.argument.name,
+    });
+    const completion = await completionRegistry.complete(request.params);
+    return { completion };
   });
 
-  return { server, toolRegistry, resourceRegistry, promptRegistry };
+  return server;
 }
 
 export async function runServer() {
   logger.info('Starting OOREP MCP Server...');
 
   try {
-    const { server, toolRegistry, resourceRegistry } = await createServer();
-    const transport = new StdioServerTransport();
+    const { server, config, ...registries } = await createServer();
+    const { toolRegistry, resourceRegistry } = registries;
+    let httpServer: RunningHttpServer | undefined;
 
     // Set up graceful shutdown handlers
     const shutdown = async (signal: string) => {
       logger.info(`Received ${signal}, shutting down gracefully...`);
       try {
+        // Stop accepting HTTP requests and close open sessions first
+        await httpServer?.close();
+
         // Clean up registries
         await toolRegistry.destroy();
         await resourceRegistry.destroy();
@@ -188,7 +338,18 @@ export async function runServer() {
     process.on('SIGTERM', () => shutdown('SIGTERM'));
     process.on('SIGINT', () => shutdown('SIGINT'));
 
-    await server.connect(transport);
+    if (config.transport === 'http') {
+      httpServer = await startHttpServer({
+        host: config.httpHost ?? DEFAULTS.HTTP_HOST,
+        port: config.httpPort ?? DEFAULTS.HTTP_PORT,
+        path: config.httpPath ?? DEFAULTS.HTTP_PATH,
+        createSessionServer: () => createMcpServer(registries),
+      });
+      logger.info(`OOREP MCP Server listening on ${httpServer.url}`);
+      return;
+    }
+
+    await server.connect(new StdioServerTransport());
 
     logger.info('OOREP MCP Server running on stdio');
   } catch (error) {
@@ -4,9 +4,17 @@
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
-import { createServer, runServer } from './server.js';
+import { createMcpServer, createServer, runServer } from './server.js';
 import { ToolRegistry } from './tools/index.js';
 import { ResourceRegistry } from './resources/index.js';
+import * as httpServerModule from './http-server.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  LoggingMessageNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { logger } from './utils/logger.js';
 
 // Mock the stdio transport
 vi.mock('@modelcontextprotocol/sdk/server/stdio.js', () => ({
@@ -39,6 +47,15 @@ describe('createServer', () => {
     vi.restoreAllMocks();
   });
 
+  async function connectClient() {
+    const context = await createServer();
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await context.server.connect(serverTransport);
+    await client.connect(clientTransport);
+    return { ...context, client };
+  }
+
   describe('server initialization', () => {
     it('createServer when called then returns server instance', async () => {
       const { server } = await createServer();
@@ -247,6 +264,146 @@ describe('createServer', () => {
     });
   });
 
+  describe('tool progress and cancellation', () => {
+    it('createServer when call_tool has a progress token then sends progress notifications', async () => {
+      const { client, toolRegistry } = await connectClient();
+      vi.spyOn(toolRegistry, 'executeTool').mockImplementation(async (_name, _args, options) => {
+        options?.onProgress?.('Searched query 1 of 2');
+        options?.onProgress?.('Searched query 2 of 2');
+        return { repertories: [] };
+      });
+      const onprogress = vi.fn();
+
+      await client.callTool({ name: 'list_available_repertories', arguments: {} }, undefined, {
+        onprogress,
+      });
+
+      expect(onprogress.mock.calls).toEqual([
+        [expect.objectContaining({ progress: 1, message: 'Searched query 1 of 2' })],
+        [expect.objectContaining({ progress: 2, message: 'Searched query 2 of 2' })],
+      ]);
+      await client.close();
+    });
+
+    it('createServer when call_tool cancelled by the client then aborts the tool signal', async () => {
+      const { client, toolRegistry } = await connectClient();
+      let toolSignal: AbortSignal | undefined;
+      const started = new Promise<void>((resolve) => {
+        vi.spyOn(toolRegistry, 'executeTool').mockImplementation((_name, _args, options) => {
+          toolSignal = options?.signal;
+          resolve();
+          return new Promise(() => {});
+        });
+      });
+      const controller = new AbortController();
+
+      const call = client.callTool(
+        { name: 'list_available_repertories', arguments: {} },
+        undefined,
+        { signal: controller.signal }
+      );
+      await started;
+      controller.abort('user cancelled');
+
+      await expect(call).rejects.toThrow();
+      await vi.waitFor(() => expect(toolSignal?.aborted).toBe(true));
+      await client.close();
+    });
+  });
+
+  describe('client logging', () => {
+    function collectLogs(client: Client): unknown[] {
+      const messages: unknown[] = [];
+      client.setNotificationHandler(LoggingMessageNotificationSchema, (notification) => {
+        messages.push(notification.params);
+      });
+      return messages;
+    }
+
+    it('createServer when client sets a level then forwards redacted logs of its requests', async () => {
+      const { client, toolRegistry } = await connectClient();
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.spyOn(toolRegistry, 'executeTool').mockImplementation(async () => {
+        logger.info('Looking up repertory', { symptom: 'headache', remoteUser: '42' });
+        return { repertories: [] };
+      });
+      const messages = collectLogs(client);
+
+      await client.callTool({ name: 'list_available_repertories', arguments: {} });
+      await client.setLoggingLevel('info');
+      logger.info('Outside any request');
+      await client.callTool({ name: 'list_available_repertories', arguments: {} });
+
+      await vi.waitFor(() =>
+        expect(messages).toEqual([
+          {
+            level: 'info',
+            logger: 'oorep-mcp',
+            data: {
+              message: 'Looking up repertory',
+              details: { symptom: 'headache', remoteUser: '[REDACTED]' },
+            },
+          },
+        ])
+      );
+      await client.close();
+    });
+
+    it('createMcpServer when two sessions share registries then each only receives its own logs', async () => {
+      const context = await createServer();
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.spyOn(context.toolRegistry, 'executeTool').mockImplementation(async (_name, args) => {
+        logger.info('Looking up repertory', args);
+        return { repertories: [] };
+      });
+      const connect = async () => {
+        const client = new Client({ name: 'test-client', version: '1.0.0' });
+        const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+        await createMcpServer(context).connect(serverTransport);
+        await client.connect(clientTransport);
+        await client.setLoggingLevel('info');
+        return client;
+      };
+      const alice = await connect();
+      const bob = await connect();
+      const aliceLogs = collectLogs(alice);
+      const bobLogs = collectLogs(bob);
+
+      await Promise.all([
+        alice.callTool({ name: 'list_available_repertories', arguments: { language: 'en' } }),
+        bob.callTool({ name: 'list_available_repertories', arguments: { language: 'de' } }),
+      ]);
+
+      await vi.waitFor(() => {
+        expect(aliceLogs).toContainEqual(
+          expect.objectContaining({
+            data: { message: 'Looking up repertory', details: { language: 'en' } },
+          })
+        );
+        expect(bobLogs).toContainEqual(
+          expect.objectContaining({
+            data: { message: 'Looking up repertory', details: { language: 'de' } },
+          })
+        );
+      });
+      expect(JSON.stringify(aliceLogs)).not.toContain('"de"');
+      expect(JSON.stringify(bobLogs)).not.toContain('"en"');
+      await alice.close();
+      await bob.close();
+    });
+
+    it('createServer when client disconnects then stops forwarding logs', async () => {
+      const { client, server } = await connectClient();
+      await client.setLoggingLevel('debug');
+      const sendLoggingMessage = vi.spyOn(server, 'sendLoggingMessage');
+
+      await client.close();
+      logger.debug('After close');
+
+      expect(sendLoggingMessage).not.toHaveBeenCalled();
+    });
+  });
+
   describe('resource reading', () => {
     it('createServer when read resource succeeds then returns content', async () => {
       const { server } = await createServer();
@@ -399,6 +556,118 @@ describe('createServer', () => {
     });
   });
 
+  describe('resource templates', () => {
+    it('createServer when resource templates listed then returns rubric and item templates', async () => {
+      let listTemplatesHandler: ((request: any) => Promise<any>) | null = null;
+      const setRequestHandler = vi.spyOn(Server.prototype, 'setRequestHandler');
+
+      await createServer();
+      for (const call of setRequestHandler.mock.calls) {
+        if ((call[0] as any)?.shape?.method?.value === 'resources/templates/list') {
+          listTemplatesHandler = call[1] as (request: any) => Promise<any>;
+        }
+      }
+
+      expect(listTemplatesHandler).not.toBeNull();
+      const result = await listTemplatesHandler!({});
+      expect(result.resourceTemplates.map((t: any) => t.uriTemplate)).toEqual([
+        'oorep://repertories/{abbrev}/rubrics/{id}',
+        'oorep://repertories/{abbrev}',
+        'oorep://materia-medicas/{abbrev}',
+        'oorep://remedies/{abbrev}',
+        'oorep://remedies/list/{initial}',
+      ]);
+    });
+  });
+
+  describe('resource subscriptions', () => {
+    it('createServer when initialized then advertises subscribe, completions and logging', async () => {
+      const { client } = await connectClient();
+
+      expect(client.getServerCapabilities()).toMatchObject({
+        resources: { subscribe: true },
+        completions: {},
+        logging: {},
+      });
+      await client.close();
+    });
+
+    it('createServer when list_resources paged then follows the cursor', async () => {
+      const { client } = await connectClient();
+
+      const first = await client.listResources();
+      const second = await client.listResources({ cursor: first.nextCursor });
+
+      expect(first.resources[0].uri).toBe('oorep://remedies/list');
+      expect(second.resources.at(-1)?.uri).toBe('oorep://remedies/list/other');
+      expect(second.nextCursor).toBeUndefined();
+      await client.close();
+    });
+
+    it('createServer when subscribed resource changes then sends resources/updated', async () => {
+      const { client, resourceRegistry } = await connectClient();
+      let notify: ((uri: string) => void) | undefined;
+      vi.spyOn(resourceRegistry, 'subscribe').mockImplementation(async (_uri, listener) => {
+        notify = listener;
+      });
+      const updated = new Promise((resolve) =>
+        client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) =>
+          resolve(notification.params.uri)
+        )
+      );
+
+      await client.subscribeResource({ uri: 'oorep://remedies/list' });
+      notify!('oorep://remedies/list');
+
+      await expect(updated).resolves.toBe('oorep://remedies/list');
+      await client.close();
+    });
+
+    it('createServer when unsubscribed or closed then releases its listeners', async () => {
+      const { client, resourceRegistry } = await connectClient();
+      vi.spyOn(resourceRegistry, 'subscribe').mockResolvedValue();
+      const unsubscribe = vi.spyOn(resourceRegistry, 'unsubscribe');
+
+      await client.subscribeResource({ uri: 'oorep://remedies/list' });
+      await client.subscribeResource({ uri: 'oorep://repertories/list' });
+      await client.unsubscribeResource({ uri: 'oorep://remedies/list' });
+      expect(unsubscribe).toHaveBeenCalledWith('oorep://remedies/list', expect.any(Function));
+
+      await client.close();
+      expect(unsubscribe).toHaveBeenCalledWith('oorep://repertories/list', expect.any(Function));
+      expect(unsubscribe).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('completions', () => {
+    it('createServer when completion requested then returns registry matches', async () => {
+      let completeHandler: ((request: any) => Promise<any>) | null = null;
+      const setRequestHandler = vi.spyOn(Server.prototype, 'setRequestHandler');
+
+      const { completionRegistry } = await createServer();
+      for (const call of setRequestHandler.mock.calls) {
+        if ((call[0] as any)?.shape?.method?.value === 'completion/complete') {
+          completeHandler = call[1] as (request: any) => Promise<any>;
+        }
+      }
+      const complete = vi
+        .spyOn(completionRegistry, 'complete')
+        .mockResolvedValue({ values: ['Acon., Bell.'], total: 1, hasMore: false });
+
+      expect(completeHandler).not.toBeNull();
+      const params = {
+        ref: { type: 'ref/prompt', name: 'remedy-comparison' },
+        argument: { name: 'remedies', value: 'Acon., be' },
+      };
+      const result = await completeHandler!({ params });
+
+      expect(complete).toHaveBeenCalledWith(params);
+      expect(result).toEqual({
+        completion: { values: ['Acon., Bell.'], total: 1, hasMore: false },
+      });
+    });
+  });
+
   describe('registry initialization', () => {
     it('createServer when initialized then server context is properly configured', async () => {
       const context = await createServer();
@@ -411,6 +680,7 @@ describe('createServer', () => {
       expect(context.toolRegistry).toBeDefined();
       expect(context.resourceRegistry).toBeDefined();
       expect(context.promptRegistry).toBeDefined();
+      expect(context.completionRegistry).toBeDefined();
     });
   });
 });
@@ -527,4 +797,30 @@ describe('runServer', () => {
     expect(closeServer).not.toHaveBeenCalled(); // should bail on first failure
     expect(mockExit).toHaveBeenCalledWith(1);
   });
+
+  it('runServer when transport is http then listens and closes on SIGTERM', async () => {
+    const handlers = new Map<string, (...args: unknown[]) => unknown>();
+    vi.spyOn(process, 'on').mockImplementation(((
+      event: string,
+      handler: (...args: unknown[]) => void
+    ) => {
+      handlers.set(event, handler);
+      return process;
+    }) as unknown as typeof process.on);
+    process.env.OOREP_MCP_TRANSPORT = 'http';
+    process.env.OOREP_MCP_HTTP_PORT = '0';
+    const startHttp = vi.spyOn(httpServerModule, 'startHttpServer');
+
+    await runServer();
+
+    expect(startHttp).toHaveBeenCalledWith(
+      expect.objectContaining({ host: '127.0.0.1', port: 0, path: '/mcp' })
+    );
+    const running = await startHttp.mock.results[0].value;
+    const closeHttp = vi.spyOn(running, 'close');
+
+    await expect(handlers.get('SIGTERM')?.('SIGTERM')).rejects.toThrow('process.exit called');
+    expect(closeHttp).toHaveBeenCalledTimes(1);
+    expect(mockExit).toHaveBeenCalledWith(0);
+  });
 });
@@ -0,0 +1,90 @@
+/**
+ * Tool: add_rubric_to_case
+ * Resolve a rubric and add it to a saved case
+ */
+
+import type { IOOREPClient } from '../interfaces/IOOREPClient.js';
+import type { OOREPCallOptions } from '../lib/oorep-client.js';
+import {
+  AddRubricToCaseArgsSchema,
+  SavedCaseSchema,
+  zodToOutputSchema,
+  type SavedCase,
+} from '../utils/schemas.js';
+import { sanitizeError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { TOOL_NAMES } from '../sdk/constants.js';
+
+export class AddRubricToCaseTool {
+  constructor(private client: IOOREPClient) {}
+
+  async execute(args: unknown, options: OOREPCallOptions = {}): Promise<SavedCase> {
+    try {
+      // Validate and parse arguments
+      const validatedArgs = AddRubricToCaseArgsSchema.parse(args);
+      logger.info('Executing add_rubric_to_case', validatedArgs);
+
+      // Use SDK client (resolves the rubric through cached searches)
+      const savedCase = await this.client.addRubricToCase(validatedArgs, options);
+
+      logger.info('Rubric added to case', {
+        caseId: savedCase.id,
+        rubrics: savedCase.rubrics.length,
+      });
+
+      return savedCase;
+    } catch (error) {
+      logger.error('Error in add_rubric_to_case', error);
+      throw sanitizeError(error);
+    }
+  }
+}
+
+export const addRubricToCaseToolDefinition = {
+  name: TOOL_NAMES.ADD_RUBRIC_TO_CASE,
+  description:
+    'Add a rubric to a saved case. Select the rubric by id (from search_repertory results), ' +
+    'by query (first matching rubric), or both. The full rubric with its remedies is stored in the ' +
+    'case, so get_case can repertorize it later without searching again.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      caseId: {
+        type: 'string',
+        description: 'Case id returned by create_case',
+      },
+      id: {
+        type: 'number',
+        description: 'Rubric id from a previous search_repertory result',
+      },
+      query: {
+        type: 'string',
+        description:
+          'Repertory search (3-200 characters). The first matching rubric is used, ' +
+          'or the rubric with the given id among the results when id is also set.',
+        minLength: 3,
+        maxLength: 200,
+      },
+      repertory: {
+        type: 'string',
+        description:
+          'Optional: Repertory abbreviation for the rubric. ' +
+          'If not specified, uses the configured default repertory (OOREP_MCP_DEFAULT_REPERTORY).',
+      },
+      intensity: {
+        type: 'number',
+        description: 'Optional: Importance of the symptom (1-4). Default: 1',
+        minimum: 1,
+        maximum: 4,
+      },
+      minWeight: {
+        type: 'number',
+        description: 'Optional: Ignore remedies graded below this weight (1-4)',
+        minimum: 1,
+        maximum: 4,
+      },
+    },
+    required: ['caseId'],
+  },
+  outputSchema: zodToOutputSchema(SavedCaseSchema),
+};
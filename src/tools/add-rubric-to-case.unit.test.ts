@@ -0,0 +1,76 @@
+/**
+ * Unit tests for add_rubric_to_case tool
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AddRubricToCaseTool, addRubricToCaseToolDefinition } from './add-rubric-to-case.js';
+import { createMockSDKClient } from './test-helpers.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+
+describe('AddRubricToCaseTool', () => {
+  let tool: AddRubricToCaseTool;
+  let mockClient: ReturnType<typeof createMockSDKClient>;
+
+  beforeEach(() => {
+    mockClient = createMockSDKClient();
+    tool = new AddRubricToCaseTool(mockClient);
+  });
+
+  describe('execute', () => {
+    it('execute when rubric query given then passes selection to client', async () => {
+      const mockCase = {
+        id: 'case-1',
+        name: 'Patient A',
+        createdAt: '2026-01-01T00:00:00.000Z',
+        updatedAt: '2026-01-01T00:00:00.000Z',
+        rubrics: [
+          {
+            id: 10,
+            rubric: 'Head, pain, throbbing',
+            repertory: 'kent',
+            remedies: [],
+            intensity: 3,
+            addedAt: '2026-01-01T00:00:00.000Z',
+          },
+        ],
+      };
+      mockClient.addRubricToCase.mockResolvedValue(mockCase);
+
+      const result = await tool.execute({ caseId: 'case-1', query: 'head pain', intensity: 3 });
+
+      expect(mockClient.addRubricToCase).toHaveBeenCalledWith(
+        {
+          caseId: 'case-1',
+          query: 'head pain',
+          intensity: 3,
+        },
+        {}
+      );
+      expect(result).toEqual(mockCase);
+    });
+
+    it('execute when neither id nor query given then throws validation error', async () => {
+      await expect(tool.execute({ caseId: 'case-1', intensity: 2 })).rejects.toThrow(
+        ValidationError
+      );
+      expect(mockClient.addRubricToCase).not.toHaveBeenCalled();
+    });
+
+    it('execute when case does not exist then throws sanitized not found error', async () => {
+      mockClient.addRubricToCase.mockRejectedValue(
+        new NotFoundError('Case not found: missing', 'case', 'missing')
+      );
+
+      await expect(tool.execute({ caseId: 'missing', id: 10 })).rejects.toThrow(
+        'case not found: missing'
+      );
+    });
+  });
+
+  describe('definition', () => {
+    it('definition when accessed then requires caseId', () => {
+      expect(addRubricToCaseToolDefinition.name).toBe('add_rubric_to_case');
+      expect(addRubricToCaseToolDefinition.inputSchema.required).toEqual(['caseId']);
+    });
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Tool: browse_rubric_children
+ * List the sub-rubrics below a rubric
+ */
+
+import type { IOOREPClient } from '../interfaces/IOOREPClient.js';
+import type { OOREPCallOptions } from '../lib/oorep-client.js';
+import {
+  BrowseRubricChildrenArgsSchema,
+  RubricChildrenResultSchema,
+  zodToOutputSchema,
+  type RubricChildrenResult,
+} from '../utils/schemas.js';
+import { sanitizeError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { TOOL_NAMES } from '../sdk/constants.js';
+
+export class BrowseRubricChildrenTool {
+  constructor(private client: IOOREPClient) {}
+
+  async execute(args: unknown, options: OOREPCallOptions = {}): Promise<RubricChildrenResult> {
+    try {
+      // Validate and parse arguments
+      const validatedArgs = BrowseRubricChildrenArgsSchema.parse(args);
+      logger.info('Executing browse_rubric_children', validatedArgs);
+
+      const result = await this.client.browseRubricChildren(validatedArgs, options);
+
+      logger.info('Rubric children retrieved', {
+        path: result.path,
+        children: result.totalChildren,
+        partial: result.partial,
+      });
+
+      return result;
+    } catch (error) {
+      logger.error('Error in browse_rubric_children', error);
+      throw sanitizeError(error);
+    }
+  }
+}
+
+export const browseRubricChildrenToolDefinition = {
+  name: TOOL_NAMES.BROWSE_RUBRIC_CHILDREN,
+  description:
+    'List the sub-rubrics below a rubric, given its id from search_repertory or its full path ' +
+    '(e.g. "Head, pain"). Each child reports how many rubrics and remedies it contains; ' +
+    'increase depth to expand grandchildren. partial is true when the repertory had too many ' +
+    'matching rubrics to browse completely.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      id: {
+        type: 'number',
+        description: 'Optional: Id of the parent rubric from a search_repertory result',
+      },
+      path: {
+        type: 'string',
+        description: 'Optional: Full path of the parent rubric, e.g. "Head, pain"',
+        minLength: 1,
+        maxLength: 500,
+      },
+      query: {
+        type: 'string',
+        description:
+          'Optional: Repertory search that finds the parent rubric by id if it has not been seen yet',
+        minLength: 3,
+        maxLength: 200,
+      },
+      repertory: {
+        type: 'string',
+        description: 'Optional: Repertory abbreviation to browse',
+      },
+      depth: {
+        type: 'number',
+        description: 'Optional: Levels of sub-rubrics to return (1-5). Default: 1',
+        minimum: 1,
+        maximum: 5,
+        default: 1,
+      },
+    },
+  },
+  outputSchema: zodToOutputSchema(RubricChildrenResultSchema),
+};
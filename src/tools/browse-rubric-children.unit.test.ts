@@ -0,0 +1,61 @@
+/**
+ * Unit tests for browse_rubric_children tool
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  BrowseRubricChildrenTool,
+  browseRubricChildrenToolDefinition,
+} from './browse-rubric-children.js';
+import { createMockSDKClient } from './test-helpers.js';
+import { ValidationError } from '../utils/errors.js';
+
+describe('BrowseRubricChildrenTool', () => {
+  let tool: BrowseRubricChildrenTool;
+  let mockClient: ReturnType<typeof createMockSDKClient>;
+
+  beforeEach(() => {
+    mockClient = createMockSDKClient();
+    tool = new BrowseRubricChildrenTool(mockClient);
+  });
+
+  describe('execute', () => {
+    it('execute when path given then returns children from client', async () => {
+      const mockResult = {
+        repertory: 'kent',
+        path: 'Head, pain',
+        totalChildren: 0,
+        children: [],
+        partial: false,
+      };
+      mockClient.browseRubricChildren.mockResolvedValue(mockResult);
+
+      const result = await tool.execute({ path: '  Head, pain ', depth: 2 });
+
+      expect(mockClient.browseRubricChildren).toHaveBeenCalledWith(
+        {
+          path: 'Head, pain',
+          depth: 2,
+        },
+        {}
+      );
+      expect(result).toEqual(mockResult);
+    });
+
+    it('execute when neither id nor path given then throws validation error', async () => {
+      await expect(tool.execute({ repertory: 'kent' })).rejects.toThrow(ValidationError);
+    });
+
+    it('execute when depth out of range then throws validation error', async () => {
+      await expect(tool.execute({ path: 'Head', depth: 6 })).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('definition', () => {
+    it('definition when accessed then exposes children and partial flag', () => {
+      expect(browseRubricChildrenToolDefinition.name).toBe('browse_rubric_children');
+      expect(browseRubricChildrenToolDefinition.outputSchema.properties).toHaveProperty('children');
+      expect(browseRubricChildrenToolDefinition.outputSchema.properties).toHaveProperty('partial');
+    });
+  });
+});
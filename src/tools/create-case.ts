@@ -0,0 +1,62 @@
+/**
+ * Tool: create_case
+ * Start a saved case that collects rubrics across calls
+ */
+
+import type { IOOREPClient } from '../interfaces/IOOREPClient.js';
+import {
+  CreateCaseArgsSchema,
+  SavedCaseSchema,
+  zodToOutputSchema,
+  type SavedCase,
+} from '../utils/schemas.js';
+import { sanitizeError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { TOOL_NAMES } from '../sdk/constants.js';
+
+export class CreateCaseTool {
+  constructor(private client: IOOREPClient) {}
+
+  async execute(args: unknown): Promise<SavedCase> {
+    try {
+      // Validate and parse arguments
+      const validatedArgs = CreateCaseArgsSchema.parse(args);
+      logger.info('Executing create_case', { name: validatedArgs.name });
+
+      const savedCase = await this.client.createCase(validatedArgs);
+
+      logger.info('Case created', { caseId: savedCase.id });
+
+      return savedCase;
+    } catch (error) {
+      logger.error('Error in create_case', error);
+      throw sanitizeError(error);
+    }
+  }
+}
+
+export const createCaseToolDefinition = {
+  name: TOOL_NAMES.CREATE_CASE,
+  description:
+    'Create an empty saved case. Returns the case with its id; pass the id to add_rubric_to_case, ' +
+    'get_case and the other case tools to build up and repertorize the case across turns. ' +
+    'Save the id to resume the case in a later conversation.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      name: {
+        type: 'string',
+        description: 'Name of the case, e.g. a patient alias and date (1-200 characters)',
+        minLength: 1,
+        maxLength: 200,
+      },
+      notes: {
+        type: 'string',
+        description: 'Optional: Free-text notes about the case (up to 2000 characters)',
+        maxLength: 2000,
+      },
+    },
+    required: ['name'],
+  },
+  outputSchema: zodToOutputSchema(SavedCaseSchema),
+};
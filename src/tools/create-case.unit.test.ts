@@ -0,0 +1,53 @@
+/**
+ * Unit tests for create_case tool
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CreateCaseTool, createCaseToolDefinition } from './create-case.js';
+import { createMockSDKClient } from './test-helpers.js';
+import { ValidationError } from '../utils/errors.js';
+
+describe('CreateCaseTool', () => {
+  let tool: CreateCaseTool;
+  let mockClient: ReturnType<typeof createMockSDKClient>;
+
+  const mockCase = {
+    id: 'case-1',
+    name: 'Patient A',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    rubrics: [],
+  };
+
+  beforeEach(() => {
+    mockClient = createMockSDKClient();
+    tool = new CreateCaseTool(mockClient);
+  });
+
+  describe('execute', () => {
+    it('execute when name given then creates case with trimmed name', async () => {
+      mockClient.createCase.mockResolvedValue(mockCase);
+
+      const result = await tool.execute({ name: '  Patient A ', notes: 'Chronic headaches' });
+
+      expect(mockClient.createCase).toHaveBeenCalledWith({
+        name: 'Patient A',
+        notes: 'Chronic headaches',
+      });
+      expect(result).toEqual(mockCase);
+    });
+
+    it('execute when name is blank then throws validation error', async () => {
+      await expect(tool.execute({ name: '   ' })).rejects.toThrow(ValidationError);
+      expect(mockClient.createCase).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('definition', () => {
+    it('definition when accessed then requires name', () => {
+      expect(createCaseToolDefinition.name).toBe('create_case');
+      expect(createCaseToolDefinition.inputSchema.required).toEqual(['name']);
+      expect(createCaseToolDefinition.outputSchema.properties).toHaveProperty('rubrics');
+    });
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Tool: cross_reference_symptoms
+ * Intersect the remedies of several symptom queries, with optional eliminative queries
+ */
+
+import type { IOOREPClient } from '../interfaces/IOOREPClient.js';
+import type { OOREPCallOptions } from '../lib/oorep-client.js';
+import {
+  CrossReferenceSymptomsArgsSchema,
+  CrossReferenceResultSchema,
+  zodToOutputSchema,
+  type CrossReferenceResult,
+} from '../utils/schemas.js';
+import { sanitizeError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { TOOL_NAMES } from '../sdk/constants.js';
+
+export class CrossReferenceSymptomsTool {
+  constructor(private client: IOOREPClient) {}
+
+  async execute(args: unknown, options: OOREPCallOptions = {}): Promise<CrossReferenceResult> {
+    try {
+      // Validate and parse arguments
+      const validatedArgs = CrossReferenceSymptomsArgsSchema.parse(args);
+      logger.info('Executing cross_reference_symptoms', { queries: validatedArgs.queries.length });
+
+      // Use SDK client (runs each query as a cached repertory search, then intersects remedies)
+      const result = await this.client.crossReferenceSymptoms(validatedArgs, options);
+
+      logger.info('Symptom cross-reference completed', {
+        queries: result.queries.length,
+        totalRemedies: result.totalRemedies,
+        totalEliminated: result.totalEliminated,
+      });
+
+      return result;
+    } catch (error) {
+      logger.error('Error in cross_reference_symptoms', error);
+      throw sanitizeError(error);
+    }
+  }
+}
+
+export const crossReferenceSymptomsToolDefinition = {
+  name: TOOL_NAMES.CROSS_REFERENCE_SYMPTOMS,
+  description:
+    'Run several repertory searches and intersect their remedies. ' +
+    'Remedies are ranked by how many queries they appear in, then by summed grades. ' +
+    'Mark a query eliminative to drop every remedy missing from it; ' +
+    'dropped remedies are listed in eliminated with the query that eliminated them. ' +
+    'Use this instead of comparing remedy lists from separate search_repertory calls.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      queries: {
+        type: 'array',
+        description: 'Symptom queries to cross-reference (2-10).',
+        minItems: 2,
+        maxItems: 10,
+        items: {
+          type: 'object',
+          properties: {
+            symptom: {
+              type: 'string',
+              description: 'Repertory search (3-200 characters). Same syntax as search_repertory.',
+              minLength: 3,
+              maxLength: 200,
+            },
+            repertory: {
+              type: 'string',
+              description: 'Optional: Repertory abbreviation for this query',
+            },
+            minWeight: {
+              type: 'number',
+              description: 'Optional: Minimum remedy weight/grade for this query (1-4)',
+              minimum: 1,
+              maximum: 4,
+            },
+            eliminative: {
+              type: 'boolean',
+              description:
+                'Optional: Drop every remedy that does not appear in this query. Default: false',
+            },
+          },
+          required: ['symptom'],
+        },
+      },
+      repertory: {
+        type: 'string',
+        description:
+          'Optional: Default repertory for queries that do not name one. ' +
+          'If not specified, uses the configured default repertory (OOREP_MCP_DEFAULT_REPERTORY).',
+      },
+      minWeight: {
+        type: 'number',
+        description:
+          'Optional: Default minimum remedy weight/grade for queries that do not set one (1-4)',
+        minimum: 1,
+        maximum: 4,
+      },
+      maxRemedies: {
+        type: 'number',
+        description:
+          'Optional: Number of remedies to return, and of eliminated remedies to list (1-200). Default: 20',
+        minimum: 1,
+        maximum: 200,
+      },
+    },
+    required: ['queries'],
+  },
+  outputSchema: zodToOutputSchema(CrossReferenceResultSchema),
+};
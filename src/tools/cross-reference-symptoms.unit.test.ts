@@ -0,0 +1,120 @@
+/**
+ * Unit tests for cross_reference_symptoms tool
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  CrossReferenceSymptomsTool,
+  crossReferenceSymptomsToolDefinition,
+} from './cross-reference-symptoms.js';
+import { createMockSDKClient } from './test-helpers.js';
+import { ValidationError } from '../utils/errors.js';
+
+describe('CrossReferenceSymptomsTool', () => {
+  let tool: CrossReferenceSymptomsTool;
+  let mockClient: ReturnType<typeof createMockSDKClient>;
+
+  const mockResult = {
+    queries: [
+      {
+        index: 0,
+        symptom: 'thirstless',
+        repertory: 'kent',
+        eliminative: true,
+        totalResults: 3,
+        remedyCount: 1,
+      },
+      {
+        index: 1,
+        symptom: 'weeping',
+        repertory: 'kent',
+        eliminative: false,
+        totalResults: 5,
+        remedyCount: 2,
+      },
+    ],
+    totalRemedies: 1,
+    remedies: [
+      {
+        name: 'Pulsatilla',
+        abbreviation: 'Puls.',
+        matchedQueries: 2,
+        queries: [0, 1],
+        cumulativeWeight: 6,
+      },
+    ],
+    totalEliminated: 1,
+    eliminated: [
+      {
+        name: 'Ignatia',
+        abbreviation: 'Ign.',
+        matchedQueries: 1,
+        queries: [1],
+        cumulativeWeight: 3,
+        eliminatedBy: [0],
+        reason: 'Missing from eliminative query #0 "thirstless"',
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    mockClient = createMockSDKClient();
+    tool = new CrossReferenceSymptomsTool(mockClient);
+  });
+
+  describe('execute', () => {
+    it('execute when queries given then passes them to client and returns result', async () => {
+      mockClient.crossReferenceSymptoms.mockResolvedValue(mockResult);
+
+      const result = await tool.execute({
+        queries: [{ symptom: 'thirstless', eliminative: true }, { symptom: '  weeping ' }],
+        repertory: 'kent',
+      });
+
+      expect(mockClient.crossReferenceSymptoms).toHaveBeenCalledWith(
+        {
+          queries: [{ symptom: 'thirstless', eliminative: true }, { symptom: 'weeping' }],
+          repertory: 'kent',
+        },
+        {}
+      );
+      expect(result).toEqual(mockResult);
+    });
+
+    it('execute when only one query then throws validation error', async () => {
+      await expect(tool.execute({ queries: [{ symptom: 'thirstless' }] })).rejects.toThrow(
+        ValidationError
+      );
+      expect(mockClient.crossReferenceSymptoms).not.toHaveBeenCalled();
+    });
+
+    it('execute when query symptom is too short then throws validation error', async () => {
+      await expect(
+        tool.execute({ queries: [{ symptom: 'ab' }, { symptom: 'weeping' }] })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('execute when client fails then throws sanitized error', async () => {
+      mockClient.crossReferenceSymptoms.mockRejectedValue(
+        new ValidationError('Symptom contains invalid characters')
+      );
+
+      await expect(
+        tool.execute({ queries: [{ symptom: 'thirstless' }, { symptom: 'weeping' }] })
+      ).rejects.toThrow('Symptom contains invalid characters');
+    });
+  });
+
+  describe('definition', () => {
+    it('definition when accessed then requires queries array', () => {
+      expect(crossReferenceSymptomsToolDefinition.name).toBe('cross_reference_symptoms');
+      expect(crossReferenceSymptomsToolDefinition.inputSchema.required).toEqual(['queries']);
+      expect(crossReferenceSymptomsToolDefinition.inputSchema.properties.queries.type).toBe(
+        'array'
+      );
+      expect(crossReferenceSymptomsToolDefinition.outputSchema.properties).toHaveProperty(
+        'eliminated'
+      );
+    });
+  });
+});
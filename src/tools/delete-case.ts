@@ -0,0 +1,52 @@
+/**
+ * Tool: delete_case
+ * Delete a saved case
+ */
+
+import type { IOOREPClient } from '../interfaces/IOOREPClient.js';
+import {
+  DeleteCaseArgsSchema,
+  DeleteCaseResultSchema,
+  zodToOutputSchema,
+  type DeleteCaseResult,
+} from '../utils/schemas.js';
+import { sanitizeError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { TOOL_NAMES } from '../sdk/constants.js';
+
+export class DeleteCaseTool {
+  constructor(private client: IOOREPClient) {}
+
+  async execute(args: unknown): Promise<DeleteCaseResult> {
+    try {
+      // Validate and parse arguments
+      const validatedArgs = DeleteCaseArgsSchema.parse(args);
+      logger.info('Executing delete_case', validatedArgs);
+
+      const result = await this.client.deleteCase(validatedArgs);
+
+      logger.info('Case deletion completed', result);
+
+      return result;
+    } catch (error) {
+      logger.error('Error in delete_case', error);
+      throw sanitizeError(error);
+    }
+  }
+}
+
+export const deleteCaseToolDefinition = {
+  name: TOOL_NAMES.DELETE_CASE,
+  description: 'Delete a saved case. Returns deleted: false when no case has the given id.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      caseId: {
+        type: 'string',
+        description: 'Case id returned by create_case',
+      },
+    },
+    required: ['caseId'],
+  },
+  outputSchema: zodToOutputSchema(DeleteCaseResultSchema),
+};
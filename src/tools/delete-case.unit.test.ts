@@ -0,0 +1,41 @@
+/**
+ * Unit tests for delete_case tool
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { DeleteCaseTool, deleteCaseToolDefinition } from './delete-case.js';
+import { createMockSDKClient } from './test-helpers.js';
+import { ValidationError } from '../utils/errors.js';
+
+describe('DeleteCaseTool', () => {
+  let tool: DeleteCaseTool;
+  let mockClient: ReturnType<typeof createMockSDKClient>;
+
+  beforeEach(() => {
+    mockClient = createMockSDKClient();
+    tool = new DeleteCaseTool(mockClient);
+  });
+
+  describe('execute', () => {
+    it('execute when caseId given then returns deletion result', async () => {
+      mockClient.deleteCase.mockResolvedValue({ caseId: 'case-1', deleted: true });
+
+      const result = await tool.execute({ caseId: 'case-1' });
+
+      expect(mockClient.deleteCase).toHaveBeenCalledWith({ caseId: 'case-1' });
+      expect(result).toEqual({ caseId: 'case-1', deleted: true });
+    });
+
+    it('execute when caseId is blank then throws validation error', async () => {
+      await expect(tool.execute({ caseId: ' ' })).rejects.toThrow(ValidationError);
+      expect(mockClient.deleteCase).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('definition', () => {
+    it('definition when accessed then requires caseId', () => {
+      expect(deleteCaseToolDefinition.name).toBe('delete_case');
+      expect(deleteCaseToolDefinition.inputSchema.required).toEqual(['caseId']);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Tool: get_case
+ * Get a saved case, optionally repertorized
+ */
+
+import type { IOOREPClient } from '../interfaces/IOOREPClient.js';
+import {
+  GetCaseArgsSchema,
+  CaseDetailsSchema,
+  zodToOutputSchema,
+  type CaseDetails,
+} from '../utils/schemas.js';
+import { sanitizeError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { TOOL_NAMES } from '../sdk/constants.js';
+
+export class GetCaseTool {
+  constructor(private client: IOOREPClient) {}
+
+  async execute(args: unknown): Promise<CaseDetails> {
+    try {
+      // Validate and parse arguments
+      const validatedArgs = GetCaseArgsSchema.parse(args);
+      logger.info('Executing get_case', validatedArgs);
+
+      const savedCase = await this.client.getCase(validatedArgs);
+
+      logger.info('Case retrieved', {
+        caseId: savedCase.id,
+        rubrics: savedCase.rubrics.length,
+        repertorized: Boolean(savedCase.repertorization),
+      });
+
+      return savedCase;
+    } catch (error) {
+      logger.error('Error in get_case', error);
+      throw sanitizeError(error);
+    }
+  }
+}
+
+export const getCaseToolDefinition = {
+  name: TOOL_NAMES.GET_CASE,
+  description:
+    'Get a saved case with its rubrics. Set repertorize to also rank remedies across the case ' +
+    'rubrics by sum of grades, sum of symptoms and coverage, as repertorize_case does.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      caseId: {
+        type: 'string',
+        description: 'Case id returned by create_case',
+      },
+      repertorize: {
+        type: 'boolean',
+        description: 'Optional: Also repertorize the case rubrics. Default: false',
+        default: false,
+      },
+      maxRemedies: {
+        type: 'number',
+        description: 'Optional: Number of top remedies per ranking (1-200). Default: 20',
+        minimum: 1,
+        maximum: 200,
+      },
+    },
+    required: ['caseId'],
+  },
+  outputSchema: zodToOutputSchema(CaseDetailsSchema),
+};
@@ -0,0 +1,66 @@
+/**
+ * Unit tests for get_case tool
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GetCaseTool, getCaseToolDefinition } from './get-case.js';
+import { createMockSDKClient } from './test-helpers.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+
+describe('GetCaseTool', () => {
+  let tool: GetCaseTool;
+  let mockClient: ReturnType<typeof createMockSDKClient>;
+
+  beforeEach(() => {
+    mockClient = createMockSDKClient();
+    tool = new GetCaseTool(mockClient);
+  });
+
+  describe('execute', () => {
+    it('execute when repertorize requested then returns case with repertorization', async () => {
+      const mockDetails = {
+        id: 'case-1',
+        name: 'Patient A',
+        createdAt: '2026-01-01T00:00:00.000Z',
+        updatedAt: '2026-01-01T00:00:00.000Z',
+        rubrics: [],
+        repertorization: {
+          rubrics: [],
+          totalRemedies: 0,
+          remedies: [],
+          rankings: { sumOfGrades: [], sumOfSymptoms: [], coverage: [] },
+        },
+      };
+      mockClient.getCase.mockResolvedValue(mockDetails);
+
+      const result = await tool.execute({ caseId: 'case-1', repertorize: true, maxRemedies: 5 });
+
+      expect(mockClient.getCase).toHaveBeenCalledWith({
+        caseId: 'case-1',
+        repertorize: true,
+        maxRemedies: 5,
+      });
+      expect(result).toEqual(mockDetails);
+    });
+
+    it('execute when caseId missing then throws validation error', async () => {
+      await expect(tool.execute({})).rejects.toThrow(ValidationError);
+    });
+
+    it('execute when case does not exist then throws sanitized not found error', async () => {
+      mockClient.getCase.mockRejectedValue(
+        new NotFoundError('Case not found: missing', 'case', 'missing')
+      );
+
+      await expect(tool.execute({ caseId: 'missing' })).rejects.toThrow('case not found: missing');
+    });
+  });
+
+  describe('definition', () => {
+    it('definition when accessed then requires caseId and exposes repertorization', () => {
+      expect(getCaseToolDefinition.name).toBe('get_case');
+      expect(getCaseToolDefinition.inputSchema.required).toEqual(['caseId']);
+      expect(getCaseToolDefinition.outputSchema.properties).toHaveProperty('repertorization');
+    });
+  });
+});
@@ -4,6 +4,7 @@
  */
 
 import type { IOOREPClient } from '../interfaces/IOOREPClient.js';
+import type { OOREPCallOptions } from '../lib/oorep-client.js';
 import {
   GetRemedyInfoArgsSchema,
   RemedyInfoSchema,
@@ -17,16 +18,19 @@ import { TOOL_NAMES } from '../sdk/constants.js';
 export class GetRemedyInfoTool {
   constructor(private client: IOOREPClient) {}
 
-  async execute(args: unknown): Promise<RemedyInfo> {
+  async execute(args: unknown, options: OOREPCallOptions = {}): Promise<RemedyInfo> {
     try {
       // Validate and parse arguments
       const validatedArgs = GetRemedyInfoArgsSchema.parse(args);
       logger.info('Executing get_remedy_info', validatedArgs);
 
       // Use SDK client (handles caching, validation, deduplication, partial matching)
-      const result = await this.client.getRemedyInfo({
-        remedy: validatedArgs.remedy,
-      });
+      const result = await this.client.getRemedyInfo(
+        {
+          remedy: validatedArgs.remedy,
+        },
+        options
+      );
 
       // SDK returns null if not found, MCP tool should throw error
       if (!result) {
@@ -0,0 +1,71 @@
+/**
+ * Tool: get_rubric
+ * Look up a rubric by ID with its ancestors and parent
+ */
+
+import type { IOOREPClient } from '../interfaces/IOOREPClient.js';
+import type { OOREPCallOptions } from '../lib/oorep-client.js';
+import {
+  GetRubricArgsSchema,
+  RubricDetailsSchema,
+  zodToOutputSchema,
+  type RubricDetails,
+} from '../utils/schemas.js';
+import { sanitizeError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { TOOL_NAMES } from '../sdk/constants.js';
+
+export class GetRubricTool {
+  constructor(private client: IOOREPClient) {}
+
+  async execute(args: unknown, options: OOREPCallOptions = {}): Promise<RubricDetails> {
+    try {
+      // Validate and parse arguments
+      const validatedArgs = GetRubricArgsSchema.parse(args);
+      logger.info('Executing get_rubric', validatedArgs);
+
+      const details = await this.client.getRubric(validatedArgs, options);
+
+      logger.info('Rubric retrieved', {
+        id: validatedArgs.id,
+        ancestors: details.ancestors.length,
+        hasParent: Boolean(details.parent),
+      });
+
+      return details;
+    } catch (error) {
+      logger.error('Error in get_rubric', error);
+      throw sanitizeError(error);
+    }
+  }
+}
+
+export const getRubricToolDefinition = {
+  name: TOOL_NAMES.GET_RUBRIC,
+  description:
+    'Look up a rubric by the id returned from search_repertory. Returns the rubric with its ' +
+    'remedies, its resource URI, the full paths of its ancestors and its parent rubric. ' +
+    'Pass query to search for the rubric if it has not come up in an earlier search.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      id: {
+        type: 'number',
+        description: 'Rubric id from a search_repertory result',
+      },
+      repertory: {
+        type: 'string',
+        description: 'Optional: Repertory abbreviation the rubric belongs to',
+      },
+      query: {
+        type: 'string',
+        description:
+          'Optional: Repertory search that finds the rubric if it has not been seen yet (3-200 characters)',
+        minLength: 3,
+        maxLength: 200,
+      },
+    },
+    required: ['id'],
+  },
+  outputSchema: zodToOutputSchema(RubricDetailsSchema),
+};
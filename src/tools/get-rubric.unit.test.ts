@@ -0,0 +1,54 @@
+/**
+ * Unit tests for get_rubric tool
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GetRubricTool, getRubricToolDefinition } from './get-rubric.js';
+import { createMockSDKClient } from './test-helpers.js';
+import { ValidationError } from '../utils/errors.js';
+
+describe('GetRubricTool', () => {
+  let tool: GetRubricTool;
+  let mockClient: ReturnType<typeof createMockSDKClient>;
+
+  beforeEach(() => {
+    mockClient = createMockSDKClient();
+    tool = new GetRubricTool(mockClient);
+  });
+
+  describe('execute', () => {
+    it('execute when rubric known then returns details from client', async () => {
+      const mockDetails = {
+        rubric: { id: 11, rubric: 'Head, pain, throbbing', repertory: 'kent', remedies: [] },
+        uri: 'oorep://repertories/kent/rubrics/11',
+        ancestors: ['Head', 'Head, pain'],
+      };
+      mockClient.getRubric.mockResolvedValue(mockDetails);
+
+      const result = await tool.execute({ id: 11, repertory: 'kent' });
+
+      expect(mockClient.getRubric).toHaveBeenCalledWith({ id: 11, repertory: 'kent' }, {});
+      expect(result).toEqual(mockDetails);
+    });
+
+    it('execute when id missing then throws validation error', async () => {
+      await expect(tool.execute({ repertory: 'kent' })).rejects.toThrow(ValidationError);
+    });
+
+    it('execute when rubric unknown then passes validation error through', async () => {
+      mockClient.getRubric.mockRejectedValue(
+        new ValidationError('Rubric 99 is not known in kent. Search for it first or pass a query.')
+      );
+
+      await expect(tool.execute({ id: 99 })).rejects.toThrow('Rubric 99 is not known in kent');
+    });
+  });
+
+  describe('definition', () => {
+    it('definition when accessed then requires id and exposes ancestors', () => {
+      expect(getRubricToolDefinition.name).toBe('get_rubric');
+      expect(getRubricToolDefinition.inputSchema.required).toEqual(['id']);
+      expect(getRubricToolDefinition.outputSchema.properties).toHaveProperty('ancestors');
+    });
+  });
+});
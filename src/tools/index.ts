@@ -7,8 +7,17 @@
 
 import type { OOREPConfig } from '../config.js';
 import { OOREPClient, type OOREPSDKConfig } from '../sdk/client.js';
+import type { OOREPCallOptions } from '../lib/oorep-client.js';
+import { JsonFileCaseStore } from '../lib/case-store.js';
+import { CATALOG_OPERATIONS } from '../lib/cache-policy.js';
 import { logger } from '../utils/logger.js';
 import { NotFoundError } from '../utils/errors.js';
+import type { ToolName } from '../sdk/constants.js';
+import {
+  ConfiguredToolHandler,
+  applyToolSettingsToDefinition,
+  validateToolSettings,
+} from './tool-settings.js';
 import { SearchRepertoryTool, searchRepertoryToolDefinition } from './search-repertory.js';
 import {
   SearchMateriaMedicaTool,
@@ -20,6 +29,29 @@ import {
   ListMateriaMedicasTool,
   listMateriaMedicasToolDefinition,
 } from './list-materia-medicas.js';
+import { RepertorizeCaseTool, repertorizeCaseToolDefinition } from './repertorize-case.js';
+import {
+  CrossReferenceSymptomsTool,
+  crossReferenceSymptomsToolDefinition,
+} from './cross-reference-symptoms.js';
+import { CreateCaseTool, createCaseToolDefinition } from './create-case.js';
+import { AddRubricToCaseTool, addRubricToCaseToolDefinition } from './add-rubric-to-case.js';
+import {
+  RemoveRubricFromCaseTool,
+  removeRubricFromCaseToolDefinition,
+} from './remove-rubric-from-case.js';
+import { GetCaseTool, getCaseToolDefinition } from './get-case.js';
+import { ListCasesTool, listCasesToolDefinition } from './list-cases.js';
+import { DeleteCaseTool, deleteCaseToolDefinition } from './delete-case.js';
+import { GetRubricTool, getRubricToolDefinition } from './get-rubric.js';
+import {
+  BrowseRubricChildrenTool,
+  browseRubricChildrenToolDefinition,
+} from './browse-rubric-children.js';
+import {
+  SuggestRepertoryQueryTool,
+  suggestRepertoryQueryToolDefinition,
+} from './suggest-repertory-query.js';
 
 export interface ToolDefinition {
   name: string;
@@ -34,29 +66,62 @@ export interface ToolDefinition {
     properties?: Record<string, unknown>;
     required?: string[];
     additionalProperties?: boolean;
+    $defs?: Record<string, unknown>;
+  };
+}
+
+/**
+ * MCP embedded resource returned next to a tool's JSON result
+ */
+export interface EmbeddedResourceContent {
+  type: 'resource';
+  resource: {
+    uri: string;
+    mimeType: string;
+    text: string;
   };
 }
 
 export interface ToolHandler {
-  execute(args: unknown): Promise<unknown>;
+  /** `options` carries the request's abort signal and progress callback */
+  execute(args: unknown, options?: OOREPCallOptions): Promise<unknown>;
+  /** Extra content blocks for a result, such as exported charts */
+  renderContent?(args: unknown, result: unknown): EmbeddedResourceContent[];
 }
 
 export class ToolRegistry {
   private tools = new Map<string, ToolHandler>();
   private definitions: ToolDefinition[] = [];
   private sdk: OOREPClient;
+  private readonly toolsConfig: OOREPConfig['tools'];
+  private readonly maxResults: number;
 
   constructor(config: OOREPConfig) {
+    this.toolsConfig = config.tools;
+    this.maxResults = config.maxResults;
     // Create single shared SDK instance for all tools
     const sdkConfig: OOREPSDKConfig = {
       baseUrl: config.baseUrl,
       timeoutMs: config.timeoutMs,
       cacheTtlMs: config.cacheTtlMs,
+      cacheMaxEntries: config.cacheMaxEntries,
+      cacheMaxBytes: config.cacheMaxBytes,
+      cacheDir: config.cacheDir,
+      cacheTtls:
+        config.catalogCacheTtlMs !== undefined
+          ? Object.fromEntries(
+              CATALOG_OPERATIONS.map((operation) => [operation, config.catalogCacheTtlMs])
+            )
+          : undefined,
+      staleWhileRevalidateMs: config.staleWhileRevalidateMs,
+      negativeCacheTtlMs: config.negativeCacheTtlMs,
       maxResults: config.maxResults,
       remoteUser: config.remoteUser,
       defaultRepertory: config.defaultRepertory,
       defaultMateriaMedica: config.defaultMateriaMedica,
       logger,
+      // Saved cases survive restarts only when a cases file is configured
+      caseStore: config.casesFile ? new JsonFileCaseStore(config.casesFile, logger) : undefined,
     };
     this.sdk = new OOREPClient(sdkConfig);
     this.registerAllTools();
@@ -69,9 +134,39 @@ export class ToolRegistry {
     this.registerTool(getRemedyInfoToolDefinition, new GetRemedyInfoTool(this.sdk));
     this.registerTool(listRepertoriesToolDefinition, new ListRepertoriesTool(this.sdk));
     this.registerTool(listMateriaMedicasToolDefinition, new ListMateriaMedicasTool(this.sdk));
+    this.registerTool(repertorizeCaseToolDefinition, new RepertorizeCaseTool(this.sdk));
+    this.registerTool(
+      crossReferenceSymptomsToolDefinition,
+      new CrossReferenceSymptomsTool(this.sdk)
+    );
+    this.registerTool(createCaseToolDefinition, new CreateCaseTool(this.sdk));
+    this.registerTool(addRubricToCaseToolDefinition, new AddRubricToCaseTool(this.sdk));
+    this.registerTool(removeRubricFromCaseToolDefinition, new RemoveRubricFromCaseTool(this.sdk));
+    this.registerTool(getCaseToolDefinition, new GetCaseTool(this.sdk));
+    this.registerTool(listCasesToolDefinition, new ListCasesTool(this.sdk));
+    this.registerTool(deleteCaseToolDefinition, new DeleteCaseTool(this.sdk));
+    this.registerTool(getRubricToolDefinition, new GetRubricTool(this.sdk));
+    this.registerTool(browseRubricChildrenToolDefinition, new BrowseRubricChildrenTool(this.sdk));
+    this.registerTool(suggestRepertoryQueryToolDefinition, new SuggestRepertoryQueryTool(this.sdk));
   }
 
+  /**
+   * Register a tool unless the config file disables it, applying its configured settings
+   */
   private registerTool(definition: ToolDefinition, handler: ToolHandler): void {
+    const name = definition.name as ToolName;
+    if (this.toolsConfig?.disabled?.includes(name)) {
+      logger.debug('Tool disabled by config file', { tool: name });
+      return;
+    }
+
+    const settings = this.toolsConfig?.settings?.[name];
+    if (settings) {
+      validateToolSettings(definition, settings);
+      definition = applyToolSettingsToDefinition(definition, settings);
+      handler = new ConfiguredToolHandler(handler, settings, this.maxResults);
+    }
+
     this.tools.set(definition.name, handler);
     this.definitions.push(definition);
   }
@@ -84,20 +179,37 @@ export class ToolRegistry {
     return this.definitions;
   }
 
+  /**
+   * Shared SDK instance, so other registries can reuse its cache of seen rubrics
+   */
+  getClient(): OOREPClient {
+    return this.sdk;
+  }
+
   /**
    * Execute a tool by name with the provided arguments
    *
    * @param name - The tool name to execute
    * @param args - The arguments to pass to the tool
+   * @param options - Signal that cancels the call and callback for its progress
    * @returns Promise resolving to the tool result
    * @throws {NotFoundError} If the tool name is not found
    */
-  async executeTool(name: string, args: unknown): Promise<unknown> {
+  async executeTool(name: string, args: unknown, options: OOREPCallOptions = {}): Promise<unknown> {
     const tool = this.getTool(name);
     if (!tool) {
       throw new NotFoundError(`Tool "${name}" not found`, 'tool', name);
     }
-    return tool.execute(args);
+    return tool.execute(args, options);
+  }
+
+  /**
+   * Build the extra content blocks a tool attaches to its result
+   *
+   * @returns An empty array for tools without extra content
+   */
+  renderToolContent(name: string, args: unknown, result: unknown): EmbeddedResourceContent[] {
+    return this.getTool(name)?.renderContent?.(args, result) ?? [];
   }
 
   /**
@@ -3,6 +3,9 @@
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { ToolRegistry } from './index.js';
 import type { OOREPConfig } from '../config.js';
 import { NotFoundError } from '../utils/errors.js';
@@ -66,6 +69,47 @@ describe('ToolRegistry', () => {
 
       expect(listMMTool).toBeDefined();
     });
+
+    it('ToolRegistry when casesFile configured then persists saved cases to it', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'oorep-registry-'));
+      const casesFile = join(dir, 'cases.json');
+      const registry = new ToolRegistry({ ...mockConfig, casesFile });
+
+      try {
+        const created = (await registry.executeTool('create_case', { name: 'Patient A' })) as {
+          id: string;
+        };
+        await registry.destroy();
+
+        const stored = JSON.parse(await readFile(casesFile, 'utf8'));
+        expect(stored.cases[created.id]).toMatchObject({ name: 'Patient A', rubrics: [] });
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('cache policies', () => {
+    it('ToolRegistry when catalogCacheTtlMs set then applies it to catalogue operations', () => {
+      const registry = new ToolRegistry({
+        ...mockConfig,
+        catalogCacheTtlMs: 86400000,
+        staleWhileRevalidateMs: 60000,
+        negativeCacheTtlMs: 10000,
+      });
+
+      const config = registry.getClient().getConfig();
+
+      expect(config.cacheTtls).toMatchObject({
+        listRemedies: 86400000,
+        listRepertories: 86400000,
+        listMateriaMedicas: 86400000,
+        getRemedyInfo: 86400000,
+        searchRepertory: 300000,
+      });
+      expect(config.staleWhileRevalidateMs).toBe(60000);
+      expect(config.negativeCacheTtlMs).toBe(10000);
+    });
   });
 
   describe('getDefinitions', () => {
@@ -73,7 +117,7 @@ describe('ToolRegistry', () => {
       const definitions = mockRegistry.getDefinitions();
 
       expect(Array.isArray(definitions)).toBe(true);
-      expect(definitions.length).toBe(5);
+      expect(definitions.length).toBe(16);
     });
 
     it('getDefinitions when called then each definition has required properties', () => {
@@ -144,7 +188,7 @@ describe('ToolRegistry', () => {
 
       await mockRegistry.executeTool('search_repertory', { symptom: 'test' });
 
-      expect(mockExecute).toHaveBeenCalledWith({ symptom: 'test' });
+      expect(mockExecute).toHaveBeenCalledWith({ symptom: 'test' }, {});
     });
 
     it('executeTool when tool execution fails then propagates error', async () => {
@@ -160,6 +204,28 @@ describe('ToolRegistry', () => {
     });
   });
 
+  describe('renderToolContent', () => {
+    it('renderToolContent when tool has no extra content then returns empty array', () => {
+      expect(mockRegistry.renderToolContent('list_available_repertories', {}, [])).toEqual([]);
+    });
+
+    it('renderToolContent when tool not found then returns empty array', () => {
+      expect(mockRegistry.renderToolContent('nonexistent', {}, {})).toEqual([]);
+    });
+
+    it('renderToolContent when search_repertory asks for csv then returns embedded chart', () => {
+      const content = mockRegistry.renderToolContent(
+        'search_repertory',
+        { symptom: 'headache', format: 'csv' },
+        { totalResults: 0, rubrics: [] }
+      );
+
+      expect(content).toHaveLength(1);
+      expect(content[0].type).toBe('resource');
+      expect(content[0].resource.mimeType).toBe('text/csv');
+    });
+  });
+
   describe('tool definitions structure', () => {
     it('search_repertory when definition then has correct structure', () => {
       const definitions = mockRegistry.getDefinitions();
@@ -257,4 +323,50 @@ describe('ToolRegistry', () => {
       expect(tool?.outputSchema?.properties).toHaveProperty('materiaMedicas');
     });
   });
+
+  describe('config file settings', () => {
+    it('ToolRegistry when tool disabled then hides it and rejects calls', async () => {
+      const registry = new ToolRegistry({
+        ...mockConfig,
+        tools: { disabled: ['delete_case', 'list_cases'] },
+      });
+
+      const names = registry.getDefinitions().map((d) => d.name);
+      expect(names).not.toContain('delete_case');
+      expect(names).not.toContain('list_cases');
+      expect(names).toContain('search_repertory');
+      await expect(registry.executeTool('delete_case', { caseId: 'x' })).rejects.toThrow(
+        NotFoundError
+      );
+    });
+
+    it('ToolRegistry when tool settings configured then reflects them in tools/list', () => {
+      const registry = new ToolRegistry({
+        ...mockConfig,
+        tools: {
+          settings: {
+            search_repertory: { defaults: { minWeight: 2 }, maxResults: 50 },
+            search_materia_medica: { defaults: { materiamedica: 'hering' } },
+          },
+        },
+      });
+
+      const definitions = registry.getDefinitions();
+      const searchRep = definitions.find((d) => d.name === 'search_repertory');
+      const searchMM = definitions.find((d) => d.name === 'search_materia_medica');
+      expect(searchRep?.inputSchema.properties.minWeight).toMatchObject({ default: 2 });
+      expect(searchRep?.inputSchema.properties.maxResults).toMatchObject({ maximum: 50 });
+      expect(searchMM?.inputSchema.properties.materiamedica).toMatchObject({ default: 'hering' });
+    });
+
+    it('ToolRegistry when settings name an unknown parameter then throws', () => {
+      expect(
+        () =>
+          new ToolRegistry({
+            ...mockConfig,
+            tools: { settings: { list_cases: { maxResults: 10 } } },
+          })
+      ).toThrow('Config file: list_cases has no maxResults parameter to limit');
+    });
+  });
 });
@@ -0,0 +1,53 @@
+/**
+ * Tool: list_cases
+ * List saved cases, most recently updated first
+ */
+
+import type { IOOREPClient } from '../interfaces/IOOREPClient.js';
+import {
+  z,
+  ListCasesArgsSchema,
+  CaseSummarySchema,
+  zodToOutputSchema,
+  type CaseSummary,
+} from '../utils/schemas.js';
+import { sanitizeError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { TOOL_NAMES } from '../sdk/constants.js';
+
+export class ListCasesTool {
+  constructor(private client: IOOREPClient) {}
+
+  async execute(args: unknown): Promise<{ cases: CaseSummary[] }> {
+    try {
+      // Validate arguments
+      ListCasesArgsSchema.parse(args);
+      logger.info('Executing list_cases');
+
+      const cases = await this.client.listCases();
+
+      logger.info('Cases listed', { count: cases.length });
+
+      return { cases };
+    } catch (error) {
+      logger.error('Error in list_cases', error);
+      throw sanitizeError(error);
+    }
+  }
+}
+
+export const listCasesToolDefinition = {
+  name: TOOL_NAMES.LIST_CASES,
+  description:
+    'List saved cases with their names, notes, timestamps and rubric counts, ' +
+    'most recently updated first. Use it to find the id of a case to resume.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {},
+  },
+  outputSchema: zodToOutputSchema(
+    z.object({
+      cases: z.array(CaseSummarySchema),
+    })
+  ),
+};
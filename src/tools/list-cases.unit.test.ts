@@ -0,0 +1,52 @@
+/**
+ * Unit tests for list_cases tool
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ListCasesTool, listCasesToolDefinition } from './list-cases.js';
+import { createMockSDKClient } from './test-helpers.js';
+
+describe('ListCasesTool', () => {
+  let tool: ListCasesTool;
+  let mockClient: ReturnType<typeof createMockSDKClient>;
+
+  beforeEach(() => {
+    mockClient = createMockSDKClient();
+    tool = new ListCasesTool(mockClient);
+  });
+
+  describe('execute', () => {
+    it('execute when cases exist then wraps summaries in cases', async () => {
+      const summaries = [
+        {
+          id: 'case-1',
+          name: 'Patient A',
+          createdAt: '2026-01-01T00:00:00.000Z',
+          updatedAt: '2026-01-01T00:00:00.000Z',
+          rubricCount: 2,
+        },
+      ];
+      mockClient.listCases.mockResolvedValue(summaries);
+
+      const result = await tool.execute({});
+
+      expect(result).toEqual({ cases: summaries });
+    });
+
+    it('execute when client fails then throws sanitized error', async () => {
+      mockClient.listCases.mockRejectedValue(new Error('disk full'));
+
+      await expect(tool.execute({})).rejects.toThrow(
+        'An unexpected error occurred while processing your request'
+      );
+    });
+  });
+
+  describe('definition', () => {
+    it('definition when accessed then has no required arguments', () => {
+      expect(listCasesToolDefinition.name).toBe('list_cases');
+      expect(listCasesToolDefinition.inputSchema.properties).toEqual({});
+      expect(listCasesToolDefinition.outputSchema.properties).toHaveProperty('cases');
+    });
+  });
+});
@@ -4,6 +4,7 @@
  */
 
 import type { IOOREPClient } from '../interfaces/IOOREPClient.js';
+import type { OOREPCallOptions } from '../lib/oorep-client.js';
 import {
   z,
   ListMateriaMedicasArgsSchema,
@@ -18,16 +19,22 @@ import { TOOL_NAMES } from '../sdk/constants.js';
 export class ListMateriaMedicasTool {
   constructor(private client: IOOREPClient) {}
 
-  async execute(args: unknown): Promise<{ materiaMedicas: MateriaMedicaMetadata[] }> {
+  async execute(
+    args: unknown,
+    options: OOREPCallOptions = {}
+  ): Promise<{ materiaMedicas: MateriaMedicaMetadata[] }> {
     try {
       // Validate and parse arguments
       const validatedArgs = ListMateriaMedicasArgsSchema.parse(args);
       logger.info('Executing list_available_materia_medicas', validatedArgs);
 
       // Use SDK client (handles caching, validation, deduplication)
-      const materiaMedicas = await this.client.listMateriaMedicas({
-        language: validatedArgs.language,
-      });
+      const materiaMedicas = await this.client.listMateriaMedicas(
+        {
+          language: validatedArgs.language,
+        },
+        options
+      );
 
       logger.info('Materia medicas list retrieved', {
         count: materiaMedicas.length,
@@ -54,7 +54,7 @@ describe('ListMateriaMedicasTool', () => {
 
       expect(result.materiaMedicas).toHaveLength(1);
       expect(result.materiaMedicas[0].abbreviation).toBe('german-mm');
-      expect(mockClient.listMateriaMedicas).toHaveBeenCalledWith({ language: 'de' });
+      expect(mockClient.listMateriaMedicas).toHaveBeenCalledWith({ language: 'de' }, {});
     });
 
     it('execute when language filter is case-insensitive then filters correctly', async () => {
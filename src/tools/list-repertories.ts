@@ -4,6 +4,7 @@
  */
 
 import type { IOOREPClient } from '../interfaces/IOOREPClient.js';
+import type { OOREPCallOptions } from '../lib/oorep-client.js';
 import {
   z,
   ListRepertoriesArgsSchema,
@@ -18,16 +19,22 @@ import { TOOL_NAMES } from '../sdk/constants.js';
 export class ListRepertoriesTool {
   constructor(private client: IOOREPClient) {}
 
-  async execute(args: unknown): Promise<{ repertories: RepertoryMetadata[] }> {
+  async execute(
+    args: unknown,
+    options: OOREPCallOptions = {}
+  ): Promise<{ repertories: RepertoryMetadata[] }> {
     try {
       // Validate and parse arguments
       const validatedArgs = ListRepertoriesArgsSchema.parse(args);
       logger.info('Executing list_available_repertories', validatedArgs);
 
       // Use SDK client (handles caching, validation, deduplication)
-      const repertories = await this.client.listRepertories({
-        language: validatedArgs.language,
-      });
+      const repertories = await this.client.listRepertories(
+        {
+          language: validatedArgs.language,
+        },
+        options
+      );
 
       logger.info('Repertories list retrieved', {
         count: repertories.length,
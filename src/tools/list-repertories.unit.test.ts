@@ -54,7 +54,7 @@ describe('ListRepertoriesTool', () => {
 
       expect(result.repertories).toHaveLength(1);
       expect(result.repertories[0].abbreviation).toBe('german-rep');
-      expect(mockClient.listRepertories).toHaveBeenCalledWith({ language: 'de' });
+      expect(mockClient.listRepertories).toHaveBeenCalledWith({ language: 'de' }, {});
     });
 
     it('execute when language filter is case-insensitive then filters correctly', async () => {
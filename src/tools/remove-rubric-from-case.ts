@@ -0,0 +1,66 @@
+/**
+ * Tool: remove_rubric_from_case
+ * Remove a rubric from a saved case
+ */
+
+import type { IOOREPClient } from '../interfaces/IOOREPClient.js';
+import {
+  RemoveRubricFromCaseArgsSchema,
+  SavedCaseSchema,
+  zodToOutputSchema,
+  type SavedCase,
+} from '../utils/schemas.js';
+import { sanitizeError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { TOOL_NAMES } from '../sdk/constants.js';
+
+export class RemoveRubricFromCaseTool {
+  constructor(private client: IOOREPClient) {}
+
+  async execute(args: unknown): Promise<SavedCase> {
+    try {
+      // Validate and parse arguments
+      const validatedArgs = RemoveRubricFromCaseArgsSchema.parse(args);
+      logger.info('Executing remove_rubric_from_case', validatedArgs);
+
+      const savedCase = await this.client.removeRubricFromCase(validatedArgs);
+
+      logger.info('Rubric removed from case', {
+        caseId: savedCase.id,
+        rubrics: savedCase.rubrics.length,
+      });
+
+      return savedCase;
+    } catch (error) {
+      logger.error('Error in remove_rubric_from_case', error);
+      throw sanitizeError(error);
+    }
+  }
+}
+
+export const removeRubricFromCaseToolDefinition = {
+  name: TOOL_NAMES.REMOVE_RUBRIC_FROM_CASE,
+  description:
+    'Remove a rubric from a saved case, either by its rubric id or by its zero-based position ' +
+    'in the case. Returns the updated case.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      caseId: {
+        type: 'string',
+        description: 'Case id returned by create_case',
+      },
+      rubricId: {
+        type: 'number',
+        description: 'OOREP id of the rubric to remove',
+      },
+      index: {
+        type: 'number',
+        description: 'Zero-based position of the rubric in the case',
+        minimum: 0,
+      },
+    },
+    required: ['caseId'],
+  },
+  outputSchema: zodToOutputSchema(SavedCaseSchema),
+};
@@ -0,0 +1,51 @@
+/**
+ * Unit tests for remove_rubric_from_case tool
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  RemoveRubricFromCaseTool,
+  removeRubricFromCaseToolDefinition,
+} from './remove-rubric-from-case.js';
+import { createMockSDKClient } from './test-helpers.js';
+import { ValidationError } from '../utils/errors.js';
+
+describe('RemoveRubricFromCaseTool', () => {
+  let tool: RemoveRubricFromCaseTool;
+  let mockClient: ReturnType<typeof createMockSDKClient>;
+
+  beforeEach(() => {
+    mockClient = createMockSDKClient();
+    tool = new RemoveRubricFromCaseTool(mockClient);
+  });
+
+  describe('execute', () => {
+    it('execute when index given then passes it to client', async () => {
+      const mockCase = {
+        id: 'case-1',
+        name: 'Patient A',
+        createdAt: '2026-01-01T00:00:00.000Z',
+        updatedAt: '2026-01-02T00:00:00.000Z',
+        rubrics: [],
+      };
+      mockClient.removeRubricFromCase.mockResolvedValue(mockCase);
+
+      const result = await tool.execute({ caseId: 'case-1', index: 0 });
+
+      expect(mockClient.removeRubricFromCase).toHaveBeenCalledWith({ caseId: 'case-1', index: 0 });
+      expect(result).toEqual(mockCase);
+    });
+
+    it('execute when neither rubricId nor index given then throws validation error', async () => {
+      await expect(tool.execute({ caseId: 'case-1' })).rejects.toThrow(ValidationError);
+      expect(mockClient.removeRubricFromCase).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('definition', () => {
+    it('definition when accessed then requires caseId', () => {
+      expect(removeRubricFromCaseToolDefinition.name).toBe('remove_rubric_from_case');
+      expect(removeRubricFromCaseToolDefinition.inputSchema.required).toEqual(['caseId']);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Tool: repertorize_case
+ * Combine selected rubrics into a remedy × rubric grid with totality rankings
+ */
+
+import type { IOOREPClient } from '../interfaces/IOOREPClient.js';
+import type { OOREPCallOptions } from '../lib/oorep-client.js';
+import {
+  RepertorizeCaseArgsSchema,
+  RepertorizationResultSchema,
+  zodToOutputSchema,
+  type RepertorizationResult,
+} from '../utils/schemas.js';
+import { sanitizeError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { TOOL_NAMES } from '../sdk/constants.js';
+
+export class RepertorizeCaseTool {
+  constructor(private client: IOOREPClient) {}
+
+  async execute(args: unknown, options: OOREPCallOptions = {}): Promise<RepertorizationResult> {
+    try {
+      // Validate and parse arguments
+      const validatedArgs = RepertorizeCaseArgsSchema.parse(args);
+      logger.info('Executing repertorize_case', { rubrics: validatedArgs.rubrics.length });
+
+      // Use SDK client (resolves rubrics through cached searches, then ranks remedies)
+      const result = await this.client.repertorizeCase(validatedArgs, options);
+
+      logger.info('Case repertorization completed', {
+        rubrics: result.rubrics.length,
+        totalRemedies: result.totalRemedies,
+        unresolved: result.unresolved?.length ?? 0,
+      });
+
+      return result;
+    } catch (error) {
+      logger.error('Error in repertorize_case', error);
+      throw sanitizeError(error);
+    }
+  }
+}
+
+export const repertorizeCaseToolDefinition = {
+  name: TOOL_NAMES.REPERTORIZE_CASE,
+  description:
+    'Repertorize a case: combine the rubrics selected for each symptom into a remedy × rubric grid ' +
+    'and rank remedies by sum of grades, sum of symptoms and coverage. ' +
+    'Select rubrics by id (from search_repertory results), by query (first matching rubric), or both. ' +
+    'Use this instead of tallying remedyStats across searches by hand.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      rubrics: {
+        type: 'array',
+        description: 'Rubrics selected for the case (1-50), one per symptom.',
+        minItems: 1,
+        maxItems: 50,
+        items: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'number',
+              description: 'Rubric id from a previous search_repertory result',
+            },
+            query: {
+              type: 'string',
+              description:
+                'Repertory search (3-200 characters). The first matching rubric is used, ' +
+                'or the rubric with the given id among the results when id is also set.',
+              minLength: 3,
+              maxLength: 200,
+            },
+            repertory: {
+              type: 'string',
+              description: 'Optional: Repertory abbreviation for this rubric',
+            },
+            intensity: {
+              type: 'number',
+              description:
+                'Optional: Importance of the symptom (1-4). Grades are multiplied by it. Default: 1',
+              minimum: 1,
+              maximum: 4,
+            },
+          },
+        },
+      },
+      repertory: {
+        type: 'string',
+        description:
+          'Optional: Default repertory for rubrics that do not name one. ' +
+          'If not specified, uses the configured default repertory (OOREP_MCP_DEFAULT_REPERTORY).',
+      },
+      minWeight: {
+        type: 'number',
+        description: 'Optional: Ignore remedies graded below this weight (1-4)',
+        minimum: 1,
+        maximum: 4,
+      },
+      maxRemedies: {
+        type: 'number',
+        description: 'Optional: Number of top remedies per ranking (1-200). Default: 20',
+        minimum: 1,
+        maximum: 200,
+      },
+    },
+    required: ['rubrics'],
+  },
+  outputSchema: zodToOutputSchema(RepertorizationResultSchema),
+};
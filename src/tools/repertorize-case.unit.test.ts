@@ -0,0 +1,91 @@
+/**
+ * Unit tests for repertorize_case tool
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RepertorizeCaseTool, repertorizeCaseToolDefinition } from './repertorize-case.js';
+import { createMockSDKClient } from './test-helpers.js';
+import { ValidationError } from '../utils/errors.js';
+
+describe('RepertorizeCaseTool', () => {
+  let tool: RepertorizeCaseTool;
+  let mockClient: ReturnType<typeof createMockSDKClient>;
+
+  const mockResult = {
+    rubrics: [
+      { index: 0, id: 12, rubric: 'Head, pain', repertory: 'kent', intensity: 2, remedyCount: 1 },
+    ],
+    totalRemedies: 1,
+    remedies: [
+      {
+        name: 'Belladonna',
+        abbreviation: 'Bell.',
+        grades: [3],
+        sumOfGrades: 6,
+        sumOfSymptoms: 1,
+        coverage: 1,
+        ranks: { sumOfGrades: 1, sumOfSymptoms: 1, coverage: 1 },
+      },
+    ],
+    rankings: { sumOfGrades: ['Bell.'], sumOfSymptoms: ['Bell.'], coverage: ['Bell.'] },
+  };
+
+  beforeEach(() => {
+    mockClient = createMockSDKClient();
+    tool = new RepertorizeCaseTool(mockClient);
+  });
+
+  describe('execute', () => {
+    it('execute when rubrics given then passes them to client and returns result', async () => {
+      mockClient.repertorizeCase.mockResolvedValue(mockResult);
+
+      const result = await tool.execute({
+        rubrics: [{ id: 12, intensity: 2 }, { query: 'thirst*' }],
+        repertory: 'kent',
+      });
+
+      expect(mockClient.repertorizeCase).toHaveBeenCalledWith(
+        {
+          rubrics: [{ id: 12, intensity: 2 }, { query: 'thirst*' }],
+          repertory: 'kent',
+        },
+        {}
+      );
+      expect(result).toEqual(mockResult);
+    });
+
+    it('execute when rubric has neither id nor query then throws validation error', async () => {
+      await expect(tool.execute({ rubrics: [{ intensity: 2 }] })).rejects.toThrow(ValidationError);
+      expect(mockClient.repertorizeCase).not.toHaveBeenCalled();
+    });
+
+    it('execute when rubric list is empty then throws validation error', async () => {
+      await expect(tool.execute({ rubrics: [] })).rejects.toThrow(ValidationError);
+    });
+
+    it('execute when intensity out of range then throws validation error', async () => {
+      await expect(tool.execute({ rubrics: [{ id: 1, intensity: 5 }] })).rejects.toThrow(
+        ValidationError
+      );
+    });
+
+    it('execute when client fails then throws sanitized error', async () => {
+      mockClient.repertorizeCase.mockRejectedValue(
+        new ValidationError('None of the selected rubrics could be resolved.')
+      );
+
+      await expect(tool.execute({ rubrics: [{ id: 99 }] })).rejects.toThrow(
+        'None of the selected rubrics could be resolved.'
+      );
+    });
+  });
+
+  describe('definition', () => {
+    it('definition when accessed then requires rubrics array', () => {
+      expect(repertorizeCaseToolDefinition.name).toBe('repertorize_case');
+      expect(repertorizeCaseToolDefinition.inputSchema.required).toEqual(['rubrics']);
+      expect(repertorizeCaseToolDefinition.inputSchema.properties.rubrics.type).toBe('array');
+      expect(repertorizeCaseToolDefinition.outputSchema.properties).toHaveProperty('rankings');
+    });
+  });
+});
@@ -4,6 +4,7 @@
  */
 
 import type { IOOREPClient } from '../interfaces/IOOREPClient.js';
+import type { OOREPCallOptions } from '../lib/oorep-client.js';
 import {
   SearchMateriaMedicaArgsSchema,
   MateriaMedicaSearchResultSchema,
@@ -17,23 +18,30 @@ import { TOOL_NAMES } from '../sdk/constants.js';
 export class SearchMateriaMedicaTool {
   constructor(private client: IOOREPClient) {}
 
-  async execute(args: unknown): Promise<MateriaMedicaSearchResult> {
+  async execute(args: unknown, options: OOREPCallOptions = {}): Promise<MateriaMedicaSearchResult> {
     try {
       // Validate and parse arguments
       const validatedArgs = SearchMateriaMedicaArgsSchema.parse(args);
       logger.info('Executing search_materia_medica', validatedArgs);
 
       // Use SDK client (handles caching, validation, deduplication, formatting)
-      const result = await this.client.searchMateriaMedica({
-        symptom: validatedArgs.symptom,
-        materiamedica: validatedArgs.materiamedica,
-        remedy: validatedArgs.remedy,
-        maxResults: validatedArgs.maxResults,
-      });
+      const result = await this.client.searchMateriaMedica(
+        {
+          symptom: validatedArgs.symptom,
+          materiamedica: validatedArgs.materiamedica,
+          remedy: validatedArgs.remedy,
+          maxResults: validatedArgs.maxResults,
+          page: validatedArgs.page,
+          cursor: validatedArgs.cursor,
+        },
+        options
+      );
 
       logger.info('Materia medica search completed', {
         totalResults: result.totalResults,
         remedies: result.results.length,
+        currentPage: result.currentPage,
+        totalPages: result.totalPages,
       });
 
       return result;
@@ -49,7 +57,9 @@ export const searchMateriaMedicaToolDefinition = {
   description:
     'Search materia medica texts for symptoms and return matching remedy sections. ' +
     'Materia medicas provide detailed descriptions of remedy characteristics, symptoms, and clinical applications. ' +
-    'Useful for in-depth remedy study and comparison.',
+    'Useful for in-depth remedy study and comparison. ' +
+    'Results are paged by remedy chapter: remedyHits lists hit counts for every matching remedy, ' +
+    'and nextCursor fetches the next chapters, even when pageTruncated is set.',
   inputSchema: {
     type: 'object' as const,
     properties: {
@@ -80,6 +90,17 @@ export const searchMateriaMedicaToolDefinition = {
         minimum: 1,
         maximum: 500,
       },
+      page: {
+        type: 'number',
+        description:
+          'Optional: Zero-based page of remedy chapters to fetch. Check totalPages in the response. Default: 0',
+        minimum: 0,
+      },
+      cursor: {
+        type: 'string',
+        description:
+          'Optional: Opaque nextCursor value from a previous search_materia_medica response. Takes precedence over page.',
+      },
     },
     required: ['symptom'],
   },
@@ -53,7 +53,8 @@ describe('SearchMateriaMedicaTool', () => {
       expect(mockClient.searchMateriaMedica).toHaveBeenCalledWith(
         expect.objectContaining({
           materiamedica: 'boericke',
-        })
+        }),
+        {}
       );
     });
 
@@ -69,7 +70,24 @@ describe('SearchMateriaMedicaTool', () => {
       expect(mockClient.searchMateriaMedica).toHaveBeenCalledWith(
         expect.objectContaining({
           remedy: 'Aconite',
-        })
+        }),
+        {}
+      );
+    });
+
+    it('execute when page and cursor specified then passes them to client', async () => {
+      mockClient.searchMateriaMedica.mockResolvedValue({
+        totalResults: 0,
+        totalPages: 2,
+        currentPage: 1,
+        results: [],
+      });
+
+      await tool.execute({ symptom: 'test', page: 1, cursor: 'abc' });
+
+      expect(mockClient.searchMateriaMedica).toHaveBeenCalledWith(
+        expect.objectContaining({ page: 1, cursor: 'abc' }),
+        {}
       );
     });
 
@@ -119,7 +137,8 @@ describe('SearchMateriaMedicaTool', () => {
       expect(mockClient.searchMateriaMedica).toHaveBeenCalledWith(
         expect.objectContaining({
           symptom: 'anxiety',
-        })
+        }),
+        {}
       );
     });
 
@@ -135,7 +154,8 @@ describe('SearchMateriaMedicaTool', () => {
       expect(mockClient.searchMateriaMedica).toHaveBeenCalledWith(
         expect.objectContaining({
           symptom: 'test',
-        })
+        }),
+        {}
       );
       // Verify remedy is not explicitly set to empty string
       const callArgs = mockClient.searchMateriaMedica.mock.calls[0][0];
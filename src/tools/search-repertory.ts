@@ -4,12 +4,15 @@
  */
 
 import type { IOOREPClient } from '../interfaces/IOOREPClient.js';
+import type { OOREPCallOptions } from '../lib/oorep-client.js';
+import type { EmbeddedResourceContent } from './index.js';
 import {
   SearchRepertoryArgsSchema,
   RepertorySearchResultSchema,
   zodToOutputSchema,
   type RepertorySearchResult,
 } from '../utils/schemas.js';
+import { exportRepertoryChart, getRepertoryExportUri } from '../lib/repertory-export.js';
 import { sanitizeError } from '../utils/errors.js';
 import { logger } from '../utils/logger.js';
 import { TOOL_NAMES } from '../sdk/constants.js';
@@ -17,24 +20,35 @@ import { TOOL_NAMES } from '../sdk/constants.js';
 export class SearchRepertoryTool {
   constructor(private client: IOOREPClient) {}
 
-  async execute(args: unknown): Promise<RepertorySearchResult> {
+  async execute(args: unknown, options: OOREPCallOptions = {}): Promise<RepertorySearchResult> {
     try {
       // Validate and parse arguments
       const validatedArgs = SearchRepertoryArgsSchema.parse(args);
       logger.info('Executing search_repertory', validatedArgs);
 
       // Use SDK client (handles caching, validation, deduplication, formatting)
-      const result = await this.client.searchRepertory({
-        symptom: validatedArgs.symptom,
-        repertory: validatedArgs.repertory,
-        minWeight: validatedArgs.minWeight,
-        maxResults: validatedArgs.maxResults,
-        includeRemedyStats: validatedArgs.includeRemedyStats,
-      });
+      const result = await this.client.searchRepertory(
+        {
+          symptom: validatedArgs.symptom,
+          repertory: validatedArgs.repertory,
+          minWeight: validatedArgs.minWeight,
+          remedy: validatedArgs.remedy,
+          maxResults: validatedArgs.maxResults,
+          includeRemedyStats: validatedArgs.includeRemedyStats,
+          page: validatedArgs.page,
+          cursor: validatedArgs.cursor,
+          groupBy: validatedArgs.groupBy,
+          ranking: validatedArgs.ranking,
+          autoTranslate: validatedArgs.autoTranslate,
+        },
+        options
+      );
 
       logger.info('Repertory search completed', {
         totalResults: result.totalResults,
         rubrics: result.rubrics.length,
+        currentPage: result.currentPage,
+        totalPages: result.totalPages,
       });
 
       return result;
@@ -43,6 +57,30 @@ export class SearchRepertoryTool {
       throw sanitizeError(error);
     }
   }
+
+  /**
+   * Attach the remedy × rubric chart when a non-JSON format was requested
+   */
+  renderContent(args: unknown, result: unknown): EmbeddedResourceContent[] {
+    const validatedArgs = SearchRepertoryArgsSchema.parse(args);
+    if (!validatedArgs.format || validatedArgs.format === 'json') {
+      return [];
+    }
+
+    const exported = exportRepertoryChart(result as RepertorySearchResult, validatedArgs.format, {
+      title: `Repertorization chart: ${validatedArgs.symptom}`,
+    });
+    return [
+      {
+        type: 'resource',
+        resource: {
+          uri: getRepertoryExportUri(validatedArgs.symptom, exported),
+          mimeType: exported.mimeType,
+          text: exported.text,
+        },
+      },
+    ];
+  }
 }
 
 export const searchRepertoryToolDefinition = {
@@ -50,7 +88,12 @@ export const searchRepertoryToolDefinition = {
   description:
     'Search for symptoms in homeopathic repertories and return matching rubrics with remedies. ' +
     'Supports wildcards (*), exclusions (-), and exact phrases ("). ' +
-    'Returns rubrics sorted by relevance with remedies and their weights.',
+    'Returns rubrics sorted by relevance with remedies and their weights. ' +
+    'Broad queries span several pages: pass nextCursor back as cursor to continue, even when pageTruncated is set. ' +
+    'Use groupBy "tree" to navigate results by chapter and root rubric. ' +
+    'Use ranking to order remedyStats by a school of repertorization with a score breakdown per remedy. ' +
+    'Set format to also receive a remedy × rubric chart (CSV, Markdown, HTML or SVG) as an embedded resource. ' +
+    'Set autoTranslate to rewrite a symptom in everyday words into repertory terms first.',
   inputSchema: {
     type: 'object' as const,
     properties: {
@@ -78,6 +121,13 @@ export const searchRepertoryToolDefinition = {
         minimum: 1,
         maximum: 4,
       },
+      remedy: {
+        type: 'string',
+        description:
+          'Optional: Only return rubrics that contain this remedy (e.g., "Sulphur", "Sulph.", "sulph"). ' +
+          'Resolved with the same matching rules as get_remedy_info. ' +
+          'Useful for questions like "which rubrics in Kent contain Sulphur for burn*".',
+      },
       maxResults: {
         type: 'number',
         description:
@@ -91,6 +141,51 @@ export const searchRepertoryToolDefinition = {
           'Optional: Include aggregate remedy statistics showing which remedies appear most frequently. Default: true',
         default: true,
       },
+      page: {
+        type: 'number',
+        description:
+          'Optional: Zero-based result page to fetch. Check totalPages in the response to see how many pages exist. Default: 0',
+        minimum: 0,
+      },
+      cursor: {
+        type: 'string',
+        description:
+          'Optional: Opaque nextCursor value from a previous search_repertory response. Takes precedence over page.',
+      },
+      groupBy: {
+        type: 'string',
+        enum: ['flat', 'tree', 'chapter'],
+        description:
+          'Optional: "flat" returns rubrics only. "chapter" adds a tree grouping rubrics by chapter. ' +
+          '"tree" adds a chapter > root rubric > sub-rubric tree with rubric and remedy counts per node. Default: flat',
+        default: 'flat',
+      },
+      ranking: {
+        type: 'string',
+        enum: ['kent', 'boenninghausen', 'boger', 'small-remedy'],
+        description:
+          'Optional: Strategy used to rank remedyStats. "kent" ranks by sum of grades (totality). ' +
+          '"boenninghausen" adjusts by polarity of agg./amel. modalities named in the symptom. ' +
+          '"boger" weights grades in general chapters (Mind, Generals, Sleep, Fever) double. ' +
+          '"small-remedy" corrects for remedies that appear in few rubrics. ' +
+          'Each remedy then reports score and scoreBreakdown. Default: sum of grades without scores',
+      },
+      format: {
+        type: 'string',
+        enum: ['json', 'csv', 'markdown', 'html', 'svg'],
+        description:
+          'Optional: Also return the classic repertorization chart (remedies as columns, rubrics as rows, ' +
+          'grades in cells) as an embedded resource. "csv", "markdown" and "html" render the table, ' +
+          '"svg" a bar chart of remedy grade totals. Default: json (no chart)',
+        default: 'json',
+      },
+      autoTranslate: {
+        type: 'boolean',
+        description:
+          'Optional: Rewrite the symptom with the rules of suggest_repertory_query before searching ' +
+          '(repertory vocabulary, body location first, wildcards). The query sent is returned as translatedQuery. Default: false',
+        default: false,
+      },
     },
     required: ['symptom'],
   },
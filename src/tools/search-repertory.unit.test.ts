@@ -54,7 +54,8 @@ describe('SearchRepertoryTool', () => {
       expect(mockClient.searchRepertory).toHaveBeenCalledWith(
         expect.objectContaining({
           repertory: 'kent',
-        })
+        }),
+        {}
       );
     });
 
@@ -70,10 +71,85 @@ describe('SearchRepertoryTool', () => {
       expect(mockClient.searchRepertory).toHaveBeenCalledWith(
         expect.objectContaining({
           minWeight: 3,
-        })
+        }),
+        {}
       );
     });
 
+    it('execute when groupBy specified then passes it to client', async () => {
+      mockClient.searchRepertory.mockResolvedValue({ totalResults: 0, rubrics: [], tree: [] });
+
+      await tool.execute({ symptom: 'headache', groupBy: 'tree' });
+
+      expect(mockClient.searchRepertory).toHaveBeenCalledWith(
+        expect.objectContaining({ groupBy: 'tree' }),
+        {}
+      );
+    });
+
+    it('execute when ranking specified then passes it to client', async () => {
+      mockClient.searchRepertory.mockResolvedValue({ totalResults: 0, rubrics: [] });
+
+      await tool.execute({ symptom: 'cold agg', ranking: 'boenninghausen' });
+
+      expect(mockClient.searchRepertory).toHaveBeenCalledWith(
+        expect.objectContaining({ ranking: 'boenninghausen' }),
+        {}
+      );
+    });
+
+    it('execute when autoTranslate set then passes it to client', async () => {
+      mockClient.searchRepertory.mockResolvedValue({ totalResults: 0, rubrics: [] });
+
+      await tool.execute({ symptom: 'headache worse motion', autoTranslate: true });
+
+      expect(mockClient.searchRepertory).toHaveBeenCalledWith(
+        expect.objectContaining({ symptom: 'headache worse motion', autoTranslate: true }),
+        {}
+      );
+    });
+
+    it('execute when ranking is unknown then throws validation error', async () => {
+      await expect(tool.execute({ symptom: 'headache', ranking: 'hahnemann' })).rejects.toThrow();
+    });
+
+    it('execute when groupBy is unknown then throws validation error', async () => {
+      await expect(tool.execute({ symptom: 'headache', groupBy: 'nested' })).rejects.toThrow();
+    });
+
+    it('execute when remedy specified then passes it to client', async () => {
+      mockClient.searchRepertory.mockResolvedValue({ totalResults: 0, rubrics: [] });
+
+      await tool.execute({ symptom: 'burn*', repertory: 'kent', remedy: 'Sulphur' });
+
+      expect(mockClient.searchRepertory).toHaveBeenCalledWith(
+        expect.objectContaining({ remedy: 'Sulphur', repertory: 'kent' }),
+        {}
+      );
+    });
+
+    it('execute when page and cursor specified then passes them to client', async () => {
+      mockClient.searchRepertory.mockResolvedValue({
+        totalResults: 0,
+        totalPages: 3,
+        currentPage: 1,
+        rubrics: [],
+      });
+
+      const result = await tool.execute({ symptom: 'head*', page: 1, cursor: 'abc' });
+
+      expect(mockClient.searchRepertory).toHaveBeenCalledWith(
+        expect.objectContaining({ page: 1, cursor: 'abc' }),
+        {}
+      );
+      expect(result.totalPages).toBe(3);
+    });
+
+    it('execute when page is negative then throws validation error', async () => {
+      await expect(tool.execute({ symptom: 'head*', page: -1 })).rejects.toThrow();
+      expect(mockClient.searchRepertory).not.toHaveBeenCalled();
+    });
+
     it('execute when maxResults specified then limits results', async () => {
       const mockResult = {
         totalResults: 10,
@@ -185,7 +261,8 @@ describe('SearchRepertoryTool', () => {
       expect(mockClient.searchRepertory).toHaveBeenCalledWith(
         expect.objectContaining({
           symptom: 'headache',
-        })
+        }),
+        {}
       );
     });
 
@@ -209,4 +286,41 @@ describe('SearchRepertoryTool', () => {
       await expect(tool.execute({ symptom: '*ache' })).resolves.toBeDefined();
     });
   });
+
+  describe('renderContent', () => {
+    const result = {
+      totalResults: 1,
+      rubrics: [
+        {
+          rubric: 'Head, pain',
+          repertory: 'kent',
+          remedies: [{ name: 'Belladonna', abbreviation: 'Bell.', weight: 3 }],
+        },
+      ],
+    };
+
+    it('renderContent when format omitted then returns no extra content', () => {
+      expect(tool.renderContent({ symptom: 'headache' }, result)).toEqual([]);
+      expect(tool.renderContent({ symptom: 'headache', format: 'json' }, result)).toEqual([]);
+    });
+
+    it('renderContent when format markdown then embeds chart as resource', () => {
+      const [content] = tool.renderContent({ symptom: 'head pain', format: 'markdown' }, result);
+
+      expect(content.type).toBe('resource');
+      expect(content.resource).toMatchObject({
+        uri: 'oorep://exports/repertory/head%20pain.md',
+        mimeType: 'text/markdown',
+      });
+      expect(content.resource.text).toContain('## Repertorization chart: head pain');
+      expect(content.resource.text).toContain('| Head, pain | 3 |');
+    });
+
+    it('renderContent when format svg then embeds svg image', () => {
+      const [content] = tool.renderContent({ symptom: 'headache', format: 'svg' }, result);
+
+      expect(content.resource.mimeType).toBe('image/svg+xml');
+      expect(content.resource.text).toMatch(/^<svg /);
+    });
+  });
 });
@@ -0,0 +1,63 @@
+/**
+ * Tool: suggest_repertory_query
+ * Translate a natural-language symptom into a repertory query
+ */
+
+import type { IOOREPClient } from '../interfaces/IOOREPClient.js';
+import {
+  SuggestRepertoryQueryArgsSchema,
+  RepertoryQueryTranslationSchema,
+  zodToOutputSchema,
+  type RepertoryQueryTranslation,
+} from '../utils/schemas.js';
+import { sanitizeError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { TOOL_NAMES } from '../sdk/constants.js';
+
+export class SuggestRepertoryQueryTool {
+  constructor(private client: IOOREPClient) {}
+
+  async execute(args: unknown): Promise<RepertoryQueryTranslation> {
+    try {
+      // Validate and parse arguments
+      const validatedArgs = SuggestRepertoryQueryArgsSchema.parse(args);
+      logger.info('Executing suggest_repertory_query', validatedArgs);
+
+      // Translation is rule-based and local, so nothing is sent to OOREP
+      const translation = await this.client.suggestRepertoryQuery(validatedArgs);
+
+      logger.info('Repertory query suggested', {
+        query: translation.query,
+        changes: translation.changes.length,
+      });
+
+      return translation;
+    } catch (error) {
+      logger.error('Error in suggest_repertory_query', error);
+      throw sanitizeError(error);
+    }
+  }
+}
+
+export const suggestRepertoryQueryToolDefinition = {
+  name: TOOL_NAMES.SUGGEST_REPERTORY_QUERY,
+  description:
+    'Translate a symptom described in everyday words into a repertory query for search_repertory. ' +
+    'Swaps in repertory vocabulary (worse → agg, sharp pain → stitch*), drops filler words, ' +
+    'puts the body location first and adds wildcards to word stems. ' +
+    'Each change is listed with the rule that made it. Runs locally without searching.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      symptom: {
+        type: 'string',
+        description:
+          'Symptom in natural language (3-200 characters), e.g. "throbbing headache worse from motion"',
+        minLength: 3,
+        maxLength: 200,
+      },
+    },
+    required: ['symptom'],
+  },
+  outputSchema: zodToOutputSchema(RepertoryQueryTranslationSchema),
+};
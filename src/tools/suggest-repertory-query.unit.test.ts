@@ -0,0 +1,53 @@
+/**
+ * Unit tests for suggest_repertory_query tool
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  SuggestRepertoryQueryTool,
+  suggestRepertoryQueryToolDefinition,
+} from './suggest-repertory-query.js';
+import { createMockSDKClient } from './test-helpers.js';
+import { ValidationError } from '../utils/errors.js';
+
+describe('SuggestRepertoryQueryTool', () => {
+  let tool: SuggestRepertoryQueryTool;
+  let mockClient: ReturnType<typeof createMockSDKClient>;
+
+  beforeEach(() => {
+    mockClient = createMockSDKClient();
+    tool = new SuggestRepertoryQueryTool(mockClient);
+  });
+
+  describe('execute', () => {
+    it('execute when symptom given then returns translation from client', async () => {
+      const mockResult = {
+        original: 'worse motion',
+        query: 'agg motion*',
+        changes: [
+          { rule: 'vocabulary', from: 'worse', to: 'agg' },
+          { rule: 'wildcard', from: 'motion', to: 'motion*' },
+        ],
+      };
+      mockClient.suggestRepertoryQuery.mockResolvedValue(mockResult);
+
+      const result = await tool.execute({ symptom: '  worse motion ' });
+
+      expect(mockClient.suggestRepertoryQuery).toHaveBeenCalledWith({ symptom: 'worse motion' });
+      expect(result).toEqual(mockResult);
+    });
+
+    it('execute when symptom too short then throws validation error', async () => {
+      await expect(tool.execute({ symptom: 'ab' })).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('definition', () => {
+    it('definition when accessed then exposes query and changes', () => {
+      expect(suggestRepertoryQueryToolDefinition.name).toBe('suggest_repertory_query');
+      expect(suggestRepertoryQueryToolDefinition.inputSchema.required).toEqual(['symptom']);
+      expect(suggestRepertoryQueryToolDefinition.outputSchema.properties).toHaveProperty('query');
+      expect(suggestRepertoryQueryToolDefinition.outputSchema.properties).toHaveProperty('changes');
+    });
+  });
+});
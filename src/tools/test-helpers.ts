@@ -12,10 +12,24 @@ import type { IOOREPClient } from '../interfaces/IOOREPClient.js';
 export function createMockSDKClient(): IOOREPClient & { [K in keyof IOOREPClient]: Mock } {
   return {
     searchRepertory: vi.fn(),
+    iterateRepertory: vi.fn(),
     searchMateriaMedica: vi.fn(),
+    iterateMateriaMedica: vi.fn(),
     getRemedyInfo: vi.fn(),
+    listRemedies: vi.fn(),
     listRepertories: vi.fn(),
     listMateriaMedicas: vi.fn(),
+    repertorizeCase: vi.fn(),
+    crossReferenceSymptoms: vi.fn(),
+    createCase: vi.fn(),
+    addRubricToCase: vi.fn(),
+    removeRubricFromCase: vi.fn(),
+    getCase: vi.fn(),
+    listCases: vi.fn(),
+    deleteCase: vi.fn(),
+    getRubric: vi.fn(),
+    browseRubricChildren: vi.fn(),
+    suggestRepertoryQuery: vi.fn(),
     clearCache: vi.fn(),
     destroy: vi.fn(),
   };
@@ -0,0 +1,120 @@
+/**
+ * Per-tool settings from the server config file
+ *
+ * Defaults fill in arguments a call leaves out, and maxResults caps the
+ * tool's maxResults argument. Both are written into the tool's input schema so
+ * clients see them in tools/list.
+ */
+
+import type { ToolSettings } from '../utils/schemas.js';
+import type { OOREPCallOptions } from '../lib/oorep-client.js';
+import type { EmbeddedResourceContent, ToolDefinition, ToolHandler } from './index.js';
+
+type PropertySchema = Record<string, unknown>;
+
+/**
+ * Check that settings only name parameters the tool accepts
+ *
+ * @throws {Error} If a default or the maxResults limit names an unknown parameter
+ */
+export function validateToolSettings(definition: ToolDefinition, settings: ToolSettings): void {
+  const properties = definition.inputSchema.properties;
+  for (const name of Object.keys(settings.defaults ?? {})) {
+    if (!(name in properties)) {
+      throw new Error(`Config file: ${definition.name} has no parameter "${name}" to default`);
+    }
+  }
+  if (settings.maxResults !== undefined && !('maxResults' in properties)) {
+    throw new Error(`Config file: ${definition.name} has no maxResults parameter to limit`);
+  }
+}
+
+/**
+ * Tool definition whose input schema shows the configured defaults and limit
+ */
+export function applyToolSettingsToDefinition(
+  definition: ToolDefinition,
+  settings: ToolSettings
+): ToolDefinition {
+  const properties: Record<string, unknown> = { ...definition.inputSchema.properties };
+
+  for (const [name, value] of Object.entries(settings.defaults ?? {})) {
+    properties[name] = { ...(properties[name] as PropertySchema), default: value };
+  }
+
+  if (settings.maxResults !== undefined) {
+    const schema = properties.maxResults as PropertySchema;
+    const maximum =
+      typeof schema.maximum === 'number'
+        ? Math.min(schema.maximum, settings.maxResults)
+        : settings.maxResults;
+    properties.maxResults = {
+      ...schema,
+      maximum,
+      ...(typeof schema.default === 'number' && { default: Math.min(schema.default, maximum) }),
+    };
+  }
+
+  // Defaulted parameters no longer have to be passed
+  const required = definition.inputSchema.required?.filter(
+    (name) => !(name in (settings.defaults ?? {}))
+  );
+
+  return {
+    ...definition,
+    inputSchema: {
+      ...definition.inputSchema,
+      properties,
+      ...(required && { required }),
+    },
+  };
+}
+
+/**
+ * Tool handler that applies configured defaults and the maxResults limit
+ * before delegating to the tool
+ */
+export class ConfiguredToolHandler implements ToolHandler {
+  /**
+   * @param handler - The tool to delegate to
+   * @param settings - Defaults and limit from the config file
+   * @param defaultMaxResults - maxResults the SDK applies when a call omits it
+   */
+  constructor(
+    private readonly handler: ToolHandler,
+    private readonly settings: ToolSettings,
+    private readonly defaultMaxResults: number
+  ) {}
+
+  async execute(args: unknown, options: OOREPCallOptions = {}): Promise<unknown> {
+    return this.handler.execute(this.applySettings(args), options);
+  }
+
+  renderContent(args: unknown, result: unknown): EmbeddedResourceContent[] {
+    return this.handler.renderContent?.(this.applySettings(args), result) ?? [];
+  }
+
+  private applySettings(args: unknown): unknown {
+    if (args !== undefined && (typeof args !== 'object' || args === null || Array.isArray(args))) {
+      // Leave malformed arguments for the tool's own validation to reject
+      return args;
+    }
+
+    const merged: Record<string, unknown> = {
+      ...this.settings.defaults,
+      ...Object.fromEntries(Object.entries(args ?? {}).filter(([, value]) => value !== undefined)),
+    };
+
+    const limit = this.settings.maxResults;
+    if (limit !== undefined) {
+      const requested = merged.maxResults;
+      if (typeof requested === 'number') {
+        merged.maxResults = Math.min(requested, limit);
+      } else if (requested === undefined && limit < this.defaultMaxResults) {
+        merged.maxResults = limit;
+      }
+    }
+
+    return merged;
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Unit tests for per-tool settings from the server config file
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  ConfiguredToolHandler,
+  applyToolSettingsToDefinition,
+  validateToolSettings,
+} from './tool-settings.js';
+import type { ToolDefinition, ToolHandler } from './index.js';
+
+const definition: ToolDefinition = {
+  name: 'search_repertory',
+  description: 'Search',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      symptom: { type: 'string' },
+      repertory: { type: 'string' },
+      minWeight: { type: 'number', minimum: 1, maximum: 4 },
+      maxResults: { type: 'number', minimum: 1, maximum: 500 },
+    },
+    required: ['symptom'],
+  },
+};
+
+function createHandler(): ToolHandler & { execute: ReturnType<typeof vi.fn> } {
+  return {
+    execute: vi.fn().mockResolvedValue({ ok: true }),
+    renderContent: vi.fn().mockReturnValue([]),
+  };
+}
+
+describe('validateToolSettings', () => {
+  it('validateToolSettings when settings name known parameters then passes', () => {
+    expect(() =>
+      validateToolSettings(definition, { defaults: { minWeight: 2 }, maxResults: 50 })
+    ).not.toThrow();
+  });
+
+  it('validateToolSettings when default names unknown parameter then throws', () => {
+    expect(() => validateToolSettings(definition, { defaults: { weight: 2 } })).toThrow(
+      'Config file: search_repertory has no parameter "weight" to default'
+    );
+  });
+
+  it('validateToolSettings when tool has no maxResults then throws', () => {
+    const withoutMax = { ...definition, inputSchema: { type: 'object' as const, properties: {} } };
+
+    expect(() => validateToolSettings(withoutMax, { maxResults: 10 })).toThrow(
+      'Config file: search_repertory has no maxResults parameter to limit'
+    );
+  });
+});
+
+describe('applyToolSettingsToDefinition', () => {
+  it('applyToolSettingsToDefinition when defaults set then shows them in the schema', () => {
+    const result = applyToolSettingsToDefinition(definition, {
+      defaults: { minWeight: 2, repertory: 'kent' },
+    });
+
+    expect(result.inputSchema.properties.minWeight).toEqual({
+      type: 'number',
+      minimum: 1,
+      maximum: 4,
+      default: 2,
+    });
+    expect(result.inputSchema.properties.repertory).toMatchObject({ default: 'kent' });
+    expect(definition.inputSchema.properties.minWeight).not.toHaveProperty('default');
+  });
+
+  it('applyToolSettingsToDefinition when maxResults set then lowers the schema maximum', () => {
+    const result = applyToolSettingsToDefinition(definition, { maxResults: 50 });
+
+    expect(result.inputSchema.properties.maxResults).toMatchObject({ maximum: 50 });
+  });
+
+  it('applyToolSettingsToDefinition when required parameter defaulted then makes it optional', () => {
+    const result = applyToolSettingsToDefinition(definition, {
+      defaults: { symptom: 'headache' },
+    });
+
+    expect(result.inputSchema.required).toEqual([]);
+  });
+});
+
+describe('ConfiguredToolHandler', () => {
+  it('execute when argument omitted then uses the configured default', async () => {
+    const handler = createHandler();
+    const configured = new ConfiguredToolHandler(handler, { defaults: { minWeight: 2 } }, 100);
+
+    await configured.execute({ symptom: 'headache' });
+
+    expect(handler.execute).toHaveBeenCalledWith({ symptom: 'headache', minWeight: 2 }, {});
+  });
+
+  it('execute when argument passed then overrides the configured default', async () => {
+    const handler = createHandler();
+    const configured = new ConfiguredToolHandler(handler, { defaults: { minWeight: 2 } }, 100);
+
+    await configured.execute({ symptom: 'headache', minWeight: 3 });
+
+    expect(handler.execute).toHaveBeenCalledWith({ symptom: 'headache', minWeight: 3 }, {});
+  });
+
+  it('execute when maxResults above limit then clamps it', async () => {
+    const handler = createHandler();
+    const configured = new ConfiguredToolHandler(handler, { maxResults: 50 }, 100);
+
+    await configured.execute({ symptom: 'headache', maxResults: 200 });
+
+    expect(handler.execute).toHaveBeenCalledWith({ symptom: 'headache', maxResults: 50 }, {});
+  });
+
+  it('execute when maxResults omitted and limit below default then applies the limit', async () => {
+    const handler = createHandler();
+    const configured = new ConfiguredToolHandler(handler, { maxResults: 50 }, 100);
+
+    await configured.execute({ symptom: 'headache' });
+
+    expect(handler.execute).toHaveBeenCalledWith({ symptom: 'headache', maxResults: 50 }, {});
+  });
+
+  it('execute when maxResults omitted and limit above default then leaves it out', async () => {
+    const handler = createHandler();
+    const configured = new ConfiguredToolHandler(handler, { maxResults: 200 }, 100);
+
+    await configured.execute({ symptom: 'headache' });
+
+    expect(handler.execute).toHaveBeenCalledWith({ symptom: 'headache' }, {});
+  });
+
+  it('execute when arguments are not an object then passes them through', async () => {
+    const handler = createHandler();
+    const configured = new ConfiguredToolHandler(handler, { defaults: { minWeight: 2 } }, 100);
+
+    await configured.execute('bad');
+
+    expect(handler.execute).toHaveBeenCalledWith('bad', {});
+  });
+
+  it('renderContent when called then sees the configured arguments', () => {
+    const handler = createHandler();
+    const configured = new ConfiguredToolHandler(handler, { defaults: { format: 'csv' } }, 100);
+
+    configured.renderContent({ symptom: 'headache' }, { ok: true });
+
+    expect(handler.renderContent).toHaveBeenCalledWith(
+      { symptom: 'headache', format: 'csv' },
+      { ok: true }
+    );
+  });
+});
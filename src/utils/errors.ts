@@ -51,6 +51,25 @@ export class TimeoutError extends OOREPError {
   }
 }
 
+/**
+ * Error for requests cancelled through an AbortSignal
+ */
+export class CancelledError extends OOREPError {
+  constructor(message = 'Request cancelled', cause?: Error) {
+    super(message, cause);
+    this.name = 'CancelledError';
+  }
+}
+
+/**
+ * Throw a CancelledError if the signal has been aborted
+ */
+export function throwIfCancelled(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw new CancelledError();
+  }
+}
+
 /**
  * Error for rate limiting
  */
@@ -85,7 +104,7 @@ export class OOREPAPIError extends OOREPError {
 export class NotFoundError extends OOREPError {
   constructor(
     message: string,
-    public readonly resourceType: 'tool' | 'prompt' | 'resource',
+    public readonly resourceType: 'tool' | 'prompt' | 'resource' | 'case',
     public readonly resourceName: string,
     cause?: Error
   ) {
@@ -8,6 +8,8 @@ import {
   ValidationError,
   NetworkError,
   TimeoutError,
+  CancelledError,
+  throwIfCancelled,
   RateLimitError,
   OOREPAPIError,
   NotFoundError,
@@ -105,6 +107,26 @@ describe('TimeoutError', () => {
   });
 });
 
+describe('CancelledError', () => {
+  it('CancelledError when created without message then uses the default message', () => {
+    const error = new CancelledError();
+
+    expect(error).toBeInstanceOf(OOREPError);
+    expect(error.message).toBe('Request cancelled');
+    expect(error.name).toBe('CancelledError');
+  });
+
+  it('throwIfCancelled when signal aborted then throws CancelledError', () => {
+    const controller = new AbortController();
+    expect(() => throwIfCancelled(controller.signal)).not.toThrow();
+    expect(() => throwIfCancelled(undefined)).not.toThrow();
+
+    controller.abort();
+
+    expect(() => throwIfCancelled(controller.signal)).toThrow(CancelledError);
+  });
+});
+
 describe('RateLimitError', () => {
   it('RateLimitError when created with retryAfter then has correct properties', () => {
     const message = 'Rate limited';
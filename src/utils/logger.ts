@@ -3,6 +3,7 @@
  * All logs go to stderr to avoid interfering with stdout (MCP protocol)
  */
 
+import { AsyncLocalStorage } from 'node:async_hooks';
 import type { ILogger, LogLevel } from '../interfaces/ILogger.js';
 
 export type { ILogger, LogLevel } from '../interfaces/ILogger.js';
@@ -28,6 +29,10 @@ export class ConsoleLogger implements ILogger {
     this.level = level;
   }
 
+  getLevel(): LogLevel {
+    return this.level;
+  }
+
   private shouldLog(level: LogLevel): boolean {
     return this.levels[level] >= this.levels[this.level];
   }
@@ -67,7 +72,69 @@ export class ConsoleLogger implements ILogger {
   }
 }
 
+/**
+ * Console logger that also forwards records to the logger of the work that
+ * produced them
+ *
+ * Records logged inside withTarget(), including from async work it starts,
+ * reach that call's target and no other, so concurrent MCP sessions only see
+ * their own records. Targets apply their own level, so the console level does
+ * not limit what they receive.
+ */
+export class ForwardingLogger extends ConsoleLogger {
+  private readonly scope = new AsyncLocalStorage<ILogger>();
+  private forwarding = false;
+
+  /**
+   * Run `fn` with its records forwarded to `target`
+   */
+  withTarget<R>(target: ILogger, fn: () => R): R {
+    return this.scope.run(target, fn);
+  }
+
+  /**
+   * Run `fn` without forwarding, for work shared by several targets such as timers
+   */
+  withoutTarget<R>(fn: () => R): R {
+    return this.scope.exit(fn);
+  }
+
+  debug(message: string, ...args: unknown[]): void {
+    super.debug(message, ...args);
+    this.forward((target) => target.debug(message, ...args));
+  }
+
+  info(message: string, ...args: unknown[]): void {
+    super.info(message, ...args);
+    this.forward((target) => target.info(message, ...args));
+  }
+
+  warn(message: string, ...args: unknown[]): void {
+    super.warn(message, ...args);
+    this.forward((target) => target.warn(message, ...args));
+  }
+
+  error(message: string, error?: Error | unknown, ...args: unknown[]): void {
+    super.error(message, error, ...args);
+    this.forward((target) => target.error(message, error, ...args));
+  }
+
+  private forward(log: (target: ILogger) => void): void {
+    const target = this.scope.getStore();
+    // Records logged while forwarding stay on the console, so a target cannot loop
+    if (!target || this.forwarding) {
+      return;
+    }
+    this.forwarding = true;
+    try {
+      log(target);
+    } finally {
+      this.forwarding = false;
+    }
+  }
+}
+
 /**
  * Global logger instance
  */
-export const logger = new ConsoleLogger((process.env.OOREP_MCP_LOG_LEVEL as LogLevel) || 'info');
+export const logger = new ForwardingLogger((process.env.OOREP_MCP_LOG_LEVEL as LogLevel) || 'info');
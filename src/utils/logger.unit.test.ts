@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { ConsoleLogger } from './logger.js';
+import { ConsoleLogger, ForwardingLogger } from './logger.js';
 import { Logger, type LogLevel } from './logger.js';
 
 describe('ConsoleLogger', () => {
@@ -274,3 +274,80 @@ describe('ConsoleLogger', () => {
     );
   });
 });
+
+describe('ForwardingLogger', () => {
+  const target = () => ({ debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('withTarget when records logged then forwards them below the console level', () => {
+    const logger = new ForwardingLogger('error');
+    const scoped = target();
+    const error = new Error('boom');
+
+    logger.withTarget(scoped, () => {
+      logger.debug('fetching', { page: 1 });
+      logger.error('failed', error, { page: 2 });
+    });
+
+    expect(console.error).toHaveBeenCalledTimes(1);
+    expect(scoped.debug).toHaveBeenCalledWith('fetching', { page: 1 });
+    expect(scoped.error).toHaveBeenCalledWith('failed', error, { page: 2 });
+  });
+
+  it('withTarget when records logged from async work then forwards only to that target', async () => {
+    const logger = new ForwardingLogger('info');
+    const first = target();
+    const second = target();
+    const later = () => new Promise((resolve) => setTimeout(resolve, 1));
+
+    await Promise.all([
+      logger.withTarget(first, async () => {
+        await later();
+        logger.info('first');
+      }),
+      logger.withTarget(second, async () => {
+        await later();
+        logger.info('second');
+      }),
+    ]);
+    logger.info('outside');
+
+    expect(first.info.mock.calls).toEqual([['first']]);
+    expect(second.info.mock.calls).toEqual([['second']]);
+  });
+
+  it('withoutTarget when called inside withTarget then does not forward', () => {
+    const logger = new ForwardingLogger('info');
+    const scoped = target();
+
+    logger.withTarget(scoped, () => logger.withoutTarget(() => logger.info('shared')));
+
+    expect(scoped.info).not.toHaveBeenCalled();
+  });
+
+  it('ForwardingLogger when target logs while forwarding then keeps that record on the console', () => {
+    const logger = new ForwardingLogger('info');
+    const looping = target();
+    looping.info.mockImplementation(() => logger.info('nested'));
+
+    logger.withTarget(looping, () => logger.info('outer'));
+
+    expect(looping.info).toHaveBeenCalledTimes(1);
+    expect(console.error).toHaveBeenCalledTimes(2);
+  });
+
+  it('getLevel when level changed then returns the new level', () => {
+    const logger = new ForwardingLogger('info');
+
+    logger.setLevel('warn');
+
+    expect(logger.getLevel()).toBe('warn');
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Logger that sends records to a connected MCP client as notifications/message
+ *
+ * Record details are redacted first: member IDs, cookies and session IDs never
+ * reach the client, and errors are reduced to their sanitized message.
+ */
+
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
+import type { ILogger, LogLevel } from '../interfaces/ILogger.js';
+import { sanitizeError } from './errors.js';
+
+/** Name the server's records carry in the notification's `logger` field */
+const LOGGER_NAME = 'oorep-mcp';
+
+const REDACTED = '[REDACTED]';
+
+/** Fields whose values are replaced wherever they occur in a record */
+const SENSITIVE_KEYS = new Set([
+  'remoteuser',
+  'x-remote-user',
+  'cookie',
+  'set-cookie',
+  'authorization',
+  'sessionid',
+  'mcp-session-id',
+]);
+
+/** Member IDs also appear inside cache keys, e.g. `repertory:remoteUser=42&symptom=...` */
+const REMOTE_USER_IN_TEXT = /(remoteUser=)[^&#\s]*/gi;
+
+/** Nesting depth beyond which record details are cut off */
+const MAX_DEPTH = 5;
+
+const LEVELS: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+const MCP_LEVELS: Record<LogLevel, LoggingLevel> = {
+  debug: 'debug',
+  info: 'info',
+  warn: 'warning',
+  error: 'error',
+};
+
+/**
+ * Map an MCP logging level onto the nearest level the server logs at
+ */
+export function toLogLevel(level: LoggingLevel): LogLevel {
+  switch (level) {
+    case 'debug':
+      return 'debug';
+    case 'info':
+    case 'notice':
+      return 'info';
+    case 'warning':
+      return 'warn';
+    default:
+      return 'error';
+  }
+}
+
+/**
+ * Copy of a log record's details with sensitive values replaced
+ */
+export function redactLogData(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') {
+    return value.replace(REMOTE_USER_IN_TEXT, `$1${REDACTED}`);
+  }
+  if (value instanceof Error) {
+    return redactLogData(sanitizeError(value).message, depth);
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[Truncated]';
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactLogData(item, depth + 1));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      SENSITIVE_KEYS.has(key.toLowerCase()) ? REDACTED : redactLogData(item, depth + 1),
+    ])
+  );
+}
+
+/**
+ * ILogger for one MCP server's client
+ *
+ * Records are only sent once the client has initialized. Delivery failures are
+ * dropped: reporting them through a logger could loop back here.
+ */
+export class McpLogger implements ILogger {
+  constructor(
+    private readonly server: Server,
+    private level: LogLevel = 'info'
+  ) {}
+
+  setLevel(level: LogLevel): void {
+    this.level = level;
+  }
+
+  debug(message: string, ...args: unknown[]): void {
+    this.send('debug', message, args);
+  }
+
+  info(message: string, ...args: unknown[]): void {
+    this.send('info', message, args);
+  }
+
+  warn(message: string, ...args: unknown[]): void {
+    this.send('warn', message, args);
+  }
+
+  error(message: string, error?: Error | unknown, ...args: unknown[]): void {
+    this.send('error', message, error === undefined ? args : [error, ...args]);
+  }
+
+  private send(level: LogLevel, message: string, args: unknown[]): void {
+    if (
+      LEVELS[level] < LEVELS[this.level] ||
+      !this.server.transport ||
+      !this.server.getClientVersion()
+    ) {
+      return;
+    }
+
+    const data = {
+      message: redactLogData(message),
+      ...(args.length > 0 && { details: redactLogData(args.length === 1 ? args[0] : args) }),
+    };
+    this.server
+      .sendLoggingMessage({ level: MCP_LEVELS[level], logger: LOGGER_NAME, data })
+      .catch(() => undefined);
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Unit tests for the MCP client logger
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { McpLogger, redactLogData, toLogLevel } from './mcp-logger.js';
+import { NetworkError } from './errors.js';
+
+function createServerStub(connected = true) {
+  return {
+    transport: connected ? {} : undefined,
+    getClientVersion: vi.fn(() => (connected ? { name: 'client', version: '1.0.0' } : undefined)),
+    sendLoggingMessage: vi.fn().mockResolvedValue(undefined),
+  };
+}
+
+describe('redactLogData', () => {
+  it('redactLogData when record has sensitive fields then replaces them at any depth', () => {
+    const result = redactLogData({
+      symptom: 'headache',
+      remoteUser: '42',
+      headers: { Cookie: 'session=abc', 'X-Remote-User': '42' },
+      sessions: [{ sessionId: 'f00d' }],
+    });
+
+    expect(result).toEqual({
+      symptom: 'headache',
+      remoteUser: '[REDACTED]',
+      headers: { Cookie: '[REDACTED]', 'X-Remote-User': '[REDACTED]' },
+      sessions: [{ sessionId: '[REDACTED]' }],
+    });
+  });
+
+  it('redactLogData when text holds a cache key then hides the member ID', () => {
+    expect(redactLogData('Request deduplication: repertory:remoteUser=42&symptom=head')).toBe(
+      'Request deduplication: repertory:remoteUser=[REDACTED]&symptom=head'
+    );
+  });
+
+  it('redactLogData when value is an error then keeps only its sanitized message', () => {
+    expect(redactLogData(new NetworkError('HTTP 500: Internal Server Error', 500))).toBe(
+      'Network error: HTTP 500: Internal Server Error (HTTP 500)'
+    );
+    expect(redactLogData(new Error('/home/user/cases.json: EACCES'))).toBe(
+      'An unexpected error occurred while processing your request'
+    );
+  });
+
+  it('redactLogData when nested too deeply then truncates', () => {
+    expect(redactLogData({ a: { b: { c: { d: { e: { f: 1 } } } } } })).toEqual({
+      a: { b: { c: { d: { e: '[Truncated]' } } } },
+    });
+  });
+});
+
+describe('toLogLevel', () => {
+  it.each([
+    ['debug', 'debug'],
+    ['info', 'info'],
+    ['notice', 'info'],
+    ['warning', 'warn'],
+    ['error', 'error'],
+    ['critical', 'error'],
+    ['emergency', 'error'],
+  ] as const)('toLogLevel when %s then returns %s', (level, expected) => {
+    expect(toLogLevel(level)).toBe(expected);
+  });
+});
+
+describe('McpLogger', () => {
+  it('McpLogger when record at or above level then sends it with the MCP level name', () => {
+    const server = createServerStub();
+    const logger = new McpLogger(server as unknown as Server, 'warn');
+
+    logger.info('ignored');
+    logger.warn('Request failed, retrying', { remoteUser: '42', attempt: 1 });
+
+    expect(server.sendLoggingMessage).toHaveBeenCalledTimes(1);
+    expect(server.sendLoggingMessage).toHaveBeenCalledWith({
+      level: 'warning',
+      logger: 'oorep-mcp',
+      data: {
+        message: 'Request failed, retrying',
+        details: { remoteUser: '[REDACTED]', attempt: 1 },
+      },
+    });
+  });
+
+  it('McpLogger when error logged then sends the sanitized error with the details', () => {
+    const server = createServerStub();
+    const logger = new McpLogger(server as unknown as Server, 'debug');
+
+    logger.error('Tool execution failed', new Error('secret path'), { tool: 'search_repertory' });
+
+    expect(server.sendLoggingMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        level: 'error',
+        data: {
+          message: 'Tool execution failed',
+          details: [
+            'An unexpected error occurred while processing your request',
+            { tool: 'search_repertory' },
+          ],
+        },
+      })
+    );
+  });
+
+  it('McpLogger when level lowered then sends debug records', () => {
+    const server = createServerStub();
+    const logger = new McpLogger(server as unknown as Server);
+
+    logger.debug('before');
+    logger.setLevel('debug');
+    logger.debug('after');
+
+    expect(server.sendLoggingMessage).toHaveBeenCalledTimes(1);
+    expect(server.sendLoggingMessage.mock.calls[0][0].data).toEqual({ message: 'after' });
+  });
+
+  it('McpLogger when client not connected then sends nothing', () => {
+    const server = createServerStub(false);
+    const logger = new McpLogger(server as unknown as Server, 'debug');
+
+    logger.error('failed');
+
+    expect(server.sendLoggingMessage).not.toHaveBeenCalled();
+  });
+
+  it('McpLogger when sending fails then drops the record', async () => {
+    const server = createServerStub();
+    server.sendLoggingMessage.mockRejectedValue(new Error('Not connected'));
+    const logger = new McpLogger(server as unknown as Server);
+
+    expect(() => logger.info('dropped')).not.toThrow();
+    await Promise.resolve();
+  });
+});
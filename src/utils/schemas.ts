@@ -3,6 +3,17 @@
  */
 
 import { z } from 'zod/v4';
+import {
+  ALL_PROMPT_NAMES,
+  ALL_RESOURCE_URI_TEMPLATES,
+  ALL_RESOURCE_URIS,
+  ALL_TOOL_NAMES,
+  TOOL_NAMES,
+  type PromptName,
+  type ResourceUri,
+  type ResourceUriTemplate,
+  type ToolName,
+} from '../sdk/constants.js';
 
 // Re-export z for consistent usage across the codebase
 export { z };
@@ -11,6 +22,20 @@ export { z };
 // Tool Input Schemas
 // ====================
 
+export const RemedyRankingNameSchema = z.enum(['kent', 'boenninghausen', 'boger', 'small-remedy']);
+
+export const RepertoryExportFormatSchema = z.enum(['json', 'csv', 'markdown', 'html', 'svg']);
+
+/**
+ * OOREP member to act as for a single SDK call; blank means the configured default
+ */
+export const RemoteUserSchema = z
+  .string()
+  .trim()
+  .regex(/^\d*$/, 'remoteUser must be a numeric OOREP member ID')
+  .transform((remoteUser) => remoteUser || undefined)
+  .describe('Numeric OOREP member ID sent as X-Remote-User for this call only');
+
 export const SearchRepertoryArgsSchema = z.object({
   symptom: z
     .string()
@@ -24,6 +49,10 @@ export const SearchRepertoryArgsSchema = z.object({
       'Repertory abbreviation. Use list_available_repertories to discover options. Defaults to OOREP_MCP_DEFAULT_REPERTORY when omitted.'
     ),
   minWeight: z.number().int().min(1).max(4).optional().describe('Minimum remedy weight (1-4)'),
+  remedy: z
+    .string()
+    .optional()
+    .describe('Only return rubrics containing this remedy (name, abbreviation or alternate name)'),
   maxResults: z
     .number()
     .int()
@@ -38,6 +67,28 @@ export const SearchRepertoryArgsSchema = z.object({
     .optional()
     .default(true)
     .describe('Include remedy statistics in results'),
+  page: z.number().int().min(0).optional().describe('Zero-based result page to fetch'),
+  cursor: z
+    .string()
+    .optional()
+    .describe('Opaque cursor from a previous nextCursor. Takes precedence over page.'),
+  groupBy: z
+    .enum(['flat', 'tree', 'chapter'])
+    .optional()
+    .describe(
+      'Result layout: flat rubric list (default), chapter groups, or a chapter > root rubric > sub-rubric tree'
+    ),
+  ranking: RemedyRankingNameSchema.optional().describe(
+    'Strategy used to rank remedyStats; adds a score breakdown to each remedy'
+  ),
+  format: RepertoryExportFormatSchema.optional().describe(
+    'Also return a remedy × rubric chart in this format as an embedded resource (default json: none)'
+  ),
+  autoTranslate: z
+    .boolean()
+    .optional()
+    .describe('Rewrite a natural-language symptom into repertory terms before searching'),
+  remoteUser: RemoteUserSchema.optional(),
 });
 
 export const SearchMateriaMedicaArgsSchema = z.object({
@@ -62,18 +113,221 @@ export const SearchMateriaMedicaArgsSchema = z.object({
     .describe(
       'Maximum number of results to return. Defaults to OOREP_MCP_MAX_RESULTS when omitted.'
     ),
+  page: z.number().int().min(0).optional().describe('Zero-based result page to fetch'),
+  cursor: z
+    .string()
+    .optional()
+    .describe('Opaque cursor from a previous nextCursor. Takes precedence over page.'),
+  remoteUser: RemoteUserSchema.optional(),
 });
 
 export const GetRemedyInfoArgsSchema = z.object({
   remedy: z.string().min(1, 'Remedy name is required').describe('Remedy name or abbreviation'),
+  remoteUser: RemoteUserSchema.optional(),
 });
 
 export const ListRepertoriesArgsSchema = z.object({
   language: z.string().optional().describe('Filter by language (e.g., "en", "de")'),
+  remoteUser: RemoteUserSchema.optional(),
 });
 
 export const ListMateriaMedicasArgsSchema = z.object({
   language: z.string().optional().describe('Filter by language (e.g., "en", "de")'),
+  remoteUser: RemoteUserSchema.optional(),
+});
+
+const CaseRubricSelectionShape = z.object({
+  id: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Rubric ID from a previous search_repertory result'),
+  query: z
+    .string()
+    .min(3, 'Query must be at least 3 characters')
+    .max(200, 'Query must not exceed 200 characters')
+    .transform((s) => s.trim())
+    .optional()
+    .describe('Repertory search; the first matching rubric is used unless id is also given'),
+  repertory: z.string().optional().describe('Repertory abbreviation for this rubric'),
+  intensity: z
+    .number()
+    .int()
+    .min(1)
+    .max(4)
+    .optional()
+    .describe('Importance of this symptom in the case (1-4, default 1)'),
+});
+
+const hasRubricIdOrQuery = (selection: { id?: number; query?: string }) =>
+  selection.id !== undefined || selection.query !== undefined;
+
+export const CaseRubricSelectionSchema = CaseRubricSelectionShape.refine(hasRubricIdOrQuery, {
+  message: 'Each rubric needs an id or a query',
+});
+
+export const RepertorizeCaseArgsSchema = z.object({
+  rubrics: z
+    .array(CaseRubricSelectionSchema)
+    .min(1, 'Select at least one rubric')
+    .max(50, 'A case may contain at most 50 rubrics'),
+  repertory: z.string().optional().describe('Default repertory for rubrics that do not name one'),
+  minWeight: z.number().int().min(1).max(4).optional().describe('Minimum remedy grade (1-4)'),
+  maxRemedies: z
+    .number()
+    .int()
+    .min(1)
+    .max(200)
+    .optional()
+    .describe('Number of top remedies to return per ranking (default 20)'),
+});
+
+export const CrossReferenceQuerySchema = z.object({
+  symptom: z
+    .string()
+    .min(3, 'Symptom must be at least 3 characters')
+    .max(200, 'Symptom must not exceed 200 characters')
+    .transform((s) => s.trim())
+    .describe('Repertory search for one symptom'),
+  repertory: z.string().optional().describe('Repertory abbreviation for this query'),
+  minWeight: z.number().int().min(1).max(4).optional().describe('Minimum remedy grade (1-4)'),
+  eliminative: z
+    .boolean()
+    .optional()
+    .describe('Drop every remedy that does not appear in this query (default false)'),
+});
+
+export const CrossReferenceSymptomsArgsSchema = z.object({
+  queries: z
+    .array(CrossReferenceQuerySchema)
+    .min(2, 'Cross-reference at least two queries')
+    .max(10, 'At most 10 queries can be cross-referenced'),
+  repertory: z.string().optional().describe('Default repertory for queries that do not name one'),
+  minWeight: z
+    .number()
+    .int()
+    .min(1)
+    .max(4)
+    .optional()
+    .describe('Default minimum remedy grade for queries that do not set one'),
+  maxRemedies: z
+    .number()
+    .int()
+    .min(1)
+    .max(200)
+    .optional()
+    .describe('Number of remedies to return (default 20)'),
+});
+
+const CaseIdSchema = z
+  .string()
+  .trim()
+  .min(1, 'caseId is required')
+  .describe('Case ID returned by create_case');
+
+export const CreateCaseArgsSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Case name is required')
+    .max(200, 'Case name must not exceed 200 characters')
+    .describe('Name of the case, e.g. the patient alias and date'),
+  notes: z
+    .string()
+    .max(2000, 'Notes must not exceed 2000 characters')
+    .optional()
+    .describe('Free-text notes about the case'),
+});
+
+export const AddRubricToCaseArgsSchema = CaseRubricSelectionShape.extend({
+  caseId: CaseIdSchema,
+  minWeight: z.number().int().min(1).max(4).optional().describe('Minimum remedy grade (1-4)'),
+}).refine(hasRubricIdOrQuery, { message: 'A rubric needs an id or a query' });
+
+export const RemoveRubricFromCaseArgsSchema = z
+  .object({
+    caseId: CaseIdSchema,
+    rubricId: z.number().int().positive().optional().describe('OOREP ID of the rubric to remove'),
+    index: z
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe('Zero-based position of the rubric in the case'),
+  })
+  .refine((args) => args.rubricId !== undefined || args.index !== undefined, {
+    message: 'Pass the rubricId or the index of the rubric to remove',
+  });
+
+export const GetCaseArgsSchema = z.object({
+  caseId: CaseIdSchema,
+  repertorize: z.boolean().optional().describe('Also repertorize the case rubrics (default false)'),
+  maxRemedies: z
+    .number()
+    .int()
+    .min(1)
+    .max(200)
+    .optional()
+    .describe('Number of top remedies per ranking when repertorizing (default 20)'),
+});
+
+export const ListCasesArgsSchema = z.object({});
+
+export const DeleteCaseArgsSchema = z.object({
+  caseId: CaseIdSchema,
+});
+
+const RubricLookupQuerySchema = z
+  .string()
+  .min(3, 'Query must be at least 3 characters')
+  .max(200, 'Query must not exceed 200 characters')
+  .transform((s) => s.trim())
+  .optional()
+  .describe('Repertory search that finds the rubric if it has not been seen yet');
+
+export const GetRubricArgsSchema = z.object({
+  id: z.number().int().positive().describe('Rubric ID from a previous search_repertory result'),
+  repertory: z.string().optional().describe('Repertory abbreviation the rubric belongs to'),
+  query: RubricLookupQuerySchema,
+});
+
+export const BrowseRubricChildrenArgsSchema = z
+  .object({
+    id: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe('ID of the parent rubric from a previous search_repertory result'),
+    path: z
+      .string()
+      .trim()
+      .min(1, 'Path must not be empty')
+      .max(500, 'Path must not exceed 500 characters')
+      .optional()
+      .describe('Full path of the parent rubric, e.g. "Head, pain"'),
+    query: RubricLookupQuerySchema,
+    repertory: z.string().optional().describe('Repertory abbreviation to browse'),
+    depth: z
+      .number()
+      .int()
+      .min(1)
+      .max(5)
+      .optional()
+      .describe('Levels of sub-rubrics to return (1-5, default 1)'),
+  })
+  .refine((args) => args.id !== undefined || args.path !== undefined, {
+    message: 'Pass the id or the path of the parent rubric',
+  });
+
+export const SuggestRepertoryQueryArgsSchema = z.object({
+  symptom: z
+    .string()
+    .min(3, 'Symptom must be at least 3 characters')
+    .max(200, 'Symptom must not exceed 200 characters')
+    .transform((s) => s.trim())
+    .describe('Symptom in natural language, e.g. "throbbing headache worse from motion"'),
 });
 
 // ====================
@@ -81,33 +335,71 @@ export const ListMateriaMedicasArgsSchema = z.object({
 // ====================
 
 export const RemedySchema = z.object({
+  id: z.number().optional(),
   name: z.string(),
   abbreviation: z.string(),
   weight: z.number(),
 });
 
 export const RubricSchema = z.object({
+  id: z.number().optional(),
   rubric: z.string(),
+  path: z.string().optional(),
+  chapter: z.string().optional(),
   repertory: z.string(),
   weight: z.number().optional(),
   label: z.string().optional(),
   remedies: z.array(RemedySchema),
 });
 
+export const RubricTreeNodeSchema = z
+  .object({
+    name: z.string(),
+    path: z.string(),
+    rubric: RubricSchema.optional(),
+    rubricCount: z.number(),
+    remedyCount: z.number(),
+    get children() {
+      return z.array(RubricTreeNodeSchema);
+    },
+  })
+  .meta({ id: 'RubricTreeNode' });
+
+export const RemedyStatSchema = z.object({
+  name: z.string(),
+  abbreviation: z.string().optional(),
+  count: z.number(),
+  cumulativeWeight: z.number(),
+  // Present when a ranking strategy was requested
+  score: z.number().optional(),
+  scoreBreakdown: z.record(z.string(), z.number()).optional(),
+});
+
+export const QuerySuggestionSchema = z.object({
+  query: z.string(),
+  strategy: z.enum(['vocabulary', 'unquote', 'wildcard', 'drop-term']),
+  reason: z.string(),
+});
+
 export const RepertorySearchResultSchema = z.object({
   totalResults: z.number(),
   totalPages: z.number().optional(),
   currentPage: z.number().optional(),
+  nextCursor: z.string().optional(),
+  // True when maxResults cut the OOREP page short; nextCursor then resumes inside it
+  pageTruncated: z.boolean().optional(),
   rubrics: z.array(RubricSchema),
-  remedyStats: z
-    .array(
-      z.object({
-        name: z.string(),
-        count: z.number(),
-        cumulativeWeight: z.number(),
-      })
-    )
-    .optional(),
+  remedyStats: z.array(RemedyStatSchema).optional(),
+  // True when remedyStats were computed from the returned rubrics only
+  remedyStatsPartial: z.boolean().optional(),
+  // Ranking strategy applied to remedyStats, if one was requested
+  ranking: RemedyRankingNameSchema.optional(),
+  // Present when groupBy is 'tree' or 'chapter'
+  tree: z.array(RubricTreeNodeSchema).optional(),
+  // Broader queries to try, present when the search found no rubrics
+  suggestions: z.array(QuerySuggestionSchema).optional(),
+  // Query sent to OOREP, present when autoTranslate rewrote the symptom
+  translatedQuery: z.string().optional(),
 });
 
 export const MateriaMedicaSectionSchema = z.object({
@@ -124,9 +416,24 @@ export const MateriaMedicaResultSchema = z.object({
   hitCount: z.number().optional(),
 });
 
+export const MateriaMedicaRemedyHitsSchema = z.object({
+  remedyId: z.number(),
+  hits: z.number(),
+});
+
 export const MateriaMedicaSearchResultSchema = z.object({
+  // Sum of matching sections across every remedy chapter, not just this page
   totalResults: z.number(),
+  // Number of remedy chapters with at least one match, across all pages
+  totalRemedies: z.number().optional(),
+  totalPages: z.number().optional(),
+  currentPage: z.number().optional(),
+  nextCursor: z.string().optional(),
+  // True when maxResults cut the OOREP page short; nextCursor then resumes inside it
+  pageTruncated: z.boolean().optional(),
   results: z.array(MateriaMedicaResultSchema),
+  // Matching section counts for every remedy chapter, including those on other pages
+  remedyHits: z.array(MateriaMedicaRemedyHitsSchema).optional(),
 });
 
 export const RepertoryMetadataSchema = z.object({
@@ -159,25 +466,302 @@ export const RemedyInfoSchema = z.object({
   nameAlt: z.array(z.string()).optional(),
 });
 
+export const CaseRubricSchema = z.object({
+  index: z.number(),
+  id: z.number().optional(),
+  rubric: z.string(),
+  repertory: z.string(),
+  intensity: z.number(),
+  remedyCount: z.number(),
+});
+
+export const RepertorizedRemedySchema = z.object({
+  name: z.string(),
+  abbreviation: z.string(),
+  // Grade per case rubric, aligned with `rubrics`; 0 when the remedy is absent
+  grades: z.array(z.number()),
+  sumOfGrades: z.number(),
+  sumOfSymptoms: z.number(),
+  coverage: z.number(),
+  ranks: z.object({
+    sumOfGrades: z.number(),
+    sumOfSymptoms: z.number(),
+    coverage: z.number(),
+  }),
+});
+
+export const RepertorizationResultSchema = z.object({
+  rubrics: z.array(CaseRubricSchema),
+  totalRemedies: z.number(),
+  remedies: z.array(RepertorizedRemedySchema),
+  rankings: z.object({
+    sumOfGrades: z.array(z.string()),
+    sumOfSymptoms: z.array(z.string()),
+    coverage: z.array(z.string()),
+  }),
+  unresolved: z
+    .array(
+      z.object({
+        index: z.number(),
+        id: z.number().optional(),
+        query: z.string().optional(),
+        reason: z.string(),
+      })
+    )
+    .optional(),
+});
+
+export const CrossReferenceQuerySummarySchema = z.object({
+  index: z.number(),
+  symptom: z.string(),
+  repertory: z.string(),
+  eliminative: z.boolean(),
+  totalResults: z.number(),
+  remedyCount: z.number(),
+  // True if the query's remedies only cover its first page of rubrics
+  remedyStatsPartial: z.boolean().optional(),
+});
+
+export const CrossReferencedRemedySchema = z.object({
+  name: z.string(),
+  abbreviation: z.string(),
+  // Number of queries the remedy appears in, and their indices
+  matchedQueries: z.number(),
+  queries: z.array(z.number()),
+  cumulativeWeight: z.number(),
+});
+
+export const EliminatedRemedySchema = CrossReferencedRemedySchema.extend({
+  eliminatedBy: z.array(z.number()),
+  reason: z.string(),
+});
+
+export const CrossReferenceResultSchema = z.object({
+  queries: z.array(CrossReferenceQuerySummarySchema),
+  totalRemedies: z.number(),
+  remedies: z.array(CrossReferencedRemedySchema),
+  totalEliminated: z.number(),
+  eliminated: z.array(EliminatedRemedySchema),
+});
+
+export const SavedCaseRubricSchema = RubricSchema.extend({
+  // Importance of the symptom (1-4) and when it was added to the case
+  intensity: z.number(),
+  addedAt: z.string(),
+});
+
+export const SavedCaseSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  notes: z.string().optional(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  rubrics: z.array(SavedCaseRubricSchema),
+});
+
+export const CaseSummarySchema = SavedCaseSchema.omit({ rubrics: true }).extend({
+  rubricCount: z.number(),
+});
+
+export const CaseDetailsSchema = SavedCaseSchema.extend({
+  repertorization: RepertorizationResultSchema.optional(),
+});
+
+export const DeleteCaseResultSchema = z.object({
+  caseId: z.string(),
+  deleted: z.boolean(),
+});
+
+export const RubricDetailsSchema = z.object({
+  rubric: RubricSchema,
+  // oorep:// resource URI of the rubric
+  uri: z.string(),
+  // Full paths from the chapter down to the direct parent
+  ancestors: z.array(z.string()),
+  // Present when the parent path is itself a rubric in the repertory
+  parent: RubricSchema.optional(),
+});
+
+export const RubricChildrenResultSchema = z.object({
+  repertory: z.string(),
+  path: z.string(),
+  rubric: RubricSchema.optional(),
+  totalChildren: z.number(),
+  children: z.array(RubricTreeNodeSchema),
+  // True when the repertory had more descendants than could be fetched
+  partial: z.boolean(),
+});
+
+export const QueryTranslationChangeSchema = z.object({
+  rule: z.enum(['vocabulary', 'stop-word', 'reorder', 'wildcard']),
+  from: z.string(),
+  // Empty when the rule removed the term
+  to: z.string(),
+});
+
+export const RepertoryQueryTranslationSchema = z.object({
+  original: z.string(),
+  query: z.string(),
+  // Rules applied, in order
+  changes: z.array(QueryTranslationChangeSchema),
+});
+
+// ====================
+// Server Config File Schemas
+// ====================
+
+const ToolNameSchema = z.enum(ALL_TOOL_NAMES as [ToolName, ...ToolName[]]);
+
+/** Argument schema of each tool, which its configured defaults must satisfy */
+const TOOL_ARGS_SCHEMAS: Record<ToolName, z.ZodObject> = {
+  [TOOL_NAMES.SEARCH_REPERTORY]: SearchRepertoryArgsSchema,
+  [TOOL_NAMES.SEARCH_MATERIA_MEDICA]: SearchMateriaMedicaArgsSchema,
+  [TOOL_NAMES.GET_REMEDY_INFO]: GetRemedyInfoArgsSchema,
+  [TOOL_NAMES.LIST_REPERTORIES]: ListRepertoriesArgsSchema,
+  [TOOL_NAMES.LIST_MATERIA_MEDICAS]: ListMateriaMedicasArgsSchema,
+  [TOOL_NAMES.REPERTORIZE_CASE]: RepertorizeCaseArgsSchema,
+  [TOOL_NAMES.CROSS_REFERENCE_SYMPTOMS]: CrossReferenceSymptomsArgsSchema,
+  [TOOL_NAMES.CREATE_CASE]: CreateCaseArgsSchema,
+  [TOOL_NAMES.ADD_RUBRIC_TO_CASE]: AddRubricToCaseArgsSchema,
+  [TOOL_NAMES.REMOVE_RUBRIC_FROM_CASE]: RemoveRubricFromCaseArgsSchema,
+  [TOOL_NAMES.GET_CASE]: GetCaseArgsSchema,
+  [TOOL_NAMES.LIST_CASES]: ListCasesArgsSchema,
+  [TOOL_NAMES.DELETE_CASE]: DeleteCaseArgsSchema,
+  [TOOL_NAMES.GET_RUBRIC]: GetRubricArgsSchema,
+  [TOOL_NAMES.BROWSE_RUBRIC_CHILDREN]: BrowseRubricChildrenArgsSchema,
+  [TOOL_NAMES.SUGGEST_REPERTORY_QUERY]: SuggestRepertoryQueryArgsSchema,
+};
+
+export const ToolSettingsSchema = z
+  .object({
+    defaults: z
+      .record(z.string(), z.unknown())
+      .optional()
+      .describe('Argument values used when a call leaves them out'),
+    maxResults: z
+      .number()
+      .int()
+      .min(1)
+      .optional()
+      .describe('Upper bound for the maxResults argument'),
+  })
+  .strict();
+
+export const ServerConfigFileSchema = z
+  .object({
+    tools: z
+      .object({
+        disabled: z.array(ToolNameSchema).optional(),
+        settings: z
+          .partialRecord(ToolNameSchema, ToolSettingsSchema)
+          .superRefine((settings, ctx) => {
+            // Each default is checked on its own, since a call still supplies the rest
+            for (const [tool, toolSettings] of Object.entries(settings)) {
+              const shape = TOOL_ARGS_SCHEMAS[tool as ToolName].shape;
+              for (const [name, value] of Object.entries(toolSettings?.defaults ?? {})) {
+                const path = [tool, 'defaults', name];
+                const parameter = shape[name];
+                if (!parameter) {
+                  ctx.addIssue({
+                    code: 'custom',
+                    message: `${tool} has no parameter "${name}"`,
+                    path,
+                  });
+                  continue;
+                }
+                for (const issue of parameter.safeParse(value).error?.issues ?? []) {
+                  ctx.addIssue({
+                    code: 'custom',
+                    message: issue.message,
+                    path: [...path, ...issue.path],
+                  });
+                }
+              }
+            }
+          })
+          .optional(),
+      })
+      .strict()
+      .optional(),
+    resources: z
+      .object({
+        disabled: z
+          .array(
+            z.enum([...ALL_RESOURCE_URIS, ...ALL_RESOURCE_URI_TEMPLATES] as [
+              ResourceUri | ResourceUriTemplate,
+              ...Array<ResourceUri | ResourceUriTemplate>,
+            ])
+          )
+          .optional(),
+      })
+      .strict()
+      .optional(),
+    prompts: z
+      .object({
+        disabled: z.array(z.enum(ALL_PROMPT_NAMES as [PromptName, ...PromptName[]])).optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
 // ====================
 // Type exports
 // ====================
 
+export type ToolSettings = z.infer<typeof ToolSettingsSchema>;
+export type ServerConfigFile = z.infer<typeof ServerConfigFileSchema>;
 export type SearchRepertoryArgs = z.infer<typeof SearchRepertoryArgsSchema>;
 export type SearchMateriaMedicaArgs = z.infer<typeof SearchMateriaMedicaArgsSchema>;
 export type GetRemedyInfoArgs = z.infer<typeof GetRemedyInfoArgsSchema>;
 export type ListRepertoriesArgs = z.infer<typeof ListRepertoriesArgsSchema>;
 export type ListMateriaMedicasArgs = z.infer<typeof ListMateriaMedicasArgsSchema>;
+export type CaseRubricSelection = z.infer<typeof CaseRubricSelectionSchema>;
+export type RepertorizeCaseArgs = z.infer<typeof RepertorizeCaseArgsSchema>;
+export type CrossReferenceQuery = z.infer<typeof CrossReferenceQuerySchema>;
+export type CrossReferenceSymptomsArgs = z.infer<typeof CrossReferenceSymptomsArgsSchema>;
+export type CreateCaseArgs = z.infer<typeof CreateCaseArgsSchema>;
+export type AddRubricToCaseArgs = z.infer<typeof AddRubricToCaseArgsSchema>;
+export type RemoveRubricFromCaseArgs = z.infer<typeof RemoveRubricFromCaseArgsSchema>;
+export type GetCaseArgs = z.infer<typeof GetCaseArgsSchema>;
+export type ListCasesArgs = z.infer<typeof ListCasesArgsSchema>;
+export type DeleteCaseArgs = z.infer<typeof DeleteCaseArgsSchema>;
+export type GetRubricArgs = z.infer<typeof GetRubricArgsSchema>;
+export type BrowseRubricChildrenArgs = z.infer<typeof BrowseRubricChildrenArgsSchema>;
+export type SuggestRepertoryQueryArgs = z.infer<typeof SuggestRepertoryQueryArgsSchema>;
 
 export type Remedy = z.infer<typeof RemedySchema>;
 export type Rubric = z.infer<typeof RubricSchema>;
+export type RubricGroupBy = NonNullable<SearchRepertoryArgs['groupBy']>;
+export type RubricTreeNode = z.infer<typeof RubricTreeNodeSchema>;
+export type RemedyStat = z.infer<typeof RemedyStatSchema>;
+export type RemedyRankingName = z.infer<typeof RemedyRankingNameSchema>;
+export type RepertoryExportFormat = z.infer<typeof RepertoryExportFormatSchema>;
+export type QuerySuggestion = z.infer<typeof QuerySuggestionSchema>;
 export type RepertorySearchResult = z.infer<typeof RepertorySearchResultSchema>;
 export type MateriaMedicaSection = z.infer<typeof MateriaMedicaSectionSchema>;
 export type MateriaMedicaResult = z.infer<typeof MateriaMedicaResultSchema>;
+export type MateriaMedicaRemedyHits = z.infer<typeof MateriaMedicaRemedyHitsSchema>;
 export type MateriaMedicaSearchResult = z.infer<typeof MateriaMedicaSearchResultSchema>;
 export type RepertoryMetadata = z.infer<typeof RepertoryMetadataSchema>;
 export type MateriaMedicaMetadata = z.infer<typeof MateriaMedicaMetadataSchema>;
 export type RemedyInfo = z.infer<typeof RemedyInfoSchema>;
+export type CaseRubric = z.infer<typeof CaseRubricSchema>;
+export type RepertorizedRemedy = z.infer<typeof RepertorizedRemedySchema>;
+export type RepertorizationResult = z.infer<typeof RepertorizationResultSchema>;
+export type CrossReferenceQuerySummary = z.infer<typeof CrossReferenceQuerySummarySchema>;
+export type CrossReferencedRemedy = z.infer<typeof CrossReferencedRemedySchema>;
+export type EliminatedRemedy = z.infer<typeof EliminatedRemedySchema>;
+export type CrossReferenceResult = z.infer<typeof CrossReferenceResultSchema>;
+export type SavedCaseRubric = z.infer<typeof SavedCaseRubricSchema>;
+export type SavedCase = z.infer<typeof SavedCaseSchema>;
+export type CaseSummary = z.infer<typeof CaseSummarySchema>;
+export type CaseDetails = z.infer<typeof CaseDetailsSchema>;
+export type DeleteCaseResult = z.infer<typeof DeleteCaseResultSchema>;
+export type RubricDetails = z.infer<typeof RubricDetailsSchema>;
+export type RubricChildrenResult = z.infer<typeof RubricChildrenResultSchema>;
+export type QueryTranslationChange = z.infer<typeof QueryTranslationChangeSchema>;
+export type RepertoryQueryTranslation = z.infer<typeof RepertoryQueryTranslationSchema>;
 
 // ====================
 // Output Schema Utilities
@@ -191,6 +775,7 @@ export interface MCPOutputSchema {
   properties?: Record<string, unknown>;
   required?: string[];
   additionalProperties?: boolean;
+  $defs?: Record<string, unknown>;
 }
 
 /**
@@ -218,6 +803,10 @@ export function zodToOutputSchema(schema: z.ZodType): MCPOutputSchema {
     if ('required' in jsonSchema && Array.isArray(jsonSchema.required)) {
       result.required = jsonSchema.required as string[];
     }
+    // Recursive schemas reference shared definitions
+    if ('$defs' in jsonSchema && jsonSchema.$defs) {
+      result.$defs = jsonSchema.$defs as Record<string, unknown>;
+    }
   }
 
   return result;
@@ -462,6 +462,13 @@ describe('zodToOutputSchema', () => {
     expect(result.properties).toHaveProperty('items');
   });
 
+  it('zodToOutputSchema when schema is recursive then keeps shared definitions', () => {
+    const result = zodToOutputSchema(RepertorySearchResultSchema);
+
+    expect(result.properties).toHaveProperty('tree');
+    expect(result.$defs).toHaveProperty('RubricTreeNode');
+  });
+
   it('zodToOutputSchema when RepertorySearchResultSchema then returns valid MCP outputSchema', () => {
     const result = zodToOutputSchema(RepertorySearchResultSchema);
 